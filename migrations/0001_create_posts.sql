@@ -0,0 +1,44 @@
+-- Migration number: 0001
+-- Posts, comments and replies for PostsRepository (D1 / SQLite)
+
+CREATE TABLE posts (
+  id TEXT PRIMARY KEY,
+  username TEXT NOT NULL,
+  user_avatar TEXT NOT NULL,
+  image TEXT NOT NULL,
+  caption TEXT NOT NULL,
+  likes INTEGER NOT NULL DEFAULT 0,
+  time_ago TEXT NOT NULL,
+  total_comments_count INTEGER NOT NULL DEFAULT 0,
+  created_at INTEGER NOT NULL
+);
+
+CREATE INDEX idx_posts_created_at ON posts (created_at DESC);
+
+-- Comment ids are only unique within their post
+CREATE TABLE comments (
+  post_id TEXT NOT NULL REFERENCES posts (id) ON DELETE CASCADE,
+  id TEXT NOT NULL,
+  username TEXT NOT NULL,
+  user_avatar TEXT NOT NULL,
+  text TEXT NOT NULL,
+  likes INTEGER NOT NULL DEFAULT 0,
+  time_ago TEXT NOT NULL,
+  created_at INTEGER NOT NULL,
+  PRIMARY KEY (post_id, id)
+);
+
+-- Reply ids are only unique within their comment
+CREATE TABLE replies (
+  post_id TEXT NOT NULL,
+  comment_id TEXT NOT NULL,
+  id TEXT NOT NULL,
+  username TEXT NOT NULL,
+  user_avatar TEXT NOT NULL,
+  text TEXT NOT NULL,
+  likes INTEGER NOT NULL DEFAULT 0,
+  time_ago TEXT NOT NULL,
+  created_at INTEGER NOT NULL,
+  PRIMARY KEY (post_id, comment_id, id),
+  FOREIGN KEY (post_id, comment_id) REFERENCES comments (post_id, id) ON DELETE CASCADE
+);
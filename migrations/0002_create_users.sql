@@ -0,0 +1,25 @@
+-- Migration number: 0002
+-- Accounts and login sessions for UsersRepository
+
+CREATE TABLE users (
+  id TEXT PRIMARY KEY,
+  username TEXT NOT NULL UNIQUE COLLATE NOCASE,
+  user_avatar TEXT NOT NULL,
+  password_hash TEXT NOT NULL,
+  created_at INTEGER NOT NULL
+);
+
+-- token_hash is the SHA-256 of the bearer token handed to the client
+CREATE TABLE sessions (
+  token_hash TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+  expires_at INTEGER NOT NULL,
+  created_at INTEGER NOT NULL
+);
+
+CREATE INDEX idx_sessions_user_id ON sessions (user_id);
+
+-- Authors of new content; NULL for rows created before accounts existed
+ALTER TABLE posts ADD COLUMN user_id TEXT REFERENCES users (id);
+ALTER TABLE comments ADD COLUMN user_id TEXT REFERENCES users (id);
+ALTER TABLE replies ADD COLUMN user_id TEXT REFERENCES users (id);
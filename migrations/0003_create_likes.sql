@@ -0,0 +1,15 @@
+-- Migration number: 0003
+-- One row per (user, target) so a like can only be counted once.
+-- comment_id / reply_id are '' when the target is a post / comment.
+
+CREATE TABLE likes (
+  user_id TEXT NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+  post_id TEXT NOT NULL,
+  comment_id TEXT NOT NULL DEFAULT '',
+  reply_id TEXT NOT NULL DEFAULT '',
+  created_at INTEGER NOT NULL,
+  PRIMARY KEY (user_id, post_id, comment_id, reply_id)
+);
+
+-- Paging through who liked a target, newest first
+CREATE INDEX idx_likes_target ON likes (post_id, comment_id, reply_id, created_at DESC, user_id DESC);
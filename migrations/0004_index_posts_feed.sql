@@ -0,0 +1,8 @@
+-- Migration number: 0004
+-- Feed paging walks posts by (created_at, id), optionally per author
+
+DROP INDEX idx_posts_created_at;
+
+CREATE INDEX idx_posts_feed ON posts (created_at DESC, id DESC);
+
+CREATE INDEX idx_posts_username ON posts (username, created_at DESC, id DESC);
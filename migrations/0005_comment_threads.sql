@@ -0,0 +1,15 @@
+-- Migration number: 0005
+-- Reply counts and indexes for paging comment/reply threads
+
+ALTER TABLE comments ADD COLUMN reply_count INTEGER NOT NULL DEFAULT 0;
+
+UPDATE comments SET reply_count = (
+  SELECT COUNT(*) FROM replies
+  WHERE replies.post_id = comments.post_id AND replies.comment_id = comments.id
+);
+
+CREATE INDEX idx_comments_top ON comments (post_id, likes DESC, id DESC);
+
+CREATE INDEX idx_comments_newest ON comments (post_id, created_at DESC, id DESC);
+
+CREATE INDEX idx_replies_thread ON replies (post_id, comment_id, created_at, id);
@@ -0,0 +1,10 @@
+-- Migration number: 0006
+-- Edit markers for posts, comments and replies, and soft-deleted comments
+
+ALTER TABLE posts ADD COLUMN edited_at INTEGER;
+
+ALTER TABLE comments ADD COLUMN edited_at INTEGER;
+
+ALTER TABLE comments ADD COLUMN deleted_at INTEGER;
+
+ALTER TABLE replies ADD COLUMN edited_at INTEGER;
@@ -0,0 +1,20 @@
+-- Migration number: 0007
+-- updated_at on every entity; timeAgo is now computed per request
+
+ALTER TABLE posts ADD COLUMN updated_at INTEGER NOT NULL DEFAULT 0;
+
+UPDATE posts SET updated_at = COALESCE(edited_at, created_at);
+
+ALTER TABLE posts DROP COLUMN time_ago;
+
+ALTER TABLE comments ADD COLUMN updated_at INTEGER NOT NULL DEFAULT 0;
+
+UPDATE comments SET updated_at = MAX(created_at, COALESCE(edited_at, 0), COALESCE(deleted_at, 0));
+
+ALTER TABLE comments DROP COLUMN time_ago;
+
+ALTER TABLE replies ADD COLUMN updated_at INTEGER NOT NULL DEFAULT 0;
+
+UPDATE replies SET updated_at = COALESCE(edited_at, created_at);
+
+ALTER TABLE replies DROP COLUMN time_ago;
@@ -0,0 +1,10 @@
+-- Migration number: 0008
+-- Carousel media per post, as a JSON array of media items.
+-- Existing single-image posts become one-item carousels; `image` stays as
+-- the cover for older clients.
+
+ALTER TABLE posts ADD COLUMN media TEXT NOT NULL DEFAULT '[]';
+
+UPDATE posts SET media = json_array(
+  json_object('url', image, 'width', NULL, 'height', NULL)
+);
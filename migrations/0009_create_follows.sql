@@ -0,0 +1,17 @@
+-- Migration number: 0009
+-- Who follows whom, plus the indexes the home feed and follow lists page by
+
+CREATE TABLE follows (
+  follower_id TEXT NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+  followee_id TEXT NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+  created_at INTEGER NOT NULL,
+  PRIMARY KEY (follower_id, followee_id)
+);
+
+-- Paging through someone's followers / who they follow, newest first
+CREATE INDEX idx_follows_followers ON follows (followee_id, created_at DESC, follower_id DESC);
+
+CREATE INDEX idx_follows_following ON follows (follower_id, created_at DESC, followee_id DESC);
+
+-- Home feed: posts by a set of authors, newest first
+CREATE INDEX idx_posts_user_feed ON posts (user_id, created_at DESC, id DESC);
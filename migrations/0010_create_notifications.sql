@@ -0,0 +1,38 @@
+-- Migration number: 0010
+-- Notifications about likes, comments and replies on your content.
+-- Bursts aggregate: while a notification is unread, everyone else who does
+-- the same thing to the same target joins it instead of adding a row.
+-- comment_id / reply_id are '' when the target is a post / comment.
+
+CREATE TABLE notifications (
+  id TEXT PRIMARY KEY,
+  recipient_id TEXT NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+  kind TEXT NOT NULL, -- 'like' | 'comment' | 'reply'
+  group_key TEXT NOT NULL, -- kind + target
+  post_id TEXT NOT NULL,
+  comment_id TEXT NOT NULL DEFAULT '',
+  reply_id TEXT NOT NULL DEFAULT '',
+  actor_count INTEGER NOT NULL DEFAULT 0,
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL, -- Last time someone joined
+  read_at INTEGER
+);
+
+-- At most one unread notification per recipient and group
+CREATE UNIQUE INDEX idx_notifications_unread_group ON notifications (recipient_id, group_key) WHERE read_at IS NULL;
+
+-- The inbox, most recently active first
+CREATE INDEX idx_notifications_inbox ON notifications (recipient_id, updated_at DESC, id DESC);
+
+-- Dropping the notifications about a deleted post
+CREATE INDEX idx_notifications_target ON notifications (post_id, comment_id, reply_id);
+
+-- Who is behind each notification; an actor counts once per notification
+CREATE TABLE notification_actors (
+  notification_id TEXT NOT NULL REFERENCES notifications (id) ON DELETE CASCADE,
+  actor_id TEXT NOT NULL,
+  created_at INTEGER NOT NULL,
+  PRIMARY KEY (notification_id, actor_id)
+);
+
+CREATE INDEX idx_notification_actors_recent ON notification_actors (notification_id, created_at DESC, actor_id DESC);
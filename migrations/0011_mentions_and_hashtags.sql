@@ -0,0 +1,34 @@
+-- Migration number: 0011
+-- @mentions and #hashtags parsed out of captions, comments and replies.
+-- entities holds them as a JSON array of TextEntity; content written before
+-- this migration has none until it's edited.
+
+ALTER TABLE posts ADD COLUMN entities TEXT NOT NULL DEFAULT '[]';
+ALTER TABLE comments ADD COLUMN entities TEXT NOT NULL DEFAULT '[]';
+ALTER TABLE replies ADD COLUMN entities TEXT NOT NULL DEFAULT '[]';
+
+-- Posts by hashtag in their caption, newest first. Tags are lowercased.
+CREATE TABLE post_hashtags (
+  tag TEXT NOT NULL,
+  post_id TEXT NOT NULL,
+  created_at INTEGER NOT NULL, -- The post's
+  PRIMARY KEY (tag, post_id)
+);
+
+CREATE INDEX idx_post_hashtags_recent ON post_hashtags (tag, created_at DESC, post_id DESC);
+
+-- Who is mentioned where. comment_id / reply_id are '' when the mention is
+-- in a caption / comment.
+CREATE TABLE mentions (
+  user_id TEXT NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+  post_id TEXT NOT NULL,
+  comment_id TEXT NOT NULL DEFAULT '',
+  reply_id TEXT NOT NULL DEFAULT '',
+  created_at INTEGER NOT NULL, -- The content's
+  PRIMARY KEY (user_id, post_id, comment_id, reply_id)
+);
+
+CREATE INDEX idx_mentions_recent ON mentions (user_id, created_at DESC);
+
+-- Dropping the mentions in deleted content
+CREATE INDEX idx_mentions_target ON mentions (post_id, comment_id, reply_id);
@@ -0,0 +1,40 @@
+-- Migration number: 0012
+-- Full-text search over captions, comment and reply text, and usernames.
+-- The repositories keep these indexes in step with the tables they cover.
+-- unicode61 with remove_diacritics 2 folds case and accents; the prefix
+-- indexes keep search-as-you-type on one or two letters fast.
+
+CREATE VIRTUAL TABLE posts_fts USING fts5 (
+  post_id UNINDEXED,
+  caption,
+  tokenize = 'unicode61 remove_diacritics 2',
+  prefix = '1 2'
+);
+
+INSERT INTO posts_fts (post_id, caption) SELECT id, caption FROM posts;
+
+-- Comments and replies; reply_id is '' for a comment. Deleted comments
+-- aren't indexed.
+CREATE VIRTUAL TABLE comments_fts USING fts5 (
+  post_id UNINDEXED,
+  comment_id UNINDEXED,
+  reply_id UNINDEXED,
+  text,
+  tokenize = 'unicode61 remove_diacritics 2',
+  prefix = '1 2'
+);
+
+INSERT INTO comments_fts (post_id, comment_id, reply_id, text)
+SELECT post_id, id, '', text FROM comments WHERE deleted_at IS NULL;
+
+INSERT INTO comments_fts (post_id, comment_id, reply_id, text)
+SELECT post_id, comment_id, id, text FROM replies;
+
+CREATE VIRTUAL TABLE users_fts USING fts5 (
+  user_id UNINDEXED,
+  username,
+  tokenize = 'unicode61 remove_diacritics 2',
+  prefix = '1 2'
+);
+
+INSERT INTO users_fts (user_id, username) SELECT id, username FROM users;
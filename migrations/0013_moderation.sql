@@ -0,0 +1,41 @@
+-- Migration number: 0013
+-- Moderation: roles, hidden content, reports and the moderation queue.
+-- Make someone a moderator with
+--   UPDATE users SET role = 'moderator' WHERE username = '...';
+
+ALTER TABLE users ADD COLUMN role TEXT NOT NULL DEFAULT 'user'; -- 'user' | 'moderator'
+
+-- Set while hidden by a moderator or held back by the text filter
+ALTER TABLE posts ADD COLUMN hidden_at INTEGER;
+ALTER TABLE comments ADD COLUMN hidden_at INTEGER;
+ALTER TABLE replies ADD COLUMN hidden_at INTEGER;
+
+-- One report per user and target. comment_id / reply_id are '' when the
+-- target is a post / comment.
+CREATE TABLE reports (
+  reporter_id TEXT NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+  post_id TEXT NOT NULL,
+  comment_id TEXT NOT NULL DEFAULT '',
+  reply_id TEXT NOT NULL DEFAULT '',
+  reason TEXT NOT NULL,
+  note TEXT,
+  created_at INTEGER NOT NULL,
+  PRIMARY KEY (post_id, comment_id, reply_id, reporter_id)
+);
+
+-- Everything reported or held, open until a moderator decides
+CREATE TABLE moderation_cases (
+  post_id TEXT NOT NULL,
+  comment_id TEXT NOT NULL DEFAULT '',
+  reply_id TEXT NOT NULL DEFAULT '',
+  status TEXT NOT NULL DEFAULT 'open', -- 'open' | 'approved' | 'hidden'
+  report_count INTEGER NOT NULL DEFAULT 0,
+  held_for TEXT, -- Why the text filter held it back
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL,
+  resolved_by TEXT, -- Moderator's user id
+  PRIMARY KEY (post_id, comment_id, reply_id)
+);
+
+-- The queue, latest activity first
+CREATE INDEX idx_moderation_cases_queue ON moderation_cases (status, updated_at DESC);
@@ -0,0 +1,16 @@
+-- Migration number: 0014
+-- Replies to replies. comment_id stays the top-level comment a reply hangs
+-- under (likes, mentions and notifications keep using it); parent_id is the
+-- comment or reply it answers.
+
+ALTER TABLE replies ADD COLUMN parent_id TEXT NOT NULL DEFAULT '';
+
+UPDATE replies SET parent_id = comment_id;
+
+-- Direct replies, like comments.reply_count
+ALTER TABLE replies ADD COLUMN reply_count INTEGER NOT NULL DEFAULT 0;
+
+-- Soft-deleted reply kept as "[deleted]" for its replies
+ALTER TABLE replies ADD COLUMN deleted_at INTEGER;
+
+CREATE INDEX idx_replies_parent ON replies (post_id, parent_id, created_at, id);
@@ -0,0 +1,38 @@
+-- Migration number: 0015
+-- Saved posts and the collections users sort them into. Every post in a
+-- collection is also in saved_posts.
+
+CREATE TABLE saved_posts (
+  user_id TEXT NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+  post_id TEXT NOT NULL,
+  created_at INTEGER NOT NULL,
+  PRIMARY KEY (user_id, post_id)
+);
+
+-- Paging through someone's saved posts, newest first
+CREATE INDEX idx_saved_posts_user ON saved_posts (user_id, created_at DESC, post_id DESC);
+
+-- Dropping the saves of a deleted post
+CREATE INDEX idx_saved_posts_post ON saved_posts (post_id);
+
+CREATE TABLE collections (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL -- Last rename or added post
+);
+
+CREATE INDEX idx_collections_user ON collections (user_id, updated_at DESC);
+
+CREATE TABLE collection_posts (
+  collection_id TEXT NOT NULL REFERENCES collections (id) ON DELETE CASCADE,
+  post_id TEXT NOT NULL,
+  created_at INTEGER NOT NULL, -- When it was added
+  PRIMARY KEY (collection_id, post_id)
+);
+
+-- Paging through a collection, most recently added first
+CREATE INDEX idx_collection_posts_page ON collection_posts (collection_id, created_at DESC, post_id DESC);
+
+CREATE INDEX idx_collection_posts_post ON collection_posts (post_id);
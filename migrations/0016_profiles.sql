@@ -0,0 +1,10 @@
+-- Migration number: 0016
+-- Profile pages: what users tell about themselves, and whether only their
+-- followers see their posts there. Posts, comments and replies keep their
+-- username / user_avatar copies for content without an account; everything
+-- else shows the author's current ones.
+
+ALTER TABLE users ADD COLUMN display_name TEXT;
+ALTER TABLE users ADD COLUMN bio TEXT;
+ALTER TABLE users ADD COLUMN website TEXT;
+ALTER TABLE users ADD COLUMN is_private INTEGER NOT NULL DEFAULT 0;
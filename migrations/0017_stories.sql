@@ -0,0 +1,28 @@
+-- Migration number: 0017
+-- Stories: single-image posts that disappear after a day, and who saw them.
+-- Expired stories are purged by the scheduled cleanup in src/index.ts.
+
+CREATE TABLE stories (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+  media TEXT NOT NULL, -- JSON MediaItem
+  created_at INTEGER NOT NULL,
+  expires_at INTEGER NOT NULL,
+  view_count INTEGER NOT NULL DEFAULT 0
+);
+
+-- The stories tray: each followed author's active stories
+CREATE INDEX idx_stories_user ON stories (user_id, expires_at);
+
+-- Purging expired stories
+CREATE INDEX idx_stories_expiry ON stories (expires_at);
+
+CREATE TABLE story_views (
+  story_id TEXT NOT NULL REFERENCES stories (id) ON DELETE CASCADE,
+  viewer_id TEXT NOT NULL,
+  created_at INTEGER NOT NULL, -- When they saw it
+  PRIMARY KEY (story_id, viewer_id)
+);
+
+-- Paging through a story's viewers, most recent first
+CREATE INDEX idx_story_views_page ON story_views (story_id, created_at DESC, viewer_id DESC);
@@ -0,0 +1,30 @@
+-- Migration number: 0018
+-- Direct messages: who is in which conversation and how far they've read.
+-- The messages themselves live in a ConversationHub Durable Object per
+-- conversation; last_seq and last_message copy its latest one.
+
+CREATE TABLE conversations (
+  id TEXT PRIMARY KEY,
+  title TEXT, -- Groups only
+  direct_key TEXT UNIQUE, -- 1:1s only: both user ids, sorted
+  created_by TEXT NOT NULL,
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL, -- The last message, or created_at
+  last_seq INTEGER NOT NULL DEFAULT 0,
+  last_message TEXT -- JSON StoredMessage
+);
+
+CREATE TABLE conversation_members (
+  conversation_id TEXT NOT NULL REFERENCES conversations (id) ON DELETE CASCADE,
+  user_id TEXT NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+  joined_at INTEGER NOT NULL,
+  last_read_seq INTEGER NOT NULL DEFAULT 0,
+  last_read_at INTEGER,
+  PRIMARY KEY (conversation_id, user_id)
+);
+
+-- Someone's inbox
+CREATE INDEX idx_conversation_members_user ON conversation_members (user_id);
+
+-- Paging through an inbox, most recently active first
+CREATE INDEX idx_conversations_activity ON conversations (updated_at DESC, id DESC);
@@ -0,0 +1,9 @@
+-- Migration number: 0019
+-- Optimistic concurrency for edits: every caption, comment and reply edit
+-- (and soft delete) bumps its row's version, and only applies while the
+-- row is still at the version the editor read. Like and comment counters
+-- move with `x = x + 1` and leave the version alone.
+
+ALTER TABLE posts ADD COLUMN version INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE comments ADD COLUMN version INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE replies ADD COLUMN version INTEGER NOT NULL DEFAULT 1;
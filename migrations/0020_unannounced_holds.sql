@@ -0,0 +1,7 @@
+-- Migration number: 0020
+-- Content the text filter holds as it's first posted never went out - no
+-- feed event, notification or live comment. unannounced marks those cases
+-- so approving one sends everything out, once; approving clears it.
+-- Held edits of content that was already out don't set it.
+
+ALTER TABLE moderation_cases ADD COLUMN unannounced INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,9 @@
+import type { Layer } from "effect";
+import type { Repositories } from "./trpc";
+
+// Hono environment for src/index.ts and the plain HTTP routes.
+// `repositories` is the storage layer picked for the request.
+export type AppEnv = {
+  Bindings: CloudflareBindings;
+  Variables: { repositories: Layer.Layer<Repositories> };
+};
@@ -0,0 +1,69 @@
+import { Effect } from "effect";
+
+// PBKDF2-SHA256 via WebCrypto - the strongest KDF available in Workers.
+// 100k iterations is the maximum the Workers runtime accepts.
+const ITERATIONS = 100_000;
+const SALT_BYTES = 16;
+const HASH_BITS = 256;
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+
+const fromBase64 = (value: string) =>
+  Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+
+// Effect to derive the raw hash for a password and salt
+const deriveHash = (password: string, salt: Uint8Array, iterations: number) =>
+  Effect.promise(async () => {
+    const key = await crypto.subtle.importKey(
+      "raw",
+      new TextEncoder().encode(password),
+      "PBKDF2",
+      false,
+      ["deriveBits"]
+    );
+    const bits = await crypto.subtle.deriveBits(
+      { name: "PBKDF2", hash: "SHA-256", salt, iterations },
+      key,
+      HASH_BITS
+    );
+    return new Uint8Array(bits);
+  });
+
+// Compare without bailing out early so timing doesn't leak the hash
+const constantTimeEqual = (a: Uint8Array, b: Uint8Array) => {
+  if (a.length !== b.length) {
+    return false;
+  }
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a[i] ^ b[i];
+  }
+  return diff === 0;
+};
+
+// Effect to hash a password - stored as "pbkdf2$<iterations>$<salt>$<hash>"
+export const hashPassword = (password: string) =>
+  Effect.gen(function* () {
+    const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+    const hash = yield* deriveHash(password, salt, ITERATIONS);
+    return `pbkdf2$${ITERATIONS}$${toBase64(salt)}$${toBase64(hash)}`;
+  });
+
+// Checked when there is no such user, so a wrong username takes as long as
+// a wrong password. No password derives to all zeros.
+export const DUMMY_PASSWORD_HASH = `pbkdf2$${ITERATIONS}$AAAAAAAAAAAAAAAAAAAAAA==$AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA=`;
+
+// Effect to check a password against a stored hash
+export const verifyPassword = (password: string, stored: string) =>
+  Effect.gen(function* () {
+    const [scheme, iterations, salt, hash] = stored.split("$");
+    if (scheme !== "pbkdf2" || !iterations || !salt || !hash) {
+      return false;
+    }
+    const candidate = yield* deriveHash(
+      password,
+      fromBase64(salt),
+      Number(iterations)
+    );
+    return constantTimeEqual(candidate, fromBase64(hash));
+  });
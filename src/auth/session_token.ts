@@ -0,0 +1,19 @@
+import { Effect } from "effect";
+
+const toHex = (bytes: Uint8Array) =>
+  Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("");
+
+// Opaque bearer token handed to the client
+export const generateSessionToken = () =>
+  toHex(crypto.getRandomValues(new Uint8Array(32)));
+
+// Effect to hash a token - only the hash is stored, so a leaked
+// sessions table can't be replayed
+export const hashSessionToken = (token: string) =>
+  Effect.promise(async () =>
+    toHex(
+      new Uint8Array(
+        await crypto.subtle.digest("SHA-256", new TextEncoder().encode(token))
+      )
+    )
+  );
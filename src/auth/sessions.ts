@@ -0,0 +1,41 @@
+import { Clock, Effect, Option } from "effect";
+import {
+  UsersRepository,
+  type StoredUser,
+} from "../repositories/users_repository";
+import type { User } from "../schemas/users";
+import { hashSessionToken } from "./session_token";
+
+// Strip credentials before a user leaves the auth layer
+export const toPublicUser = ({
+  id,
+  username,
+  userAvatar,
+}: StoredUser): User => ({
+  id,
+  username,
+  userAvatar,
+});
+
+// Pull the token out of an `Authorization: Bearer <token>` header
+export const readBearerToken = (header: string | null) => {
+  const match = header?.match(/^Bearer\s+(\S+)$/i);
+  return match ? match[1] : null;
+};
+
+// Effect to resolve the user behind a session token, with their role.
+// None when the session is unknown, expired or its user is gone.
+export const findSessionUser = (token: string) =>
+  Effect.gen(function* () {
+    const repo = yield* UsersRepository;
+    const session = yield* repo.findSession(yield* hashSessionToken(token));
+    const now = yield* Clock.currentTimeMillis;
+    if (Option.isNone(session) || session.value.expiresAt <= now) {
+      return Option.none<User>();
+    }
+    const user = yield* repo.findUserById(session.value.userId);
+    return Option.map(user, (user): User => ({
+      ...toPublicUser(user),
+      role: user.role,
+    }));
+  });
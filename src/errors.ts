@@ -0,0 +1,203 @@
+import { TRPCError, type TRPC_ERROR_CODE_KEY } from "@trpc/server";
+import { Data } from "effect";
+import type { RepositoryError } from "./repositories/posts_repository";
+
+// Expected failures of the services, kept in the Effect error channel.
+// Their fields (plus _tag) reach the client as `error.data.domainError`.
+
+export class PostNotFound extends Data.TaggedError("PostNotFound")<{
+  postId: string;
+}> {
+  get message() {
+    return `Post with id ${this.postId} not found`;
+  }
+}
+
+export class CommentNotFound extends Data.TaggedError("CommentNotFound")<{
+  postId: string;
+  commentId: string;
+}> {
+  get message() {
+    return `Comment with id ${this.commentId} not found`;
+  }
+}
+
+export class ReplyNotFound extends Data.TaggedError("ReplyNotFound")<{
+  postId: string;
+  commentId?: string;
+  replyId: string;
+}> {
+  get message() {
+    return `Reply with id ${this.replyId} not found`;
+  }
+}
+
+// Looked up by id or, for profile pages, by username
+export class UserNotFound extends Data.TaggedError("UserNotFound")<{
+  userId?: string;
+  username?: string;
+}> {
+  get message() {
+    return this.username
+      ? `User ${this.username} not found`
+      : `User with id ${this.userId} not found`;
+  }
+}
+
+export class CollectionNotFound extends Data.TaggedError("CollectionNotFound")<{
+  collectionId: string;
+}> {
+  get message() {
+    return `Collection with id ${this.collectionId} not found`;
+  }
+}
+
+// Also what expired stories fail with, even before they're purged
+export class StoryNotFound extends Data.TaggedError("StoryNotFound")<{
+  storyId: string;
+}> {
+  get message() {
+    return `Story with id ${this.storyId} not found`;
+  }
+}
+
+// Also what non-members get, so they can't probe for conversations
+export class ConversationNotFound extends Data.TaggedError(
+  "ConversationNotFound"
+)<{
+  conversationId: string;
+}> {
+  get message() {
+    return `Conversation with id ${this.conversationId} not found`;
+  }
+}
+
+// The user is logged in but not allowed to touch this resource
+export class Forbidden extends Data.TaggedError("Forbidden")<{
+  message: string;
+}> {}
+
+// Input that passed the schema but breaks a business rule
+export class ValidationFailed extends Data.TaggedError("ValidationFailed")<{
+  message: string;
+  field?: string;
+}> {}
+
+export class UsernameTaken extends Data.TaggedError("UsernameTaken")<{
+  username: string;
+}> {
+  get message() {
+    return `Username ${this.username} is already taken`;
+  }
+}
+
+export class InvalidCredentials extends Data.TaggedError(
+  "InvalidCredentials"
+)<{}> {
+  get message() {
+    return "Invalid username or password";
+  }
+}
+
+// Too many writes from one user or IP; retry after retryAfterSeconds
+export class RateLimited extends Data.TaggedError("RateLimited")<{
+  action: string;
+  retryAfterSeconds: number;
+}> {
+  get message() {
+    return `Too many requests, try again in ${this.retryAfterSeconds} seconds`;
+  }
+}
+
+// The user just posted the same text
+export class DuplicateContent extends Data.TaggedError("DuplicateContent")<{
+  retryAfterSeconds: number;
+}> {
+  get message() {
+    return "You just posted that - try saying something new";
+  }
+}
+
+// Someone else edited or deleted the post, comment or reply since the
+// client read it. Reload, then edit the new version.
+export class EditConflict extends Data.TaggedError("EditConflict")<{
+  postId: string;
+  commentId?: string;
+  replyId?: string;
+  expectedVersion: number;
+}> {
+  get message() {
+    return "This was changed by someone else - reload it and try again";
+  }
+}
+
+export type DomainError =
+  | PostNotFound
+  | CommentNotFound
+  | ReplyNotFound
+  | UserNotFound
+  | CollectionNotFound
+  | StoryNotFound
+  | ConversationNotFound
+  | Forbidden
+  | ValidationFailed
+  | UsernameTaken
+  | InvalidCredentials
+  | RateLimited
+  | DuplicateContent
+  | EditConflict;
+
+// Anything a service Effect may fail with
+export type AppError = DomainError | RepositoryError;
+
+const TRPC_CODES = {
+  PostNotFound: "NOT_FOUND",
+  CommentNotFound: "NOT_FOUND",
+  ReplyNotFound: "NOT_FOUND",
+  UserNotFound: "NOT_FOUND",
+  CollectionNotFound: "NOT_FOUND",
+  StoryNotFound: "NOT_FOUND",
+  ConversationNotFound: "NOT_FOUND",
+  Forbidden: "FORBIDDEN",
+  ValidationFailed: "BAD_REQUEST",
+  UsernameTaken: "CONFLICT",
+  InvalidCredentials: "UNAUTHORIZED",
+  RateLimited: "TOO_MANY_REQUESTS",
+  DuplicateContent: "CONFLICT",
+  EditConflict: "CONFLICT",
+} satisfies Record<DomainError["_tag"], TRPC_ERROR_CODE_KEY>;
+
+const isDomainError = (error: unknown): error is DomainError =>
+  error instanceof Error &&
+  "_tag" in error &&
+  typeof error._tag === "string" &&
+  Object.hasOwn(TRPC_CODES, error._tag);
+
+// Map an Effect failure to the tRPC error the client sees.
+// Storage failures stay an opaque 500.
+export const toTRPCError = (error: AppError) =>
+  isDomainError(error)
+    ? new TRPCError({
+        code: TRPC_CODES[error._tag],
+        message: error.message,
+        cause: error,
+      })
+    : new TRPCError({
+        code: "INTERNAL_SERVER_ERROR",
+        message: "Something went wrong",
+        cause: error,
+      });
+
+// Seconds to send as Retry-After, if any of the errors asks the client to wait
+export const retryAfterOf = (errors: ReadonlyArray<TRPCError>) =>
+  errors
+    .map((error) => error.cause)
+    .find(
+      (cause): cause is RateLimited | DuplicateContent =>
+        cause instanceof RateLimited || cause instanceof DuplicateContent
+    )?.retryAfterSeconds;
+
+// Structured data for the error formatter: { _tag, ...fields }, or null
+// for anything that isn't a domain error
+export const domainErrorData = (cause: unknown) =>
+  isDomainError(cause) ? { ...cause } : null;
@@ -0,0 +1,66 @@
+import { Clock, Context, Effect } from "effect";
+
+// Hands out ids for new posts, comments and replies. ULIDs by default;
+// provide another implementation to get predictable ids.
+export class IdGenerator extends Context.Tag("IdGenerator")<
+  IdGenerator,
+  {
+    readonly nextId: Effect.Effect<string>;
+  }
+>() {}
+
+// Crockford's base32 - no I, L, O or U
+const ALPHABET = "0123456789ABCDEFGHJKMNPQRSTVWXYZ";
+
+const RANDOM_DIGITS = 16; // 80 bits
+
+// 48-bit millisecond timestamp as 10 base32 digits
+const encodeTime = (ms: number) => {
+  let encoded = "";
+  for (let i = 0; i < 10; i++) {
+    encoded = ALPHABET[ms % 32] + encoded;
+    ms = Math.floor(ms / 32);
+  }
+  return encoded;
+};
+
+const randomDigits = () =>
+  Array.from(
+    crypto.getRandomValues(new Uint8Array(RANDOM_DIGITS)),
+    (byte) => byte % 32
+  );
+
+// Adds one to the base32 number in place; false when it wrapped around
+const increment = (digits: Array<number>) => {
+  for (let i = digits.length - 1; i >= 0; i--) {
+    if (digits[i] < 31) {
+      digits[i] += 1;
+      return true;
+    }
+    digits[i] = 0;
+  }
+  return false;
+};
+
+// ULIDs: 26 characters that sort by creation time. Ids made in the same
+// millisecond (or after the clock stepped back) count up from the last
+// one, so they stay unique and in order within the isolate.
+export const makeUlidGenerator = () => {
+  let lastTime = -1;
+  let lastRandom: Array<number> = [];
+  return IdGenerator.of({
+    nextId: Effect.map(Clock.currentTimeMillis, (now) => {
+      if (now > lastTime) {
+        lastTime = now;
+        lastRandom = randomDigits();
+      } else if (!increment(lastRandom)) {
+        lastTime += 1;
+        lastRandom = randomDigits();
+      }
+      return (
+        encodeTime(lastTime) +
+        lastRandom.map((digit) => ALPHABET[digit]).join("")
+      );
+    }),
+  });
+};
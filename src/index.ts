@@ -2,14 +2,106 @@ import { Hono } from 'hono'
 import { logger } from "hono/logger";
 import { cors } from "hono/cors";
 import { trpcServer } from '@hono/trpc-server'
-import { postsRouter } from './routes/insta_posts'
+import { Effect, Layer } from 'effect'
+import { appRouter } from './routes'
+import { createContext } from './trpc'
+import type { AppEnv } from './app_env'
+import { mediaRoutes } from './routes/media'
+import { restRoutes } from './rest/routes'
+import { PostsRepositoryD1 } from './repositories/posts_repository_d1'
+import { makeInMemoryPostsRepository } from './repositories/posts_repository_memory'
+import { PostsRepository } from './repositories/posts_repository'
+import { UsersRepositoryD1 } from './repositories/users_repository_d1'
+import { makeInMemoryUsersRepository } from './repositories/users_repository_memory'
+import { UsersRepository } from './repositories/users_repository'
+import { NotificationsRepositoryD1 } from './repositories/notifications_repository_d1'
+import { makeInMemoryNotificationsRepository } from './repositories/notifications_repository_memory'
+import { NotificationsRepository } from './repositories/notifications_repository'
+import { ModerationRepositoryD1 } from './repositories/moderation_repository_d1'
+import { makeInMemoryModerationRepository } from './repositories/moderation_repository_memory'
+import { ModerationRepository } from './repositories/moderation_repository'
+import { SavedPostsRepositoryD1 } from './repositories/saved_posts_repository_d1'
+import { makeInMemorySavedPostsRepository } from './repositories/saved_posts_repository_memory'
+import { SavedPostsRepository } from './repositories/saved_posts_repository'
+import { StoriesRepositoryD1 } from './repositories/stories_repository_d1'
+import { makeInMemoryStoriesRepository } from './repositories/stories_repository_memory'
+import { StoriesRepository } from './repositories/stories_repository'
+import { ConversationsRepositoryD1 } from './repositories/conversations_repository_d1'
+import { makeInMemoryConversationsRepository } from './repositories/conversations_repository_memory'
+import { ConversationsRepository } from './repositories/conversations_repository'
+import { MediaStorageR2 } from './repositories/media_storage_r2'
+import { makeInMemoryMediaStorage } from './repositories/media_storage_memory'
+import { MediaStorage } from './repositories/media_storage'
+import { PostEventsDurable } from './realtime/post_events_durable'
+import { makeInMemoryPostEvents } from './realtime/post_events_memory'
+import { PostEvents } from './realtime/post_events'
+import { MessageLogDurable } from './messaging/message_log_durable'
+import { makeInMemoryMessageLog } from './messaging/message_log_memory'
+import { MessageLog } from './messaging/message_log'
+import { RateLimiterDurable } from './rate_limit/rate_limiter_durable'
+import { makeInMemoryRateLimiter } from './rate_limit/rate_limiter_memory'
+import { RateLimiter } from './rate_limit/rate_limiter'
+import { TextFilterFromRules, defaultTextRules } from './moderation/text_filter'
+import { IdGenerator, makeUlidGenerator } from './ids/id_generator'
+import { retryAfterOf } from './errors'
+import { expireStories } from './routes/stories'
 
-const app = new Hono()
+const app = new Hono<AppEnv>()
+
+// Posts read accounts and follows from the same users store, as D1 joins them
+const inMemoryUsers = makeInMemoryUsersRepository()
+
+// Fallback storage when no D1 binding is configured - lives as long as the isolate
+const inMemoryRepositories = Layer.mergeAll(
+  Layer.succeed(PostsRepository, makeInMemoryPostsRepository(inMemoryUsers)),
+  Layer.succeed(UsersRepository, inMemoryUsers),
+  Layer.succeed(NotificationsRepository, makeInMemoryNotificationsRepository()),
+  Layer.succeed(ModerationRepository, makeInMemoryModerationRepository()),
+  Layer.succeed(SavedPostsRepository, makeInMemorySavedPostsRepository()),
+  Layer.succeed(StoriesRepository, makeInMemoryStoriesRepository()),
+  Layer.succeed(ConversationsRepository, makeInMemoryConversationsRepository())
+)
+
+const d1Repositories = (db: D1Database) =>
+  Layer.mergeAll(
+    PostsRepositoryD1(db),
+    UsersRepositoryD1(db),
+    NotificationsRepositoryD1(db),
+    ModerationRepositoryD1(db),
+    SavedPostsRepositoryD1(db),
+    StoriesRepositoryD1(db),
+    ConversationsRepositoryD1(db)
+  )
+
+const inMemoryMedia = Layer.succeed(MediaStorage, makeInMemoryMediaStorage())
+
+const inMemoryEvents = Layer.succeed(PostEvents, makeInMemoryPostEvents())
+
+const inMemoryMessages = Layer.succeed(MessageLog, makeInMemoryMessageLog())
+
+const inMemoryRateLimiter = Layer.succeed(RateLimiter, makeInMemoryRateLimiter())
+
+// One generator per isolate so ids made in the same millisecond still differ
+const ulids = Layer.succeed(IdGenerator, makeUlidGenerator())
 
 // Apply middleware to all routes
 app.use("*", logger());
 app.use("*", cors());
 
+// Pick the storage backends from the Worker bindings
+app.use('*', async (c, next) => {
+  c.set('repositories', Layer.mergeAll(
+    c.env.DB ? d1Repositories(c.env.DB) : inMemoryRepositories,
+    c.env.MEDIA ? MediaStorageR2(c.env.MEDIA) : inMemoryMedia,
+    c.env.POST_EVENTS ? PostEventsDurable(c.env.POST_EVENTS) : inMemoryEvents,
+    c.env.CONVERSATIONS ? MessageLogDurable(c.env.CONVERSATIONS) : inMemoryMessages,
+    c.env.RATE_LIMITER ? RateLimiterDurable(c.env.RATE_LIMITER) : inMemoryRateLimiter,
+    TextFilterFromRules(defaultTextRules(c.env.BLOCKED_WORDS.split(','))),
+    ulids
+  ))
+  await next()
+})
+
 // Root endpoint - simple health check
 app.get('/', (c) => {
   return c.json({ 
@@ -18,7 +110,11 @@ app.get('/', (c) => {
       posts: '/trpc/getPosts',
       createPost: '/trpc/createPost', 
       likePost: '/trpc/likePost',
-      getPostById: '/trpc/getPostById'
+      getPostById: '/trpc/getPostById',
+      signup: '/trpc/signup',
+      login: '/trpc/login',
+      upload: 'POST /media',
+      rest: 'GET /openapi.json'
     }
   })
 })
@@ -27,8 +123,34 @@ app.get('/', (c) => {
 // This creates all your API endpoints automatically
 app.use('/trpc/*', 
   trpcServer({
-    router: postsRouter,
+    router: appRouter,
+    // Resolve the session against the storage picked above
+    createContext: (opts, c) => createContext(c.get('repositories'), opts.req),
+    // Tell rate-limited clients when to come back
+    responseMeta: ({ errors }) => {
+      const retryAfter = retryAfterOf(errors)
+      return retryAfter ? { headers: { 'Retry-After': String(retryAfter) } } : {}
+    },
   })
 )
 
-export default app
+// Image uploads and reads
+app.route('/', mediaRoutes)
+
+// The same procedures as plain REST routes, described by /openapi.json
+app.route('/', restRoutes)
+
+// Durable Object classes must be exported from the entry module
+export { PostEventsHub } from './realtime/post_events_hub'
+export { RateLimiterHub } from './rate_limit/rate_limiter_hub'
+export { ConversationHub } from './messaging/conversation_hub'
+
+export default {
+  fetch: app.fetch,
+  // Cron trigger from wrangler.jsonc - purges expired stories
+  scheduled(_controller, env, ctx) {
+    ctx.waitUntil(Effect.runPromise(
+      expireStories.pipe(Effect.provide(env.DB ? d1Repositories(env.DB) : inMemoryRepositories))
+    ))
+  },
+} satisfies ExportedHandler<CloudflareBindings>
@@ -0,0 +1,121 @@
+// Upload formats we accept, and reading their pixel size from the header
+// bytes so clients can lay out carousels before the images load
+
+export type ImageSize = { width: number; height: number };
+
+const startsWith = (
+  bytes: Uint8Array,
+  prefix: ReadonlyArray<number>,
+  offset = 0
+) => prefix.every((byte, index) => bytes[offset + index] === byte);
+
+const ascii = (text: string) => [...text].map((char) => char.charCodeAt(0));
+
+const view = (bytes: Uint8Array) =>
+  new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+const pngSize = (bytes: Uint8Array): ImageSize | null => {
+  if (
+    bytes.length < 24 ||
+    !startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]) ||
+    !startsWith(bytes, ascii("IHDR"), 12)
+  ) {
+    return null;
+  }
+  return {
+    width: view(bytes).getUint32(16),
+    height: view(bytes).getUint32(20),
+  };
+};
+
+const gifSize = (bytes: Uint8Array): ImageSize | null => {
+  if (bytes.length < 10 || !startsWith(bytes, ascii("GIF8"))) {
+    return null;
+  }
+  return {
+    width: view(bytes).getUint16(6, true),
+    height: view(bytes).getUint16(8, true),
+  };
+};
+
+// WebP has three flavours: lossy (VP8), lossless (VP8L) and extended (VP8X)
+const webpSize = (bytes: Uint8Array): ImageSize | null => {
+  if (
+    bytes.length < 30 ||
+    !startsWith(bytes, ascii("RIFF")) ||
+    !startsWith(bytes, ascii("WEBP"), 8)
+  ) {
+    return null;
+  }
+  const data = view(bytes);
+  if (startsWith(bytes, ascii("VP8 "), 12)) {
+    return {
+      width: data.getUint16(26, true) & 0x3fff,
+      height: data.getUint16(28, true) & 0x3fff,
+    };
+  }
+  if (startsWith(bytes, ascii("VP8L"), 12)) {
+    const bits = data.getUint32(21, true);
+    return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+  }
+  if (startsWith(bytes, ascii("VP8X"), 12)) {
+    return {
+      width: 1 + (data.getUint32(24, true) & 0xffffff),
+      height: 1 + (data.getUint32(27, true) & 0xffffff),
+    };
+  }
+  return null;
+};
+
+// Walk the JPEG segments until the start-of-frame that holds the size
+const jpegSize = (bytes: Uint8Array): ImageSize | null => {
+  if (!startsWith(bytes, [0xff, 0xd8, 0xff])) {
+    return null;
+  }
+  const data = view(bytes);
+  let offset = 2;
+  while (offset + 9 < bytes.length) {
+    if (bytes[offset] !== 0xff) {
+      return null;
+    }
+    const marker = bytes[offset + 1];
+    if (marker === 0xff) {
+      offset += 1; // Fill byte
+      continue;
+    }
+    // SOF0-SOF15, except DHT (C4), JPG (C8) and DAC (CC)
+    if (
+      marker >= 0xc0 &&
+      marker <= 0xcf &&
+      marker !== 0xc4 &&
+      marker !== 0xc8 &&
+      marker !== 0xcc
+    ) {
+      return {
+        height: data.getUint16(offset + 5),
+        width: data.getUint16(offset + 7),
+      };
+    }
+    offset += 2 + data.getUint16(offset + 2);
+  }
+  return null;
+};
+
+const IMAGE_READERS = new Map<string, (bytes: Uint8Array) => ImageSize | null>([
+  ["image/jpeg", jpegSize],
+  ["image/png", pngSize],
+  ["image/gif", gifSize],
+  ["image/webp", webpSize],
+]);
+
+export const SUPPORTED_IMAGE_TYPES = [...IMAGE_READERS.keys()];
+
+export const isSupportedImageType = (contentType: string) =>
+  IMAGE_READERS.has(contentType);
+
+// Size of an image of the declared type, or null when the bytes aren't
+// actually one - a renamed file can't slip through on its Content-Type
+export const readImageSize = (contentType: string, bytes: Uint8Array) => {
+  const size = IMAGE_READERS.get(contentType)?.(bytes) ?? null;
+  return size && size.width > 0 && size.height > 0 ? size : null;
+};
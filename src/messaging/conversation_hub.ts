@@ -0,0 +1,74 @@
+import { DurableObject } from "cloudflare:workers";
+import type { MessageDraft, StoredMessage } from "./message_log";
+
+type MessageRow = {
+  seq: number;
+  id: string;
+  sender_id: string;
+  text: string;
+  post_id: string | null;
+  created_at: number;
+};
+
+// One hub per conversation, holding its messages in the object's own
+// SQLite storage. Sends run one at a time here, so seq is gap-free and every
+// reader sees the same order.
+export class ConversationHub extends DurableObject<CloudflareBindings> {
+  constructor(ctx: DurableObjectState, env: CloudflareBindings) {
+    super(ctx, env);
+    ctx.storage.sql.exec(
+      `CREATE TABLE IF NOT EXISTS messages (
+        seq INTEGER PRIMARY KEY AUTOINCREMENT,
+        id TEXT NOT NULL UNIQUE,
+        sender_id TEXT NOT NULL,
+        text TEXT NOT NULL,
+        post_id TEXT,
+        created_at INTEGER NOT NULL
+      )`
+    );
+  }
+
+  async append(
+    conversationId: string,
+    draft: MessageDraft
+  ): Promise<StoredMessage> {
+    const [{ seq }] = this.ctx.storage.sql
+      .exec<{ seq: number }>(
+        `INSERT INTO messages (id, sender_id, text, post_id, created_at)
+         VALUES (?, ?, ?, ?, ?) RETURNING seq`,
+        draft.id,
+        draft.senderId,
+        draft.text,
+        draft.postId ?? null,
+        draft.createdAt
+      )
+      .toArray();
+    return { ...draft, conversationId, seq };
+  }
+
+  async list(
+    conversationId: string,
+    beforeSeq: number | null,
+    limit: number
+  ): Promise<Array<StoredMessage>> {
+    return this.ctx.storage.sql
+      .exec<MessageRow>(
+        `SELECT * FROM messages
+         WHERE ?1 IS NULL OR seq < ?1
+         ORDER BY seq DESC
+         LIMIT ?2`,
+        beforeSeq,
+        limit
+      )
+      .toArray()
+      .map((row) => ({
+        id: row.id,
+        conversationId,
+        seq: row.seq,
+        senderId: row.sender_id,
+        text: row.text,
+        postId: row.post_id ?? undefined,
+        createdAt: row.created_at,
+      }));
+  }
+}
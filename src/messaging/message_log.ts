@@ -0,0 +1,37 @@
+import { Context, Effect } from "effect";
+import type { RepositoryError } from "../repositories/posts_repository";
+
+// What a sender writes: text, a shared post, or both
+export type MessageDraft = {
+  id: string;
+  senderId: string;
+  text: string; // "" when only sharing a post
+  postId?: string; // A post shared into the conversation
+  createdAt: number;
+};
+
+// A message once it has its place in the conversation. seq starts at 1 and
+// goes up by one per message, so "read up to seq" covers everything before.
+export type StoredMessage = MessageDraft & {
+  conversationId: string;
+  seq: number;
+};
+
+// The ordered messages of each conversation - a Durable Object per
+// conversation in production, so every send gets the next seq no matter
+// which isolate it came through; in-isolate arrays otherwise.
+export class MessageLog extends Context.Tag("MessageLog")<
+  MessageLog,
+  {
+    readonly append: (
+      conversationId: string,
+      draft: MessageDraft
+    ) => Effect.Effect<StoredMessage, RepositoryError>;
+    // Newest first, only messages before `beforeSeq` when given
+    readonly list: (
+      conversationId: string,
+      beforeSeq: number | undefined,
+      limit: number
+    ) => Effect.Effect<Array<StoredMessage>, RepositoryError>;
+  }
+>() {}
@@ -0,0 +1,40 @@
+import { Effect, Layer } from "effect";
+import { RepositoryError } from "../repositories/posts_repository";
+import { MessageLog } from "./message_log";
+import type { ConversationHub } from "./conversation_hub";
+
+// Messages in a Durable Object per conversation. `wrangler dev` runs the
+// objects locally.
+export const makeDurableMessageLog = (
+  namespace: DurableObjectNamespace<ConversationHub>
+) => {
+  const hubFor = (conversationId: string) =>
+    namespace.get(namespace.idFromName(conversationId));
+
+  return MessageLog.of({
+    append: (conversationId, draft) =>
+      Effect.tryPromise({
+        try: () => hubFor(conversationId).append(conversationId, draft),
+        catch: (cause) =>
+          new RepositoryError({
+            message: `Failed to send message to conversation ${conversationId}`,
+            cause,
+          }),
+      }),
+
+    list: (conversationId, beforeSeq, limit) =>
+      Effect.tryPromise({
+        try: () =>
+          hubFor(conversationId).list(conversationId, beforeSeq ?? null, limit),
+        catch: (cause) =>
+          new RepositoryError({
+            message: `Failed to list messages of conversation ${conversationId}`,
+            cause,
+          }),
+      }),
+  });
+};
+
+export const MessageLogDurable = (
+  namespace: DurableObjectNamespace<ConversationHub>
+) => Layer.succeed(MessageLog, makeDurableMessageLog(namespace));
@@ -0,0 +1,35 @@
+import { Effect, Layer } from "effect";
+import { MessageLog, type StoredMessage } from "./message_log";
+
+// In-memory message logs - state lives in this isolate only.
+// Used when no Durable Object binding is configured.
+export const makeInMemoryMessageLog = () => {
+  // Conversation id -> its messages, oldest first
+  const logs = new Map<string, Array<StoredMessage>>();
+
+  return MessageLog.of({
+    append: (conversationId, draft) =>
+      Effect.sync(() => {
+        const log = logs.get(conversationId) ?? [];
+        const message = { ...draft, conversationId, seq: log.length + 1 };
+        log.push(message);
+        logs.set(conversationId, log);
+        return message;
+      }),
+
+    list: (conversationId, beforeSeq, limit) =>
+      Effect.sync(() =>
+        (logs.get(conversationId) ?? [])
+          .filter(
+            (message) => beforeSeq === undefined || message.seq < beforeSeq
+          )
+          .reverse()
+          .slice(0, limit)
+      ),
+  });
+};
+
+// Fresh logs every time the layer is built - handy for tests
+export const MessageLogInMemory = Layer.sync(MessageLog, () =>
+  makeInMemoryMessageLog()
+);
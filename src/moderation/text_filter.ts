@@ -0,0 +1,74 @@
+import { Context, Effect, Layer } from "effect";
+import { searchWords } from "../text/search";
+
+// What to do with a caption, comment or reply: post it, post it hidden
+// until a moderator has looked at it, or refuse it outright
+export type TextVerdict =
+  { action: "allow" } | { action: "hold" | "reject"; reason: string };
+
+// One check on the text. Rules don't know about each other; the filter
+// goes with the strictest verdict.
+export type TextRule = (text: string) => TextVerdict;
+
+const ALLOW: TextVerdict = { action: "allow" };
+
+// Whole words from the list, whatever their case or accents
+export const blockedWords = (
+  words: ReadonlyArray<string>,
+  action: "hold" | "reject" = "hold"
+): TextRule => {
+  const blocked = new Set(words.flatMap(searchWords));
+  return (text) => {
+    const found = searchWords(text).find((word) => blocked.has(word));
+    return found ? { action, reason: `Contains "${found}"` } : ALLOW;
+  };
+};
+
+// Link spam: more than `max` links is refused
+export const linkLimit =
+  (max: number): TextRule =>
+  (text) => {
+    const links = text.match(/\bhttps?:\/\/\S+|\bwww\.\S+/gi)?.length ?? 0;
+    return links > max
+      ? {
+          action: "reject",
+          reason: `At most ${max} ${max === 1 ? "link" : "links"} allowed`,
+        }
+      : ALLOW;
+  };
+
+// Rules used unless the filter is swapped out
+export const defaultTextRules = (
+  blocked: ReadonlyArray<string>
+): Array<TextRule> => [linkLimit(2), blockedWords(blocked)];
+
+const SEVERITY = { allow: 0, hold: 1, reject: 2 } as const;
+
+// Screens new captions, comments and replies before they're stored.
+// Rule-based by default; provide another implementation to plug in a
+// classifier or an external moderation API.
+export class TextFilter extends Context.Tag("TextFilter")<
+  TextFilter,
+  {
+    readonly check: (text: string) => Effect.Effect<TextVerdict>;
+  }
+>() {}
+
+export const makeRuleTextFilter = (rules: ReadonlyArray<TextRule>) =>
+  TextFilter.of({
+    check: (text) =>
+      Effect.sync(() =>
+        rules
+          .map((rule) => rule(text))
+          .reduce(
+            (strictest, verdict) =>
+              SEVERITY[verdict.action] > SEVERITY[strictest.action]
+                ? verdict
+                : strictest,
+            ALLOW
+          )
+      ),
+  });
+
+export const TextFilterFromRules = (rules: ReadonlyArray<TextRule>) =>
+  Layer.succeed(TextFilter, makeRuleTextFilter(rules));
@@ -0,0 +1,63 @@
+import { Effect, Option } from "effect";
+import type { Audience } from "../repositories/posts_repository";
+import {
+  UsersRepository,
+  type StoredUser,
+} from "../repositories/users_repository";
+import type { User } from "../schemas/users";
+
+export const isModerator = (user: User | null) => user?.role === "moderator";
+
+// Hidden posts, comments and replies only show to their author and
+// moderators
+export const canSee = (
+  viewer: User | null,
+  entity: { userId?: string; hiddenAt?: string }
+) =>
+  !entity.hiddenAt ||
+  isModerator(viewer) ||
+  (entity.userId !== undefined && entity.userId === viewer?.id);
+
+// Effect to tell whether the viewer may see the user's posts and stories.
+// Private accounts only show them to themselves, their followers and
+// moderators.
+export const canSeePostsOf = (
+  viewer: User | null,
+  user: Pick<StoredUser, "id" | "isPrivate">
+) =>
+  Effect.gen(function* () {
+    if (!user.isPrivate || viewer?.id === user.id || isModerator(viewer)) {
+      return true;
+    }
+    if (!viewer) {
+      return false;
+    }
+    const repo = yield* UsersRepository;
+    return yield* repo.isFollowing(viewer.id, user.id);
+  });
+
+// Effect to tell whether the viewer may see a post: canSee, plus its
+// author's privacy
+export const canSeePost = (
+  viewer: User | null,
+  post: { userId?: string; hiddenAt?: string }
+) =>
+  Effect.gen(function* () {
+    if (!canSee(viewer, post)) {
+      return false;
+    }
+    if (!post.userId) {
+      return true;
+    }
+    const repo = yield* UsersRepository;
+    const author = yield* repo.findUserById(post.userId);
+    return (
+      Option.isNone(author) || (yield* canSeePostsOf(viewer, author.value))
+    );
+  });
+
+// The same rules, for the repository to apply to a whole feed
+export const audienceOf = (viewer: User | null): Audience => ({
+  userId: viewer?.id,
+  moderator: isModerator(viewer),
+});
@@ -0,0 +1,27 @@
+import type { MiddlewareHandler } from "hono";
+import { Effect, Either } from "effect";
+import type { AppEnv } from "../app_env";
+import { enforceRateLimit, type RateLimitedAction } from "./rate_limiter";
+
+// Address of whoever sent the request, as seen by Cloudflare
+export const clientIp = (request: Request) =>
+  request.headers.get("CF-Connecting-IP");
+
+// Hono middleware for the plain HTTP routes: 429 with Retry-After once the
+// client's IP has used up the action's limit. tRPC procedures use
+// `rateLimited` from src/trpc.ts instead.
+export const rateLimitRequests =
+  (action: RateLimitedAction): MiddlewareHandler<AppEnv> =>
+  async (c, next) => {
+    const result = await Effect.runPromise(
+      enforceRateLimit(action, { ip: clientIp(c.req.raw) }).pipe(
+        Effect.either,
+        Effect.provide(c.get("repositories"))
+      )
+    );
+    if (Either.isLeft(result)) {
+      c.header("Retry-After", String(result.left.retryAfterSeconds));
+      return c.json({ error: result.left.message }, 429);
+    }
+    await next();
+  };
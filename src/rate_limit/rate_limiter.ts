@@ -0,0 +1,145 @@
+import { Context, Effect } from "effect";
+import { DuplicateContent, RateLimited } from "../errors";
+import type { RateLimit, RateLimitDecision } from "./token_bucket";
+
+// Who is making a request. Logged-out requests only have an IP, and local
+// requests may not even have that.
+export type Client = { userId?: string; ip?: string | null };
+
+// Limits per kind of write, per user and per IP. The IP limits are looser
+// since many users can share one address.
+export const RATE_LIMITS = {
+  createPost: {
+    perUser: { limit: 10, windowSeconds: 3600 },
+    perIp: { limit: 30, windowSeconds: 3600 },
+  },
+  createStory: {
+    perUser: { limit: 30, windowSeconds: 3600 },
+    perIp: { limit: 90, windowSeconds: 3600 },
+  },
+  comment: {
+    perUser: { limit: 20, windowSeconds: 300 },
+    perIp: { limit: 60, windowSeconds: 300 },
+  },
+  message: {
+    perUser: { limit: 60, windowSeconds: 60 },
+    perIp: { limit: 200, windowSeconds: 60 },
+  },
+  like: {
+    perUser: { limit: 120, windowSeconds: 60 },
+    perIp: { limit: 300, windowSeconds: 60 },
+  },
+  follow: {
+    perUser: { limit: 60, windowSeconds: 600 },
+    perIp: { limit: 200, windowSeconds: 600 },
+  },
+  report: {
+    perUser: { limit: 20, windowSeconds: 3600 },
+    perIp: { limit: 60, windowSeconds: 3600 },
+  },
+  upload: {
+    perIp: { limit: 60, windowSeconds: 3600 },
+  },
+  // Signups and logins together, so passwords can't be guessed at speed
+  login: {
+    perIp: { limit: 30, windowSeconds: 600 },
+  },
+} satisfies Record<string, { perUser?: RateLimit; perIp?: RateLimit }>;
+
+export type RateLimitedAction = keyof typeof RATE_LIMITS;
+
+// The same comment or reply text from the same user is rejected for a while
+const DUPLICATE_TEXT: RateLimit = { limit: 1, windowSeconds: 300 };
+
+// Token buckets by key - a Durable Object per key in production, a map in
+// this isolate otherwise
+export class RateLimiter extends Context.Tag("RateLimiter")<
+  RateLimiter,
+  {
+    // Take one token from the key's bucket. Best effort: if the limiter
+    // can't be reached the request is let through and a warning logged.
+    readonly take: (
+      key: string,
+      rateLimit: RateLimit
+    ) => Effect.Effect<RateLimitDecision>;
+    // Put back a token taken for a request that went no further. Best
+    // effort too.
+    readonly giveBack: (
+      key: string,
+      rateLimit: RateLimit
+    ) => Effect.Effect<void>;
+  }
+>() {}
+
+const retryAfterSeconds = (retryAfterMs: number) =>
+  Math.max(1, Math.ceil(retryAfterMs / 1000));
+
+// Effect that fails with RateLimited once the user or their IP has used up
+// the action's limit. A denied request doesn't cost anything: tokens it
+// already took from the other buckets are given back.
+export const enforceRateLimit = (action: RateLimitedAction, client: Client) =>
+  Effect.gen(function* () {
+    const limiter = yield* RateLimiter;
+    const rule: { perUser?: RateLimit; perIp?: RateLimit } =
+      RATE_LIMITS[action];
+    const buckets = [
+      ...(rule.perUser && client.userId
+        ? [[`${action}:user:${client.userId}`, rule.perUser] as const]
+        : []),
+      ...(rule.perIp && client.ip
+        ? [[`${action}:ip:${client.ip}`, rule.perIp] as const]
+        : []),
+    ];
+    const taken: typeof buckets = [];
+    for (const bucket of buckets) {
+      const [key, rateLimit] = bucket;
+      const decision = yield* limiter.take(key, rateLimit);
+      if (!decision.allowed) {
+        yield* Effect.forEach(
+          taken,
+          ([key, rateLimit]) => limiter.giveBack(key, rateLimit),
+          { discard: true }
+        );
+        return yield* new RateLimited({
+          action,
+          retryAfterSeconds: retryAfterSeconds(decision.retryAfterMs),
+        });
+      }
+      taken.push(bucket);
+    }
+  });
+
+// Same text whatever the spacing or case
+const textKey = (text: string) =>
+  Effect.promise(async () => {
+    const normalized = text.trim().replace(/\s+/g, " ").toLowerCase();
+    const digest = await crypto.subtle.digest(
+      "SHA-256",
+      new TextEncoder().encode(normalized)
+    );
+    return Array.from(new Uint8Array(digest), (byte) =>
+      byte.toString(16).padStart(2, "0")
+    ).join("");
+  });
+
+// Effect to store a comment or reply, failing with DuplicateContent
+// instead when the user just stored the same text, on this post or any
+// other. Text that didn't get stored doesn't count.
+export const rejectDuplicateText = <A, E, R>(
+  userId: string,
+  text: string,
+  store: Effect.Effect<A, E, R>
+) =>
+  Effect.gen(function* () {
+    const limiter = yield* RateLimiter;
+    const key = `duplicate:${userId}:${yield* textKey(text)}`;
+    const decision = yield* limiter.take(key, DUPLICATE_TEXT);
+    if (!decision.allowed) {
+      return yield* new DuplicateContent({
+        retryAfterSeconds: retryAfterSeconds(decision.retryAfterMs),
+      });
+    }
+    return yield* store.pipe(
+      Effect.onError(() => limiter.giveBack(key, DUPLICATE_TEXT))
+    );
+  });
@@ -0,0 +1,44 @@
+import { Effect, Layer } from "effect";
+import { RepositoryError } from "../repositories/posts_repository";
+import { RateLimiter } from "./rate_limiter";
+import type { RateLimiterHub } from "./rate_limiter_hub";
+import type { RateLimitDecision } from "./token_bucket";
+
+// Buckets in a Durable Object per key, so the limits hold across isolates.
+// `wrangler dev` runs the objects locally.
+export const makeDurableRateLimiter = (
+  namespace: DurableObjectNamespace<RateLimiterHub>
+) =>
+  RateLimiter.of({
+    take: (key, rateLimit) =>
+      Effect.tryPromise({
+        try: (): Promise<RateLimitDecision> =>
+          namespace.get(namespace.idFromName(key)).take(rateLimit),
+        catch: (cause) =>
+          new RepositoryError({
+            message: `Failed to check rate limit ${key}`,
+            cause,
+          }),
+      }).pipe(
+        Effect.catchAll((error) =>
+          Effect.logWarning(error.message, error).pipe(
+            Effect.as<RateLimitDecision>({ allowed: true })
+          )
+        )
+      ),
+    giveBack: (key, rateLimit) =>
+      Effect.tryPromise({
+        try: () => namespace.get(namespace.idFromName(key)).giveBack(rateLimit),
+        catch: (cause) =>
+          new RepositoryError({
+            message: `Failed to give back rate limit ${key}`,
+            cause,
+          }),
+      }).pipe(
+        Effect.catchAll((error) => Effect.logWarning(error.message, error))
+      ),
+  });
+
+export const RateLimiterDurable = (
+  namespace: DurableObjectNamespace<RateLimiterHub>
+) => Layer.succeed(RateLimiter, makeDurableRateLimiter(namespace));
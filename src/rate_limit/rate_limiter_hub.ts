@@ -0,0 +1,39 @@
+import { DurableObject } from "cloudflare:workers";
+import {
+  refilledAt,
+  returnToken,
+  takeToken,
+  type Bucket,
+  type RateLimit,
+} from "./token_bucket";
+
+// One token bucket per key (an action plus a user or an IP). Requests for
+// the key run one at a time here, whichever isolate they came through. The
+// bucket is dropped once it has refilled, so idle keys cost nothing.
+export class RateLimiterHub extends DurableObject<CloudflareBindings> {
+  async take(rateLimit: RateLimit) {
+    const { bucket, decision } = takeToken(
+      await this.ctx.storage.get<Bucket>("bucket"),
+      rateLimit,
+      Date.now()
+    );
+    await this.ctx.storage.put("bucket", bucket);
+    await this.ctx.storage.setAlarm(refilledAt(bucket, rateLimit));
+    return decision;
+  }
+
+  async giveBack(rateLimit: RateLimit) {
+    const bucket = returnToken(
+      await this.ctx.storage.get<Bucket>("bucket"),
+      rateLimit,
+      Date.now()
+    );
+    await this.ctx.storage.put("bucket", bucket);
+    await this.ctx.storage.setAlarm(refilledAt(bucket, rateLimit));
+  }
+
+  // Full again - same as no bucket at all
+  async alarm() {
+    await this.ctx.storage.deleteAll();
+  }
+}
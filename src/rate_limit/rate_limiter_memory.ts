@@ -0,0 +1,31 @@
+import { Clock, Effect, Layer } from "effect";
+import { RateLimiter } from "./rate_limiter";
+import { returnToken, takeToken, type Bucket } from "./token_bucket";
+
+// In-memory buckets - only limit requests that reach this isolate.
+// Used when no Durable Object binding is configured.
+export const makeInMemoryRateLimiter = () => {
+  const buckets = new Map<string, Bucket>();
+
+  return RateLimiter.of({
+    take: (key, rateLimit) =>
+      Effect.map(Clock.currentTimeMillis, (now) => {
+        const { bucket, decision } = takeToken(
+          buckets.get(key),
+          rateLimit,
+          now
+        );
+        buckets.set(key, bucket);
+        return decision;
+      }),
+    giveBack: (key, rateLimit) =>
+      Effect.map(Clock.currentTimeMillis, (now) => {
+        buckets.set(key, returnToken(buckets.get(key), rateLimit, now));
+      }),
+  });
+};
+
+// Fresh buckets every time the layer is built - handy for tests
+export const RateLimiterInMemory = Layer.sync(RateLimiter, () =>
+  makeInMemoryRateLimiter()
+);
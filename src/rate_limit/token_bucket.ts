@@ -0,0 +1,65 @@
+// Token bucket arithmetic shared by the in-memory limiter and the Durable
+// Object. A bucket holds up to `limit` tokens and refills at `limit` per
+// window, so a burst of `limit` is allowed and then one more every
+// windowSeconds / limit.
+
+export type RateLimit = { limit: number; windowSeconds: number };
+
+export type Bucket = { tokens: number; updatedAt: number };
+
+export type RateLimitDecision =
+  { allowed: true } | { allowed: false; retryAfterMs: number };
+
+const refillPerMs = ({ limit, windowSeconds }: RateLimit) =>
+  limit / (windowSeconds * 1000);
+
+// Tokens in the bucket now, after refilling for the time since it changed
+const tokensAt = (
+  bucket: Bucket | undefined,
+  rateLimit: RateLimit,
+  now: number
+) =>
+  bucket
+    ? Math.min(
+        rateLimit.limit,
+        bucket.tokens +
+          Math.max(0, now - bucket.updatedAt) * refillPerMs(rateLimit)
+      )
+    : rateLimit.limit;
+
+// Refill for the time since the last take, then take a token if there is one
+export const takeToken = (
+  bucket: Bucket | undefined,
+  rateLimit: RateLimit,
+  now: number
+): { bucket: Bucket; decision: RateLimitDecision } => {
+  const tokens = tokensAt(bucket, rateLimit, now);
+  if (tokens >= 1) {
+    return {
+      bucket: { tokens: tokens - 1, updatedAt: now },
+      decision: { allowed: true },
+    };
+  }
+  return {
+    bucket: { tokens, updatedAt: now },
+    decision: {
+      allowed: false,
+      retryAfterMs: Math.ceil((1 - tokens) / refillPerMs(rateLimit)),
+    },
+  };
+};
+
+// Put back a token taken for something that didn't happen after all
+export const returnToken = (
+  bucket: Bucket | undefined,
+  rateLimit: RateLimit,
+  now: number
+): Bucket => ({
+  tokens: Math.min(rateLimit.limit, tokensAt(bucket, rateLimit, now) + 1),
+  updatedAt: now,
+});
+
+// When the bucket is full again - from then on it can be forgotten
+export const refilledAt = (bucket: Bucket, rateLimit: RateLimit) =>
+  bucket.updatedAt +
+  Math.ceil((rateLimit.limit - bucket.tokens) / refillPerMs(rateLimit));
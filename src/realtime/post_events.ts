@@ -0,0 +1,30 @@
+import { Context, Effect, Stream } from "effect";
+import type { RepositoryError } from "../repositories/posts_repository";
+import type { Post } from "../schemas/insta_posts";
+import type { NewCommentEvent, PostUpdate } from "../schemas/events";
+
+export type PostEvent =
+  | { type: "postUpdated"; post: PostUpdate }
+  | ({ type: "newComment" } & NewCommentEvent)
+  | { type: "newPost"; post: Post };
+
+// Events about one post go to its own channel; new posts go to the feed
+export const postChannel = (postId: string) => `post:${postId}`;
+export const FEED_CHANNEL = "feed";
+
+// Fan-out of live updates to subscribers - a Durable Object per channel in
+// production, an in-isolate PubSub otherwise.
+export class PostEvents extends Context.Tag("PostEvents")<
+  PostEvents,
+  {
+    // Best effort: a failed publish is logged, never fails the write
+    readonly publish: (
+      channel: string,
+      event: PostEvent
+    ) => Effect.Effect<void>;
+    // Everything published to the channel from now on, until interrupted
+    readonly subscribe: (
+      channel: string
+    ) => Stream.Stream<PostEvent, RepositoryError>;
+  }
+>() {}
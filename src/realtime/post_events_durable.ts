@@ -0,0 +1,67 @@
+import { Effect, Layer, Stream } from "effect";
+import { RepositoryError } from "../repositories/posts_repository";
+import { PostEvents, type PostEvent } from "./post_events";
+import type { PostEventsHub } from "./post_events_hub";
+
+// Open a WebSocket to a channel's hub; it closes when the scope does
+const connect = (hub: DurableObjectStub<PostEventsHub>, channel: string) =>
+  Effect.acquireRelease(
+    Effect.tryPromise({
+      try: async () => {
+        const response = await hub.fetch("https://post-events/subscribe", {
+          headers: { Upgrade: "websocket" },
+        });
+        if (!response.webSocket) {
+          throw new Error(`Hub answered ${response.status}`);
+        }
+        response.webSocket.accept();
+        return response.webSocket;
+      },
+      catch: (cause) =>
+        new RepositoryError({
+          message: `Failed to subscribe to ${channel}`,
+          cause,
+        }),
+    }),
+    (socket) => Effect.sync(() => socket.close(1000, "Unsubscribed"))
+  );
+
+// Fan-out through a Durable Object per channel, so subscribers on any
+// isolate see every event. `wrangler dev` runs the objects locally.
+export const makeDurablePostEvents = (
+  namespace: DurableObjectNamespace<PostEventsHub>
+) => {
+  const hubFor = (channel: string) =>
+    namespace.get(namespace.idFromName(channel));
+
+  return PostEvents.of({
+    publish: (channel, event) =>
+      Effect.tryPromise({
+        try: () => hubFor(channel).publish(JSON.stringify(event)),
+        catch: (cause) =>
+          new RepositoryError({
+            message: `Failed to publish to ${channel}`,
+            cause,
+          }),
+      }).pipe(
+        Effect.catchAll((error) => Effect.logWarning(error.message, error))
+      ),
+
+    subscribe: (channel) =>
+      Stream.asyncScoped<PostEvent, RepositoryError>((emit) =>
+        Effect.gen(function* () {
+          const socket = yield* connect(hubFor(channel), channel);
+          socket.addEventListener("message", (message) => {
+            emit.single(JSON.parse(String(message.data)));
+          });
+          socket.addEventListener("close", () => {
+            emit.end();
+          });
+        })
+      ),
+  });
+};
+
+export const PostEventsDurable = (
+  namespace: DurableObjectNamespace<PostEventsHub>
+) => Layer.succeed(PostEvents, makeDurablePostEvents(namespace));
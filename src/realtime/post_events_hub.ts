@@ -0,0 +1,37 @@
+import { DurableObject } from "cloudflare:workers";
+
+// One hub per channel (a post, or the feed). Every subscriber holds a
+// WebSocket to it, whichever isolate it came through, and a publish sends
+// the event down all of them. Sockets use the hibernation API so an idle
+// hub doesn't stay in memory.
+export class PostEventsHub extends DurableObject<CloudflareBindings> {
+  // Subscribe by upgrading to a WebSocket
+  async fetch(request: Request) {
+    if (request.headers.get("Upgrade") !== "websocket") {
+      return new Response("Expected a WebSocket upgrade", { status: 426 });
+    }
+    const { 0: client, 1: server } = new WebSocketPair();
+    this.ctx.acceptWebSocket(server);
+    return new Response(null, { status: 101, webSocket: client });
+  }
+
+  // Send an already serialized event to every subscriber
+  async publish(message: string) {
+    for (const socket of this.ctx.getWebSockets()) {
+      try {
+        socket.send(message);
+      } catch {
+        // Closing already; webSocketClose cleans it up
+      }
+    }
+  }
+
+  // Subscribers never send anything, they only leave
+  async webSocketClose(socket: WebSocket) {
+    try {
+      socket.close(1000, "Unsubscribed");
+    } catch {
+      // Already closed from the other side
+    }
+  }
+}
@@ -0,0 +1,25 @@
+import { Effect, Layer, PubSub, Stream } from "effect";
+import { PostEvents, type PostEvent } from "./post_events";
+
+// In-memory fan-out - only reaches subscribers in this isolate.
+// Used when no Durable Object binding is configured.
+export const makeInMemoryPostEvents = () => {
+  const pubsub = Effect.runSync(
+    PubSub.unbounded<{ channel: string; event: PostEvent }>()
+  );
+
+  return PostEvents.of({
+    publish: (channel, event) =>
+      PubSub.publish(pubsub, { channel, event }).pipe(Effect.asVoid),
+
+    subscribe: (channel) =>
+      Stream.fromPubSub(pubsub).pipe(
+        Stream.filter((message) => message.channel === channel),
+        Stream.map((message) => message.event)
+      ),
+  });
+};
+
+export const PostEventsInMemory = Layer.sync(PostEvents, () =>
+  makeInMemoryPostEvents()
+);
@@ -0,0 +1,69 @@
+import { Context, Effect, Option } from "effect";
+import type { StoredMessage } from "../messaging/message_log";
+import type { Cursor } from "../schemas/pagination";
+import type { RepositoryError } from "./posts_repository";
+
+// Someone in a conversation and how far they've read
+export type ConversationMember = {
+  userId: string;
+  joinedAt: number;
+  lastReadSeq: number; // 0 before they've read anything
+  lastReadAt?: number;
+};
+
+// The directory entry for a conversation; its messages live in the
+// MessageLog. lastMessage and lastSeq trail the log by a moment.
+export type StoredConversation = {
+  id: string;
+  title?: string; // Groups only
+  directKey?: string; // 1:1s only - see directKeyOf
+  createdBy: string;
+  createdAt: number;
+  updatedAt: number; // The last message, or createdAt
+  lastSeq: number;
+  lastMessage?: StoredMessage;
+  members: Array<ConversationMember>;
+};
+
+// The one key of a 1:1 between two users, whoever started it
+export const directKeyOf = (userId: string, otherId: string) =>
+  [userId, otherId].sort().join(":");
+
+// Storage contract for who is in which conversation and how far they've read
+export class ConversationsRepository extends Context.Tag(
+  "ConversationsRepository"
+)<
+  ConversationsRepository,
+  {
+    // Returns false (and changes nothing) if a 1:1 with the same directKey
+    // already exists
+    readonly insertConversation: (
+      conversation: StoredConversation
+    ) => Effect.Effect<boolean, RepositoryError>;
+    readonly findConversation: (
+      id: string
+    ) => Effect.Effect<Option.Option<StoredConversation>, RepositoryError>;
+    readonly findDirectConversation: (
+      directKey: string
+    ) => Effect.Effect<Option.Option<StoredConversation>, RepositoryError>;
+    // The user's conversations, most recently active first, starting after
+    // the cursor
+    readonly listConversations: (
+      userId: string,
+      cursor: Cursor | undefined,
+      limit: number
+    ) => Effect.Effect<Array<StoredConversation>, RepositoryError>;
+    // Makes the message the conversation's latest unless a later one
+    // already is
+    readonly recordMessage: (
+      message: StoredMessage
+    ) => Effect.Effect<void, RepositoryError>;
+    // Moves the member's read position forward to seq; never back
+    readonly markRead: (
+      conversationId: string,
+      userId: string,
+      seq: number,
+      at: number
+    ) => Effect.Effect<void, RepositoryError>;
+  }
+>() {}
@@ -0,0 +1,164 @@
+import { Effect, Layer, Option } from "effect";
+import type { StoredMessage } from "../messaging/message_log";
+import { tryD1 } from "./d1";
+import {
+  ConversationsRepository,
+  type ConversationMember,
+  type StoredConversation,
+} from "./conversations_repository";
+
+// Row shapes as stored by migrations/0018_conversations.sql
+type ConversationRow = {
+  id: string;
+  title: string | null;
+  direct_key: string | null;
+  created_by: string;
+  created_at: number;
+  updated_at: number;
+  last_seq: number;
+  last_message: string | null; // JSON StoredMessage
+};
+
+type MemberRow = {
+  conversation_id: string;
+  user_id: string;
+  joined_at: number;
+  last_read_seq: number;
+  last_read_at: number | null;
+};
+
+const toMember = (row: MemberRow): ConversationMember => ({
+  userId: row.user_id,
+  joinedAt: row.joined_at,
+  lastReadSeq: row.last_read_seq,
+  lastReadAt: row.last_read_at ?? undefined,
+});
+
+export const makeD1ConversationsRepository = (db: D1Database) => {
+  // Effect to attach their members to conversation rows
+  const withMembers = (rows: ReadonlyArray<ConversationRow>) =>
+    (rows.length === 0
+      ? Effect.succeed<Array<MemberRow>>([])
+      : tryD1("Failed to load conversation members", () =>
+          db
+            .prepare(
+              `SELECT * FROM conversation_members
+               WHERE conversation_id IN (SELECT value FROM json_each(?))
+               ORDER BY joined_at ASC, user_id ASC`
+            )
+            .bind(JSON.stringify(rows.map((row) => row.id)))
+            .all<MemberRow>()
+        ).pipe(Effect.map(({ results }) => results))
+    ).pipe(
+      Effect.map((members) =>
+        rows.map((row): StoredConversation => ({
+          id: row.id,
+          title: row.title ?? undefined,
+          directKey: row.direct_key ?? undefined,
+          createdBy: row.created_by,
+          createdAt: row.created_at,
+          updatedAt: row.updated_at,
+          lastSeq: row.last_seq,
+          lastMessage: row.last_message
+            ? (JSON.parse(row.last_message) as StoredMessage)
+            : undefined,
+          members: members
+            .filter((member) => member.conversation_id === row.id)
+            .map(toMember),
+        }))
+      )
+    );
+
+  const findOne = (column: "id" | "direct_key", value: string) =>
+    tryD1(`Failed to load conversation ${value}`, () =>
+      db
+        .prepare(`SELECT * FROM conversations WHERE ${column} = ?`)
+        .bind(value)
+        .first<ConversationRow>()
+    ).pipe(
+      Effect.flatMap((row) => withMembers(row ? [row] : [])),
+      Effect.map(([conversation]) => Option.fromNullable(conversation))
+    );
+
+  return ConversationsRepository.of({
+    // Members only go in if the conversation did
+    insertConversation: (conversation) =>
+      tryD1(`Failed to create conversation ${conversation.id}`, () =>
+        db.batch([
+          db
+            .prepare(
+              `INSERT INTO conversations (id, title, direct_key, created_by, created_at, updated_at, last_seq)
+               VALUES (?, ?, ?, ?, ?, ?, ?)
+               ON CONFLICT (direct_key) DO NOTHING`
+            )
+            .bind(
+              conversation.id,
+              conversation.title ?? null,
+              conversation.directKey ?? null,
+              conversation.createdBy,
+              conversation.createdAt,
+              conversation.updatedAt,
+              conversation.lastSeq
+            ),
+          db
+            .prepare(
+              `INSERT INTO conversation_members (conversation_id, user_id, joined_at, last_read_seq)
+               SELECT ?1, json_extract(value, '$.userId'), json_extract(value, '$.joinedAt'), 0
+               FROM json_each(?2)
+               WHERE EXISTS (SELECT 1 FROM conversations WHERE id = ?1)`
+            )
+            .bind(conversation.id, JSON.stringify(conversation.members)),
+        ])
+      ).pipe(Effect.map(([inserted]) => inserted.meta.changes > 0)),
+
+    findConversation: (id) => findOne("id", id),
+
+    findDirectConversation: (directKey) => findOne("direct_key", directKey),
+
+    listConversations: (userId, cursor, limit) =>
+      tryD1(`Failed to list conversations of user ${userId}`, () =>
+        db
+          .prepare(
+            `SELECT c.* FROM conversations c
+             JOIN conversation_members m ON m.conversation_id = c.id
+             WHERE m.user_id = ?1
+               AND (?2 IS NULL OR c.updated_at < ?2 OR (c.updated_at = ?2 AND c.id < ?3))
+             ORDER BY c.updated_at DESC, c.id DESC
+             LIMIT ?4`
+          )
+          .bind(userId, cursor?.key ?? null, cursor?.id ?? null, limit)
+          .all<ConversationRow>()
+      ).pipe(Effect.flatMap(({ results }) => withMembers(results))),
+
+    recordMessage: (message) =>
+      tryD1(`Failed to update conversation ${message.conversationId}`, () =>
+        db
+          .prepare(
+            `UPDATE conversations SET last_seq = ?, last_message = ?, updated_at = ?
+               WHERE id = ? AND last_seq < ?`
+          )
+          .bind(
+            message.seq,
+            JSON.stringify(message),
+            message.createdAt,
+            message.conversationId,
+            message.seq
+          )
+          .run()
+      ),
+
+    markRead: (conversationId, userId, seq, at) =>
+      tryD1(`Failed to mark conversation ${conversationId} read`, () =>
+        db
+          .prepare(
+            `UPDATE conversation_members SET last_read_seq = ?, last_read_at = ?
+             WHERE conversation_id = ? AND user_id = ? AND last_read_seq < ?`
+          )
+          .bind(seq, at, conversationId, userId, seq)
+          .run()
+      ),
+  });
+};
+
+export const ConversationsRepositoryD1 = (db: D1Database) =>
+  Layer.succeed(ConversationsRepository, makeD1ConversationsRepository(db));
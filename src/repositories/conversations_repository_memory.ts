@@ -0,0 +1,88 @@
+import { Effect, Layer, Option } from "effect";
+import {
+  ConversationsRepository,
+  type StoredConversation,
+} from "./conversations_repository";
+import { pageBy } from "./memory_paging";
+
+// In-memory conversation directory - state lives in this isolate only.
+// Used when no D1 binding is configured.
+export const makeInMemoryConversationsRepository = () => {
+  const conversations = new Map<string, StoredConversation>();
+
+  // Copies, so callers can't change what's stored
+  const copyOf = (conversation: StoredConversation): StoredConversation => ({
+    ...conversation,
+    members: conversation.members.map((member) => ({ ...member })),
+  });
+
+  return ConversationsRepository.of({
+    insertConversation: (conversation) =>
+      Effect.sync(() => {
+        const taken =
+          conversation.directKey !== undefined &&
+          [...conversations.values()].some(
+            (existing) => existing.directKey === conversation.directKey
+          );
+        if (!taken) {
+          conversations.set(conversation.id, copyOf(conversation));
+        }
+        return !taken;
+      }),
+
+    findConversation: (id) =>
+      Effect.sync(() =>
+        Option.fromNullable(conversations.get(id)).pipe(Option.map(copyOf))
+      ),
+
+    findDirectConversation: (directKey) =>
+      Effect.sync(() =>
+        Option.fromNullable(
+          [...conversations.values()].find(
+            (conversation) => conversation.directKey === directKey
+          )
+        ).pipe(Option.map(copyOf))
+      ),
+
+    listConversations: (userId, cursor, limit) =>
+      Effect.sync(() =>
+        pageBy(
+          [...conversations.values()].filter((conversation) =>
+            conversation.members.some((member) => member.userId === userId)
+          ),
+          (conversation) => conversation.updatedAt,
+          (conversation) => conversation.id,
+          "desc",
+          cursor,
+          limit
+        ).map(copyOf)
+      ),
+
+    recordMessage: (message) =>
+      Effect.sync(() => {
+        const conversation = conversations.get(message.conversationId);
+        if (conversation && conversation.lastSeq < message.seq) {
+          conversation.lastSeq = message.seq;
+          conversation.lastMessage = message;
+          conversation.updatedAt = message.createdAt;
+        }
+      }),
+
+    markRead: (conversationId, userId, seq, at) =>
+      Effect.sync(() => {
+        const member = conversations
+          .get(conversationId)
+          ?.members.find((member) => member.userId === userId);
+        if (member && member.lastReadSeq < seq) {
+          member.lastReadSeq = seq;
+          member.lastReadAt = at;
+        }
+      }),
+  });
+};
+
+// Fresh in-memory repository every time the layer is built - handy for tests
+export const ConversationsRepositoryInMemory = Layer.sync(
+  ConversationsRepository,
+  () => makeInMemoryConversationsRepository()
+);
@@ -0,0 +1,19 @@
+import { Effect } from "effect";
+import { RepositoryError } from "./posts_repository";
+import type { SearchQuery } from "../text/search";
+
+// Wrap a D1 call so failures land in the error channel instead of throwing
+export const tryD1 = <A>(message: string, run: () => Promise<A>) =>
+  Effect.tryPromise({
+    try: run,
+    catch: (cause) => new RepositoryError({ message, cause }),
+  });
+
+// FTS5 MATCH expression for a search: every term, the last one as a prefix
+// when asked. Terms are bare letters and digits, so quoting is enough.
+export const toFtsQuery = ({ terms, prefix }: SearchQuery) =>
+  terms
+    .map((term, index) =>
+      prefix && index === terms.length - 1 ? `"${term}"*` : `"${term}"`
+    )
+    .join(" ");
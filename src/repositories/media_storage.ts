@@ -0,0 +1,34 @@
+import { Context, Effect, Option } from "effect";
+import type { RepositoryError } from "./posts_repository";
+
+// What we know about an uploaded file without reading it
+export type MediaAsset = {
+  id: string;
+  ownerId: string; // User who uploaded it
+  contentType: string;
+  size: number; // Bytes
+  width: number; // Pixels, read from the file at upload
+  height: number;
+};
+
+// Storage contract for uploaded images - R2 in production, memory otherwise.
+// Assets are immutable: a new upload always gets a new id.
+export class MediaStorage extends Context.Tag("MediaStorage")<
+  MediaStorage,
+  {
+    readonly putAsset: (
+      asset: MediaAsset,
+      bytes: ArrayBuffer
+    ) => Effect.Effect<void, RepositoryError>;
+    readonly findAsset: (
+      id: string
+    ) => Effect.Effect<Option.Option<MediaAsset>, RepositoryError>;
+    // The asset together with a stream of its bytes
+    readonly readAsset: (
+      id: string
+    ) => Effect.Effect<
+      Option.Option<{ asset: MediaAsset; body: ReadableStream }>,
+      RepositoryError
+    >;
+  }
+>() {}
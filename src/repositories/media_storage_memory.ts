@@ -0,0 +1,36 @@
+import { Effect, Layer, Option } from "effect";
+import { MediaStorage, type MediaAsset } from "./media_storage";
+
+// In-memory uploads - state lives in this isolate only.
+// Used when no R2 binding is configured.
+export const makeInMemoryMediaStorage = () => {
+  const assets = new Map<string, { asset: MediaAsset; bytes: ArrayBuffer }>();
+
+  return MediaStorage.of({
+    putAsset: (asset, bytes) =>
+      Effect.sync(() => {
+        assets.set(asset.id, { asset, bytes });
+      }),
+
+    findAsset: (id) =>
+      Effect.sync(() =>
+        Option.fromNullable(assets.get(id)).pipe(
+          Option.map(({ asset }) => asset)
+        )
+      ),
+
+    readAsset: (id) =>
+      Effect.sync(() =>
+        Option.fromNullable(assets.get(id)).pipe(
+          Option.map(({ asset, bytes }) => ({
+            asset,
+            body: new Blob([bytes]).stream(),
+          }))
+        )
+      ),
+  });
+};
+
+export const MediaStorageInMemory = Layer.sync(MediaStorage, () =>
+  makeInMemoryMediaStorage()
+);
@@ -0,0 +1,58 @@
+import { Effect, Layer, Option } from "effect";
+import { MediaStorage, type MediaAsset } from "./media_storage";
+import { RepositoryError } from "./posts_repository";
+
+// Wrap an R2 call so failures land in the error channel instead of throwing
+const tryR2 = <A>(message: string, run: () => Promise<A>) =>
+  Effect.tryPromise({
+    try: run,
+    catch: (cause) => new RepositoryError({ message, cause }),
+  });
+
+// Owner and pixel size ride along as custom metadata on the object
+const toAsset = (object: R2Object): MediaAsset => ({
+  id: object.key,
+  ownerId: object.customMetadata?.ownerId ?? "",
+  contentType: object.httpMetadata?.contentType ?? "application/octet-stream",
+  size: object.size,
+  width: Number(object.customMetadata?.width ?? 0),
+  height: Number(object.customMetadata?.height ?? 0),
+});
+
+// R2 storage - `wrangler dev` simulates the bucket on disk under .wrangler/state
+export const makeR2MediaStorage = (bucket: R2Bucket) =>
+  MediaStorage.of({
+    putAsset: (asset, bytes) =>
+      tryR2(`Failed to store asset ${asset.id}`, () =>
+        bucket.put(asset.id, bytes, {
+          httpMetadata: { contentType: asset.contentType },
+          customMetadata: {
+            ownerId: asset.ownerId,
+            width: String(asset.width),
+            height: String(asset.height),
+          },
+        })
+      ).pipe(Effect.asVoid),
+
+    findAsset: (id) =>
+      tryR2(`Failed to look up asset ${id}`, () => bucket.head(id)).pipe(
+        Effect.map((object) =>
+          Option.fromNullable(object).pipe(Option.map(toAsset))
+        )
+      ),
+
+    readAsset: (id) =>
+      tryR2(`Failed to read asset ${id}`, () => bucket.get(id)).pipe(
+        Effect.map((object) =>
+          Option.fromNullable(object).pipe(
+            Option.map((object) => ({
+              asset: toAsset(object),
+              body: object.body,
+            }))
+          )
+        )
+      ),
+  });
+
+export const MediaStorageR2 = (bucket: R2Bucket) =>
+  Layer.succeed(MediaStorage, makeR2MediaStorage(bucket));
@@ -0,0 +1,24 @@
+import type { Cursor } from "../schemas/pagination";
+
+// Keyset paging over (key, id) - the in-memory twin of the D1 queries
+export const pageBy = <A>(
+  rows: ReadonlyArray<A>,
+  keyOf: (row: A) => number,
+  idOf: (row: A) => string,
+  direction: "asc" | "desc",
+  cursor: Cursor | undefined,
+  limit: number
+) => {
+  // Negative when `a` comes before `b` in the requested order
+  const compare = (a: Cursor, b: Cursor) => {
+    const byKey = a.key - b.key;
+    const byId = a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+    return (direction === "asc" ? 1 : -1) * (byKey || byId);
+  };
+  const positionOf = (row: A): Cursor => ({ key: keyOf(row), id: idOf(row) });
+
+  return [...rows]
+    .sort((a, b) => compare(positionOf(a), positionOf(b)))
+    .filter((row) => !cursor || compare(positionOf(row), cursor) > 0)
+    .slice(0, limit);
+};
@@ -0,0 +1,75 @@
+import { Context, Effect } from "effect";
+import type { LikeTarget } from "../schemas/insta_posts";
+import type { ReportReason } from "../schemas/moderation";
+import type { Cursor } from "../schemas/pagination";
+import type { RepositoryError } from "./posts_repository";
+
+// One user's report on a post, comment or reply
+export type Report = {
+  reporterId: string;
+  target: LikeTarget;
+  reason: ReportReason;
+  note?: string;
+  at: number;
+};
+
+// "open" cases are in the queue; the others were decided
+export type CaseStatus = "open" | "approved" | "hidden";
+
+// Everything known about one reported or held target.
+// The queue is paged by (updatedAt, caseKey(target)).
+export type ModerationCase = {
+  target: LikeTarget;
+  status: CaseStatus;
+  reportCount: number;
+  reasons: Partial<Record<ReportReason, number>>;
+  heldFor?: string; // Set when the text filter held it back
+  unannounced: boolean; // Held as it was first posted, and not approved since
+  createdAt: number;
+  updatedAt: number; // Latest report, hold or decision
+  resolvedBy?: string; // Moderator who decided
+};
+
+// Position of a case among those updated at the same time
+export const caseKey = (target: LikeTarget) =>
+  [target.postId, target.commentId ?? "", target.replyId ?? ""].join("/");
+
+// Storage contract for reports and the moderation queue
+export class ModerationRepository extends Context.Tag("ModerationRepository")<
+  ModerationRepository,
+  {
+    // Returns false (and changes nothing) if the reporter already reported
+    // the target. Otherwise the target's case is opened - or reopened if a
+    // moderator had decided on it.
+    readonly addReport: (
+      report: Report
+    ) => Effect.Effect<boolean, RepositoryError>;
+    // Opens (or reopens) the target's case for something the text filter
+    // held back. `unannounced` when it was held as it was first posted.
+    readonly holdForReview: (
+      target: LikeTarget,
+      reason: string,
+      at: number,
+      unannounced: boolean
+    ) => Effect.Effect<void, RepositoryError>;
+    // Open cases, latest activity first, starting after the cursor
+    readonly listOpenCases: (
+      cursor: Cursor | undefined,
+      limit: number
+    ) => Effect.Effect<Array<ModerationCase>, RepositoryError>;
+    // Records a moderator's decision, taking the case out of the queue.
+    // Returns true when it approves unannounced content - the caller sends
+    // that out then, and only then, as approving clears the mark.
+    readonly resolveCase: (
+      target: LikeTarget,
+      status: Exclude<CaseStatus, "open">,
+      moderatorId: string,
+      at: number
+    ) => Effect.Effect<boolean, RepositoryError>;
+    // Drops the cases and reports on a target and everything under it -
+    // a post's comments and replies, a comment's replies
+    readonly deleteForTarget: (
+      target: LikeTarget
+    ) => Effect.Effect<void, RepositoryError>;
+  }
+>() {}
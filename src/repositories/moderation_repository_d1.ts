@@ -0,0 +1,161 @@
+import { Effect, Layer } from "effect";
+import type { LikeTarget } from "../schemas/insta_posts";
+import { tryD1 } from "./d1";
+import {
+  ModerationRepository,
+  type CaseStatus,
+  type ModerationCase,
+} from "./moderation_repository";
+
+// Row shape as stored by migrations/0013_moderation.sql, plus the report
+// count per reason as a JSON object
+type CaseRow = {
+  post_id: string;
+  comment_id: string;
+  reply_id: string;
+  status: CaseStatus;
+  report_count: number;
+  held_for: string | null;
+  unannounced: number;
+  created_at: number;
+  updated_at: number;
+  resolved_by: string | null;
+  reasons: string;
+};
+
+const toCase = (row: CaseRow): ModerationCase => ({
+  target: {
+    postId: row.post_id,
+    commentId: row.comment_id || undefined,
+    replyId: row.reply_id || undefined,
+  },
+  status: row.status,
+  reportCount: row.report_count,
+  reasons: JSON.parse(row.reasons),
+  heldFor: row.held_for ?? undefined,
+  unannounced: row.unannounced === 1,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+  resolvedBy: row.resolved_by ?? undefined,
+});
+
+// Reports and cases use "" for the missing levels of a post or comment target
+const targetKey = (target: LikeTarget) =>
+  [target.postId, target.commentId ?? "", target.replyId ?? ""] as const;
+
+export const makeD1ModerationRepository = (db: D1Database) =>
+  ModerationRepository.of({
+    // The case only moves if the report was new
+    addReport: ({ reporterId, target, reason, note, at }) =>
+      tryD1(`Failed to report post ${target.postId}`, () =>
+        db.batch([
+          db
+            .prepare(
+              `INSERT OR IGNORE INTO reports (reporter_id, post_id, comment_id, reply_id, reason, note, created_at)
+               VALUES (?, ?, ?, ?, ?, ?, ?)`
+            )
+            .bind(reporterId, ...targetKey(target), reason, note ?? null, at),
+          db
+            .prepare(
+              `INSERT INTO moderation_cases (post_id, comment_id, reply_id, report_count, created_at, updated_at)
+               SELECT ?1, ?2, ?3, 1, ?4, ?4 WHERE changes() > 0
+               ON CONFLICT (post_id, comment_id, reply_id) DO UPDATE
+               SET status = 'open', report_count = report_count + 1,
+                   updated_at = excluded.updated_at, resolved_by = NULL`
+            )
+            .bind(...targetKey(target), at),
+        ])
+      ).pipe(Effect.map(([inserted]) => inserted.meta.changes > 0)),
+
+    // A held edit of content that's still unannounced leaves it so
+    holdForReview: (target, reason, at, unannounced) =>
+      tryD1(`Failed to hold post ${target.postId} for review`, () =>
+        db
+          .prepare(
+            `INSERT INTO moderation_cases (post_id, comment_id, reply_id, held_for, unannounced, created_at, updated_at)
+             VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?6)
+             ON CONFLICT (post_id, comment_id, reply_id) DO UPDATE
+             SET status = 'open', held_for = excluded.held_for,
+                 unannounced = MAX(unannounced, excluded.unannounced),
+                 updated_at = excluded.updated_at, resolved_by = NULL`
+          )
+          .bind(...targetKey(target), reason, unannounced ? 1 : 0, at)
+          .run()
+      ).pipe(Effect.asVoid),
+
+    listOpenCases: (cursor, limit) =>
+      tryD1("Failed to list moderation cases", () =>
+        db
+          .prepare(
+            `SELECT c.*, (
+               SELECT json_group_object(reason, reports) FROM (
+                 SELECT reason, COUNT(*) AS reports FROM reports r
+                 WHERE r.post_id = c.post_id AND r.comment_id = c.comment_id
+                   AND r.reply_id = c.reply_id
+                 GROUP BY reason
+               )
+             ) AS reasons
+             FROM moderation_cases c
+             WHERE c.status = 'open'
+               AND (?1 IS NULL OR c.updated_at < ?1 OR (c.updated_at = ?1
+                 AND c.post_id || '/' || c.comment_id || '/' || c.reply_id < ?2))
+             ORDER BY c.updated_at DESC,
+                      c.post_id || '/' || c.comment_id || '/' || c.reply_id DESC
+             LIMIT ?3`
+          )
+          .bind(cursor?.key ?? null, cursor?.id ?? null, limit)
+          .all<CaseRow>()
+      ).pipe(Effect.map(({ results }) => results.map(toCase))),
+
+    // Reads the mark and clears it in the same batch, so two approvals
+    // can't both see it
+    resolveCase: (target, status, moderatorId, at) =>
+      tryD1(`Failed to resolve the case on post ${target.postId}`, () =>
+        db.batch<{ unannounced: number }>([
+          db
+            .prepare(
+              `SELECT unannounced FROM moderation_cases
+               WHERE post_id = ? AND comment_id = ? AND reply_id = ?`
+            )
+            .bind(...targetKey(target)),
+          db
+            .prepare(
+              `INSERT INTO moderation_cases (post_id, comment_id, reply_id, status, created_at, updated_at, resolved_by)
+               VALUES (?1, ?2, ?3, ?4, ?5, ?5, ?6)
+               ON CONFLICT (post_id, comment_id, reply_id) DO UPDATE
+               SET status = excluded.status, updated_at = excluded.updated_at,
+                   resolved_by = excluded.resolved_by,
+                   unannounced = unannounced AND excluded.status != 'approved'`
+            )
+            .bind(...targetKey(target), status, at, moderatorId),
+        ])
+      ).pipe(
+        Effect.map(
+          ([before]) =>
+            status === "approved" && before.results[0]?.unannounced === 1
+        )
+      ),
+
+    deleteForTarget: (target) =>
+      tryD1(`Failed to delete reports on post ${target.postId}`, () =>
+        db.batch(
+          ["reports", "moderation_cases"].map((table) =>
+            db
+              .prepare(
+                `DELETE FROM ${table}
+                 WHERE post_id = ?1
+                   AND (?2 IS NULL OR comment_id = ?2)
+                   AND (?3 IS NULL OR reply_id = ?3)`
+              )
+              .bind(
+                target.postId,
+                target.commentId ?? null,
+                target.replyId ?? null
+              )
+          )
+        )
+      ).pipe(Effect.asVoid),
+  });
+
+export const ModerationRepositoryD1 = (db: D1Database) =>
+  Layer.succeed(ModerationRepository, makeD1ModerationRepository(db));
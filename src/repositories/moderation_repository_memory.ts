@@ -0,0 +1,137 @@
+import { Effect, Layer } from "effect";
+import type { LikeTarget } from "../schemas/insta_posts";
+import {
+  ModerationRepository,
+  caseKey,
+  type ModerationCase,
+  type Report,
+} from "./moderation_repository";
+import { pageBy } from "./memory_paging";
+
+// Whether the target is `scope` itself or sits under it
+const isWithin = (target: LikeTarget, scope: LikeTarget) =>
+  target.postId === scope.postId &&
+  (!scope.commentId || target.commentId === scope.commentId) &&
+  (!scope.replyId || target.replyId === scope.replyId);
+
+// In-memory reports and cases - state lives in this isolate only.
+// Used when no D1 binding is configured.
+export const makeInMemoryModerationRepository = () => {
+  const reports: Array<Report> = [];
+  // Keyed by caseKey
+  const cases = new Map<string, Omit<ModerationCase, "reasons">>();
+
+  // The target's case, created open if there's none yet
+  const caseFor = (target: LikeTarget, at: number) => {
+    const key = caseKey(target);
+    const existing = cases.get(key);
+    if (existing) {
+      return existing;
+    }
+    const created: Omit<ModerationCase, "reasons"> = {
+      target: {
+        postId: target.postId,
+        commentId: target.commentId,
+        replyId: target.replyId,
+      },
+      status: "open",
+      reportCount: 0,
+      unannounced: false,
+      createdAt: at,
+      updatedAt: at,
+    };
+    cases.set(key, created);
+    return created;
+  };
+
+  const reopen = (entry: Omit<ModerationCase, "reasons">, at: number) => {
+    entry.status = "open";
+    entry.updatedAt = at;
+    entry.resolvedBy = undefined;
+  };
+
+  const withReasons = (
+    entry: Omit<ModerationCase, "reasons">
+  ): ModerationCase => {
+    const reasons: ModerationCase["reasons"] = {};
+    for (const report of reports) {
+      if (caseKey(report.target) === caseKey(entry.target)) {
+        reasons[report.reason] = (reasons[report.reason] ?? 0) + 1;
+      }
+    }
+    return { ...entry, reasons };
+  };
+
+  return ModerationRepository.of({
+    addReport: (report) =>
+      Effect.sync(() => {
+        const key = caseKey(report.target);
+        if (
+          reports.some(
+            (existing) =>
+              existing.reporterId === report.reporterId &&
+              caseKey(existing.target) === key
+          )
+        ) {
+          return false;
+        }
+        reports.push(report);
+        const entry = caseFor(report.target, report.at);
+        entry.reportCount += 1;
+        reopen(entry, report.at);
+        return true;
+      }),
+
+    holdForReview: (target, reason, at, unannounced) =>
+      Effect.sync(() => {
+        const entry = caseFor(target, at);
+        entry.heldFor = reason;
+        entry.unannounced ||= unannounced;
+        reopen(entry, at);
+      }),
+
+    listOpenCases: (cursor, limit) =>
+      Effect.sync(() =>
+        pageBy(
+          [...cases.values()].filter((entry) => entry.status === "open"),
+          (entry) => entry.updatedAt,
+          (entry) => caseKey(entry.target),
+          "desc",
+          cursor,
+          limit
+        ).map(withReasons)
+      ),
+
+    resolveCase: (target, status, moderatorId, at) =>
+      Effect.sync(() => {
+        const entry = caseFor(target, at);
+        const announce = status === "approved" && entry.unannounced;
+        Object.assign(entry, {
+          status,
+          updatedAt: at,
+          resolvedBy: moderatorId,
+          unannounced: entry.unannounced && status !== "approved",
+        });
+        return announce;
+      }),
+
+    deleteForTarget: (target) =>
+      Effect.sync(() => {
+        const remaining = reports.filter(
+          (report) => !isWithin(report.target, target)
+        );
+        reports.splice(0, reports.length, ...remaining);
+        for (const [key, entry] of cases) {
+          if (isWithin(entry.target, target)) {
+            cases.delete(key);
+          }
+        }
+      }),
+  });
+};
+
+// Fresh in-memory repository every time the layer is built - handy for tests
+export const ModerationRepositoryInMemory = Layer.sync(
+  ModerationRepository,
+  () => makeInMemoryModerationRepository()
+);
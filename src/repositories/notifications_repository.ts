@@ -0,0 +1,67 @@
+import { Context, Effect } from "effect";
+import type { LikeTarget } from "../schemas/insta_posts";
+import type { Cursor } from "../schemas/pagination";
+import type { RepositoryError } from "./posts_repository";
+
+export type NotificationKind = "like" | "comment" | "reply";
+
+// Someone liked, commented on or replied to the recipient's content.
+// The target is what they interacted with: the liked entity, the
+// commented post, or the comment replied to.
+export type Activity = {
+  recipientId: string;
+  actorId: string;
+  kind: NotificationKind;
+  target: LikeTarget;
+  at: number;
+};
+
+// Every activity of one kind on one target while it was unread.
+// Notifications are paged by (updatedAt, id).
+export type StoredNotification = {
+  id: string;
+  recipientId: string;
+  kind: NotificationKind;
+  target: LikeTarget;
+  actorCount: number;
+  recentActorIds: Array<string>; // Newest first, at most RECENT_ACTORS
+  createdAt: number;
+  updatedAt: number;
+  readAt?: number;
+};
+
+// How many actors a notification names ("alice and bob ...")
+export const RECENT_ACTORS = 2;
+
+// Storage contract for the notifications inbox
+export class NotificationsRepository extends Context.Tag(
+  "NotificationsRepository"
+)<
+  NotificationsRepository,
+  {
+    // Join the unread notification for this kind and target, or start one.
+    // An actor who is already part of it changes nothing.
+    readonly recordActivity: (
+      activity: Activity
+    ) => Effect.Effect<void, RepositoryError>;
+    // The inbox, most recently active first, starting after the cursor
+    readonly listNotifications: (
+      recipientId: string,
+      cursor: Cursor | undefined,
+      limit: number
+    ) => Effect.Effect<Array<StoredNotification>, RepositoryError>;
+    readonly countUnread: (
+      recipientId: string
+    ) => Effect.Effect<number, RepositoryError>;
+    // Mark the given notifications read, or all of them without ids
+    readonly markRead: (
+      recipientId: string,
+      ids: ReadonlyArray<string> | undefined,
+      readAt: number
+    ) => Effect.Effect<void, RepositoryError>;
+    // Drop notifications about a deleted target and anything nested under it
+    readonly deleteForTarget: (
+      target: LikeTarget
+    ) => Effect.Effect<void, RepositoryError>;
+  }
+>() {}
@@ -0,0 +1,152 @@
+import { Effect, Layer } from "effect";
+import { tryD1 } from "./d1";
+import {
+  NotificationsRepository,
+  RECENT_ACTORS,
+  type NotificationKind,
+  type StoredNotification,
+} from "./notifications_repository";
+
+// Row shape as stored by migrations/0010_create_notifications.sql, plus the
+// recent actors as a JSON array
+type NotificationRow = {
+  id: string;
+  recipient_id: string;
+  kind: NotificationKind;
+  post_id: string;
+  comment_id: string;
+  reply_id: string;
+  actor_count: number;
+  recent_actor_ids: string;
+  created_at: number;
+  updated_at: number;
+  read_at: number | null;
+};
+
+const toNotification = (row: NotificationRow): StoredNotification => ({
+  id: row.id,
+  recipientId: row.recipient_id,
+  kind: row.kind,
+  target: {
+    postId: row.post_id,
+    commentId: row.comment_id || undefined,
+    replyId: row.reply_id || undefined,
+  },
+  actorCount: row.actor_count,
+  recentActorIds: JSON.parse(row.recent_actor_ids),
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+  readAt: row.read_at ?? undefined,
+});
+
+export const makeD1NotificationsRepository = (db: D1Database) =>
+  NotificationsRepository.of({
+    // Start the group if there's no unread one, add the actor, and bump the
+    // count only when the actor was new to it
+    recordActivity: ({ recipientId, actorId, kind, target, at }) => {
+      const commentId = target.commentId ?? "";
+      const replyId = target.replyId ?? "";
+      const groupKey = [kind, target.postId, commentId, replyId].join("/");
+      return tryD1(`Failed to notify user ${recipientId}`, () =>
+        db.batch([
+          db
+            .prepare(
+              `INSERT INTO notifications (id, recipient_id, kind, group_key, post_id, comment_id, reply_id, created_at, updated_at)
+               VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7, ?8, ?8)
+               ON CONFLICT (recipient_id, group_key) WHERE read_at IS NULL DO NOTHING`
+            )
+            .bind(
+              crypto.randomUUID(),
+              recipientId,
+              kind,
+              groupKey,
+              target.postId,
+              commentId,
+              replyId,
+              at
+            ),
+          db
+            .prepare(
+              `INSERT OR IGNORE INTO notification_actors (notification_id, actor_id, created_at)
+               SELECT id, ?3, ?4 FROM notifications
+               WHERE recipient_id = ?1 AND group_key = ?2 AND read_at IS NULL`
+            )
+            .bind(recipientId, groupKey, actorId, at),
+          db
+            .prepare(
+              `UPDATE notifications SET actor_count = actor_count + 1, updated_at = ?3
+               WHERE recipient_id = ?1 AND group_key = ?2 AND read_at IS NULL
+                 AND changes() > 0`
+            )
+            .bind(recipientId, groupKey, at),
+        ])
+      );
+    },
+
+    listNotifications: (recipientId, cursor, limit) =>
+      tryD1(`Failed to list notifications of user ${recipientId}`, () =>
+        db
+          .prepare(
+            `SELECT n.*, (
+               SELECT json_group_array(actor_id) FROM (
+                 SELECT actor_id FROM notification_actors
+                 WHERE notification_id = n.id
+                 ORDER BY created_at DESC, actor_id DESC
+                 LIMIT ?5
+               )
+             ) AS recent_actor_ids
+             FROM notifications n
+             WHERE n.recipient_id = ?1
+               AND (?2 IS NULL OR n.updated_at < ?2 OR (n.updated_at = ?2 AND n.id < ?3))
+             ORDER BY n.updated_at DESC, n.id DESC
+             LIMIT ?4`
+          )
+          .bind(
+            recipientId,
+            cursor?.key ?? null,
+            cursor?.id ?? null,
+            limit,
+            RECENT_ACTORS
+          )
+          .all<NotificationRow>()
+      ).pipe(Effect.map(({ results }) => results.map(toNotification))),
+
+    countUnread: (recipientId) =>
+      tryD1(`Failed to count notifications of user ${recipientId}`, () =>
+        db
+          .prepare(
+            `SELECT COUNT(*) AS unread FROM notifications
+             WHERE recipient_id = ? AND read_at IS NULL`
+          )
+          .bind(recipientId)
+          .first<{ unread: number }>()
+      ).pipe(Effect.map((row) => row?.unread ?? 0)),
+
+    markRead: (recipientId, ids, readAt) =>
+      tryD1(`Failed to mark notifications of user ${recipientId} read`, () =>
+        db
+          .prepare(
+            `UPDATE notifications SET read_at = ?2
+             WHERE recipient_id = ?1 AND read_at IS NULL
+               AND (?3 IS NULL OR id IN (SELECT value FROM json_each(?3)))`
+          )
+          .bind(recipientId, readAt, ids ? JSON.stringify(ids) : null)
+          .run()
+      ).pipe(Effect.asVoid),
+
+    deleteForTarget: (target) =>
+      tryD1(`Failed to delete notifications on post ${target.postId}`, () =>
+        db
+          .prepare(
+            `DELETE FROM notifications
+             WHERE post_id = ?1
+               AND (?2 IS NULL OR comment_id = ?2)
+               AND (?3 IS NULL OR reply_id = ?3)`
+          )
+          .bind(target.postId, target.commentId ?? null, target.replyId ?? null)
+          .run()
+      ).pipe(Effect.asVoid),
+  });
+
+export const NotificationsRepositoryD1 = (db: D1Database) =>
+  Layer.succeed(NotificationsRepository, makeD1NotificationsRepository(db));
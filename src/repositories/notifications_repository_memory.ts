@@ -0,0 +1,131 @@
+import { Effect, Layer } from "effect";
+import type { LikeTarget } from "../schemas/insta_posts";
+import {
+  NotificationsRepository,
+  RECENT_ACTORS,
+  type NotificationKind,
+  type StoredNotification,
+} from "./notifications_repository";
+import { pageBy } from "./memory_paging";
+
+type NotificationEntry = Omit<
+  StoredNotification,
+  "actorCount" | "recentActorIds"
+> & {
+  // Newest first; each actor once
+  actors: Array<{ actorId: string; createdAt: number }>;
+};
+
+const sameTarget = (a: LikeTarget, b: LikeTarget) =>
+  a.postId === b.postId &&
+  a.commentId === b.commentId &&
+  a.replyId === b.replyId;
+
+const toNotification = ({
+  actors,
+  ...entry
+}: NotificationEntry): StoredNotification => ({
+  ...entry,
+  actorCount: actors.length,
+  recentActorIds: actors.slice(0, RECENT_ACTORS).map(({ actorId }) => actorId),
+});
+
+// In-memory notifications - state lives in this isolate only.
+// Used when no D1 binding is configured.
+export const makeInMemoryNotificationsRepository = () => {
+  const entries: Array<NotificationEntry> = [];
+
+  const findUnread = (
+    recipientId: string,
+    kind: NotificationKind,
+    target: LikeTarget
+  ) =>
+    entries.find(
+      (entry) =>
+        entry.recipientId === recipientId &&
+        entry.kind === kind &&
+        sameTarget(entry.target, target) &&
+        entry.readAt === undefined
+    );
+
+  return NotificationsRepository.of({
+    recordActivity: ({ recipientId, actorId, kind, target, at }) =>
+      Effect.sync(() => {
+        const unread = findUnread(recipientId, kind, target);
+        const entry: NotificationEntry = unread ?? {
+          id: crypto.randomUUID(),
+          recipientId,
+          kind,
+          target: {
+            postId: target.postId,
+            commentId: target.commentId,
+            replyId: target.replyId,
+          },
+          createdAt: at,
+          updatedAt: at,
+          actors: [],
+        };
+        if (!unread) {
+          entries.push(entry);
+        }
+        if (!entry.actors.some((actor) => actor.actorId === actorId)) {
+          entry.actors.unshift({ actorId, createdAt: at });
+          entry.updatedAt = at;
+        }
+      }),
+
+    listNotifications: (recipientId, cursor, limit) =>
+      Effect.sync(() =>
+        pageBy(
+          entries.filter((entry) => entry.recipientId === recipientId),
+          (entry) => entry.updatedAt,
+          (entry) => entry.id,
+          "desc",
+          cursor,
+          limit
+        ).map(toNotification)
+      ),
+
+    countUnread: (recipientId) =>
+      Effect.sync(
+        () =>
+          entries.filter(
+            (entry) =>
+              entry.recipientId === recipientId && entry.readAt === undefined
+          ).length
+      ),
+
+    markRead: (recipientId, ids, readAt) =>
+      Effect.sync(() => {
+        for (const entry of entries) {
+          if (
+            entry.recipientId === recipientId &&
+            entry.readAt === undefined &&
+            (!ids || ids.includes(entry.id))
+          ) {
+            entry.readAt = readAt;
+          }
+        }
+      }),
+
+    deleteForTarget: (target) =>
+      Effect.sync(() => {
+        const remaining = entries.filter(
+          (entry) =>
+            !(
+              entry.target.postId === target.postId &&
+              (!target.commentId ||
+                entry.target.commentId === target.commentId) &&
+              (!target.replyId || entry.target.replyId === target.replyId)
+            )
+        );
+        entries.splice(0, entries.length, ...remaining);
+      }),
+  });
+};
+
+// Fresh in-memory repository every time the layer is built - handy for tests
+export const NotificationsRepositoryInMemory = Layer.sync(
+  NotificationsRepository,
+  () => makeInMemoryNotificationsRepository()
+);
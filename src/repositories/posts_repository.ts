@@ -0,0 +1,263 @@
+import { Context, Data, Effect, Option } from "effect";
+import type {
+  CommentType,
+  LikeTarget,
+  Post,
+  TextEntity,
+} from "../schemas/insta_posts";
+import type { Cursor } from "../schemas/pagination";
+import type { SearchQuery } from "../text/search";
+
+// Raised when the underlying storage (D1, SQLite, ...) rejects a query
+export class RepositoryError extends Data.TaggedError("RepositoryError")<{
+  message: string;
+  cause?: unknown;
+}> {}
+
+// One user's like on a target; likes are paged by (createdAt, userId)
+export type Like = { userId: string; createdAt: number };
+
+// A caption, comment or reply that @mentions someone.
+// Mentions are paged by (createdAt, mentionKey(target)).
+export type Mention = {
+  target: LikeTarget;
+  author: { id: string; username: string; userAvatar: string };
+  text: string;
+  entities: Array<TextEntity>;
+  createdAt: number;
+};
+
+// Position of a mention among those made at the same time
+export const mentionKey = (target: LikeTarget) =>
+  [target.postId, target.commentId ?? "", target.replyId ?? ""].join("/");
+
+// A full-text match and how well it matched, higher is better. Scores only
+// compare within one search; matches are paged by (score, id).
+export type Scored<A> = A & { score: number };
+
+// A comment or reply found by search, with where it sits
+export type CommentMatch = {
+  postId: string;
+  parentCommentId?: string; // Set for replies
+  comment: CommentType;
+};
+
+// Position of a comment or reply among matches with the same score
+export const commentMatchKey = ({
+  postId,
+  parentCommentId,
+  comment,
+}: CommentMatch) =>
+  parentCommentId
+    ? [postId, parentCommentId, comment.id].join("/")
+    : [postId, comment.id, ""].join("/");
+
+// Who's looking at a feed. Hidden posts only show to their author and
+// moderators, and private accounts' posts to their followers, themselves
+// and moderators.
+export type Audience = { userId?: string; moderator: boolean };
+
+// Feed filters; posts are paged by (createdAt, id)
+export type PostsQuery = {
+  author?: string; // Username
+  authorIds?: ReadonlyArray<string>; // User ids - the home feed's authors
+  since?: number; // Epoch ms, inclusive
+  hashtag?: string; // Normalized tag in the caption
+  ids?: ReadonlyArray<string>; // Only these posts - search results
+  audience?: Audience; // Without one, hidden and private posts are left out
+  cursor?: Cursor;
+  limit: number;
+  commentPreview: number;
+};
+
+// What a soft-deleted comment shows in place of its author and text
+export const DELETED_PLACEHOLDER = "[deleted]";
+
+// Replies are stored flat under their top-level comment, oldest first;
+// this nests them under the comment or reply they answer
+export const nestReplies = (
+  replies: ReadonlyArray<CommentType>,
+  parentId: string
+): Array<CommentType> =>
+  replies
+    .filter((reply) => reply.parentId === parentId)
+    .map((reply) => ({ ...reply, replies: nestReplies(replies, reply.id) }));
+
+// An edit to a caption or comment, with the entities parsed from the new text.
+// It only applies while the row is still at expectedVersion. hiddenAt hides
+// the content in the same write (held edits); without it, whether it's
+// hidden stays as it was.
+type TextChanges = {
+  entities: Array<TextEntity>;
+  editedAt: string;
+  expectedVersion: number;
+  hiddenAt?: string;
+};
+
+// "top" pages by (likes, id), "newest" by (createdAt, id)
+export type CommentSort = "top" | "newest";
+
+// Storage contract for posts, comments and replies.
+// PostsService only talks to this tag, so the backend (in-memory or D1)
+// is chosen by whichever Layer gets provided at the edge.
+export class PostsRepository extends Context.Tag("PostsRepository")<
+  PostsRepository,
+  {
+    // A page of posts, newest first. Comments are trimmed to the latest
+    // `commentPreview` per post, without their replies.
+    readonly listPosts: (
+      query: PostsQuery
+    ) => Effect.Effect<Array<Post>, RepositoryError>;
+    // A page of a post's comments (no replies) in the given order, leaving
+    // out hidden ones the audience can't see
+    readonly listComments: (
+      postId: string,
+      sort: CommentSort,
+      audience: Audience,
+      cursor: Cursor | undefined,
+      limit: number
+    ) => Effect.Effect<Array<CommentType>, RepositoryError>;
+    // A page of a comment's or reply's direct replies (without theirs),
+    // oldest first, leaving out hidden ones the audience can't see
+    readonly listReplies: (
+      postId: string,
+      parentId: string,
+      audience: Audience,
+      cursor: Cursor | undefined,
+      limit: number
+    ) => Effect.Effect<Array<CommentType>, RepositoryError>;
+    // How many posts the user has that aren't hidden - for their profile
+    readonly countPosts: (
+      userId: string
+    ) => Effect.Effect<number, RepositoryError>;
+    // Full post with every comment and reply, replies nested under the
+    // comment or reply they answer
+    readonly findPost: (
+      id: string
+    ) => Effect.Effect<Option.Option<Post>, RepositoryError>;
+    // Posts, comments and replies are indexed by their entities on every
+    // write: captions by hashtag, everything by who it mentions
+    readonly insertPost: (post: Post) => Effect.Effect<void, RepositoryError>;
+    // Edits also move updatedAt to editedAt and bump the version. Returns
+    // false (and changes nothing) when the post is gone or no longer at
+    // changes.expectedVersion.
+    readonly updatePost: (
+      id: string,
+      changes: TextChanges & { caption: string }
+    ) => Effect.Effect<boolean, RepositoryError>;
+    // Removes the post with all of its comments, replies and likes
+    readonly deletePost: (id: string) => Effect.Effect<void, RepositoryError>;
+    // Also bumps the post's totalCommentsCount
+    readonly insertComment: (
+      postId: string,
+      comment: CommentType
+    ) => Effect.Effect<void, RepositoryError>;
+    // Replies keep the top-level comment they hang under; reply.parentId is
+    // the comment or reply they answer. Also bumps the post's
+    // totalCommentsCount and the parent's replyCount.
+    readonly insertReply: (
+      postId: string,
+      commentId: string,
+      reply: CommentType
+    ) => Effect.Effect<void, RepositoryError>;
+    // Same as updatePost
+    readonly updateComment: (
+      postId: string,
+      commentId: string,
+      changes: TextChanges & { text: string }
+    ) => Effect.Effect<boolean, RepositoryError>;
+    // Blanks the comment's author, text and entities but keeps it (and its replies)
+    // in place, moving updatedAt to deletedAt and bumping the version. Drops
+    // the post's totalCommentsCount by one.
+    readonly softDeleteComment: (
+      postId: string,
+      commentId: string,
+      deletedAt: string
+    ) => Effect.Effect<void, RepositoryError>;
+    // Removes the comment, its replies and their likes. Drops the post's
+    // totalCommentsCount by one unless the comment was already soft-deleted.
+    readonly deleteComment: (
+      postId: string,
+      commentId: string
+    ) => Effect.Effect<void, RepositoryError>;
+    // Same as updatePost
+    readonly updateReply: (
+      postId: string,
+      commentId: string,
+      replyId: string,
+      changes: TextChanges & { text: string }
+    ) => Effect.Effect<boolean, RepositoryError>;
+    // Same as softDeleteComment, for a reply that has replies of its own
+    readonly softDeleteReply: (
+      postId: string,
+      commentId: string,
+      replyId: string,
+      deletedAt: string
+    ) => Effect.Effect<void, RepositoryError>;
+    // Removes a reply that has no replies, and its likes. Drops the parent's
+    // replyCount by one, and the post's totalCommentsCount unless the reply
+    // was already soft-deleted.
+    readonly deleteReply: (
+      postId: string,
+      commentId: string,
+      replyId: string
+    ) => Effect.Effect<void, RepositoryError>;
+    // Hides the post, comment or reply from everyone but its author and
+    // moderators; undefined shows it again
+    readonly setHidden: (
+      target: LikeTarget,
+      hiddenAt: string | undefined
+    ) => Effect.Effect<void, RepositoryError>;
+    // Record that a user likes a post/comment/reply and bump its counter.
+    // Returns false (and changes nothing) if the like already existed.
+    // Counters move in a single atomic step, so concurrent likes all count,
+    // and they leave the version alone so likes never fail an edit.
+    readonly addLike: (
+      userId: string,
+      target: LikeTarget,
+      createdAt: number
+    ) => Effect.Effect<boolean, RepositoryError>;
+    // Remove a user's like and decrement the counter (never below 0).
+    // Returns false (and changes nothing) if there was no like.
+    readonly removeLike: (
+      userId: string,
+      target: LikeTarget
+    ) => Effect.Effect<boolean, RepositoryError>;
+    // Everything the user liked within the given posts
+    readonly findLikedTargets: (
+      userId: string,
+      postIds: ReadonlyArray<string>
+    ) => Effect.Effect<Array<LikeTarget>, RepositoryError>;
+    // Likes on a target, newest first, starting after the cursor
+    readonly listLikes: (
+      target: LikeTarget,
+      cursor: Cursor | undefined,
+      limit: number
+    ) => Effect.Effect<Array<Like>, RepositoryError>;
+    // Captions matching the query that the audience may see, best first,
+    // starting after the cursor
+    readonly searchPosts: (
+      query: SearchQuery,
+      audience: Audience,
+      cursor: Cursor | undefined,
+      limit: number
+    ) => Effect.Effect<Array<Scored<{ postId: string }>>, RepositoryError>;
+    // Comments and replies matching the query that the audience may see,
+    // under posts and comments they may see, best first. Deleted comments
+    // don't match.
+    readonly searchComments: (
+      query: SearchQuery,
+      audience: Audience,
+      cursor: Cursor | undefined,
+      limit: number
+    ) => Effect.Effect<Array<Scored<CommentMatch>>, RepositoryError>;
+    // Where the user is mentioned, newest first, starting after the cursor.
+    // Hidden content and anything under it doesn't count; private accounts'
+    // mentions only count once the user follows them.
+    readonly listMentions: (
+      userId: string,
+      cursor: Cursor | undefined,
+      limit: number
+    ) => Effect.Effect<Array<Mention>, RepositoryError>;
+  }
+>() {}
@@ -0,0 +1,1203 @@
+import { Effect, Layer, Option } from "effect";
+import type {
+  CommentType,
+  LikeTarget,
+  MediaItem,
+  Post,
+  TextEntity,
+} from "../schemas/insta_posts";
+import {
+  DELETED_PLACEHOLDER,
+  PostsRepository,
+  commentMatchKey,
+  nestReplies,
+  type CommentMatch,
+  type Mention,
+  type Scored,
+} from "./posts_repository";
+import { toFtsQuery, tryD1 } from "./d1";
+
+// Row shapes as stored by migrations/0001_create_posts.sql (+ later ALTERs)
+type PostRow = {
+  id: string;
+  user_id: string | null;
+  username: string;
+  user_avatar: string;
+  image: string;
+  media: string; // JSON array of MediaItem
+  caption: string;
+  entities: string; // JSON array of TextEntity
+  likes: number;
+  total_comments_count: number;
+  created_at: number;
+  updated_at: number;
+  edited_at: number | null;
+  hidden_at: number | null;
+  version: number;
+};
+
+type CommentRow = {
+  post_id: string;
+  id: string;
+  user_id: string | null;
+  username: string;
+  user_avatar: string;
+  text: string;
+  entities: string; // JSON array of TextEntity
+  likes: number;
+  created_at: number;
+  updated_at: number;
+  edited_at: number | null;
+  hidden_at: number | null;
+  deleted_at: number | null;
+  reply_count: number;
+  version: number;
+};
+
+type ReplyRow = CommentRow & {
+  comment_id: string;
+  parent_id: string;
+};
+
+// Nullable epoch-ms columns -> optional ISO strings
+const toIsoString = (ms: number | null) =>
+  ms === null ? undefined : new Date(ms).toISOString();
+
+// ...and back
+const toEpochMs = (iso: string | undefined) =>
+  iso === undefined ? null : Date.parse(iso);
+
+const toComment = (row: CommentRow): CommentType => ({
+  id: row.id,
+  userId: row.user_id ?? undefined,
+  username: row.username,
+  userAvatar: row.user_avatar,
+  text: row.text,
+  entities: JSON.parse(row.entities) as Array<TextEntity>,
+  likes: row.likes,
+  createdAt: new Date(row.created_at).toISOString(),
+  updatedAt: new Date(row.updated_at).toISOString(),
+  version: row.version,
+  editedAt: toIsoString(row.edited_at),
+  deletedAt: toIsoString(row.deleted_at),
+  hiddenAt: toIsoString(row.hidden_at),
+  replyCount: row.reply_count,
+});
+
+const toReply = (row: ReplyRow): CommentType => ({
+  ...toComment(row),
+  parentId: row.parent_id,
+});
+
+type LikeRow = { post_id: string; comment_id: string; reply_id: string };
+
+// likes rows use "" for the missing levels of a post or comment target
+const targetKey = (target: LikeTarget) =>
+  [target.postId, target.commentId ?? "", target.replyId ?? ""] as const;
+
+// Counter update that only applies when the previous statement in the
+// batch (the likes INSERT/DELETE) actually changed a row
+const updateLikeCounter = (
+  db: D1Database,
+  target: LikeTarget,
+  expression: string
+) => {
+  if (!target.commentId) {
+    return db
+      .prepare(
+        `UPDATE posts SET likes = ${expression} WHERE id = ? AND changes() > 0`
+      )
+      .bind(target.postId);
+  }
+  if (!target.replyId) {
+    return db
+      .prepare(
+        `UPDATE comments SET likes = ${expression}
+         WHERE post_id = ? AND id = ? AND changes() > 0`
+      )
+      .bind(target.postId, target.commentId);
+  }
+  return db
+    .prepare(
+      `UPDATE replies SET likes = ${expression}
+       WHERE post_id = ? AND comment_id = ? AND id = ? AND changes() > 0`
+    )
+    .bind(target.postId, target.commentId, target.replyId);
+};
+
+// Condition that holds while the post, comment or reply is still at the
+// version bound to ?{param}, with its key bound to ?1 (?2, ?3). Edits index
+// under it, so a slow edit can't overwrite the indexes of a newer one.
+const atVersion = (target: LikeTarget, param: number) =>
+  !target.commentId
+    ? `EXISTS (SELECT 1 FROM posts WHERE id = ?1 AND version = ?${param})`
+    : !target.replyId
+      ? `EXISTS (SELECT 1 FROM comments WHERE post_id = ?1 AND id = ?2 AND version = ?${param})`
+      : `EXISTS (SELECT 1 FROM replies WHERE post_id = ?1 AND comment_id = ?2 AND id = ?3 AND version = ?${param})`;
+
+// Keep the mentions index in step with a caption's, comment's or reply's
+// entities. Runs after the row itself is written; mentions keep the time
+// of the content they're in. With a version, only while the row is still
+// at it.
+const indexMentions = (
+  db: D1Database,
+  target: LikeTarget,
+  entities: ReadonlyArray<TextEntity>,
+  version?: number
+) => {
+  const userIds = JSON.stringify([
+    ...new Set(
+      entities.flatMap((entity) =>
+        entity.type === "mention" ? [entity.userId] : []
+      )
+    ),
+  ]);
+  const createdAt = !target.commentId
+    ? "SELECT created_at FROM posts WHERE id = ?1"
+    : !target.replyId
+      ? "SELECT created_at FROM comments WHERE post_id = ?1 AND id = ?2"
+      : "SELECT created_at FROM replies WHERE post_id = ?1 AND comment_id = ?2 AND id = ?3";
+  const current = version === undefined ? "1" : atVersion(target, 5);
+  const params = [
+    ...targetKey(target),
+    userIds,
+    ...(version === undefined ? [] : [version]),
+  ];
+  return [
+    db
+      .prepare(
+        `DELETE FROM mentions
+         WHERE post_id = ?1 AND comment_id = ?2 AND reply_id = ?3
+           AND user_id NOT IN (SELECT value FROM json_each(?4))
+           AND ${current}`
+      )
+      .bind(...params),
+    db
+      .prepare(
+        `INSERT OR IGNORE INTO mentions (user_id, post_id, comment_id, reply_id, created_at)
+         SELECT value, ?1, ?2, ?3, (${createdAt}) FROM json_each(?4)
+         WHERE ${current}`
+      )
+      .bind(...params),
+  ];
+};
+
+// Same for the hashtags in a post's caption
+const indexHashtags = (
+  db: D1Database,
+  postId: string,
+  entities: ReadonlyArray<TextEntity>,
+  version?: number
+) => {
+  const tags = JSON.stringify([
+    ...new Set(
+      entities.flatMap((entity) =>
+        entity.type === "hashtag" ? [entity.tag] : []
+      )
+    ),
+  ]);
+  const current = version === undefined ? "1" : atVersion({ postId }, 3);
+  const params = [postId, tags, ...(version === undefined ? [] : [version])];
+  return [
+    db
+      .prepare(
+        `DELETE FROM post_hashtags
+         WHERE post_id = ?1 AND tag NOT IN (SELECT value FROM json_each(?2))
+           AND ${current}`
+      )
+      .bind(...params),
+    db
+      .prepare(
+        `INSERT OR IGNORE INTO post_hashtags (tag, post_id, created_at)
+         SELECT value, ?1, (SELECT created_at FROM posts WHERE id = ?1)
+         FROM json_each(?2)
+         WHERE ${current}`
+      )
+      .bind(...params),
+  ];
+};
+
+// Condition that holds when the viewer (the param `viewer`, NULL when
+// logged out) may see posts by the account in `userId`: it isn't private,
+// it's the viewer's own, or the viewer follows it
+const authorVisibleTo = (userId: string, viewer: string) =>
+  `(${userId} IS NULL OR ${userId} = ${viewer}
+    OR NOT EXISTS (SELECT 1 FROM users WHERE id = ${userId} AND is_private = 1)
+    OR EXISTS (SELECT 1 FROM follows WHERE follower_id = ${viewer} AND followee_id = ${userId}))`;
+
+// Recursive CTE `unseen` of the replies the viewer can't see: hidden ones,
+// unless they're the viewer's own or the viewer moderates (`moderator`, a
+// 0/1 param), and every reply under those
+const unseenReplies = (moderator: string, viewer: string) =>
+  `unseen (post_id, comment_id, id) AS (
+     SELECT post_id, comment_id, id FROM replies
+     WHERE hidden_at IS NOT NULL AND NOT ${moderator}
+       AND (${viewer} IS NULL OR user_id IS NOT ${viewer})
+     UNION
+     SELECT r.post_id, r.comment_id, r.id
+     FROM replies r
+     JOIN unseen u
+       ON r.post_id = u.post_id AND r.comment_id = u.comment_id
+         AND r.parent_id = u.id
+   )`;
+
+// Rebuild the nested post -> comments -> replies tree from flat rows.
+// Without replyRows (feed previews) comments carry no replies at all.
+const toPosts = (
+  postRows: Array<PostRow>,
+  commentRows: Array<CommentRow>,
+  replyRows?: Array<ReplyRow>
+): Array<Post> =>
+  postRows.map((post) => ({
+    id: post.id,
+    userId: post.user_id ?? undefined,
+    username: post.username,
+    userAvatar: post.user_avatar,
+    image: post.image,
+    media: JSON.parse(post.media) as Array<MediaItem>,
+    caption: post.caption,
+    entities: JSON.parse(post.entities) as Array<TextEntity>,
+    likes: post.likes,
+    comments: commentRows
+      .filter((comment) => comment.post_id === post.id)
+      .map((comment) =>
+        replyRows
+          ? {
+              ...toComment(comment),
+              replies: nestReplies(
+                replyRows
+                  .filter(
+                    (reply) =>
+                      reply.post_id === post.id &&
+                      reply.comment_id === comment.id
+                  )
+                  .map(toReply),
+                comment.id
+              ),
+            }
+          : toComment(comment)
+      ),
+    totalCommentsCount: post.total_comments_count,
+    createdAt: new Date(post.created_at).toISOString(),
+    updatedAt: new Date(post.updated_at).toISOString(),
+    version: post.version,
+    editedAt: toIsoString(post.edited_at),
+    hiddenAt: toIsoString(post.hidden_at),
+  }));
+
+// D1 (SQLite) storage - the same code runs against the local SQLite file
+// that `wrangler dev` keeps under .wrangler/state
+export const makeD1PostsRepository = (db: D1Database) =>
+  PostsRepository.of({
+    listPosts: ({
+      author,
+      authorIds,
+      since,
+      hashtag,
+      ids,
+      audience,
+      cursor,
+      limit,
+      commentPreview,
+    }) =>
+      Effect.gen(function* () {
+        const { results: postRows } = yield* tryD1("Failed to list posts", () =>
+          db
+            .prepare(
+              `SELECT * FROM posts
+               WHERE (?1 IS NULL OR username = ?1)
+                 AND (?2 IS NULL OR created_at >= ?2)
+                 AND (?3 IS NULL OR created_at < ?3 OR (created_at = ?3 AND id < ?4))
+                 AND (?6 IS NULL OR user_id IN (SELECT value FROM json_each(?6)))
+                 AND (?7 IS NULL OR id IN (SELECT post_id FROM post_hashtags WHERE tag = ?7))
+                 AND (?8 IS NULL OR id IN (SELECT value FROM json_each(?8)))
+                 AND (hidden_at IS NULL OR ?9 OR user_id = ?10)
+                 AND (?9 OR ${authorVisibleTo("user_id", "?10")})
+               ORDER BY created_at DESC, id DESC
+               LIMIT ?5`
+            )
+            .bind(
+              author ?? null,
+              since ?? null,
+              cursor?.key ?? null,
+              cursor?.id ?? null,
+              limit,
+              authorIds ? JSON.stringify(authorIds) : null,
+              hashtag ?? null,
+              ids ? JSON.stringify(ids) : null,
+              audience?.moderator ? 1 : 0,
+              audience?.userId ?? null
+            )
+            .all<PostRow>()
+        );
+
+        // Latest few comments per post, returned oldest first
+        const { results: commentRows } = yield* tryD1(
+          "Failed to load comment previews",
+          () =>
+            db
+              .prepare(
+                `SELECT * FROM (
+                   SELECT *, rowid AS seq, ROW_NUMBER() OVER (
+                     PARTITION BY post_id ORDER BY created_at DESC, rowid DESC
+                   ) AS preview_rank
+                   FROM comments
+                   WHERE post_id IN (SELECT value FROM json_each(?))
+                 )
+                 WHERE preview_rank <= ?
+                 ORDER BY created_at, seq`
+              )
+              .bind(
+                JSON.stringify(postRows.map((post) => post.id)),
+                commentPreview
+              )
+              .all<CommentRow>()
+        );
+
+        return toPosts(postRows, commentRows);
+      }),
+
+    listComments: (postId, sort, audience, cursor, limit) =>
+      tryD1(`Failed to list comments on post ${postId}`, () =>
+        db
+          .prepare(
+            sort === "top"
+              ? `SELECT * FROM comments
+                 WHERE post_id = ?1
+                   AND (hidden_at IS NULL OR ?5 OR user_id = ?6)
+                   AND (?2 IS NULL OR likes < ?2 OR (likes = ?2 AND id < ?3))
+                 ORDER BY likes DESC, id DESC
+                 LIMIT ?4`
+              : `SELECT * FROM comments
+                 WHERE post_id = ?1
+                   AND (hidden_at IS NULL OR ?5 OR user_id = ?6)
+                   AND (?2 IS NULL OR created_at < ?2 OR (created_at = ?2 AND id < ?3))
+                 ORDER BY created_at DESC, id DESC
+                 LIMIT ?4`
+          )
+          .bind(
+            postId,
+            cursor?.key ?? null,
+            cursor?.id ?? null,
+            limit,
+            audience.moderator ? 1 : 0,
+            audience.userId ?? null
+          )
+          .all<CommentRow>()
+      ).pipe(Effect.map(({ results }) => results.map(toComment))),
+
+    listReplies: (postId, parentId, audience, cursor, limit) =>
+      tryD1(`Failed to list replies to ${parentId}`, () =>
+        db
+          .prepare(
+            `SELECT * FROM replies
+             WHERE post_id = ?1 AND parent_id = ?2
+               AND (hidden_at IS NULL OR ?6 OR user_id = ?7)
+               AND (?3 IS NULL OR created_at > ?3 OR (created_at = ?3 AND id > ?4))
+             ORDER BY created_at, id
+             LIMIT ?5`
+          )
+          .bind(
+            postId,
+            parentId,
+            cursor?.key ?? null,
+            cursor?.id ?? null,
+            limit,
+            audience.moderator ? 1 : 0,
+            audience.userId ?? null
+          )
+          .all<ReplyRow>()
+      ).pipe(Effect.map(({ results }) => results.map(toReply))),
+
+    countPosts: (userId) =>
+      tryD1(`Failed to count posts of user ${userId}`, () =>
+        db
+          .prepare(
+            "SELECT COUNT(*) AS count FROM posts WHERE user_id = ? AND hidden_at IS NULL"
+          )
+          .bind(userId)
+          .first<{ count: number }>()
+      ).pipe(Effect.map((row) => row?.count ?? 0)),
+
+    findPost: (id) =>
+      tryD1(`Failed to load post ${id}`, () =>
+        db.batch([
+          db.prepare("SELECT * FROM posts WHERE id = ?").bind(id),
+          db
+            .prepare(
+              "SELECT * FROM comments WHERE post_id = ? ORDER BY created_at, rowid"
+            )
+            .bind(id),
+          db
+            .prepare(
+              "SELECT * FROM replies WHERE post_id = ? ORDER BY created_at, rowid"
+            )
+            .bind(id),
+        ])
+      ).pipe(
+        Effect.map(([posts, comments, replies]) =>
+          Option.fromNullable(
+            toPosts(
+              posts.results as Array<PostRow>,
+              comments.results as Array<CommentRow>,
+              replies.results as Array<ReplyRow>
+            )[0]
+          )
+        )
+      ),
+
+    insertPost: (post) =>
+      tryD1(`Failed to insert post ${post.id}`, () =>
+        db.batch([
+          db
+            .prepare(
+              `INSERT INTO posts (id, user_id, username, user_avatar, image, media, caption, entities, likes, total_comments_count, created_at, updated_at, hidden_at, version)
+               VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+            )
+            .bind(
+              post.id,
+              post.userId ?? null,
+              post.username,
+              post.userAvatar,
+              post.image,
+              JSON.stringify(post.media),
+              post.caption,
+              JSON.stringify(post.entities ?? []),
+              post.likes,
+              post.totalCommentsCount,
+              Date.parse(post.createdAt),
+              Date.parse(post.updatedAt),
+              toEpochMs(post.hiddenAt),
+              post.version
+            ),
+          db
+            .prepare("INSERT INTO posts_fts (post_id, caption) VALUES (?, ?)")
+            .bind(post.id, post.caption),
+          ...indexHashtags(db, post.id, post.entities ?? []),
+          ...indexMentions(db, { postId: post.id }, post.entities ?? []),
+        ])
+      ),
+
+    // The row changes first, on its own, so a stale edit stops there; the
+    // indexes follow under the new version
+    updatePost: (
+      id,
+      { caption, entities, editedAt, expectedVersion, hiddenAt }
+    ) =>
+      Effect.gen(function* () {
+        const { meta } = yield* tryD1(`Failed to update post ${id}`, () =>
+          db
+            .prepare(
+              `UPDATE posts SET caption = ?1, entities = ?2, edited_at = ?3, updated_at = ?3,
+                 hidden_at = COALESCE(?6, hidden_at), version = version + 1
+               WHERE id = ?4 AND version = ?5`
+            )
+            .bind(
+              caption,
+              JSON.stringify(entities),
+              Date.parse(editedAt),
+              id,
+              expectedVersion,
+              toEpochMs(hiddenAt)
+            )
+            .run()
+        );
+        if (meta.changes === 0) {
+          return false;
+        }
+        const version = expectedVersion + 1;
+        yield* tryD1(`Failed to index post ${id}`, () =>
+          db.batch([
+            db
+              .prepare(
+                `UPDATE posts_fts SET caption = ?2
+                 WHERE post_id = ?1 AND ${atVersion({ postId: id }, 3)}`
+              )
+              .bind(id, caption, version),
+            ...indexHashtags(db, id, entities, version),
+            ...indexMentions(db, { postId: id }, entities, version),
+          ])
+        );
+        return true;
+      }),
+
+    deletePost: (id) =>
+      tryD1(`Failed to delete post ${id}`, () =>
+        db.batch([
+          db.prepare("DELETE FROM likes WHERE post_id = ?").bind(id),
+          db.prepare("DELETE FROM mentions WHERE post_id = ?").bind(id),
+          db.prepare("DELETE FROM post_hashtags WHERE post_id = ?").bind(id),
+          db.prepare("DELETE FROM posts_fts WHERE post_id = ?").bind(id),
+          db.prepare("DELETE FROM comments_fts WHERE post_id = ?").bind(id),
+          db.prepare("DELETE FROM replies WHERE post_id = ?").bind(id),
+          db.prepare("DELETE FROM comments WHERE post_id = ?").bind(id),
+          db.prepare("DELETE FROM posts WHERE id = ?").bind(id),
+        ])
+      ),
+
+    insertComment: (postId, comment) =>
+      tryD1(`Failed to insert comment on post ${postId}`, () =>
+        db.batch([
+          db
+            .prepare(
+              `INSERT INTO comments (post_id, id, user_id, username, user_avatar, text, entities, likes, created_at, updated_at, hidden_at, version)
+               VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+            )
+            .bind(
+              postId,
+              comment.id,
+              comment.userId ?? null,
+              comment.username,
+              comment.userAvatar,
+              comment.text,
+              JSON.stringify(comment.entities ?? []),
+              comment.likes,
+              Date.parse(comment.createdAt),
+              Date.parse(comment.updatedAt),
+              toEpochMs(comment.hiddenAt),
+              comment.version
+            ),
+          db
+            .prepare(
+              `INSERT INTO comments_fts (post_id, comment_id, reply_id, text)
+               VALUES (?, ?, '', ?)`
+            )
+            .bind(postId, comment.id, comment.text),
+          ...indexMentions(
+            db,
+            { postId, commentId: comment.id },
+            comment.entities ?? []
+          ),
+          db
+            .prepare(
+              "UPDATE posts SET total_comments_count = total_comments_count + 1 WHERE id = ?"
+            )
+            .bind(postId),
+        ])
+      ),
+
+    insertReply: (postId, commentId, reply) =>
+      tryD1(`Failed to insert reply on comment ${commentId}`, () =>
+        db.batch([
+          db
+            .prepare(
+              `INSERT INTO replies (post_id, comment_id, parent_id, id, user_id, username, user_avatar, text, entities, likes, created_at, updated_at, hidden_at, version)
+               VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+            )
+            .bind(
+              postId,
+              commentId,
+              reply.parentId ?? commentId,
+              reply.id,
+              reply.userId ?? null,
+              reply.username,
+              reply.userAvatar,
+              reply.text,
+              JSON.stringify(reply.entities ?? []),
+              reply.likes,
+              Date.parse(reply.createdAt),
+              Date.parse(reply.updatedAt),
+              toEpochMs(reply.hiddenAt),
+              reply.version
+            ),
+          db
+            .prepare(
+              `INSERT INTO comments_fts (post_id, comment_id, reply_id, text)
+               VALUES (?, ?, ?, ?)`
+            )
+            .bind(postId, commentId, reply.id, reply.text),
+          ...indexMentions(
+            db,
+            { postId, commentId, replyId: reply.id },
+            reply.entities ?? []
+          ),
+          db
+            .prepare(
+              "UPDATE posts SET total_comments_count = total_comments_count + 1 WHERE id = ?"
+            )
+            .bind(postId),
+          // The parent is either the comment or one of its replies
+          db
+            .prepare(
+              "UPDATE comments SET reply_count = reply_count + 1 WHERE post_id = ? AND id = ?"
+            )
+            .bind(postId, reply.parentId ?? commentId),
+          db
+            .prepare(
+              `UPDATE replies SET reply_count = reply_count + 1
+               WHERE post_id = ? AND comment_id = ? AND id = ?`
+            )
+            .bind(postId, commentId, reply.parentId ?? commentId),
+        ])
+      ),
+
+    // Same two steps as updatePost
+    updateComment: (
+      postId,
+      commentId,
+      { text, entities, editedAt, expectedVersion, hiddenAt }
+    ) =>
+      Effect.gen(function* () {
+        const { meta } = yield* tryD1(
+          `Failed to update comment ${commentId}`,
+          () =>
+            db
+              .prepare(
+                `UPDATE comments SET text = ?1, entities = ?2, edited_at = ?3, updated_at = ?3,
+                   hidden_at = COALESCE(?7, hidden_at), version = version + 1
+                 WHERE post_id = ?4 AND id = ?5 AND version = ?6`
+              )
+              .bind(
+                text,
+                JSON.stringify(entities),
+                Date.parse(editedAt),
+                postId,
+                commentId,
+                expectedVersion,
+                toEpochMs(hiddenAt)
+              )
+              .run()
+        );
+        if (meta.changes === 0) {
+          return false;
+        }
+        const target = { postId, commentId };
+        const version = expectedVersion + 1;
+        yield* tryD1(`Failed to index comment ${commentId}`, () =>
+          db.batch([
+            db
+              .prepare(
+                `UPDATE comments_fts SET text = ?3
+                 WHERE post_id = ?1 AND comment_id = ?2 AND reply_id = ''
+                   AND ${atVersion(target, 4)}`
+              )
+              .bind(postId, commentId, text, version),
+            ...indexMentions(db, target, entities, version),
+          ])
+        );
+        return true;
+      }),
+
+    softDeleteComment: (postId, commentId, deletedAt) =>
+      tryD1(`Failed to delete comment ${commentId}`, () =>
+        db.batch([
+          db
+            .prepare(
+              `UPDATE comments
+               SET user_id = NULL, username = ?3, user_avatar = '', text = ?3,
+                   entities = '[]', deleted_at = ?4, updated_at = ?4,
+                   version = version + 1
+               WHERE post_id = ?1 AND id = ?2 AND deleted_at IS NULL`
+            )
+            .bind(
+              postId,
+              commentId,
+              DELETED_PLACEHOLDER,
+              Date.parse(deletedAt)
+            ),
+          db
+            .prepare(
+              `UPDATE posts SET total_comments_count = MAX(0, total_comments_count - 1)
+               WHERE id = ? AND changes() > 0`
+            )
+            .bind(postId),
+          db
+            .prepare(
+              "DELETE FROM mentions WHERE post_id = ? AND comment_id = ? AND reply_id = ''"
+            )
+            .bind(postId, commentId),
+          db
+            .prepare(
+              "DELETE FROM comments_fts WHERE post_id = ? AND comment_id = ? AND reply_id = ''"
+            )
+            .bind(postId, commentId),
+        ])
+      ),
+
+    deleteComment: (postId, commentId) =>
+      tryD1(`Failed to delete comment ${commentId}`, () =>
+        db.batch([
+          // Count it out first - soft-deleted comments already were
+          db
+            .prepare(
+              `UPDATE posts SET total_comments_count = MAX(0, total_comments_count - 1)
+               WHERE id = ?1 AND EXISTS (
+                 SELECT 1 FROM comments
+                 WHERE post_id = ?1 AND id = ?2 AND deleted_at IS NULL
+               )`
+            )
+            .bind(postId, commentId),
+          db
+            .prepare("DELETE FROM likes WHERE post_id = ? AND comment_id = ?")
+            .bind(postId, commentId),
+          db
+            .prepare(
+              "DELETE FROM mentions WHERE post_id = ? AND comment_id = ?"
+            )
+            .bind(postId, commentId),
+          db
+            .prepare(
+              "DELETE FROM comments_fts WHERE post_id = ? AND comment_id = ?"
+            )
+            .bind(postId, commentId),
+          db
+            .prepare("DELETE FROM replies WHERE post_id = ? AND comment_id = ?")
+            .bind(postId, commentId),
+          db
+            .prepare("DELETE FROM comments WHERE post_id = ? AND id = ?")
+            .bind(postId, commentId),
+        ])
+      ),
+
+    // Same two steps as updatePost
+    updateReply: (
+      postId,
+      commentId,
+      replyId,
+      { text, entities, editedAt, expectedVersion, hiddenAt }
+    ) =>
+      Effect.gen(function* () {
+        const { meta } = yield* tryD1(`Failed to update reply ${replyId}`, () =>
+          db
+            .prepare(
+              `UPDATE replies SET text = ?1, entities = ?2, edited_at = ?3, updated_at = ?3,
+                 hidden_at = COALESCE(?8, hidden_at), version = version + 1
+               WHERE post_id = ?4 AND comment_id = ?5 AND id = ?6 AND version = ?7`
+            )
+            .bind(
+              text,
+              JSON.stringify(entities),
+              Date.parse(editedAt),
+              postId,
+              commentId,
+              replyId,
+              expectedVersion,
+              toEpochMs(hiddenAt)
+            )
+            .run()
+        );
+        if (meta.changes === 0) {
+          return false;
+        }
+        const target = { postId, commentId, replyId };
+        const version = expectedVersion + 1;
+        yield* tryD1(`Failed to index reply ${replyId}`, () =>
+          db.batch([
+            db
+              .prepare(
+                `UPDATE comments_fts SET text = ?4
+                 WHERE post_id = ?1 AND comment_id = ?2 AND reply_id = ?3
+                   AND ${atVersion(target, 5)}`
+              )
+              .bind(postId, commentId, replyId, text, version),
+            ...indexMentions(db, target, entities, version),
+          ])
+        );
+        return true;
+      }),
+
+    softDeleteReply: (postId, commentId, replyId, deletedAt) =>
+      tryD1(`Failed to delete reply ${replyId}`, () =>
+        db.batch([
+          db
+            .prepare(
+              `UPDATE replies
+               SET user_id = NULL, username = ?4, user_avatar = '', text = ?4,
+                   entities = '[]', deleted_at = ?5, updated_at = ?5,
+                   version = version + 1
+               WHERE post_id = ?1 AND comment_id = ?2 AND id = ?3
+                 AND deleted_at IS NULL`
+            )
+            .bind(
+              postId,
+              commentId,
+              replyId,
+              DELETED_PLACEHOLDER,
+              Date.parse(deletedAt)
+            ),
+          db
+            .prepare(
+              `UPDATE posts SET total_comments_count = MAX(0, total_comments_count - 1)
+               WHERE id = ? AND changes() > 0`
+            )
+            .bind(postId),
+          db
+            .prepare(
+              "DELETE FROM mentions WHERE post_id = ? AND comment_id = ? AND reply_id = ?"
+            )
+            .bind(postId, commentId, replyId),
+          db
+            .prepare(
+              "DELETE FROM comments_fts WHERE post_id = ? AND comment_id = ? AND reply_id = ?"
+            )
+            .bind(postId, commentId, replyId),
+        ])
+      ),
+
+    // Counters move first, while the reply (and its parent_id) is still there
+    deleteReply: (postId, commentId, replyId) =>
+      tryD1(`Failed to delete reply ${replyId}`, () =>
+        db.batch([
+          db
+            .prepare(
+              `UPDATE posts SET total_comments_count = MAX(0, total_comments_count - 1)
+               WHERE id = ?1 AND EXISTS (
+                 SELECT 1 FROM replies
+                 WHERE post_id = ?1 AND comment_id = ?2 AND id = ?3
+                   AND deleted_at IS NULL
+               )`
+            )
+            .bind(postId, commentId, replyId),
+          db
+            .prepare(
+              `UPDATE comments SET reply_count = MAX(0, reply_count - 1)
+               WHERE post_id = ?1 AND id = (
+                 SELECT parent_id FROM replies
+                 WHERE post_id = ?1 AND comment_id = ?2 AND id = ?3
+               )`
+            )
+            .bind(postId, commentId, replyId),
+          db
+            .prepare(
+              `UPDATE replies SET reply_count = MAX(0, reply_count - 1)
+               WHERE post_id = ?1 AND comment_id = ?2 AND id = (
+                 SELECT parent_id FROM replies
+                 WHERE post_id = ?1 AND comment_id = ?2 AND id = ?3
+               )`
+            )
+            .bind(postId, commentId, replyId),
+          db
+            .prepare(
+              "DELETE FROM likes WHERE post_id = ? AND comment_id = ? AND reply_id = ?"
+            )
+            .bind(postId, commentId, replyId),
+          db
+            .prepare(
+              "DELETE FROM mentions WHERE post_id = ? AND comment_id = ? AND reply_id = ?"
+            )
+            .bind(postId, commentId, replyId),
+          db
+            .prepare(
+              "DELETE FROM comments_fts WHERE post_id = ? AND comment_id = ? AND reply_id = ?"
+            )
+            .bind(postId, commentId, replyId),
+          db
+            .prepare(
+              "DELETE FROM replies WHERE post_id = ? AND comment_id = ? AND id = ?"
+            )
+            .bind(postId, commentId, replyId),
+        ])
+      ),
+
+    setHidden: (target, hiddenAt) =>
+      tryD1(`Failed to update post ${target.postId}`, () => {
+        const at = toEpochMs(hiddenAt);
+        if (!target.commentId) {
+          return db
+            .prepare("UPDATE posts SET hidden_at = ? WHERE id = ?")
+            .bind(at, target.postId)
+            .run();
+        }
+        if (!target.replyId) {
+          return db
+            .prepare(
+              "UPDATE comments SET hidden_at = ? WHERE post_id = ? AND id = ?"
+            )
+            .bind(at, target.postId, target.commentId)
+            .run();
+        }
+        return db
+          .prepare(
+            `UPDATE replies SET hidden_at = ?
+             WHERE post_id = ? AND comment_id = ? AND id = ?`
+          )
+          .bind(at, target.postId, target.commentId, target.replyId)
+          .run();
+      }).pipe(Effect.asVoid),
+
+    addLike: (userId, target, createdAt) =>
+      tryD1("Failed to add like", () =>
+        db.batch([
+          db
+            .prepare(
+              `INSERT OR IGNORE INTO likes (user_id, post_id, comment_id, reply_id, created_at)
+               VALUES (?, ?, ?, ?, ?)`
+            )
+            .bind(userId, ...targetKey(target), createdAt),
+          updateLikeCounter(db, target, "likes + 1"),
+        ])
+      ).pipe(Effect.map(([inserted]) => inserted.meta.changes > 0)),
+
+    removeLike: (userId, target) =>
+      tryD1("Failed to remove like", () =>
+        db.batch([
+          db
+            .prepare(
+              `DELETE FROM likes
+               WHERE user_id = ? AND post_id = ? AND comment_id = ? AND reply_id = ?`
+            )
+            .bind(userId, ...targetKey(target)),
+          updateLikeCounter(db, target, "MAX(0, likes - 1)"),
+        ])
+      ).pipe(Effect.map(([deleted]) => deleted.meta.changes > 0)),
+
+    findLikedTargets: (userId, postIds) =>
+      tryD1("Failed to load liked targets", () =>
+        db
+          .prepare(
+            `SELECT post_id, comment_id, reply_id FROM likes
+             WHERE user_id = ? AND post_id IN (SELECT value FROM json_each(?))`
+          )
+          .bind(userId, JSON.stringify(postIds))
+          .all<LikeRow>()
+      ).pipe(
+        Effect.map(({ results }) =>
+          results.map((row) => ({
+            postId: row.post_id,
+            commentId: row.comment_id || undefined,
+            replyId: row.reply_id || undefined,
+          }))
+        )
+      ),
+
+    listLikes: (target, cursor, limit) =>
+      tryD1("Failed to list likes", () =>
+        db
+          .prepare(
+            `SELECT user_id, created_at FROM likes
+             WHERE post_id = ? AND comment_id = ? AND reply_id = ?
+               AND (? IS NULL OR created_at < ? OR (created_at = ? AND user_id < ?))
+             ORDER BY created_at DESC, user_id DESC
+             LIMIT ?`
+          )
+          .bind(
+            ...targetKey(target),
+            cursor?.key ?? null,
+            cursor?.key ?? null,
+            cursor?.key ?? null,
+            cursor?.id ?? null,
+            limit
+          )
+          .all<{ user_id: string; created_at: number }>()
+      ).pipe(
+        Effect.map(({ results }) =>
+          results.map((row) => ({
+            userId: row.user_id,
+            createdAt: row.created_at,
+          }))
+        )
+      ),
+
+    searchPosts: (query, audience, cursor, limit) =>
+      tryD1("Failed to search posts", () =>
+        db
+          .prepare(
+            `SELECT * FROM (
+               SELECT posts_fts.post_id, -bm25(posts_fts) AS score
+               FROM posts_fts
+               JOIN posts p ON p.id = posts_fts.post_id
+               WHERE posts_fts MATCH ?1
+                 AND (p.hidden_at IS NULL OR ?5 OR p.user_id = ?6)
+                 AND (?5 OR ${authorVisibleTo("p.user_id", "?6")})
+             )
+             WHERE ?2 IS NULL OR score < ?2 OR (score = ?2 AND post_id < ?3)
+             ORDER BY score DESC, post_id DESC
+             LIMIT ?4`
+          )
+          .bind(
+            toFtsQuery(query),
+            cursor?.key ?? null,
+            cursor?.id ?? null,
+            limit,
+            audience.moderator ? 1 : 0,
+            audience.userId ?? null
+          )
+          .all<{ post_id: string; score: number }>()
+      ).pipe(
+        Effect.map(({ results }) =>
+          results.map((row) => ({ postId: row.post_id, score: row.score }))
+        )
+      ),
+
+    // Rank in the index, then load the comments and replies that matched
+    searchComments: (query, audience, cursor, limit) =>
+      Effect.gen(function* () {
+        const { results: matches } = yield* tryD1(
+          "Failed to search comments",
+          () =>
+            db
+              .prepare(
+                `WITH RECURSIVE ${unseenReplies("?5", "?6")}
+                 SELECT * FROM (
+                   SELECT comments_fts.post_id, comments_fts.comment_id, comments_fts.reply_id,
+                          -bm25(comments_fts) AS score,
+                          comments_fts.post_id || '/' || comments_fts.comment_id || '/' || comments_fts.reply_id AS match_key
+                   FROM comments_fts
+                   JOIN posts p ON p.id = comments_fts.post_id
+                   JOIN comments c
+                     ON c.post_id = comments_fts.post_id AND c.id = comments_fts.comment_id
+                   WHERE comments_fts MATCH ?1
+                     AND (p.hidden_at IS NULL OR ?5 OR p.user_id = ?6)
+                     AND (?5 OR ${authorVisibleTo("p.user_id", "?6")})
+                     AND (c.hidden_at IS NULL OR ?5 OR c.user_id = ?6)
+                     AND NOT EXISTS (
+                       SELECT 1 FROM unseen u
+                       WHERE u.post_id = comments_fts.post_id
+                         AND u.comment_id = comments_fts.comment_id
+                         AND u.id = comments_fts.reply_id
+                     )
+                 )
+                 WHERE ?2 IS NULL OR score < ?2 OR (score = ?2 AND match_key < ?3)
+                 ORDER BY score DESC, match_key DESC
+                 LIMIT ?4`
+              )
+              .bind(
+                toFtsQuery(query),
+                cursor?.key ?? null,
+                cursor?.id ?? null,
+                limit,
+                audience.moderator ? 1 : 0,
+                audience.userId ?? null
+              )
+              .all<{
+                post_id: string;
+                comment_id: string;
+                reply_id: string;
+                score: number;
+                match_key: string;
+              }>()
+        );
+        if (matches.length === 0) {
+          return [];
+        }
+
+        const [commentRows, replyRows] = yield* tryD1(
+          "Failed to load matching comments",
+          () =>
+            db.batch<CommentRow & ReplyRow>([
+              db
+                .prepare(
+                  `SELECT * FROM comments
+                   WHERE (post_id, id) IN (
+                     SELECT value ->> 0, value ->> 1 FROM json_each(?)
+                   )`
+                )
+                .bind(
+                  JSON.stringify(
+                    matches
+                      .filter((match) => !match.reply_id)
+                      .map((match) => [match.post_id, match.comment_id])
+                  )
+                ),
+              db
+                .prepare(
+                  `SELECT * FROM replies
+                   WHERE (post_id, comment_id, id) IN (
+                     SELECT value ->> 0, value ->> 1, value ->> 2 FROM json_each(?)
+                   )`
+                )
+                .bind(
+                  JSON.stringify(
+                    matches
+                      .filter((match) => match.reply_id)
+                      .map((match) => [
+                        match.post_id,
+                        match.comment_id,
+                        match.reply_id,
+                      ])
+                  )
+                ),
+            ])
+        );
+        const found = new Map<string, CommentMatch>([
+          ...commentRows.results.map((row): [string, CommentMatch] => {
+            const match = { postId: row.post_id, comment: toComment(row) };
+            return [commentMatchKey(match), match];
+          }),
+          ...replyRows.results.map((row): [string, CommentMatch] => {
+            const match = {
+              postId: row.post_id,
+              parentCommentId: row.comment_id,
+              comment: toReply(row),
+            };
+            return [commentMatchKey(match), match];
+          }),
+        ]);
+        return matches.flatMap((match): Array<Scored<CommentMatch>> => {
+          const comment = found.get(match.match_key);
+          return comment ? [{ ...comment, score: match.score }] : [];
+        });
+      }),
+
+    listMentions: (userId, cursor, limit) =>
+      tryD1(`Failed to list mentions of user ${userId}`, () =>
+        db
+          .prepare(
+            `WITH RECURSIVE ${unseenReplies("0", "NULL")}
+             SELECT m.post_id, m.comment_id, m.reply_id, m.created_at,
+                    COALESCE(r.user_id, c.user_id, p.user_id) AS author_id,
+                    COALESCE(r.username, c.username, p.username) AS username,
+                    COALESCE(r.user_avatar, c.user_avatar, p.user_avatar) AS user_avatar,
+                    COALESCE(r.text, c.text, p.caption) AS text,
+                    COALESCE(r.entities, c.entities, p.entities) AS entities
+             FROM mentions m
+             JOIN posts p ON p.id = m.post_id
+             LEFT JOIN comments c
+               ON m.comment_id != '' AND c.post_id = m.post_id AND c.id = m.comment_id
+             LEFT JOIN replies r
+               ON m.reply_id != '' AND r.post_id = m.post_id
+                 AND r.comment_id = m.comment_id AND r.id = m.reply_id
+             WHERE m.user_id = ?1
+               AND p.hidden_at IS NULL AND c.hidden_at IS NULL
+               AND NOT EXISTS (
+                 SELECT 1 FROM unseen u
+                 WHERE u.post_id = m.post_id AND u.comment_id = m.comment_id
+                   AND u.id = m.reply_id
+               )
+               AND ${authorVisibleTo("p.user_id", "?1")}
+               AND (?2 IS NULL OR m.created_at < ?2
+                 OR (m.created_at = ?2 AND m.post_id || '/' || m.comment_id || '/' || m.reply_id < ?3))
+             ORDER BY m.created_at DESC, m.post_id || '/' || m.comment_id || '/' || m.reply_id DESC
+             LIMIT ?4`
+          )
+          .bind(userId, cursor?.key ?? null, cursor?.id ?? null, limit)
+          .all<{
+            post_id: string;
+            comment_id: string;
+            reply_id: string;
+            created_at: number;
+            author_id: string | null;
+            username: string;
+            user_avatar: string;
+            text: string;
+            entities: string;
+          }>()
+      ).pipe(
+        Effect.map(({ results }) =>
+          results.flatMap((row): Array<Mention> =>
+            row.author_id
+              ? [
+                  {
+                    target: {
+                      postId: row.post_id,
+                      commentId: row.comment_id || undefined,
+                      replyId: row.reply_id || undefined,
+                    },
+                    author: {
+                      id: row.author_id,
+                      username: row.username,
+                      userAvatar: row.user_avatar,
+                    },
+                    text: row.text,
+                    entities: JSON.parse(row.entities) as Array<TextEntity>,
+                    createdAt: row.created_at,
+                  },
+                ]
+              : []
+          )
+        )
+      ),
+  });
+
+export const PostsRepositoryD1 = (db: D1Database) =>
+  Layer.succeed(PostsRepository, makeD1PostsRepository(db));
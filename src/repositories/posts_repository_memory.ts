@@ -0,0 +1,636 @@
+import { Array, Context, Effect, Layer, Option } from "effect";
+import type { CommentType, LikeTarget, Post } from "../schemas/insta_posts";
+import {
+  DELETED_PLACEHOLDER,
+  PostsRepository,
+  commentMatchKey,
+  mentionKey,
+  nestReplies,
+  type Audience,
+  type CommentMatch,
+  type Like,
+  type Mention,
+  type Scored,
+} from "./posts_repository";
+import { UsersRepository } from "./users_repository";
+import { seedPosts } from "./seed_posts";
+import { pageBy } from "./memory_paging";
+import { scoreText } from "../text/search";
+
+// Whether the audience may see a post, comment or reply, hidden or not
+const seenBy = (
+  audience: Audience | undefined,
+  entity: { userId?: string; hiddenAt?: string }
+) =>
+  !entity.hiddenAt ||
+  audience?.moderator ||
+  (entity.userId !== undefined && entity.userId === audience?.userId);
+
+// Comments are listed on their own, without their replies
+const withoutReplies = ({ replies: _replies, ...comment }: CommentType) =>
+  comment;
+
+// Replies nested under the comment or reply they answer
+const withNestedReplies = (post: Post): Post => ({
+  ...post,
+  comments: post.comments.map((comment) => ({
+    ...comment,
+    replies: nestReplies(comment.replies ?? [], comment.id),
+  })),
+});
+
+// In-memory storage - state lives in this isolate only. Each comment keeps
+// all of its replies flat, like the D1 replies table. Accounts and follows
+// come from `users`, which D1 has in the same database.
+// Used by tests and as a fallback when no D1 binding is configured.
+export const makeInMemoryPostsRepository = (
+  users: Context.Tag.Service<UsersRepository>,
+  initialPosts: Array<Post> = seedPosts
+) => {
+  // Copy so every repository starts from a clean slate
+  const posts: Array<Post> = structuredClone(initialPosts);
+  for (const comment of posts.flatMap((post) => post.comments)) {
+    const replies = comment.replies ?? [];
+    for (const node of [comment, ...replies]) {
+      node.replyCount = 0;
+    }
+    for (const reply of replies) {
+      reply.parentId ??= comment.id;
+      const parent = [comment, ...replies].find(
+        (node) => node.id === reply.parentId
+      );
+      if (parent) {
+        parent.replyCount = (parent.replyCount ?? 0) + 1;
+      }
+    }
+  }
+
+  // Likes keyed by user + target so each user counts once
+  const likes = new Map<string, LikeTarget & Like>();
+
+  const likeKey = (userId: string, target: LikeTarget) =>
+    [userId, target.postId, target.commentId, target.replyId].join("/");
+
+  const findComment = (postId: string, commentId: string) =>
+    posts
+      .find((post) => post.id === postId)
+      ?.comments.find((comment) => comment.id === commentId);
+
+  // The comment, or the reply anywhere under a comment, with that id
+  const findParent = (postId: string, id: string) =>
+    posts
+      .find((post) => post.id === postId)
+      ?.comments.flatMap((comment) => [comment, ...(comment.replies ?? [])])
+      .find((node) => node.id === id);
+
+  // Drop every like on the target and on anything nested under it
+  const forgetLikes = (target: LikeTarget) => {
+    for (const [key, like] of likes) {
+      if (
+        like.postId === target.postId &&
+        (!target.commentId || like.commentId === target.commentId) &&
+        (!target.replyId || like.replyId === target.replyId)
+      ) {
+        likes.delete(key);
+      }
+    }
+  };
+
+  // The post, comment or reply a like (or moderator) points at
+  const findTarget = ({
+    postId,
+    commentId,
+    replyId,
+  }: LikeTarget): { likes: number; hiddenAt?: string } | undefined => {
+    if (!commentId) {
+      return posts.find((post) => post.id === postId);
+    }
+    const comment = findComment(postId, commentId);
+    return replyId
+      ? comment?.replies?.find((reply) => reply.id === replyId)
+      : comment;
+  };
+
+  // Effect to find which of the authors are private accounts the audience
+  // may not see - what the D1 queries join users and follows for
+  const privateAuthorsFor = (
+    audience: Audience | undefined,
+    authorIds: ReadonlyArray<string | undefined>
+  ) =>
+    Effect.gen(function* () {
+      if (audience?.moderator) {
+        return new Set<string>();
+      }
+      const accounts = yield* users.findUsersByIds([
+        ...new Set(authorIds.flatMap((id) => id ?? [])),
+      ]);
+      const privateIds = accounts
+        .filter((user) => user.isPrivate && user.id !== audience?.userId)
+        .map((user) => user.id);
+      const following = new Set(
+        audience?.userId && privateIds.length > 0
+          ? yield* users.findFollowingIds(audience.userId)
+          : []
+      );
+      return new Set(privateIds.filter((id) => !following.has(id)));
+    });
+
+  // Every caption, comment and reply that mentions the user, leaving out
+  // hidden ones and everything under them
+  const mentionsOf = (userId: string) => {
+    const mentions: Array<Mention> = [];
+    const collect = (
+      target: LikeTarget,
+      entity: Post | CommentType,
+      text: string
+    ) => {
+      const entities = entity.entities ?? [];
+      if (
+        entity.userId &&
+        entities.some(
+          (item) => item.type === "mention" && item.userId === userId
+        )
+      ) {
+        mentions.push({
+          target,
+          author: {
+            id: entity.userId,
+            username: entity.username,
+            userAvatar: entity.userAvatar,
+          },
+          text,
+          entities,
+          createdAt: Date.parse(entity.createdAt),
+        });
+      }
+    };
+    for (const post of posts.filter((post) => !post.hiddenAt)) {
+      collect({ postId: post.id }, post, post.caption);
+      for (const comment of post.comments.filter((item) => !item.hiddenAt)) {
+        collect(
+          { postId: post.id, commentId: comment.id },
+          comment,
+          comment.text
+        );
+        // Replies are stored in order, so a reply's parent is always
+        // settled before it
+        const unseen = new Set<string>();
+        for (const reply of comment.replies ?? []) {
+          if (
+            reply.hiddenAt ||
+            (reply.parentId !== undefined && unseen.has(reply.parentId))
+          ) {
+            unseen.add(reply.id);
+            continue;
+          }
+          collect(
+            { postId: post.id, commentId: comment.id, replyId: reply.id },
+            reply,
+            reply.text
+          );
+        }
+      }
+    }
+    return mentions;
+  };
+
+  return PostsRepository.of({
+    listPosts: ({
+      author,
+      authorIds,
+      since,
+      hashtag,
+      ids,
+      audience,
+      cursor,
+      limit,
+      commentPreview,
+    }) =>
+      Effect.map(
+        privateAuthorsFor(
+          audience,
+          posts.map((post) => post.userId)
+        ),
+        (privateAuthors) =>
+          pageBy(
+            posts.filter(
+              (post) =>
+                (!author || post.username === author) &&
+                seenBy(audience, post) &&
+                !(post.userId && privateAuthors.has(post.userId)) &&
+                (!ids || ids.includes(post.id)) &&
+                (!authorIds ||
+                  (post.userId !== undefined &&
+                    authorIds.includes(post.userId))) &&
+                (since === undefined || Date.parse(post.createdAt) >= since) &&
+                (!hashtag ||
+                  (post.entities ?? []).some(
+                    (entity) =>
+                      entity.type === "hashtag" && entity.tag === hashtag
+                  ))
+            ),
+            (post) => Date.parse(post.createdAt),
+            (post) => post.id,
+            "desc",
+            cursor,
+            limit
+          ).map((post) => ({
+            ...post,
+            comments: post.comments
+              .slice(Math.max(0, post.comments.length - commentPreview))
+              .map(withoutReplies),
+          }))
+      ),
+
+    listComments: (postId, sort, audience, cursor, limit) =>
+      Effect.sync(() =>
+        pageBy(
+          (posts.find((post) => post.id === postId)?.comments ?? []).filter(
+            (comment) => seenBy(audience, comment)
+          ),
+          (comment) =>
+            sort === "top" ? comment.likes : Date.parse(comment.createdAt),
+          (comment) => comment.id,
+          "desc",
+          cursor,
+          limit
+        ).map(withoutReplies)
+      ),
+
+    listReplies: (postId, parentId, audience, cursor, limit) =>
+      Effect.sync(() =>
+        pageBy(
+          (posts.find((post) => post.id === postId)?.comments ?? [])
+            .flatMap((comment) => comment.replies ?? [])
+            .filter(
+              (reply) => reply.parentId === parentId && seenBy(audience, reply)
+            ),
+          (reply) => Date.parse(reply.createdAt),
+          (reply) => reply.id,
+          "asc",
+          cursor,
+          limit
+        ).map(withoutReplies)
+      ),
+
+    countPosts: (userId) =>
+      Effect.sync(
+        () =>
+          posts.filter((post) => post.userId === userId && !post.hiddenAt)
+            .length
+      ),
+
+    findPost: (id) =>
+      Effect.sync(() =>
+        Array.findFirst(posts, (post) => post.id === id).pipe(
+          Option.map(withNestedReplies)
+        )
+      ),
+
+    insertPost: (post) =>
+      Effect.sync(() => {
+        posts.unshift(post); // Add to beginning of array
+      }),
+
+    updatePost: (
+      id,
+      { caption, entities, editedAt, expectedVersion, hiddenAt }
+    ) =>
+      Effect.sync(() => {
+        const post = posts.find((post) => post.id === id);
+        if (post?.version !== expectedVersion) {
+          return false;
+        }
+        Object.assign(post, {
+          caption,
+          entities,
+          editedAt,
+          updatedAt: editedAt,
+          version: post.version + 1,
+          hiddenAt: hiddenAt ?? post.hiddenAt,
+        });
+        return true;
+      }),
+
+    deletePost: (id) =>
+      Effect.sync(() => {
+        const index = posts.findIndex((post) => post.id === id);
+        if (index !== -1) {
+          posts.splice(index, 1);
+          forgetLikes({ postId: id });
+        }
+      }),
+
+    insertComment: (postId, comment) =>
+      Effect.sync(() => {
+        const post = posts.find((post) => post.id === postId);
+        if (post) {
+          post.comments.push(comment);
+          post.totalCommentsCount = (post.totalCommentsCount || 0) + 1;
+        }
+      }),
+
+    insertReply: (postId, commentId, reply) =>
+      Effect.sync(() => {
+        const post = posts.find((post) => post.id === postId);
+        const comment = findComment(postId, commentId);
+        const parent = findParent(postId, reply.parentId ?? commentId);
+        if (post && comment && parent) {
+          // Initialize replies array if it doesn't exist
+          if (!comment.replies) {
+            comment.replies = [];
+          }
+          comment.replies.push({ parentId: commentId, ...reply });
+          parent.replyCount = (parent.replyCount ?? 0) + 1;
+          post.totalCommentsCount = (post.totalCommentsCount || 0) + 1;
+        }
+      }),
+
+    updateComment: (
+      postId,
+      commentId,
+      { text, entities, editedAt, expectedVersion, hiddenAt }
+    ) =>
+      Effect.sync(() => {
+        const comment = findComment(postId, commentId);
+        if (comment?.version !== expectedVersion) {
+          return false;
+        }
+        Object.assign(comment, {
+          text,
+          entities,
+          editedAt,
+          updatedAt: editedAt,
+          version: comment.version + 1,
+          hiddenAt: hiddenAt ?? comment.hiddenAt,
+        });
+        return true;
+      }),
+
+    softDeleteComment: (postId, commentId, deletedAt) =>
+      Effect.sync(() => {
+        const post = posts.find((post) => post.id === postId);
+        const comment = findComment(postId, commentId);
+        if (post && comment && !comment.deletedAt) {
+          Object.assign(comment, {
+            userId: undefined,
+            username: DELETED_PLACEHOLDER,
+            userAvatar: "",
+            text: DELETED_PLACEHOLDER,
+            entities: [],
+            deletedAt,
+            updatedAt: deletedAt,
+            version: comment.version + 1,
+          });
+          post.totalCommentsCount = Math.max(0, post.totalCommentsCount - 1);
+        }
+      }),
+
+    deleteComment: (postId, commentId) =>
+      Effect.sync(() => {
+        const post = posts.find((post) => post.id === postId);
+        const index =
+          post?.comments.findIndex((comment) => comment.id === commentId) ?? -1;
+        if (post && index !== -1) {
+          const [comment] = post.comments.splice(index, 1);
+          if (!comment.deletedAt) {
+            post.totalCommentsCount = Math.max(0, post.totalCommentsCount - 1);
+          }
+          forgetLikes({ postId, commentId });
+        }
+      }),
+
+    updateReply: (
+      postId,
+      commentId,
+      replyId,
+      { text, entities, editedAt, expectedVersion, hiddenAt }
+    ) =>
+      Effect.sync(() => {
+        const reply = findComment(postId, commentId)?.replies?.find(
+          (reply) => reply.id === replyId
+        );
+        if (reply?.version !== expectedVersion) {
+          return false;
+        }
+        Object.assign(reply, {
+          text,
+          entities,
+          editedAt,
+          updatedAt: editedAt,
+          version: reply.version + 1,
+          hiddenAt: hiddenAt ?? reply.hiddenAt,
+        });
+        return true;
+      }),
+
+    softDeleteReply: (postId, commentId, replyId, deletedAt) =>
+      Effect.sync(() => {
+        const post = posts.find((post) => post.id === postId);
+        const reply = findComment(postId, commentId)?.replies?.find(
+          (reply) => reply.id === replyId
+        );
+        if (post && reply && !reply.deletedAt) {
+          Object.assign(reply, {
+            userId: undefined,
+            username: DELETED_PLACEHOLDER,
+            userAvatar: "",
+            text: DELETED_PLACEHOLDER,
+            entities: [],
+            deletedAt,
+            updatedAt: deletedAt,
+            version: reply.version + 1,
+          });
+          post.totalCommentsCount = Math.max(0, post.totalCommentsCount - 1);
+        }
+      }),
+
+    deleteReply: (postId, commentId, replyId) =>
+      Effect.sync(() => {
+        const post = posts.find((post) => post.id === postId);
+        const comment = findComment(postId, commentId);
+        const index =
+          comment?.replies?.findIndex((reply) => reply.id === replyId) ?? -1;
+        if (post && comment?.replies && index !== -1) {
+          const [reply] = comment.replies.splice(index, 1);
+          const parent = findParent(postId, reply.parentId ?? commentId);
+          if (parent) {
+            parent.replyCount = Math.max(0, (parent.replyCount ?? 0) - 1);
+          }
+          if (!reply.deletedAt) {
+            post.totalCommentsCount = Math.max(0, post.totalCommentsCount - 1);
+          }
+          forgetLikes({ postId, commentId, replyId });
+        }
+      }),
+
+    setHidden: (target, hiddenAt) =>
+      Effect.sync(() => {
+        const entity = findTarget(target);
+        if (entity) {
+          entity.hiddenAt = hiddenAt;
+        }
+      }),
+
+    addLike: (userId, target, createdAt) =>
+      Effect.sync(() => {
+        const entity = findTarget(target);
+        const key = likeKey(userId, target);
+        if (!entity || likes.has(key)) {
+          return false;
+        }
+        likes.set(key, { ...target, userId, createdAt });
+        entity.likes += 1;
+        return true;
+      }),
+
+    removeLike: (userId, target) =>
+      Effect.sync(() => {
+        const entity = findTarget(target);
+        const key = likeKey(userId, target);
+        if (!entity || !likes.delete(key)) {
+          return false;
+        }
+        entity.likes = Math.max(0, entity.likes - 1);
+        return true;
+      }),
+
+    findLikedTargets: (userId, postIds) =>
+      Effect.sync(() =>
+        [...likes.values()]
+          .filter(
+            (like) => like.userId === userId && postIds.includes(like.postId)
+          )
+          .map(({ postId, commentId, replyId }) => ({
+            postId,
+            commentId,
+            replyId,
+          }))
+      ),
+
+    listLikes: (target, cursor, limit) =>
+      Effect.sync(() =>
+        pageBy(
+          [...likes.values()].filter(
+            (like) =>
+              like.postId === target.postId &&
+              like.commentId === target.commentId &&
+              like.replyId === target.replyId
+          ),
+          (like) => like.createdAt,
+          (like) => like.userId,
+          "desc",
+          cursor,
+          limit
+        ).map(({ userId, createdAt }) => ({ userId, createdAt }))
+      ),
+
+    searchPosts: (query, audience, cursor, limit) =>
+      Effect.map(
+        privateAuthorsFor(
+          audience,
+          posts.map((post) => post.userId)
+        ),
+        (privateAuthors) =>
+          pageBy(
+            posts.flatMap((post) => {
+              const visible =
+                seenBy(audience, post) &&
+                !(post.userId && privateAuthors.has(post.userId));
+              const score = visible ? scoreText(query, post.caption) : 0;
+              return score > 0 ? [{ postId: post.id, score }] : [];
+            }),
+            (match) => match.score,
+            (match) => match.postId,
+            "desc",
+            cursor,
+            limit
+          )
+      ),
+
+    searchComments: (query, audience, cursor, limit) =>
+      Effect.map(
+        privateAuthorsFor(
+          audience,
+          posts.map((post) => post.userId)
+        ),
+        (privateAuthors) => {
+          const matches: Array<Scored<CommentMatch>> = [];
+          const collect = (match: CommentMatch) => {
+            const score = match.comment.deletedAt
+              ? 0
+              : scoreText(query, match.comment.text);
+            if (score > 0) {
+              matches.push({ ...match, score });
+            }
+          };
+          const visiblePosts = posts.filter(
+            (post) =>
+              seenBy(audience, post) &&
+              !(post.userId && privateAuthors.has(post.userId))
+          );
+          for (const post of visiblePosts) {
+            for (const comment of post.comments) {
+              if (!seenBy(audience, comment)) {
+                continue;
+              }
+              collect({ postId: post.id, comment: withoutReplies(comment) });
+              // Replies are stored in order, so a reply's parent is always
+              // settled before it
+              const unseen = new Set<string>();
+              for (const reply of comment.replies ?? []) {
+                if (
+                  !seenBy(audience, reply) ||
+                  (reply.parentId !== undefined && unseen.has(reply.parentId))
+                ) {
+                  unseen.add(reply.id);
+                  continue;
+                }
+                collect({
+                  postId: post.id,
+                  parentCommentId: comment.id,
+                  comment: reply,
+                });
+              }
+            }
+          }
+          return pageBy(
+            matches,
+            (match) => match.score,
+            commentMatchKey,
+            "desc",
+            cursor,
+            limit
+          );
+        }
+      ),
+
+    listMentions: (userId, cursor, limit) =>
+      Effect.map(
+        privateAuthorsFor(
+          { userId, moderator: false },
+          posts.map((post) => post.userId)
+        ),
+        (privateAuthors) =>
+          pageBy(
+            mentionsOf(userId).filter((mention) => {
+              const post = posts.find(
+                (post) => post.id === mention.target.postId
+              );
+              return !(post?.userId && privateAuthors.has(post.userId));
+            }),
+            (mention) => mention.createdAt,
+            (mention) => mentionKey(mention.target),
+            "desc",
+            cursor,
+            limit
+          )
+      ),
+  });
+};
+
+// Fresh in-memory repository every time the layer is built - handy for tests
+export const PostsRepositoryInMemory = Layer.effect(
+  PostsRepository,
+  Effect.map(UsersRepository, (users) => makeInMemoryPostsRepository(users))
+);
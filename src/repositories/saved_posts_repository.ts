@@ -0,0 +1,87 @@
+import { Context, Effect, Option } from "effect";
+import type { Cursor } from "../schemas/pagination";
+import type { RepositoryError } from "./posts_repository";
+
+// A post in someone's saved list or one of their collections; saved posts
+// are paged by (savedAt, postId)
+export type SavedPost = { postId: string; savedAt: number };
+
+// A user's named group of saved posts
+export type Collection = {
+  id: string;
+  userId: string; // Owner
+  name: string;
+  postCount: number;
+  createdAt: number;
+  updatedAt: number; // Last rename or added post
+};
+
+// Storage contract for bookmarks and collections. Every post in a
+// collection is also saved; removing it from a collection keeps the save.
+export class SavedPostsRepository extends Context.Tag("SavedPostsRepository")<
+  SavedPostsRepository,
+  {
+    // Returns false (and changes nothing) if the post was already saved
+    readonly savePost: (
+      userId: string,
+      postId: string,
+      at: number
+    ) => Effect.Effect<boolean, RepositoryError>;
+    // Also takes the post out of the user's collections. Returns false if
+    // it wasn't saved.
+    readonly unsavePost: (
+      userId: string,
+      postId: string
+    ) => Effect.Effect<boolean, RepositoryError>;
+    // Which of the given posts the user saved
+    readonly findSavedPostIds: (
+      userId: string,
+      postIds: ReadonlyArray<string>
+    ) => Effect.Effect<Array<string>, RepositoryError>;
+    // The user's saved posts - or the posts in one of their collections,
+    // by when they were added - newest first, starting after the cursor
+    readonly listSavedPosts: (
+      userId: string,
+      collectionId: string | undefined,
+      cursor: Cursor | undefined,
+      limit: number
+    ) => Effect.Effect<Array<SavedPost>, RepositoryError>;
+    readonly insertCollection: (
+      collection: Omit<Collection, "postCount">
+    ) => Effect.Effect<void, RepositoryError>;
+    // None unless the collection exists and belongs to the user
+    readonly findCollection: (
+      userId: string,
+      collectionId: string
+    ) => Effect.Effect<Option.Option<Collection>, RepositoryError>;
+    // All of the user's collections, most recently updated first
+    readonly listCollections: (
+      userId: string
+    ) => Effect.Effect<Array<Collection>, RepositoryError>;
+    readonly renameCollection: (
+      collectionId: string,
+      name: string,
+      at: number
+    ) => Effect.Effect<void, RepositoryError>;
+    // The posts that were in it stay saved
+    readonly deleteCollection: (
+      collectionId: string
+    ) => Effect.Effect<void, RepositoryError>;
+    // Returns false (and changes nothing) if the post was already in it;
+    // otherwise moves the collection's updatedAt
+    readonly addToCollection: (
+      collectionId: string,
+      postId: string,
+      at: number
+    ) => Effect.Effect<boolean, RepositoryError>;
+    // Returns false if the post wasn't in it
+    readonly removeFromCollection: (
+      collectionId: string,
+      postId: string
+    ) => Effect.Effect<boolean, RepositoryError>;
+    // Drops a deleted post from everyone's saves and collections
+    readonly deleteForPost: (
+      postId: string
+    ) => Effect.Effect<void, RepositoryError>;
+  }
+>() {}
@@ -0,0 +1,212 @@
+import { Effect, Layer, Option } from "effect";
+import { tryD1 } from "./d1";
+import {
+  SavedPostsRepository,
+  type Collection,
+} from "./saved_posts_repository";
+
+// Row shapes as stored by migrations/0015_saved_posts.sql, collections
+// with their post count
+type SavedPostRow = { post_id: string; created_at: number };
+
+type CollectionRow = {
+  id: string;
+  user_id: string;
+  name: string;
+  created_at: number;
+  updated_at: number;
+  post_count: number;
+};
+
+const toCollection = (row: CollectionRow): Collection => ({
+  id: row.id,
+  userId: row.user_id,
+  name: row.name,
+  postCount: row.post_count,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+const SELECT_COLLECTIONS = `SELECT c.*, (
+    SELECT COUNT(*) FROM collection_posts cp WHERE cp.collection_id = c.id
+  ) AS post_count
+  FROM collections c`;
+
+export const makeD1SavedPostsRepository = (db: D1Database) =>
+  SavedPostsRepository.of({
+    savePost: (userId, postId, at) =>
+      tryD1(`Failed to save post ${postId}`, () =>
+        db
+          .prepare(
+            "INSERT OR IGNORE INTO saved_posts (user_id, post_id, created_at) VALUES (?, ?, ?)"
+          )
+          .bind(userId, postId, at)
+          .run()
+      ).pipe(Effect.map((result) => result.meta.changes > 0)),
+
+    unsavePost: (userId, postId) =>
+      tryD1(`Failed to unsave post ${postId}`, () =>
+        db.batch([
+          db
+            .prepare(
+              `DELETE FROM collection_posts
+               WHERE post_id = ?2
+                 AND collection_id IN (SELECT id FROM collections WHERE user_id = ?1)`
+            )
+            .bind(userId, postId),
+          db
+            .prepare(
+              "DELETE FROM saved_posts WHERE user_id = ? AND post_id = ?"
+            )
+            .bind(userId, postId),
+        ])
+      ).pipe(Effect.map(([, deleted]) => deleted.meta.changes > 0)),
+
+    findSavedPostIds: (userId, postIds) =>
+      tryD1("Failed to load saved posts", () =>
+        db
+          .prepare(
+            `SELECT post_id FROM saved_posts
+             WHERE user_id = ? AND post_id IN (SELECT value FROM json_each(?))`
+          )
+          .bind(userId, JSON.stringify(postIds))
+          .all<{ post_id: string }>()
+      ).pipe(Effect.map(({ results }) => results.map((row) => row.post_id))),
+
+    listSavedPosts: (userId, collectionId, cursor, limit) =>
+      tryD1(`Failed to list saved posts of user ${userId}`, () =>
+        (collectionId
+          ? db
+              .prepare(
+                `SELECT post_id, created_at FROM collection_posts
+                 WHERE collection_id = ?1
+                   AND (?2 IS NULL OR created_at < ?2 OR (created_at = ?2 AND post_id < ?3))
+                 ORDER BY created_at DESC, post_id DESC
+                 LIMIT ?4`
+              )
+              .bind(
+                collectionId,
+                cursor?.key ?? null,
+                cursor?.id ?? null,
+                limit
+              )
+          : db
+              .prepare(
+                `SELECT post_id, created_at FROM saved_posts
+                 WHERE user_id = ?1
+                   AND (?2 IS NULL OR created_at < ?2 OR (created_at = ?2 AND post_id < ?3))
+                 ORDER BY created_at DESC, post_id DESC
+                 LIMIT ?4`
+              )
+              .bind(userId, cursor?.key ?? null, cursor?.id ?? null, limit)
+        ).all<SavedPostRow>()
+      ).pipe(
+        Effect.map(({ results }) =>
+          results.map((row) => ({
+            postId: row.post_id,
+            savedAt: row.created_at,
+          }))
+        )
+      ),
+
+    insertCollection: (collection) =>
+      tryD1(`Failed to create collection ${collection.id}`, () =>
+        db
+          .prepare(
+            "INSERT INTO collections (id, user_id, name, created_at, updated_at) VALUES (?, ?, ?, ?, ?)"
+          )
+          .bind(
+            collection.id,
+            collection.userId,
+            collection.name,
+            collection.createdAt,
+            collection.updatedAt
+          )
+          .run()
+      ),
+
+    findCollection: (userId, collectionId) =>
+      tryD1(`Failed to load collection ${collectionId}`, () =>
+        db
+          .prepare(`${SELECT_COLLECTIONS} WHERE c.id = ? AND c.user_id = ?`)
+          .bind(collectionId, userId)
+          .first<CollectionRow>()
+      ).pipe(
+        Effect.map((row) =>
+          Option.fromNullable(row).pipe(Option.map(toCollection))
+        )
+      ),
+
+    listCollections: (userId) =>
+      tryD1(`Failed to list collections of user ${userId}`, () =>
+        db
+          .prepare(
+            `${SELECT_COLLECTIONS} WHERE c.user_id = ?
+             ORDER BY c.updated_at DESC, c.id DESC`
+          )
+          .bind(userId)
+          .all<CollectionRow>()
+      ).pipe(Effect.map(({ results }) => results.map(toCollection))),
+
+    renameCollection: (collectionId, name, at) =>
+      tryD1(`Failed to rename collection ${collectionId}`, () =>
+        db
+          .prepare(
+            "UPDATE collections SET name = ?, updated_at = ? WHERE id = ?"
+          )
+          .bind(name, at, collectionId)
+          .run()
+      ),
+
+    deleteCollection: (collectionId) =>
+      tryD1(`Failed to delete collection ${collectionId}`, () =>
+        db.batch([
+          db
+            .prepare("DELETE FROM collection_posts WHERE collection_id = ?")
+            .bind(collectionId),
+          db.prepare("DELETE FROM collections WHERE id = ?").bind(collectionId),
+        ])
+      ),
+
+    // updated_at only moves if the post was new to the collection
+    addToCollection: (collectionId, postId, at) =>
+      tryD1(`Failed to add post ${postId} to collection ${collectionId}`, () =>
+        db.batch([
+          db
+            .prepare(
+              "INSERT OR IGNORE INTO collection_posts (collection_id, post_id, created_at) VALUES (?, ?, ?)"
+            )
+            .bind(collectionId, postId, at),
+          db
+            .prepare(
+              "UPDATE collections SET updated_at = ? WHERE id = ? AND changes() > 0"
+            )
+            .bind(at, collectionId),
+        ])
+      ).pipe(Effect.map(([inserted]) => inserted.meta.changes > 0)),
+
+    removeFromCollection: (collectionId, postId) =>
+      tryD1(
+        `Failed to remove post ${postId} from collection ${collectionId}`,
+        () =>
+          db
+            .prepare(
+              "DELETE FROM collection_posts WHERE collection_id = ? AND post_id = ?"
+            )
+            .bind(collectionId, postId)
+            .run()
+      ).pipe(Effect.map((result) => result.meta.changes > 0)),
+
+    deleteForPost: (postId) =>
+      tryD1(`Failed to delete saves of post ${postId}`, () =>
+        db.batch([
+          db
+            .prepare("DELETE FROM collection_posts WHERE post_id = ?")
+            .bind(postId),
+          db.prepare("DELETE FROM saved_posts WHERE post_id = ?").bind(postId),
+        ])
+      ),
+  });
+
+export const SavedPostsRepositoryD1 = (db: D1Database) =>
+  Layer.succeed(SavedPostsRepository, makeD1SavedPostsRepository(db));
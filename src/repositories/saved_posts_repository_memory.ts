@@ -0,0 +1,162 @@
+import { Effect, Layer, Option } from "effect";
+import {
+  SavedPostsRepository,
+  type Collection,
+  type SavedPost,
+} from "./saved_posts_repository";
+import { pageBy } from "./memory_paging";
+
+const saveKey = (userId: string, postId: string) => `${userId}/${postId}`;
+
+// In-memory saves and collections - state lives in this isolate only.
+// Used when no D1 binding is configured.
+export const makeInMemorySavedPostsRepository = () => {
+  // Keyed by saveKey
+  const saves = new Map<string, SavedPost & { userId: string }>();
+  const collections = new Map<string, Omit<Collection, "postCount">>();
+  // Collection id -> post id -> when it was added
+  const collectionPosts = new Map<string, Map<string, number>>();
+
+  const postsIn = (collectionId: string) => {
+    const existing = collectionPosts.get(collectionId);
+    if (existing) {
+      return existing;
+    }
+    const created = new Map<string, number>();
+    collectionPosts.set(collectionId, created);
+    return created;
+  };
+
+  const withPostCount = (
+    collection: Omit<Collection, "postCount">
+  ): Collection => ({
+    ...collection,
+    postCount: collectionPosts.get(collection.id)?.size ?? 0,
+  });
+
+  return SavedPostsRepository.of({
+    savePost: (userId, postId, savedAt) =>
+      Effect.sync(() => {
+        const key = saveKey(userId, postId);
+        if (saves.has(key)) {
+          return false;
+        }
+        saves.set(key, { userId, postId, savedAt });
+        return true;
+      }),
+
+    unsavePost: (userId, postId) =>
+      Effect.sync(() => {
+        for (const collection of collections.values()) {
+          if (collection.userId === userId) {
+            collectionPosts.get(collection.id)?.delete(postId);
+          }
+        }
+        return saves.delete(saveKey(userId, postId));
+      }),
+
+    findSavedPostIds: (userId, postIds) =>
+      Effect.sync(() =>
+        postIds.filter((postId) => saves.has(saveKey(userId, postId)))
+      ),
+
+    listSavedPosts: (userId, collectionId, cursor, limit) =>
+      Effect.sync(() => {
+        const rows: Array<SavedPost> = collectionId
+          ? [...(collectionPosts.get(collectionId) ?? [])].map(
+              ([postId, savedAt]) => ({
+                postId,
+                savedAt,
+              })
+            )
+          : [...saves.values()]
+              .filter((save) => save.userId === userId)
+              .map(({ postId, savedAt }) => ({ postId, savedAt }));
+        return pageBy(
+          rows,
+          (row) => row.savedAt,
+          (row) => row.postId,
+          "desc",
+          cursor,
+          limit
+        );
+      }),
+
+    insertCollection: (collection) =>
+      Effect.sync(() => {
+        collections.set(collection.id, { ...collection });
+      }),
+
+    findCollection: (userId, collectionId) =>
+      Effect.sync(() =>
+        Option.fromNullable(collections.get(collectionId)).pipe(
+          Option.filter((collection) => collection.userId === userId),
+          Option.map(withPostCount)
+        )
+      ),
+
+    listCollections: (userId) =>
+      Effect.sync(() =>
+        pageBy(
+          [...collections.values()].filter(
+            (collection) => collection.userId === userId
+          ),
+          (collection) => collection.updatedAt,
+          (collection) => collection.id,
+          "desc",
+          undefined,
+          collections.size
+        ).map(withPostCount)
+      ),
+
+    renameCollection: (collectionId, name, at) =>
+      Effect.sync(() => {
+        const collection = collections.get(collectionId);
+        if (collection) {
+          collection.name = name;
+          collection.updatedAt = at;
+        }
+      }),
+
+    deleteCollection: (collectionId) =>
+      Effect.sync(() => {
+        collections.delete(collectionId);
+        collectionPosts.delete(collectionId);
+      }),
+
+    addToCollection: (collectionId, postId, at) =>
+      Effect.sync(() => {
+        const posts = postsIn(collectionId);
+        const collection = collections.get(collectionId);
+        if (posts.has(postId) || !collection) {
+          return false;
+        }
+        posts.set(postId, at);
+        collection.updatedAt = at;
+        return true;
+      }),
+
+    removeFromCollection: (collectionId, postId) =>
+      Effect.sync(
+        () => collectionPosts.get(collectionId)?.delete(postId) ?? false
+      ),
+
+    deleteForPost: (postId) =>
+      Effect.sync(() => {
+        for (const [key, save] of saves) {
+          if (save.postId === postId) {
+            saves.delete(key);
+          }
+        }
+        for (const posts of collectionPosts.values()) {
+          posts.delete(postId);
+        }
+      }),
+  });
+};
+
+// Fresh in-memory repository every time the layer is built - handy for tests
+export const SavedPostsRepositoryInMemory = Layer.sync(
+  SavedPostsRepository,
+  () => makeInMemorySavedPostsRepository()
+);
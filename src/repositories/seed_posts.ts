@@ -0,0 +1,377 @@
+import type { Post } from "../schemas/insta_posts";
+
+// Seed data for the in-memory repository - the demo feed the frontend expects
+export const seedPosts: Array<Post> = [
+  {
+    id: "1",
+    username: "david_tiw",
+    userAvatar:
+      "https://scontent.fkul3-4.fna.fbcdn.net/v/t1.6435-9/45609712_2187758491235852_6900831938550956032_n.jpg?_nc_cat=104&ccb=1-7&_nc_sid=a5f93a&_nc_ohc=NOORgK5j-S8Q7kNvwEYOll2&_nc_oc=AdleRVF2ey5BpbZOhYHqJavrM3S6S2apCnTLvMJ8RR3m_3dz_qUW9DVlpFY_uXHAIbSmTDjiOV5-hVlAZZWbI6dl&_nc_zt=23&_nc_ht=scontent.fkul3-4.fna&_nc_gid=1I7htGLHrX5-6LFgLZyI3A&oh=00_AfVLolz1iXJfv_N0y0gz4p5GedJveuESjqVkTHaIf0eJdg&oe=68B7C24A",
+    image:
+      "https://scontent.fkul3-4.fna.fbcdn.net/v/t39.30808-6/473620869_10170431578270424_6768865139126819584_n.jpg?_nc_cat=107&ccb=1-7&_nc_sid=aa7094&_nc_ohc=4bBjHnbfEd8Q7kNvwF1JEdH&_nc_oc=AdlJDzKs5xROd5YMrV8rq32rHfTkVj4qSYzmWG84s89rBr8moFX1lHPga6XOwW8GgNFR_ixKj3IOhZWCaMLTEwsz&_nc_zt=23&_nc_ht=scontent.fkul3-4.fna&_nc_gid=Vvb02BiLxodiVspMvUTkhw&oh=00_AfVXI929rBTlE9umHL7vBzGoFePT07CXBQQ0rX8i7pl8Rw&oe=689633BF",
+    media: [
+      {
+        url: "https://scontent.fkul3-4.fna.fbcdn.net/v/t39.30808-6/473620869_10170431578270424_6768865139126819584_n.jpg?_nc_cat=107&ccb=1-7&_nc_sid=aa7094&_nc_ohc=4bBjHnbfEd8Q7kNvwF1JEdH&_nc_oc=AdlJDzKs5xROd5YMrV8rq32rHfTkVj4qSYzmWG84s89rBr8moFX1lHPga6XOwW8GgNFR_ixKj3IOhZWCaMLTEwsz&_nc_zt=23&_nc_ht=scontent.fkul3-4.fna&_nc_gid=Vvb02BiLxodiVspMvUTkhw&oh=00_AfVXI929rBTlE9umHL7vBzGoFePT07CXBQQ0rX8i7pl8Rw&oe=689633BF",
+        width: null,
+        height: null,
+      },
+    ],
+    caption: "This is David.",
+    likes: 42,
+    createdAt: "2025-08-01T12:00:00.000Z",
+    updatedAt: "2025-08-01T12:00:00.000Z",
+    version: 1,
+    comments: [
+      {
+        id: "c1",
+        username: "david_tiw",
+        userAvatar:
+          "https://scontent.fkul3-4.fna.fbcdn.net/v/t1.6435-9/45609712_2187758491235852_6900831938550956032_n.jpg?_nc_cat=104&ccb=1-7&_nc_sid=a5f93a&_nc_ohc=NOORgK5j-S8Q7kNvwEYOll2&_nc_oc=AdleRVF2ey5BpbZOhYHqJavrM3S6S2apCnTLvMJ8RR3m_3dz_qUW9DVlpFY_uXHAIbSmTDjiOV5-hVlAZZWbI6dl&_nc_zt=23&_nc_ht=scontent.fkul3-4.fna&_nc_gid=1I7htGLHrX5-6LFgLZyI3A&oh=00_AfVLolz1iXJfv_N0y0gz4p5GedJveuESjqVkTHaIf0eJdg&oe=68B7C24A",
+        text: "Amazing shot! David self comments because this is his own photo",
+        likes: 9,
+        createdAt: "2025-08-01T13:00:00.000Z",
+        updatedAt: "2025-08-01T13:00:00.000Z",
+        version: 1,
+        replies: [
+          {
+            id: "r1",
+            username: "isaactanlishung",
+            userAvatar:
+              "https://scontent.fkul3-3.fna.fbcdn.net/v/t39.30808-6/338412396_170251385889424_655098475624149023_n.jpg?_nc_cat=109&ccb=1-7&_nc_sid=6ee11a&_nc_ohc=6lz4jHLZW7gQ7kNvwFleYFq&_nc_oc=Adl8tm0GU7mUREsXhJ6nkmkFSwM8T2zwuxFWuHQ4-RAazFMIUBA1x0lsGqsuRddsIi7qK4hzitWavv5hmsSAHEd5&_nc_zt=23&_nc_ht=scontent.fkul3-3.fna&_nc_gid=h_KRfW7IzLScALguNDs2ww&oh=00_AfVZAkxvpDhH2f4a5DnCXeh6MrNZQlT56EiCzKiD-YV7UA&oe=68964130",
+            text: "Thanks! I used a FUJI mirrorless camera with a 24-70mm lens, like fr.",
+            likes: 3,
+            createdAt: "2025-08-01T13:15:00.000Z",
+            updatedAt: "2025-08-01T13:15:00.000Z",
+            version: 1,
+          },
+          {
+            id: "r2",
+            username: "david_tiw",
+            userAvatar:
+              "https://scontent.fkul3-4.fna.fbcdn.net/v/t1.6435-9/45609712_2187758491235852_6900831938550956032_n.jpg?_nc_cat=104&ccb=1-7&_nc_sid=a5f93a&_nc_ohc=NOORgK5j-S8Q7kNvwEYOll2&_nc_oc=AdleRVF2ey5BpbZOhYHqJavrM3S6S2apCnTLvMJ8RR3m_3dz_qUW9DVlpFY_uXHAIbSmTDjiOV5-hVlAZZWbI6dl&_nc_zt=23&_nc_ht=scontent.fkul3-4.fna&_nc_gid=1I7htGLHrX5-6LFgLZyI3A&oh=00_AfVLolz1iXJfv_N0y0gz4p5GedJveuESjqVkTHaIf0eJdg&oe=68B7C24A",
+            text: "Really do checkout his work. He's a good friend of mine who does UIUX design and photoshoots.",
+            likes: 2,
+            createdAt: "2025-08-01T13:30:00.000Z",
+            updatedAt: "2025-08-01T13:30:00.000Z",
+            version: 1,
+          },
+        ],
+      },
+      {
+        id: "c2",
+        username: "david_tiw",
+        userAvatar:
+          "https://scontent.fkul3-4.fna.fbcdn.net/v/t1.6435-9/45609712_2187758491235852_6900831938550956032_n.jpg?_nc_cat=104&ccb=1-7&_nc_sid=a5f93a&_nc_ohc=NOORgK5j-S8Q7kNvwEYOll2&_nc_oc=AdleRVF2ey5BpbZOhYHqJavrM3S6S2apCnTLvMJ8RR3m_3dz_qUW9DVlpFY_uXHAIbSmTDjiOV5-hVlAZZWbI6dl&_nc_zt=23&_nc_ht=scontent.fkul3-4.fna&_nc_gid=1I7htGLHrX5-6LFgLZyI3A&oh=00_AfVLolz1iXJfv_N0y0gz4p5GedJveuESjqVkTHaIf0eJdg&oe=68B7C24A",
+        text: "README.md. Jokes. Clearly impossible in 2 days. This is with the help of Cursor. And this takes at least 3 days.",
+        likes: 3,
+        createdAt: "2025-08-01T13:00:00.000Z",
+        updatedAt: "2025-08-01T13:00:00.000Z",
+        version: 1,
+        replies: [
+          {
+            id: "r1",
+            username: "david_tiw",
+            userAvatar:
+              "https://scontent.fkul3-4.fna.fbcdn.net/v/t1.6435-9/45609712_2187758491235852_6900831938550956032_n.jpg?_nc_cat=104&ccb=1-7&_nc_sid=a5f93a&_nc_ohc=NOORgK5j-S8Q7kNvwEYOll2&_nc_oc=AdleRVF2ey5BpbZOhYHqJavrM3S6S2apCnTLvMJ8RR3m_3dz_qUW9DVlpFY_uXHAIbSmTDjiOV5-hVlAZZWbI6dl&_nc_zt=23&_nc_ht=scontent.fkul3-4.fna&_nc_gid=1I7htGLHrX5-6LFgLZyI3A&oh=00_AfVLolz1iXJfv_N0y0gz4p5GedJveuESjqVkTHaIf0eJdg&oe=68B7C24A",
+            text: "Project setup: React, Hono, and Cloudflare.",
+            likes: 0,
+            createdAt: "2025-08-01T13:15:00.000Z",
+            updatedAt: "2025-08-01T13:15:00.000Z",
+            version: 1,
+          },
+          {
+            id: "r2",
+            username: "david_tiw",
+            userAvatar:
+              "https://scontent.fkul3-4.fna.fbcdn.net/v/t1.6435-9/45609712_2187758491235852_6900831938550956032_n.jpg?_nc_cat=104&ccb=1-7&_nc_sid=a5f93a&_nc_ohc=NOORgK5j-S8Q7kNvwEYOll2&_nc_oc=AdleRVF2ey5BpbZOhYHqJavrM3S6S2apCnTLvMJ8RR3m_3dz_qUW9DVlpFY_uXHAIbSmTDjiOV5-hVlAZZWbI6dl&_nc_zt=23&_nc_ht=scontent.fkul3-4.fna&_nc_gid=1I7htGLHrX5-6LFgLZyI3A&oh=00_AfVLolz1iXJfv_N0y0gz4p5GedJveuESjqVkTHaIf0eJdg&oe=68B7C24A",
+            text: "React: TS-Router, TS-Query, Zod, Zustand, shadcn/ui, twcss",
+            likes: 2,
+            createdAt: "2025-08-01T13:30:00.000Z",
+            updatedAt: "2025-08-01T13:30:00.000Z",
+            version: 1,
+          },
+          {
+            id: "r3",
+            username: "david_tiw",
+            userAvatar:
+              "https://scontent.fkul3-4.fna.fbcdn.net/v/t1.6435-9/45609712_2187758491235852_6900831938550956032_n.jpg?_nc_cat=104&ccb=1-7&_nc_sid=a5f93a&_nc_ohc=NOORgK5j-S8Q7kNvwEYOll2&_nc_oc=AdleRVF2ey5BpbZOhYHqJavrM3S6S2apCnTLvMJ8RR3m_3dz_qUW9DVlpFY_uXHAIbSmTDjiOV5-hVlAZZWbI6dl&_nc_zt=23&_nc_ht=scontent.fkul3-4.fna&_nc_gid=1I7htGLHrX5-6LFgLZyI3A&oh=00_AfVLolz1iXJfv_N0y0gz4p5GedJveuESjqVkTHaIf0eJdg&oe=68B7C24A",
+            text: "Hono: Effect, Zod, Hono, hono/trpc",
+            likes: 2,
+            createdAt: "2025-08-01T13:30:00.000Z",
+            updatedAt: "2025-08-01T13:30:00.000Z",
+            version: 1,
+          },
+          {
+            id: "r3",
+            username: "david_tiw",
+            userAvatar:
+              "https://scontent.fkul3-4.fna.fbcdn.net/v/t1.6435-9/45609712_2187758491235852_6900831938550956032_n.jpg?_nc_cat=104&ccb=1-7&_nc_sid=a5f93a&_nc_ohc=NOORgK5j-S8Q7kNvwEYOll2&_nc_oc=AdleRVF2ey5BpbZOhYHqJavrM3S6S2apCnTLvMJ8RR3m_3dz_qUW9DVlpFY_uXHAIbSmTDjiOV5-hVlAZZWbI6dl&_nc_zt=23&_nc_ht=scontent.fkul3-4.fna&_nc_gid=1I7htGLHrX5-6LFgLZyI3A&oh=00_AfVLolz1iXJfv_N0y0gz4p5GedJveuESjqVkTHaIf0eJdg&oe=68B7C24A",
+            text: "I've been wanting to learn on TS-Query, TS-Router, Effect and trpc for some time and I make use of this oppurtunity to learn the usage and how it scales applications and developments.",
+            likes: 2,
+            createdAt: "2025-08-01T13:30:00.000Z",
+            updatedAt: "2025-08-01T13:30:00.000Z",
+            version: 1,
+          },
+        ],
+      },
+      {
+        id: "c3",
+        username: "david_tiw",
+        userAvatar:
+          "https://scontent.fkul3-4.fna.fbcdn.net/v/t1.6435-9/45609712_2187758491235852_6900831938550956032_n.jpg?_nc_cat=104&ccb=1-7&_nc_sid=a5f93a&_nc_ohc=NOORgK5j-S8Q7kNvwEYOll2&_nc_oc=AdleRVF2ey5BpbZOhYHqJavrM3S6S2apCnTLvMJ8RR3m_3dz_qUW9DVlpFY_uXHAIbSmTDjiOV5-hVlAZZWbI6dl&_nc_zt=23&_nc_ht=scontent.fkul3-4.fna&_nc_gid=1I7htGLHrX5-6LFgLZyI3A&oh=00_AfVLolz1iXJfv_N0y0gz4p5GedJveuESjqVkTHaIf0eJdg&oe=68B7C24A",
+        text: "HOW2USE.md",
+        likes: 5,
+        createdAt: "2025-08-01T13:00:00.000Z",
+        updatedAt: "2025-08-01T13:00:00.000Z",
+        version: 1,
+        replies: [
+          {
+            id: "r1",
+            username: "david_tiw",
+            userAvatar:
+              "https://scontent.fkul3-4.fna.fbcdn.net/v/t1.6435-9/45609712_2187758491235852_6900831938550956032_n.jpg?_nc_cat=104&ccb=1-7&_nc_sid=a5f93a&_nc_ohc=NOORgK5j-S8Q7kNvwEYOll2&_nc_oc=AdleRVF2ey5BpbZOhYHqJavrM3S6S2apCnTLvMJ8RR3m_3dz_qUW9DVlpFY_uXHAIbSmTDjiOV5-hVlAZZWbI6dl&_nc_zt=23&_nc_ht=scontent.fkul3-4.fna&_nc_gid=1I7htGLHrX5-6LFgLZyI3A&oh=00_AfVLolz1iXJfv_N0y0gz4p5GedJveuESjqVkTHaIf0eJdg&oe=68B7C24A",
+            text: `Top Right, "+" for URL upload and Caption`,
+            likes: 3,
+            createdAt: "2025-08-01T13:15:00.000Z",
+            updatedAt: "2025-08-01T13:15:00.000Z",
+            version: 1,
+          },
+          {
+            id: "r2",
+            username: "david_tiw",
+            userAvatar:
+              "https://scontent.fkul3-4.fna.fbcdn.net/v/t1.6435-9/45609712_2187758491235852_6900831938550956032_n.jpg?_nc_cat=104&ccb=1-7&_nc_sid=a5f93a&_nc_ohc=NOORgK5j-S8Q7kNvwEYOll2&_nc_oc=AdleRVF2ey5BpbZOhYHqJavrM3S6S2apCnTLvMJ8RR3m_3dz_qUW9DVlpFY_uXHAIbSmTDjiOV5-hVlAZZWbI6dl&_nc_zt=23&_nc_ht=scontent.fkul3-4.fna&_nc_gid=1I7htGLHrX5-6LFgLZyI3A&oh=00_AfVLolz1iXJfv_N0y0gz4p5GedJveuESjqVkTHaIf0eJdg&oe=68B7C24A",
+            text: "Double Tap for like on posts. Single Tap on hearts for comments/reply.",
+            likes: 2,
+            createdAt: "2025-08-01T13:30:00.000Z",
+            updatedAt: "2025-08-01T13:30:00.000Z",
+            version: 1,
+          },
+          {
+            id: "r3",
+            username: "david_tiw",
+            userAvatar:
+              "https://scontent.fkul3-4.fna.fbcdn.net/v/t1.6435-9/45609712_2187758491235852_6900831938550956032_n.jpg?_nc_cat=104&ccb=1-7&_nc_sid=a5f93a&_nc_ohc=NOORgK5j-S8Q7kNvwEYOll2&_nc_oc=AdleRVF2ey5BpbZOhYHqJavrM3S6S2apCnTLvMJ8RR3m_3dz_qUW9DVlpFY_uXHAIbSmTDjiOV5-hVlAZZWbI6dl&_nc_zt=23&_nc_ht=scontent.fkul3-4.fna&_nc_gid=1I7htGLHrX5-6LFgLZyI3A&oh=00_AfVLolz1iXJfv_N0y0gz4p5GedJveuESjqVkTHaIf0eJdg&oe=68B7C24A",
+            text: "Click reply on comments/reply to @ the person and be added on top the you wanna reply.",
+            likes: 2,
+            createdAt: "2025-08-01T13:30:00.000Z",
+            updatedAt: "2025-08-01T13:30:00.000Z",
+            version: 1,
+          },
+          {
+            id: "r4",
+            username: "david_tiw",
+            userAvatar:
+              "https://scontent.fkul3-4.fna.fbcdn.net/v/t1.6435-9/45609712_2187758491235852_6900831938550956032_n.jpg?_nc_cat=104&ccb=1-7&_nc_sid=a5f93a&_nc_ohc=NOORgK5j-S8Q7kNvwEYOll2&_nc_oc=AdleRVF2ey5BpbZOhYHqJavrM3S6S2apCnTLvMJ8RR3m_3dz_qUW9DVlpFY_uXHAIbSmTDjiOV5-hVlAZZWbI6dl&_nc_zt=23&_nc_ht=scontent.fkul3-4.fna&_nc_gid=1I7htGLHrX5-6LFgLZyI3A&oh=00_AfVLolz1iXJfv_N0y0gz4p5GedJveuESjqVkTHaIf0eJdg&oe=68B7C24A",
+            text: "That's it.",
+            likes: 2,
+            createdAt: "2025-08-01T13:30:00.000Z",
+            updatedAt: "2025-08-01T13:30:00.000Z",
+            version: 1,
+          },
+        ],
+      },
+      {
+        id: "c4",
+        username: "david_tiw",
+        userAvatar:
+          "https://scontent.fkul3-4.fna.fbcdn.net/v/t1.6435-9/45609712_2187758491235852_6900831938550956032_n.jpg?_nc_cat=104&ccb=1-7&_nc_sid=a5f93a&_nc_ohc=NOORgK5j-S8Q7kNvwEYOll2&_nc_oc=AdleRVF2ey5BpbZOhYHqJavrM3S6S2apCnTLvMJ8RR3m_3dz_qUW9DVlpFY_uXHAIbSmTDjiOV5-hVlAZZWbI6dl&_nc_zt=23&_nc_ht=scontent.fkul3-4.fna&_nc_gid=1I7htGLHrX5-6LFgLZyI3A&oh=00_AfVLolz1iXJfv_N0y0gz4p5GedJveuESjqVkTHaIf0eJdg&oe=68B7C24A",
+        text: "WHY & HOW.md",
+        likes: 8,
+        createdAt: "2025-08-01T13:00:00.000Z",
+        updatedAt: "2025-08-01T13:00:00.000Z",
+        version: 1,
+        replies: [
+          {
+            id: "r1",
+            username: "david_tiw",
+            userAvatar:
+              "https://scontent.fkul3-4.fna.fbcdn.net/v/t1.6435-9/45609712_2187758491235852_6900831938550956032_n.jpg?_nc_cat=104&ccb=1-7&_nc_sid=a5f93a&_nc_ohc=NOORgK5j-S8Q7kNvwEYOll2&_nc_oc=AdleRVF2ey5BpbZOhYHqJavrM3S6S2apCnTLvMJ8RR3m_3dz_qUW9DVlpFY_uXHAIbSmTDjiOV5-hVlAZZWbI6dl&_nc_zt=23&_nc_ht=scontent.fkul3-4.fna&_nc_gid=1I7htGLHrX5-6LFgLZyI3A&oh=00_AfVLolz1iXJfv_N0y0gz4p5GedJveuESjqVkTHaIf0eJdg&oe=68B7C24A",
+            text: `FE Architecture : TS-Query, TS-Router because of caching, error handling and file-based routing like Next.js. 
+              But not NextJS, WHY? because there is no granular control like in React than in NextJS. 
+              Zod for type safety. TRPC because I want to attempt to use trpc.post.like/comment but was unable to do so and simplify the DevEx on the FE, but end up API calling instead. I wanted to connect to server and use whatever functions that were able to be done through trpc.`,
+            likes: 3,
+            createdAt: "2025-08-01T13:15:00.000Z",
+            updatedAt: "2025-08-01T13:15:00.000Z",
+            version: 1,
+          },
+          {
+            id: "r2",
+            username: "david_tiw",
+            userAvatar:
+              "https://scontent.fkul3-4.fna.fbcdn.net/v/t1.6435-9/45609712_2187758491235852_6900831938550956032_n.jpg?_nc_cat=104&ccb=1-7&_nc_sid=a5f93a&_nc_ohc=NOORgK5j-S8Q7kNvwEYOll2&_nc_oc=AdleRVF2ey5BpbZOhYHqJavrM3S6S2apCnTLvMJ8RR3m_3dz_qUW9DVlpFY_uXHAIbSmTDjiOV5-hVlAZZWbI6dl&_nc_zt=23&_nc_ht=scontent.fkul3-4.fna&_nc_gid=1I7htGLHrX5-6LFgLZyI3A&oh=00_AfVLolz1iXJfv_N0y0gz4p5GedJveuESjqVkTHaIf0eJdg&oe=68B7C24A",
+            text: `FE Component Control: Routes, Components and Zustand (Store). 
+            It should only be as complicated as this could be. 
+
+            On the Route, the fetching of data should be done in the route-based components, and the components should be able to handle the data.
+            Instead of creating another folder for api_call, it creates complication and referencing which will get confusing dev/debugging/maintenance.
+            
+            The <Comment />  are nested in <CommentDrawer/> because there are multiple comments. 
+            Zustand is used to manage the state for @reply and comment incase of user interactivity. 
+
+            The same goes for <Post /> and <Feed /> as <Feed/> is the main feature on the page, and there will be multiple posts.
+            To manage it on a person's feed, there might have different arrange of the <Post />, and the <Feed /> should be able to handle it; 
+            because JS dev fav fx is .map() and ?.
+
+            To structure it better, within compoonents should have a route-based components, and emphasize on the route-based components.`,
+            likes: 2,
+            createdAt: "2025-08-01T13:30:00.000Z",
+            updatedAt: "2025-08-01T13:30:00.000Z",
+            version: 1,
+          },
+          {
+            id: "r3",
+            username: "david_tiw",
+            userAvatar:
+              "https://scontent.fkul3-4.fna.fbcdn.net/v/t1.6435-9/45609712_2187758491235852_6900831938550956032_n.jpg?_nc_cat=104&ccb=1-7&_nc_sid=a5f93a&_nc_ohc=NOORgK5j-S8Q7kNvwEYOll2&_nc_oc=AdleRVF2ey5BpbZOhYHqJavrM3S6S2apCnTLvMJ8RR3m_3dz_qUW9DVlpFY_uXHAIbSmTDjiOV5-hVlAZZWbI6dl&_nc_zt=23&_nc_ht=scontent.fkul3-4.fna&_nc_gid=1I7htGLHrX5-6LFgLZyI3A&oh=00_AfVLolz1iXJfv_N0y0gz4p5GedJveuESjqVkTHaIf0eJdg&oe=68B7C24A",
+            text: `BE Architecture: Effect, trpc, zod, HonoJS.
+              I chose Effect because its FP, and I wanted to try it out due to its granular control over failure cases, testability, maintainability. 
+              When code is written in Effect, the immutability is enforced. There won't be any weird bugs that are hard to debug during production and testing,
+              where I myself struggle to write OOP based code, I understand the concept of OOP, but when it gets too nested it simply becomes too hard to debug.
+              where as in FP the code is straight forward, with correct naming, the logging, debugging, and testing is clearer.
+              
+              I went with trpc instead of API due to its simplicity on the frontend to connect to the db. 
+              Something like supabase was able to deliver, but apparent the cases of trpc usage if better on mono-repo where this FE-BE relationship doesn't work for Type-Safe dev.
+              
+              HonoJS because it's a lightweight/clean framework writing style that is easy to understand, use and deploy on CF 
+              without the maintenance of containers, etc to scale the application thus the preference to CF. 
+              `,
+            likes: 2,
+            createdAt: "2025-08-01T13:30:00.000Z",
+            updatedAt: "2025-08-01T13:30:00.000Z",
+            version: 1,
+          },
+          {
+            id: "r4",
+            username: "david_tiw",
+            userAvatar:
+              "https://scontent.fkul3-4.fna.fbcdn.net/v/t1.6435-9/45609712_2187758491235852_6900831938550956032_n.jpg?_nc_cat=104&ccb=1-7&_nc_sid=a5f93a&_nc_ohc=NOORgK5j-S8Q7kNvwEYOll2&_nc_oc=AdleRVF2ey5BpbZOhYHqJavrM3S6S2apCnTLvMJ8RR3m_3dz_qUW9DVlpFY_uXHAIbSmTDjiOV5-hVlAZZWbI6dl&_nc_zt=23&_nc_ht=scontent.fkul3-4.fna&_nc_gid=1I7htGLHrX5-6LFgLZyI3A&oh=00_AfVLolz1iXJfv_N0y0gz4p5GedJveuESjqVkTHaIf0eJdg&oe=68B7C24A",
+            text: "That's it.",
+            likes: 2,
+            createdAt: "2025-08-01T13:30:00.000Z",
+            updatedAt: "2025-08-01T13:30:00.000Z",
+            version: 1,
+          },
+        ],
+      },
+    ],
+    totalCommentsCount: 18,
+  },
+  {
+    id: "2",
+    username: "dtiw.xyz",
+    userAvatar:
+      "https://scontent.fkul3-5.fna.fbcdn.net/v/t1.6435-9/41673054_2112990445379324_408678009504006144_n.jpg?_nc_cat=100&ccb=1-7&_nc_sid=a5f93a&_nc_ohc=YiWQVm7ffDkQ7kNvwE4nD4e&_nc_oc=AdkiukJkUdJJccnEzAjhHEbMJVkC-SP-xiucwENsrb8FGNcj80ybYDqQaCQWtYi7L3QHs1-HnCaFlzpfY8ikP7hZ&_nc_zt=23&_nc_ht=scontent.fkul3-5.fna&_nc_gid=qD5sW5hXOlrm-B3Bnnh0KQ&oh=00_AfXKNCIVOqg8cO5PcD7Tkse106rlilyuwEBtwNlPKLhl5A&oe=68B7EF5F",
+    image:
+      "https://scontent.fkul3-5.fna.fbcdn.net/v/t1.6435-9/41673054_2112990445379324_408678009504006144_n.jpg?_nc_cat=100&ccb=1-7&_nc_sid=a5f93a&_nc_ohc=YiWQVm7ffDkQ7kNvwE4nD4e&_nc_oc=AdkiukJkUdJJccnEzAjhHEbMJVkC-SP-xiucwENsrb8FGNcj80ybYDqQaCQWtYi7L3QHs1-HnCaFlzpfY8ikP7hZ&_nc_zt=23&_nc_ht=scontent.fkul3-5.fna&_nc_gid=qD5sW5hXOlrm-B3Bnnh0KQ&oh=00_AfXKNCIVOqg8cO5PcD7Tkse106rlilyuwEBtwNlPKLhl5A&oe=68B7EF5F",
+    media: [
+      {
+        url: "https://scontent.fkul3-5.fna.fbcdn.net/v/t1.6435-9/41673054_2112990445379324_408678009504006144_n.jpg?_nc_cat=100&ccb=1-7&_nc_sid=a5f93a&_nc_ohc=YiWQVm7ffDkQ7kNvwE4nD4e&_nc_oc=AdkiukJkUdJJccnEzAjhHEbMJVkC-SP-xiucwENsrb8FGNcj80ybYDqQaCQWtYi7L3QHs1-HnCaFlzpfY8ikP7hZ&_nc_zt=23&_nc_ht=scontent.fkul3-5.fna&_nc_gid=qD5sW5hXOlrm-B3Bnnh0KQ&oh=00_AfXKNCIVOqg8cO5PcD7Tkse106rlilyuwEBtwNlPKLhl5A&oe=68B7EF5F",
+        width: null,
+        height: null,
+      },
+    ],
+    caption:
+      "A cooler David. Software Engineer - for outdated portfolio go to dtiw.xyz",
+    likes: 28,
+    createdAt: "2025-08-01T10:00:00.000Z",
+    updatedAt: "2025-08-01T10:00:00.000Z",
+    version: 1,
+    comments: [
+      {
+        id: "c1",
+        username: "david_tiw",
+        userAvatar:
+          "https://scontent.fkul3-4.fna.fbcdn.net/v/t1.6435-9/45609712_2187758491235852_6900831938550956032_n.jpg?_nc_cat=104&ccb=1-7&_nc_sid=a5f93a&_nc_ohc=NOORgK5j-S8Q7kNvwEYOll2&_nc_oc=AdleRVF2ey5BpbZOhYHqJavrM3S6S2apCnTLvMJ8RR3m_3dz_qUW9DVlpFY_uXHAIbSmTDjiOV5-hVlAZZWbI6dl&_nc_zt=23&_nc_ht=scontent.fkul3-4.fna&_nc_gid=1I7htGLHrX5-6LFgLZyI3A&oh=00_AfVLolz1iXJfv_N0y0gz4p5GedJveuESjqVkTHaIf0eJdg&oe=68B7C24A",
+        text: "PERSONALITY.md",
+        likes: 5,
+        createdAt: "2025-08-01T13:00:00.000Z",
+        updatedAt: "2025-08-01T13:00:00.000Z",
+        version: 1,
+        replies: [
+          {
+            id: "r1",
+            username: "dtiw.xyz",
+            userAvatar:
+              "https://scontent.fkul3-4.fna.fbcdn.net/v/t1.6435-9/45609712_2187758491235852_6900831938550956032_n.jpg?_nc_cat=104&ccb=1-7&_nc_sid=a5f93a&_nc_ohc=NOORgK5j-S8Q7kNvwEYOll2&_nc_oc=AdleRVF2ey5BpbZOhYHqJavrM3S6S2apCnTLvMJ8RR3m_3dz_qUW9DVlpFY_uXHAIbSmTDjiOV5-hVlAZZWbI6dl&_nc_zt=23&_nc_ht=scontent.fkul3-4.fna&_nc_gid=1I7htGLHrX5-6LFgLZyI3A&oh=00_AfVLolz1iXJfv_N0y0gz4p5GedJveuESjqVkTHaIf0eJdg&oe=68B7C24A",
+            text: `
+              INTJ. Type 1w2.
+              A bit try-hard. So I seriously taking my seriousness more lightly. 
+              I'm straight forward, because I prefer truth and understanding. 
+              It is not an OR statement, because w/o truth and understanding, 
+              there will be a picture/impression I paint without going through the struggles of knowing someone.
+              `,
+            likes: 3,
+            createdAt: "2025-08-01T13:15:00.000Z",
+            updatedAt: "2025-08-01T13:15:00.000Z",
+            version: 1,
+          },
+          {
+            id: "r2",
+            username: "david_tiw",
+            userAvatar:
+              "https://scontent.fkul3-4.fna.fbcdn.net/v/t1.6435-9/45609712_2187758491235852_6900831938550956032_n.jpg?_nc_cat=104&ccb=1-7&_nc_sid=a5f93a&_nc_ohc=NOORgK5j-S8Q7kNvwEYOll2&_nc_oc=AdleRVF2ey5BpbZOhYHqJavrM3S6S2apCnTLvMJ8RR3m_3dz_qUW9DVlpFY_uXHAIbSmTDjiOV5-hVlAZZWbI6dl&_nc_zt=23&_nc_ht=scontent.fkul3-4.fna&_nc_gid=1I7htGLHrX5-6LFgLZyI3A&oh=00_AfVLolz1iXJfv_N0y0gz4p5GedJveuESjqVkTHaIf0eJdg&oe=68B7C24A",
+            text: `At WORK I have a routine/ritual in the AM.
+              I will start the work by writing out the tasks for the day, and focus on it. 
+              Then I will work on the heaviest tasks for the day. Followed by the lighter tasks.
+
+              In the morning, I will have a clearer mind, and I will be more focused on the tasks.
+              I will also be more productive, disciplined, creative, and I will be more efficient, innovative, and consistent.
+
+              If disrupted sometimes, I will be pretty moody for the rest of the day.
+              `,
+            likes: 2,
+            createdAt: "2025-08-01T13:30:00.000Z",
+            updatedAt: "2025-08-01T13:30:00.000Z",
+            version: 1,
+          },
+          {
+            id: "r3",
+            username: "david_tiw",
+            userAvatar:
+              "https://scontent.fkul3-4.fna.fbcdn.net/v/t1.6435-9/45609712_2187758491235852_6900831938550956032_n.jpg?_nc_cat=104&ccb=1-7&_nc_sid=a5f93a&_nc_ohc=NOORgK5j-S8Q7kNvwEYOll2&_nc_oc=AdleRVF2ey5BpbZOhYHqJavrM3S6S2apCnTLvMJ8RR3m_3dz_qUW9DVlpFY_uXHAIbSmTDjiOV5-hVlAZZWbI6dl&_nc_zt=23&_nc_ht=scontent.fkul3-4.fna&_nc_gid=1I7htGLHrX5-6LFgLZyI3A&oh=00_AfVLolz1iXJfv_N0y0gz4p5GedJveuESjqVkTHaIf0eJdg&oe=68B7C24A",
+            text: `MAX Social hr / day : 2 hours.
+              pushing it = burnout + social mode for days.
+              `,
+            likes: 2,
+            createdAt: "2025-08-01T13:30:00.000Z",
+            updatedAt: "2025-08-01T13:30:00.000Z",
+            version: 1,
+          },
+        ],
+      },
+      {
+        id: "c1",
+        username: "david_tiw",
+        userAvatar:
+          "https://scontent.fkul3-4.fna.fbcdn.net/v/t1.6435-9/45609712_2187758491235852_6900831938550956032_n.jpg?_nc_cat=104&ccb=1-7&_nc_sid=a5f93a&_nc_ohc=NOORgK5j-S8Q7kNvwEYOll2&_nc_oc=AdleRVF2ey5BpbZOhYHqJavrM3S6S2apCnTLvMJ8RR3m_3dz_qUW9DVlpFY_uXHAIbSmTDjiOV5-hVlAZZWbI6dl&_nc_zt=23&_nc_ht=scontent.fkul3-4.fna&_nc_gid=1I7htGLHrX5-6LFgLZyI3A&oh=00_AfVLolz1iXJfv_N0y0gz4p5GedJveuESjqVkTHaIf0eJdg&oe=68B7C24A",
+        text: "HOBBY.md",
+        likes: 5,
+        createdAt: "2025-08-01T13:00:00.000Z",
+        updatedAt: "2025-08-01T13:00:00.000Z",
+        version: 1,
+        replies: [
+          {
+            id: "r1",
+            username: "dtiw.xyz",
+            userAvatar:
+              "https://scontent.fkul3-4.fna.fbcdn.net/v/t1.6435-9/45609712_2187758491235852_6900831938550956032_n.jpg?_nc_cat=104&ccb=1-7&_nc_sid=a5f93a&_nc_ohc=NOORgK5j-S8Q7kNvwEYOll2&_nc_oc=AdleRVF2ey5BpbZOhYHqJavrM3S6S2apCnTLvMJ8RR3m_3dz_qUW9DVlpFY_uXHAIbSmTDjiOV5-hVlAZZWbI6dl&_nc_zt=23&_nc_ht=scontent.fkul3-4.fna&_nc_gid=1I7htGLHrX5-6LFgLZyI3A&oh=00_AfVLolz1iXJfv_N0y0gz4p5GedJveuESjqVkTHaIf0eJdg&oe=68B7C24A",
+            text: `
+              F1.
+              Go-kart 
+              Sleep. 
+              Read. (but I stopped).
+              ChatGPT. 
+              Claude.
+              `,
+            likes: 3,
+            createdAt: "2025-08-01T13:15:00.000Z",
+            updatedAt: "2025-08-01T13:15:00.000Z",
+            version: 1,
+          },
+        ],
+      },
+    ],
+    totalCommentsCount: 6,
+  },
+];
@@ -0,0 +1,60 @@
+import { Context, Effect, Option } from "effect";
+import type { MediaItem } from "../schemas/insta_posts";
+import type { Cursor } from "../schemas/pagination";
+import type { RepositoryError } from "./posts_repository";
+
+// A story as stored. Stories stop showing at expiresAt and are purged by
+// the scheduled cleanup some time after.
+export type StoredStory = {
+  id: string;
+  userId: string; // Author
+  media: MediaItem;
+  createdAt: number;
+  expiresAt: number;
+  viewCount: number;
+};
+
+// Someone who watched a story; views are paged by (viewedAt, userId)
+export type StoryView = { userId: string; viewedAt: number };
+
+// Storage contract for stories and who has seen them
+export class StoriesRepository extends Context.Tag("StoriesRepository")<
+  StoriesRepository,
+  {
+    readonly insertStory: (
+      story: StoredStory
+    ) => Effect.Effect<void, RepositoryError>;
+    // The story even if it expired, as long as it wasn't purged yet
+    readonly findStory: (
+      id: string
+    ) => Effect.Effect<Option.Option<StoredStory>, RepositoryError>;
+    // The authors' stories that haven't expired at `now`, oldest first
+    readonly listActiveStories: (
+      authorIds: ReadonlyArray<string>,
+      now: number
+    ) => Effect.Effect<Array<StoredStory>, RepositoryError>;
+    // Which of the given stories the user has seen
+    readonly findViewedStoryIds: (
+      viewerId: string,
+      storyIds: ReadonlyArray<string>
+    ) => Effect.Effect<Array<string>, RepositoryError>;
+    // Returns false (and changes nothing) if the user had already seen it;
+    // otherwise bumps its viewCount
+    readonly addView: (
+      storyId: string,
+      viewerId: string,
+      at: number
+    ) => Effect.Effect<boolean, RepositoryError>;
+    // Who saw the story, most recent first, starting after the cursor
+    readonly listViews: (
+      storyId: string,
+      cursor: Cursor | undefined,
+      limit: number
+    ) => Effect.Effect<Array<StoryView>, RepositoryError>;
+    // Removes the stories that expired by `now` with their views,
+    // returning how many went
+    readonly deleteExpiredStories: (
+      now: number
+    ) => Effect.Effect<number, RepositoryError>;
+  }
+>() {}
@@ -0,0 +1,132 @@
+import { Effect, Layer, Option } from "effect";
+import type { MediaItem } from "../schemas/insta_posts";
+import { tryD1 } from "./d1";
+import { StoriesRepository, type StoredStory } from "./stories_repository";
+
+// Row shapes as stored by migrations/0017_stories.sql
+type StoryRow = {
+  id: string;
+  user_id: string;
+  media: string; // JSON MediaItem
+  created_at: number;
+  expires_at: number;
+  view_count: number;
+};
+
+type StoryViewRow = { viewer_id: string; created_at: number };
+
+const toStory = (row: StoryRow): StoredStory => ({
+  id: row.id,
+  userId: row.user_id,
+  media: JSON.parse(row.media) as MediaItem,
+  createdAt: row.created_at,
+  expiresAt: row.expires_at,
+  viewCount: row.view_count,
+});
+
+export const makeD1StoriesRepository = (db: D1Database) =>
+  StoriesRepository.of({
+    insertStory: (story) =>
+      tryD1(`Failed to create story ${story.id}`, () =>
+        db
+          .prepare(
+            "INSERT INTO stories (id, user_id, media, created_at, expires_at, view_count) VALUES (?, ?, ?, ?, ?, ?)"
+          )
+          .bind(
+            story.id,
+            story.userId,
+            JSON.stringify(story.media),
+            story.createdAt,
+            story.expiresAt,
+            story.viewCount
+          )
+          .run()
+      ),
+
+    findStory: (id) =>
+      tryD1(`Failed to load story ${id}`, () =>
+        db
+          .prepare("SELECT * FROM stories WHERE id = ?")
+          .bind(id)
+          .first<StoryRow>()
+      ).pipe(
+        Effect.map((row) => Option.fromNullable(row).pipe(Option.map(toStory)))
+      ),
+
+    listActiveStories: (authorIds, now) =>
+      tryD1("Failed to list stories", () =>
+        db
+          .prepare(
+            `SELECT * FROM stories
+             WHERE user_id IN (SELECT value FROM json_each(?)) AND expires_at > ?
+             ORDER BY created_at ASC, id ASC`
+          )
+          .bind(JSON.stringify(authorIds), now)
+          .all<StoryRow>()
+      ).pipe(Effect.map(({ results }) => results.map(toStory))),
+
+    findViewedStoryIds: (viewerId, storyIds) =>
+      tryD1("Failed to load viewed stories", () =>
+        db
+          .prepare(
+            `SELECT story_id FROM story_views
+             WHERE viewer_id = ? AND story_id IN (SELECT value FROM json_each(?))`
+          )
+          .bind(viewerId, JSON.stringify(storyIds))
+          .all<{ story_id: string }>()
+      ).pipe(Effect.map(({ results }) => results.map((row) => row.story_id))),
+
+    // view_count only moves if the view was new
+    addView: (storyId, viewerId, at) =>
+      tryD1(`Failed to record a view of story ${storyId}`, () =>
+        db.batch([
+          db
+            .prepare(
+              "INSERT OR IGNORE INTO story_views (story_id, viewer_id, created_at) VALUES (?, ?, ?)"
+            )
+            .bind(storyId, viewerId, at),
+          db
+            .prepare(
+              "UPDATE stories SET view_count = view_count + 1 WHERE id = ? AND changes() > 0"
+            )
+            .bind(storyId),
+        ])
+      ).pipe(Effect.map(([inserted]) => inserted.meta.changes > 0)),
+
+    listViews: (storyId, cursor, limit) =>
+      tryD1(`Failed to list viewers of story ${storyId}`, () =>
+        db
+          .prepare(
+            `SELECT viewer_id, created_at FROM story_views
+             WHERE story_id = ?1
+               AND (?2 IS NULL OR created_at < ?2 OR (created_at = ?2 AND viewer_id < ?3))
+             ORDER BY created_at DESC, viewer_id DESC
+             LIMIT ?4`
+          )
+          .bind(storyId, cursor?.key ?? null, cursor?.id ?? null, limit)
+          .all<StoryViewRow>()
+      ).pipe(
+        Effect.map(({ results }) =>
+          results.map((row) => ({
+            userId: row.viewer_id,
+            viewedAt: row.created_at,
+          }))
+        )
+      ),
+
+    deleteExpiredStories: (now) =>
+      tryD1("Failed to delete expired stories", () =>
+        db.batch([
+          db
+            .prepare(
+              `DELETE FROM story_views
+               WHERE story_id IN (SELECT id FROM stories WHERE expires_at <= ?)`
+            )
+            .bind(now),
+          db.prepare("DELETE FROM stories WHERE expires_at <= ?").bind(now),
+        ])
+      ).pipe(Effect.map(([, deleted]) => deleted.meta.changes)),
+  });
+
+export const StoriesRepositoryD1 = (db: D1Database) =>
+  Layer.succeed(StoriesRepository, makeD1StoriesRepository(db));
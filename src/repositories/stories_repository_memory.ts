@@ -0,0 +1,92 @@
+import { Effect, Layer, Option } from "effect";
+import {
+  StoriesRepository,
+  type StoredStory,
+  type StoryView,
+} from "./stories_repository";
+import { pageBy } from "./memory_paging";
+
+// In-memory stories and views - state lives in this isolate only.
+// Used when no D1 binding is configured.
+export const makeInMemoryStoriesRepository = () => {
+  const stories: Array<Omit<StoredStory, "viewCount">> = [];
+  // Story id -> viewer id -> when they saw it
+  const views = new Map<string, Map<string, number>>();
+
+  const withViewCount = (
+    story: Omit<StoredStory, "viewCount">
+  ): StoredStory => ({
+    ...story,
+    viewCount: views.get(story.id)?.size ?? 0,
+  });
+
+  return StoriesRepository.of({
+    insertStory: ({ viewCount: _viewCount, ...story }) =>
+      Effect.sync(() => {
+        stories.push(story);
+      }),
+
+    findStory: (id) =>
+      Effect.sync(() =>
+        Option.fromNullable(stories.find((story) => story.id === id)).pipe(
+          Option.map(withViewCount)
+        )
+      ),
+
+    listActiveStories: (authorIds, now) =>
+      Effect.sync(() =>
+        stories
+          .filter(
+            (story) => authorIds.includes(story.userId) && story.expiresAt > now
+          )
+          .sort((a, b) => a.createdAt - b.createdAt)
+          .map(withViewCount)
+      ),
+
+    findViewedStoryIds: (viewerId, storyIds) =>
+      Effect.sync(() =>
+        storyIds.filter((storyId) => views.get(storyId)?.has(viewerId))
+      ),
+
+    addView: (storyId, viewerId, at) =>
+      Effect.sync(() => {
+        const viewers = views.get(storyId) ?? new Map<string, number>();
+        if (viewers.has(viewerId)) {
+          return false;
+        }
+        viewers.set(viewerId, at);
+        views.set(storyId, viewers);
+        return true;
+      }),
+
+    listViews: (storyId, cursor, limit) =>
+      Effect.sync(() =>
+        pageBy(
+          [...(views.get(storyId) ?? [])].map(
+            ([userId, viewedAt]): StoryView => ({ userId, viewedAt })
+          ),
+          (view) => view.viewedAt,
+          (view) => view.userId,
+          "desc",
+          cursor,
+          limit
+        )
+      ),
+
+    deleteExpiredStories: (now) =>
+      Effect.sync(() => {
+        const expired = stories.filter((story) => story.expiresAt <= now);
+        for (const story of expired) {
+          views.delete(story.id);
+        }
+        const remaining = stories.filter((story) => story.expiresAt > now);
+        stories.splice(0, stories.length, ...remaining);
+        return expired.length;
+      }),
+  });
+};
+
+// Fresh in-memory repository every time the layer is built - handy for tests
+export const StoriesRepositoryInMemory = Layer.sync(StoriesRepository, () =>
+  makeInMemoryStoriesRepository()
+);
@@ -0,0 +1,114 @@
+import { Context, Effect, Option } from "effect";
+import type { User, UserRole } from "../schemas/users";
+import type { Cursor } from "../schemas/pagination";
+import type { SearchQuery } from "../text/search";
+import type { RepositoryError, Scored } from "./posts_repository";
+
+// What users tell about themselves on their profile page
+export type ProfileFields = {
+  userAvatar: string;
+  displayName?: string;
+  bio?: string;
+  website?: string;
+  isPrivate: boolean; // Only followers see their posts there
+};
+
+// User as stored - the password hash never leaves the auth layer
+export type StoredUser = Omit<User, "role"> &
+  ProfileFields & {
+    passwordHash: string;
+    role: UserRole;
+  };
+
+// Sessions are looked up by the SHA-256 hash of the bearer token
+export type StoredSession = {
+  tokenHash: string;
+  userId: string;
+  expiresAt: number;
+  createdAt: number;
+};
+
+// One side of a follow: the other user and when it started.
+// Follow lists are paged by (createdAt, userId).
+export type Follow = { userId: string; createdAt: number };
+
+// Storage contract for accounts, login sessions and the follow graph
+export class UsersRepository extends Context.Tag("UsersRepository")<
+  UsersRepository,
+  {
+    // Username lookups are case-insensitive
+    readonly findUserByUsername: (
+      username: string
+    ) => Effect.Effect<Option.Option<StoredUser>, RepositoryError>;
+    readonly findUserById: (
+      id: string
+    ) => Effect.Effect<Option.Option<StoredUser>, RepositoryError>;
+    // Users in the same order as the ids; unknown ids are skipped
+    readonly findUsersByIds: (
+      ids: ReadonlyArray<string>
+    ) => Effect.Effect<Array<StoredUser>, RepositoryError>;
+    // Usernames matching the query, best first, starting after the cursor
+    readonly searchUsers: (
+      query: SearchQuery,
+      cursor: Cursor | undefined,
+      limit: number
+    ) => Effect.Effect<Array<Scored<{ user: StoredUser }>>, RepositoryError>;
+    // Returns false (and changes nothing) if the username is taken, even
+    // by a signup that got there first
+    readonly insertUser: (
+      user: StoredUser,
+      createdAt: number
+    ) => Effect.Effect<boolean, RepositoryError>;
+    // Replaces every profile field; missing optional ones are cleared
+    readonly updateProfile: (
+      userId: string,
+      profile: ProfileFields
+    ) => Effect.Effect<void, RepositoryError>;
+    readonly insertSession: (
+      session: StoredSession
+    ) => Effect.Effect<void, RepositoryError>;
+    readonly findSession: (
+      tokenHash: string
+    ) => Effect.Effect<Option.Option<StoredSession>, RepositoryError>;
+    readonly deleteSession: (
+      tokenHash: string
+    ) => Effect.Effect<void, RepositoryError>;
+    // Returns false (and changes nothing) if the follow already existed
+    readonly insertFollow: (
+      followerId: string,
+      followeeId: string,
+      createdAt: number
+    ) => Effect.Effect<boolean, RepositoryError>;
+    // Returns false (and changes nothing) if there was no follow
+    readonly deleteFollow: (
+      followerId: string,
+      followeeId: string
+    ) => Effect.Effect<boolean, RepositoryError>;
+    readonly isFollowing: (
+      followerId: string,
+      followeeId: string
+    ) => Effect.Effect<boolean, RepositoryError>;
+    readonly countFollows: (
+      userId: string
+    ) => Effect.Effect<
+      { followers: number; following: number },
+      RepositoryError
+    >;
+    // Who follows the user, most recent first, starting after the cursor
+    readonly listFollowers: (
+      userId: string,
+      cursor: Cursor | undefined,
+      limit: number
+    ) => Effect.Effect<Array<Follow>, RepositoryError>;
+    // Who the user follows, most recent first, starting after the cursor
+    readonly listFollowing: (
+      userId: string,
+      cursor: Cursor | undefined,
+      limit: number
+    ) => Effect.Effect<Array<Follow>, RepositoryError>;
+    // Everyone the user follows - the authors of their home feed
+    readonly findFollowingIds: (
+      userId: string
+    ) => Effect.Effect<Array<string>, RepositoryError>;
+  }
+>() {}
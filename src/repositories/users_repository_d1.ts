@@ -0,0 +1,292 @@
+import { Effect, Layer, Option } from "effect";
+import { toFtsQuery, tryD1 } from "./d1";
+import {
+  UsersRepository,
+  type StoredSession,
+  type StoredUser,
+} from "./users_repository";
+import type { UserRole } from "../schemas/users";
+
+// Row shapes as stored by migrations/0002_create_users.sql (+ 0009 follows,
+// 0013 roles, 0016 profiles)
+type UserRow = {
+  id: string;
+  username: string;
+  user_avatar: string;
+  display_name: string | null;
+  bio: string | null;
+  website: string | null;
+  is_private: number;
+  password_hash: string;
+  role: UserRole;
+};
+
+type SessionRow = {
+  token_hash: string;
+  user_id: string;
+  expires_at: number;
+  created_at: number;
+};
+
+type FollowRow = { user_id: string; created_at: number };
+
+const toFollow = (row: FollowRow) => ({
+  userId: row.user_id,
+  createdAt: row.created_at,
+});
+
+const toUser = (row: UserRow): StoredUser => ({
+  id: row.id,
+  username: row.username,
+  userAvatar: row.user_avatar,
+  displayName: row.display_name ?? undefined,
+  bio: row.bio ?? undefined,
+  website: row.website ?? undefined,
+  isPrivate: row.is_private === 1,
+  passwordHash: row.password_hash,
+  role: row.role,
+});
+
+const toSession = (row: SessionRow): StoredSession => ({
+  tokenHash: row.token_hash,
+  userId: row.user_id,
+  expiresAt: row.expires_at,
+  createdAt: row.created_at,
+});
+
+export const makeD1UsersRepository = (db: D1Database) =>
+  UsersRepository.of({
+    findUserByUsername: (username) =>
+      tryD1(`Failed to load user ${username}`, () =>
+        db
+          .prepare("SELECT * FROM users WHERE username = ?")
+          .bind(username)
+          .first<UserRow>()
+      ).pipe(
+        Effect.map((row) => Option.fromNullable(row).pipe(Option.map(toUser)))
+      ),
+
+    findUserById: (id) =>
+      tryD1(`Failed to load user ${id}`, () =>
+        db.prepare("SELECT * FROM users WHERE id = ?").bind(id).first<UserRow>()
+      ).pipe(
+        Effect.map((row) => Option.fromNullable(row).pipe(Option.map(toUser)))
+      ),
+
+    findUsersByIds: (ids) =>
+      tryD1("Failed to load users", () =>
+        db
+          .prepare(
+            "SELECT * FROM users WHERE id IN (SELECT value FROM json_each(?))"
+          )
+          .bind(JSON.stringify(ids))
+          .all<UserRow>()
+      ).pipe(
+        Effect.map(({ results }) =>
+          ids.flatMap((id) =>
+            results.filter((row) => row.id === id).map(toUser)
+          )
+        )
+      ),
+
+    searchUsers: (query, cursor, limit) =>
+      tryD1("Failed to search users", () =>
+        db
+          .prepare(
+            `SELECT users.*, matches.score FROM (
+               SELECT user_id, -bm25(users_fts) AS score FROM users_fts
+               WHERE users_fts MATCH ?1
+             ) matches
+             JOIN users ON users.id = matches.user_id
+             WHERE ?2 IS NULL OR matches.score < ?2
+               OR (matches.score = ?2 AND users.id < ?3)
+             ORDER BY matches.score DESC, users.id DESC
+             LIMIT ?4`
+          )
+          .bind(
+            toFtsQuery(query),
+            cursor?.key ?? null,
+            cursor?.id ?? null,
+            limit
+          )
+          .all<UserRow & { score: number }>()
+      ).pipe(
+        Effect.map(({ results }) =>
+          results.map((row) => ({ user: toUser(row), score: row.score }))
+        )
+      ),
+
+    insertUser: (user, createdAt) =>
+      tryD1(`Failed to insert user ${user.username}`, () =>
+        db.batch([
+          db
+            .prepare(
+              `INSERT INTO users (id, username, user_avatar, display_name, bio, website, is_private, password_hash, role, created_at)
+               VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+               ON CONFLICT (username) DO NOTHING`
+            )
+            .bind(
+              user.id,
+              user.username,
+              user.userAvatar,
+              user.displayName ?? null,
+              user.bio ?? null,
+              user.website ?? null,
+              user.isPrivate ? 1 : 0,
+              user.passwordHash,
+              user.role,
+              createdAt
+            ),
+          db
+            .prepare(
+              `INSERT INTO users_fts (user_id, username)
+               SELECT ?, ? WHERE changes() > 0`
+            )
+            .bind(user.id, user.username),
+        ])
+      ).pipe(Effect.map(([inserted]) => inserted.meta.changes > 0)),
+
+    updateProfile: (userId, profile) =>
+      tryD1(`Failed to update the profile of user ${userId}`, () =>
+        db
+          .prepare(
+            `UPDATE users
+             SET user_avatar = ?, display_name = ?, bio = ?, website = ?, is_private = ?
+             WHERE id = ?`
+          )
+          .bind(
+            profile.userAvatar,
+            profile.displayName ?? null,
+            profile.bio ?? null,
+            profile.website ?? null,
+            profile.isPrivate ? 1 : 0,
+            userId
+          )
+          .run()
+      ),
+
+    insertSession: (session) =>
+      tryD1(`Failed to insert session for user ${session.userId}`, () =>
+        db
+          .prepare(
+            `INSERT INTO sessions (token_hash, user_id, expires_at, created_at)
+             VALUES (?, ?, ?, ?)`
+          )
+          .bind(
+            session.tokenHash,
+            session.userId,
+            session.expiresAt,
+            session.createdAt
+          )
+          .run()
+      ),
+
+    findSession: (tokenHash) =>
+      tryD1("Failed to load session", () =>
+        db
+          .prepare("SELECT * FROM sessions WHERE token_hash = ?")
+          .bind(tokenHash)
+          .first<SessionRow>()
+      ).pipe(
+        Effect.map((row) =>
+          Option.fromNullable(row).pipe(Option.map(toSession))
+        )
+      ),
+
+    deleteSession: (tokenHash) =>
+      tryD1("Failed to delete session", () =>
+        db
+          .prepare("DELETE FROM sessions WHERE token_hash = ?")
+          .bind(tokenHash)
+          .run()
+      ),
+
+    insertFollow: (followerId, followeeId, createdAt) =>
+      tryD1(`Failed to follow user ${followeeId}`, () =>
+        db
+          .prepare(
+            `INSERT OR IGNORE INTO follows (follower_id, followee_id, created_at)
+             VALUES (?, ?, ?)`
+          )
+          .bind(followerId, followeeId, createdAt)
+          .run()
+      ).pipe(Effect.map((result) => result.meta.changes > 0)),
+
+    deleteFollow: (followerId, followeeId) =>
+      tryD1(`Failed to unfollow user ${followeeId}`, () =>
+        db
+          .prepare(
+            "DELETE FROM follows WHERE follower_id = ? AND followee_id = ?"
+          )
+          .bind(followerId, followeeId)
+          .run()
+      ).pipe(Effect.map((result) => result.meta.changes > 0)),
+
+    isFollowing: (followerId, followeeId) =>
+      tryD1("Failed to load follow", () =>
+        db
+          .prepare(
+            "SELECT 1 FROM follows WHERE follower_id = ? AND followee_id = ?"
+          )
+          .bind(followerId, followeeId)
+          .first()
+      ).pipe(Effect.map((row) => row !== null)),
+
+    countFollows: (userId) =>
+      tryD1(`Failed to count follows for user ${userId}`, () =>
+        db
+          .prepare(
+            `SELECT
+               (SELECT COUNT(*) FROM follows WHERE followee_id = ?1) AS followers,
+               (SELECT COUNT(*) FROM follows WHERE follower_id = ?1) AS following`
+          )
+          .bind(userId)
+          .first<{ followers: number; following: number }>()
+      ).pipe(
+        Effect.map((row) => ({
+          followers: row?.followers ?? 0,
+          following: row?.following ?? 0,
+        }))
+      ),
+
+    listFollowers: (userId, cursor, limit) =>
+      tryD1(`Failed to list followers of user ${userId}`, () =>
+        db
+          .prepare(
+            `SELECT follower_id AS user_id, created_at FROM follows
+             WHERE followee_id = ?1
+               AND (?2 IS NULL OR created_at < ?2 OR (created_at = ?2 AND follower_id < ?3))
+             ORDER BY created_at DESC, follower_id DESC
+             LIMIT ?4`
+          )
+          .bind(userId, cursor?.key ?? null, cursor?.id ?? null, limit)
+          .all<FollowRow>()
+      ).pipe(Effect.map(({ results }) => results.map(toFollow))),
+
+    listFollowing: (userId, cursor, limit) =>
+      tryD1(`Failed to list who user ${userId} follows`, () =>
+        db
+          .prepare(
+            `SELECT followee_id AS user_id, created_at FROM follows
+             WHERE follower_id = ?1
+               AND (?2 IS NULL OR created_at < ?2 OR (created_at = ?2 AND followee_id < ?3))
+             ORDER BY created_at DESC, followee_id DESC
+             LIMIT ?4`
+          )
+          .bind(userId, cursor?.key ?? null, cursor?.id ?? null, limit)
+          .all<FollowRow>()
+      ).pipe(Effect.map(({ results }) => results.map(toFollow))),
+
+    findFollowingIds: (userId) =>
+      tryD1(`Failed to list who user ${userId} follows`, () =>
+        db
+          .prepare("SELECT followee_id FROM follows WHERE follower_id = ?")
+          .bind(userId)
+          .all<{ followee_id: string }>()
+      ).pipe(
+        Effect.map(({ results }) => results.map((row) => row.followee_id))
+      ),
+  });
+
+export const UsersRepositoryD1 = (db: D1Database) =>
+  Layer.succeed(UsersRepository, makeD1UsersRepository(db));
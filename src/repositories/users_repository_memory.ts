@@ -0,0 +1,165 @@
+import { Array, Effect, Layer, Option } from "effect";
+import {
+  UsersRepository,
+  type StoredSession,
+  type StoredUser,
+} from "./users_repository";
+import { pageBy } from "./memory_paging";
+import { scoreText } from "../text/search";
+
+type FollowEdge = { followerId: string; followeeId: string; createdAt: number };
+
+// In-memory accounts, sessions and follows - state lives in this isolate only
+export const makeInMemoryUsersRepository = () => {
+  const users: Array<StoredUser> = [];
+  const sessions = new Map<string, StoredSession>();
+  // Keyed by follower + followee so each pair exists once
+  const follows = new Map<string, FollowEdge>();
+
+  const followKey = (followerId: string, followeeId: string) =>
+    `${followerId}/${followeeId}`;
+
+  return UsersRepository.of({
+    findUserByUsername: (username) =>
+      Effect.sync(() =>
+        Array.findFirst(
+          users,
+          (user) => user.username.toLowerCase() === username.toLowerCase()
+        )
+      ),
+
+    findUserById: (id) =>
+      Effect.sync(() => Array.findFirst(users, (user) => user.id === id)),
+
+    findUsersByIds: (ids) =>
+      Effect.sync(() =>
+        ids.flatMap((id) => users.filter((user) => user.id === id))
+      ),
+
+    searchUsers: (query, cursor, limit) =>
+      Effect.sync(() =>
+        pageBy(
+          users.flatMap((user) => {
+            const score = scoreText(query, user.username);
+            return score > 0 ? [{ user, score }] : [];
+          }),
+          (match) => match.score,
+          (match) => match.user.id,
+          "desc",
+          cursor,
+          limit
+        )
+      ),
+
+    insertUser: (user) =>
+      Effect.sync(() => {
+        if (
+          users.some(
+            (existing) =>
+              existing.username.toLowerCase() === user.username.toLowerCase()
+          )
+        ) {
+          return false;
+        }
+        users.push(user);
+        return true;
+      }),
+
+    updateProfile: (userId, profile) =>
+      Effect.sync(() => {
+        const user = users.find((user) => user.id === userId);
+        if (user) {
+          Object.assign(user, {
+            displayName: undefined,
+            bio: undefined,
+            website: undefined,
+            ...profile,
+          });
+        }
+      }),
+
+    insertSession: (session) =>
+      Effect.sync(() => {
+        sessions.set(session.tokenHash, session);
+      }),
+
+    findSession: (tokenHash) =>
+      Effect.sync(() => Option.fromNullable(sessions.get(tokenHash))),
+
+    deleteSession: (tokenHash) =>
+      Effect.sync(() => {
+        sessions.delete(tokenHash);
+      }),
+
+    insertFollow: (followerId, followeeId, createdAt) =>
+      Effect.sync(() => {
+        const key = followKey(followerId, followeeId);
+        if (follows.has(key)) {
+          return false;
+        }
+        follows.set(key, { followerId, followeeId, createdAt });
+        return true;
+      }),
+
+    deleteFollow: (followerId, followeeId) =>
+      Effect.sync(() => follows.delete(followKey(followerId, followeeId))),
+
+    isFollowing: (followerId, followeeId) =>
+      Effect.sync(() => follows.has(followKey(followerId, followeeId))),
+
+    countFollows: (userId) =>
+      Effect.sync(() => {
+        const edges = [...follows.values()];
+        return {
+          followers: edges.filter((edge) => edge.followeeId === userId).length,
+          following: edges.filter((edge) => edge.followerId === userId).length,
+        };
+      }),
+
+    listFollowers: (userId, cursor, limit) =>
+      Effect.sync(() =>
+        pageBy(
+          [...follows.values()]
+            .filter((edge) => edge.followeeId === userId)
+            .map((edge) => ({
+              userId: edge.followerId,
+              createdAt: edge.createdAt,
+            })),
+          (follow) => follow.createdAt,
+          (follow) => follow.userId,
+          "desc",
+          cursor,
+          limit
+        )
+      ),
+
+    listFollowing: (userId, cursor, limit) =>
+      Effect.sync(() =>
+        pageBy(
+          [...follows.values()]
+            .filter((edge) => edge.followerId === userId)
+            .map((edge) => ({
+              userId: edge.followeeId,
+              createdAt: edge.createdAt,
+            })),
+          (follow) => follow.createdAt,
+          (follow) => follow.userId,
+          "desc",
+          cursor,
+          limit
+        )
+      ),
+
+    findFollowingIds: (userId) =>
+      Effect.sync(() =>
+        [...follows.values()]
+          .filter((edge) => edge.followerId === userId)
+          .map((edge) => edge.followeeId)
+      ),
+  });
+};
+
+// Fresh in-memory repository every time the layer is built - handy for tests
+export const UsersRepositoryInMemory = Layer.sync(UsersRepository, () =>
+  makeInMemoryUsersRepository()
+);
@@ -0,0 +1,263 @@
+import { z } from "zod";
+import { appRouter } from "../routes";
+import { SUPPORTED_IMAGE_TYPES } from "../media/images";
+import {
+  REST_OPERATIONS,
+  type ProcedureName,
+  type RestOperation,
+} from "./operations";
+
+// The parts of a JSON Schema this module looks at
+export type JsonSchema = {
+  type?: string | Array<string>;
+  properties?: Record<string, JsonSchema>;
+  required?: Array<string>;
+  items?: JsonSchema;
+  [keyword: string]: unknown;
+};
+
+const toJsonSchema = (schema: unknown, io: "input" | "output") => {
+  if (!(schema instanceof z.ZodType)) {
+    return undefined;
+  }
+  // OpenAPI 3.1 speaks JSON Schema 2020-12, Zod's default target
+  const { $schema: _dialect, ...jsonSchema } = z.toJSONSchema(schema, {
+    io,
+    unrepresentable: "any",
+  });
+  return jsonSchema as JsonSchema;
+};
+
+type ProcedureSchemas = { input?: JsonSchema; output?: JsonSchema };
+
+// Converted on first use - the schemas never change
+const schemasByProcedure = new Map<ProcedureName, ProcedureSchemas>();
+
+// JSON Schemas of a procedure's .input() (as clients send it, before
+// defaults and transforms) and .output(). Either is missing when the
+// procedure doesn't declare it.
+export const procedureSchemas = (procedure: ProcedureName) => {
+  const cached = schemasByProcedure.get(procedure);
+  if (cached) {
+    return cached;
+  }
+  const def = appRouter._def.procedures[procedure]._def;
+  const schemas: ProcedureSchemas = {
+    input: toJsonSchema(def.inputs[0], "input"),
+    // Set by .output() but left out of tRPC's public types
+    output: toJsonSchema((def as { output?: unknown }).output, "output"),
+  };
+  schemasByProcedure.set(procedure, schemas);
+  return schemas;
+};
+
+// Names of the {placeholders} in an OpenAPI path
+export const pathParamsOf = (path: string) =>
+  [...path.matchAll(/\{(\w+)\}/g)].map(([, name]) => name);
+
+// Objects and arrays of objects go in the query string as JSON
+const isJsonParam = (schema: JsonSchema) =>
+  schema.type === "object" ||
+  (schema.type === "array" && schema.items?.type === "object");
+
+const ErrorSchema: JsonSchema = {
+  type: "object",
+  properties: {
+    error: { type: "string", description: "What went wrong" },
+    code: {
+      type: "string",
+      description: "tRPC error code, e.g. NOT_FOUND or TOO_MANY_REQUESTS",
+    },
+    domainError: {
+      description:
+        "The domain error ({ _tag, ...fields }) behind it, when there is one",
+      anyOf: [{ type: "object" }, { type: "null" }],
+    },
+    issues: {
+      type: "array",
+      description: "Which input fields were invalid, for BAD_REQUEST",
+      items: { type: "object" },
+    },
+  },
+  required: ["error", "code"],
+};
+
+const errorResponse = {
+  description: "The request failed; the status and code say why",
+  content: {
+    "application/json": { schema: { $ref: "#/components/schemas/Error" } },
+  },
+};
+
+const securityOf = (auth: RestOperation["auth"]) =>
+  auth === "required"
+    ? [{ bearerAuth: [] }]
+    : auth === "optional"
+      ? [{}, { bearerAuth: [] }]
+      : [];
+
+const operationObject = (operation: RestOperation) => {
+  const schemas = procedureSchemas(operation.procedure);
+  const pathParams = pathParamsOf(operation.path);
+  const properties = schemas.input?.properties ?? {};
+  const required = new Set(schemas.input?.required ?? []);
+
+  const parameters: Array<Record<string, unknown>> = pathParams.map((name) => ({
+    name,
+    in: "path",
+    required: true,
+    schema: properties[name] ?? { type: "string" },
+  }));
+  const rest = Object.entries(properties).filter(
+    ([name]) => !pathParams.includes(name)
+  );
+
+  if (operation.method === "get") {
+    for (const [name, schema] of rest) {
+      parameters.push({
+        name,
+        in: "query",
+        required: required.has(name),
+        ...(isJsonParam(schema)
+          ? { content: { "application/json": { schema } } }
+          : { schema, explode: true }),
+      });
+    }
+  }
+
+  const body =
+    operation.method !== "get" && rest.length > 0
+      ? {
+          required: rest.some(([name]) => required.has(name)),
+          content: {
+            "application/json": {
+              schema: {
+                ...schemas.input,
+                properties: Object.fromEntries(rest),
+                required: [...required].filter(
+                  (name) => !pathParams.includes(name)
+                ),
+              },
+            },
+          },
+        }
+      : undefined;
+
+  return {
+    operationId: operation.procedure,
+    summary: operation.summary,
+    tags: [operation.tag],
+    security: securityOf(operation.auth),
+    parameters,
+    ...(body && { requestBody: body }),
+    responses: {
+      "200": {
+        description: "OK",
+        content: {
+          "application/json": { schema: schemas.output ?? {} },
+        },
+      },
+      default: errorResponse,
+    },
+  };
+};
+
+// The uploads are plain Hono routes, not procedures - see routes/media.ts
+const mediaPaths = {
+  "/media": {
+    post: {
+      operationId: "uploadMedia",
+      summary: "Upload one image as the raw request body (max 10 MB)",
+      tags: ["Media"],
+      security: [{ bearerAuth: [] }],
+      requestBody: {
+        required: true,
+        content: Object.fromEntries(
+          SUPPORTED_IMAGE_TYPES.map((type) => [
+            type,
+            { schema: { type: "string", contentMediaType: type } },
+          ])
+        ),
+      },
+      responses: {
+        "201": {
+          description: "The stored asset; pass assetId to createPost",
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                properties: {
+                  assetId: { type: "string" },
+                  url: { type: "string" },
+                  contentType: { type: "string" },
+                  size: { type: "integer" },
+                  width: { type: "integer" },
+                  height: { type: "integer" },
+                },
+              },
+            },
+          },
+        },
+        default: errorResponse,
+      },
+    },
+  },
+  "/media/{assetId}": {
+    get: {
+      operationId: "getMedia",
+      summary: "An uploaded image",
+      tags: ["Media"],
+      security: [],
+      parameters: [
+        {
+          name: "assetId",
+          in: "path",
+          required: true,
+          schema: { type: "string" },
+        },
+      ],
+      responses: {
+        "200": {
+          description: "The image, cacheable forever",
+          content: Object.fromEntries(
+            SUPPORTED_IMAGE_TYPES.map((type) => [
+              type,
+              { schema: { type: "string", contentMediaType: type } },
+            ])
+          ),
+        },
+        default: errorResponse,
+      },
+    },
+  },
+};
+
+// OpenAPI 3.1 document for the REST routes, built from the same Zod
+// schemas the procedures validate with
+export const buildOpenApiDocument = (origin: string) => {
+  const paths: Record<string, Record<string, unknown>> = { ...mediaPaths };
+  for (const operation of REST_OPERATIONS) {
+    paths[operation.path] = {
+      ...paths[operation.path],
+      [operation.method]: operationObject(operation),
+    };
+  }
+
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: "Instagram Clone API",
+      version: "1.0.0",
+      description:
+        "REST routes for the same procedures as /trpc. Send the session token from signup or login as a Bearer token.",
+    },
+    servers: [{ url: origin }],
+    paths,
+    components: {
+      schemas: { Error: ErrorSchema },
+      securitySchemes: {
+        bearerAuth: { type: "http", scheme: "bearer" },
+      },
+    },
+  };
+};
@@ -0,0 +1,537 @@
+import type { AppRouter } from "../routes";
+
+// Every query and mutation of the tRPC router
+export type ProcedureName = keyof AppRouter["_def"]["procedures"];
+
+export type HttpMethod = "get" | "post" | "put" | "patch" | "delete";
+
+// A REST route for one tRPC procedure. Path parameters are named after
+// the input fields they fill; GET takes the other fields from the query
+// string, every other method from a JSON body.
+export type RestOperation = {
+  method: HttpMethod;
+  path: string; // OpenAPI style: /posts/{id}
+  procedure: ProcedureName;
+  tag: string; // Groups operations in the OpenAPI document
+  summary: string;
+  // "required" for logged-in users only; "optional" when being logged in
+  // only changes what comes back (likedByMe, private accounts, ...)
+  auth: "none" | "optional" | "required";
+};
+
+// The REST surface. Subscriptions stay tRPC only (SSE under /trpc).
+export const REST_OPERATIONS: ReadonlyArray<RestOperation> = [
+  // Accounts
+  {
+    method: "post",
+    path: "/auth/signup",
+    procedure: "signup",
+    tag: "Accounts",
+    summary: "Create an account and return a session token",
+    auth: "none",
+  },
+  {
+    method: "post",
+    path: "/auth/login",
+    procedure: "login",
+    tag: "Accounts",
+    summary: "Exchange username/password for a session token",
+    auth: "none",
+  },
+  {
+    method: "post",
+    path: "/auth/logout",
+    procedure: "logout",
+    tag: "Accounts",
+    summary: "Revoke the current session token",
+    auth: "required",
+  },
+  {
+    method: "get",
+    path: "/me",
+    procedure: "me",
+    tag: "Accounts",
+    summary: "The logged-in user, or null",
+    auth: "optional",
+  },
+  {
+    method: "patch",
+    path: "/me/profile",
+    procedure: "updateProfile",
+    tag: "Accounts",
+    summary: "Edit your own profile",
+    auth: "required",
+  },
+
+  // Posts
+  {
+    method: "get",
+    path: "/posts",
+    procedure: "getPosts",
+    tag: "Posts",
+    summary: "A page of posts, newest first",
+    auth: "optional",
+  },
+  {
+    method: "post",
+    path: "/posts",
+    procedure: "createPost",
+    tag: "Posts",
+    summary: "Create a post from uploaded images",
+    auth: "required",
+  },
+  {
+    method: "get",
+    path: "/feed",
+    procedure: "getHomeFeed",
+    tag: "Posts",
+    summary: "A page of posts from the accounts you follow",
+    auth: "required",
+  },
+  {
+    method: "get",
+    path: "/tags/{tag}/posts",
+    procedure: "getPostsByHashtag",
+    tag: "Posts",
+    summary: "A page of posts with a hashtag in their caption",
+    auth: "optional",
+  },
+  {
+    method: "get",
+    path: "/mentions",
+    procedure: "getMentions",
+    tag: "Posts",
+    summary: "Where you were @mentioned",
+    auth: "required",
+  },
+  {
+    method: "get",
+    path: "/posts/{id}",
+    procedure: "getPostById",
+    tag: "Posts",
+    summary: "A single post",
+    auth: "optional",
+  },
+  {
+    method: "patch",
+    path: "/posts/{id}",
+    procedure: "updatePost",
+    tag: "Posts",
+    summary: "Edit the caption of your own post",
+    auth: "required",
+  },
+  {
+    method: "delete",
+    path: "/posts/{id}",
+    procedure: "deletePost",
+    tag: "Posts",
+    summary: "Delete your own post with its comments and likes",
+    auth: "required",
+  },
+  {
+    method: "post",
+    path: "/posts/{id}/like",
+    procedure: "likePost",
+    tag: "Posts",
+    summary: "Like a post",
+    auth: "required",
+  },
+  {
+    method: "delete",
+    path: "/posts/{id}/like",
+    procedure: "unlikePost",
+    tag: "Posts",
+    summary: "Unlike a post",
+    auth: "required",
+  },
+  {
+    method: "post",
+    path: "/likes/toggle",
+    procedure: "toggleLike",
+    tag: "Posts",
+    summary: "Like or unlike a post, comment or reply",
+    auth: "required",
+  },
+  {
+    method: "get",
+    path: "/likes",
+    procedure: "getLikers",
+    tag: "Posts",
+    summary: "Who liked a post, comment or reply",
+    auth: "optional",
+  },
+
+  // Comments and replies
+  {
+    method: "get",
+    path: "/posts/{postId}/comments",
+    procedure: "getComments",
+    tag: "Comments",
+    summary: "A page of a post's comments",
+    auth: "optional",
+  },
+  {
+    method: "post",
+    path: "/posts/{postId}/comments",
+    procedure: "addComment",
+    tag: "Comments",
+    summary: "Comment on a post",
+    auth: "required",
+  },
+  {
+    method: "patch",
+    path: "/posts/{postId}/comments/{commentId}",
+    procedure: "editComment",
+    tag: "Comments",
+    summary: "Edit your own comment",
+    auth: "required",
+  },
+  {
+    method: "delete",
+    path: "/posts/{postId}/comments/{commentId}",
+    procedure: "deleteComment",
+    tag: "Comments",
+    summary: "Delete your own comment",
+    auth: "required",
+  },
+  {
+    method: "post",
+    path: "/posts/{postId}/comments/{commentId}/like",
+    procedure: "likeComment",
+    tag: "Comments",
+    summary: "Like a comment",
+    auth: "required",
+  },
+  {
+    method: "delete",
+    path: "/posts/{postId}/comments/{commentId}/like",
+    procedure: "unlikeComment",
+    tag: "Comments",
+    summary: "Unlike a comment",
+    auth: "required",
+  },
+  {
+    method: "get",
+    path: "/posts/{postId}/comments/{commentId}/replies",
+    procedure: "getReplies",
+    tag: "Comments",
+    summary: "A page of the replies to a comment or reply",
+    auth: "optional",
+  },
+  {
+    method: "post",
+    path: "/posts/{postId}/comments/{commentId}/replies",
+    procedure: "addReply",
+    tag: "Comments",
+    summary: "Reply to a comment or reply",
+    auth: "required",
+  },
+  {
+    method: "patch",
+    path: "/posts/{postId}/replies/{replyId}",
+    procedure: "editReply",
+    tag: "Comments",
+    summary: "Edit your own reply",
+    auth: "required",
+  },
+  {
+    method: "delete",
+    path: "/posts/{postId}/replies/{replyId}",
+    procedure: "deleteReply",
+    tag: "Comments",
+    summary: "Delete your own reply",
+    auth: "required",
+  },
+  {
+    method: "post",
+    path: "/posts/{postId}/replies/{replyId}/like",
+    procedure: "likeReply",
+    tag: "Comments",
+    summary: "Like a reply",
+    auth: "required",
+  },
+  {
+    method: "delete",
+    path: "/posts/{postId}/replies/{replyId}/like",
+    procedure: "unlikeReply",
+    tag: "Comments",
+    summary: "Unlike a reply",
+    auth: "required",
+  },
+
+  // People
+  {
+    method: "get",
+    path: "/users/{username}",
+    procedure: "getProfile",
+    tag: "People",
+    summary: "Profile header: bio, avatar and counts",
+    auth: "optional",
+  },
+  {
+    method: "get",
+    path: "/users/{username}/posts",
+    procedure: "getUserPosts",
+    tag: "People",
+    summary: "A page of someone's posts",
+    auth: "optional",
+  },
+  {
+    method: "post",
+    path: "/users/{userId}/follow",
+    procedure: "follow",
+    tag: "People",
+    summary: "Follow someone",
+    auth: "required",
+  },
+  {
+    method: "delete",
+    path: "/users/{userId}/follow",
+    procedure: "unfollow",
+    tag: "People",
+    summary: "Stop following someone",
+    auth: "required",
+  },
+  {
+    method: "get",
+    path: "/users/{userId}/follow-stats",
+    procedure: "getFollowStats",
+    tag: "People",
+    summary: "Follower/following counts",
+    auth: "optional",
+  },
+  {
+    method: "get",
+    path: "/users/{userId}/followers",
+    procedure: "getFollowers",
+    tag: "People",
+    summary: "A page of who follows someone",
+    auth: "none",
+  },
+  {
+    method: "get",
+    path: "/users/{userId}/following",
+    procedure: "getFollowing",
+    tag: "People",
+    summary: "A page of who someone follows",
+    auth: "none",
+  },
+  {
+    method: "get",
+    path: "/search",
+    procedure: "search",
+    tag: "People",
+    summary: "Captions, comments and usernames, best matches first",
+    auth: "optional",
+  },
+
+  // Saved posts
+  {
+    method: "get",
+    path: "/saved",
+    procedure: "getSavedPosts",
+    tag: "Saved posts",
+    summary: "A page of saved posts, or of one collection's",
+    auth: "required",
+  },
+  {
+    method: "put",
+    path: "/saved/{postId}",
+    procedure: "savePost",
+    tag: "Saved posts",
+    summary: "Bookmark a post, optionally into a collection",
+    auth: "required",
+  },
+  {
+    method: "delete",
+    path: "/saved/{postId}",
+    procedure: "unsavePost",
+    tag: "Saved posts",
+    summary: "Remove a bookmark (and the post from collections)",
+    auth: "required",
+  },
+  {
+    method: "get",
+    path: "/collections",
+    procedure: "getCollections",
+    tag: "Saved posts",
+    summary: "Your collections",
+    auth: "required",
+  },
+  {
+    method: "post",
+    path: "/collections",
+    procedure: "createCollection",
+    tag: "Saved posts",
+    summary: "Start a new collection",
+    auth: "required",
+  },
+  {
+    method: "patch",
+    path: "/collections/{collectionId}",
+    procedure: "renameCollection",
+    tag: "Saved posts",
+    summary: "Rename a collection",
+    auth: "required",
+  },
+  {
+    method: "delete",
+    path: "/collections/{collectionId}",
+    procedure: "deleteCollection",
+    tag: "Saved posts",
+    summary: "Delete a collection, keeping its posts saved",
+    auth: "required",
+  },
+  {
+    method: "put",
+    path: "/collections/{collectionId}/posts/{postId}",
+    procedure: "addToCollection",
+    tag: "Saved posts",
+    summary: "Add a post to a collection",
+    auth: "required",
+  },
+  {
+    method: "delete",
+    path: "/collections/{collectionId}/posts/{postId}",
+    procedure: "removeFromCollection",
+    tag: "Saved posts",
+    summary: "Take a post out of a collection",
+    auth: "required",
+  },
+
+  // Stories
+  {
+    method: "get",
+    path: "/stories",
+    procedure: "getStoriesTray",
+    tag: "Stories",
+    summary: "Active stories from you and who you follow",
+    auth: "required",
+  },
+  {
+    method: "post",
+    path: "/stories",
+    procedure: "createStory",
+    tag: "Stories",
+    summary: "Post a story that disappears after 24 hours",
+    auth: "required",
+  },
+  {
+    method: "put",
+    path: "/stories/{storyId}/views",
+    procedure: "markStoryViewed",
+    tag: "Stories",
+    summary: "Mark a story as seen",
+    auth: "required",
+  },
+  {
+    method: "get",
+    path: "/stories/{storyId}/views",
+    procedure: "getStoryViewers",
+    tag: "Stories",
+    summary: "Who saw your story",
+    auth: "required",
+  },
+
+  // Direct messages
+  {
+    method: "get",
+    path: "/conversations",
+    procedure: "getConversations",
+    tag: "Direct messages",
+    summary: "Your inbox, most recently active first",
+    auth: "required",
+  },
+  {
+    method: "post",
+    path: "/conversations",
+    procedure: "createConversation",
+    tag: "Direct messages",
+    summary: "Start a 1:1 or a group (returns an existing 1:1)",
+    auth: "required",
+  },
+  {
+    method: "get",
+    path: "/conversations/{conversationId}",
+    procedure: "getConversation",
+    tag: "Direct messages",
+    summary: "One conversation with its members' read receipts",
+    auth: "required",
+  },
+  {
+    method: "get",
+    path: "/conversations/{conversationId}/messages",
+    procedure: "getMessages",
+    tag: "Direct messages",
+    summary: "A page of messages, newest first",
+    auth: "required",
+  },
+  {
+    method: "post",
+    path: "/conversations/{conversationId}/messages",
+    procedure: "sendMessage",
+    tag: "Direct messages",
+    summary: "Send text or share a post",
+    auth: "required",
+  },
+  {
+    method: "put",
+    path: "/conversations/{conversationId}/read",
+    procedure: "markConversationRead",
+    tag: "Direct messages",
+    summary: "Read receipt",
+    auth: "required",
+  },
+
+  // Notifications
+  {
+    method: "get",
+    path: "/notifications",
+    procedure: "getNotifications",
+    tag: "Notifications",
+    summary: "A page of your notifications",
+    auth: "required",
+  },
+  {
+    method: "get",
+    path: "/notifications/unread-count",
+    procedure: "getUnreadNotificationCount",
+    tag: "Notifications",
+    summary: "Badge count",
+    auth: "required",
+  },
+  {
+    method: "post",
+    path: "/notifications/read",
+    procedure: "markNotificationsRead",
+    tag: "Notifications",
+    summary: "Mark some (or all) notifications read",
+    auth: "required",
+  },
+
+  // Moderation
+  {
+    method: "post",
+    path: "/reports",
+    procedure: "reportContent",
+    tag: "Moderation",
+    summary: "Flag a post, comment or reply for the moderators",
+    auth: "required",
+  },
+  {
+    method: "get",
+    path: "/moderation/queue",
+    procedure: "getModerationQueue",
+    tag: "Moderation",
+    summary: "Reported and held content waiting for a decision (moderators)",
+    auth: "required",
+  },
+  {
+    method: "post",
+    path: "/moderation/decisions",
+    procedure: "moderateContent",
+    tag: "Moderation",
+    summary: "Approve, hide or delete reported content (moderators)",
+    auth: "required",
+  },
+];
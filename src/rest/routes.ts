@@ -0,0 +1,127 @@
+import { Hono, type Context as HonoContext } from "hono";
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { getHTTPStatusCodeFromError } from "@trpc/server/http";
+import type { ContentfulStatusCode } from "hono/utils/http-status";
+import type { AppEnv } from "../app_env";
+import { appRouter } from "../routes";
+import { createCallerFactory, createContext } from "../trpc";
+import { domainErrorData, retryAfterOf } from "../errors";
+import {
+  buildOpenApiDocument,
+  pathParamsOf,
+  procedureSchemas,
+  type JsonSchema,
+} from "./openapi";
+import { REST_OPERATIONS, type RestOperation } from "./operations";
+
+const createCaller = createCallerFactory(appRouter);
+
+// Query strings are all text: anything the input doesn't declare as a
+// string is read as JSON ("20" -> 20, "true" -> true, '{"postId":..}'),
+// falling back to the text itself
+const fromQueryValue = (value: string, schema: JsonSchema | undefined) => {
+  if (schema?.type === "string") {
+    return value;
+  }
+  try {
+    return JSON.parse(value) as unknown;
+  } catch {
+    return value;
+  }
+};
+
+// Build the procedure's input from the path params plus the query string
+// (GET) or the JSON body (everything else). Null when the body isn't a
+// JSON object.
+const readInput = async (c: HonoContext<AppEnv>, operation: RestOperation) => {
+  const { input: schema } = procedureSchemas(operation.procedure);
+  if (!schema) {
+    return {};
+  }
+  const params = Object.fromEntries(
+    pathParamsOf(operation.path).map((name) => [name, c.req.param(name)])
+  );
+
+  if (operation.method === "get") {
+    const query = Object.entries(c.req.queries()).map(([name, values]) => {
+      const property = schema.properties?.[name];
+      return [
+        name,
+        property?.type === "array" && property.items?.type !== "object"
+          ? values.map((value) => fromQueryValue(value, property.items))
+          : fromQueryValue(values[0], property),
+      ];
+    });
+    return { ...Object.fromEntries(query), ...params };
+  }
+
+  const text = await c.req.text();
+  if (!text) {
+    return params;
+  }
+  try {
+    const body: unknown = JSON.parse(text);
+    return typeof body === "object" && body !== null && !Array.isArray(body)
+      ? { ...body, ...params }
+      : null;
+  } catch {
+    return null;
+  }
+};
+
+// Same errors as /trpc, as a plain JSON body with the matching status
+const errorResponse = (c: HonoContext<AppEnv>, error: TRPCError) => {
+  const retryAfter = retryAfterOf([error]);
+  if (retryAfter) {
+    c.header("Retry-After", String(retryAfter));
+  }
+  const invalid = error.cause instanceof z.ZodError ? error.cause : undefined;
+  return c.json(
+    {
+      error: invalid ? z.prettifyError(invalid) : error.message,
+      code: error.code,
+      domainError: domainErrorData(error.cause),
+      ...(invalid && { issues: invalid.issues }),
+    },
+    getHTTPStatusCodeFromError(error) as ContentfulStatusCode
+  );
+};
+
+// Plain REST routes for mobile and partner clients. Each one calls its
+// tRPC procedure, so validation, auth, rate limits and errors are the same
+// as under /trpc.
+export const restRoutes = new Hono<AppEnv>();
+
+// GET /openapi.json - OpenAPI 3.1 document for the routes below
+restRoutes.get("/openapi.json", (c) =>
+  c.json(buildOpenApiDocument(new URL(c.req.url).origin))
+);
+
+for (const operation of REST_OPERATIONS) {
+  const path = operation.path.replace(/\{(\w+)\}/g, ":$1");
+  restRoutes.on(operation.method.toUpperCase(), path, async (c) => {
+    const input = await readInput(c, operation);
+    if (!input) {
+      return c.json(
+        { error: "Request body must be a JSON object", code: "BAD_REQUEST" },
+        400
+      );
+    }
+
+    const caller = createCaller(
+      await createContext(c.get("repositories"), c.req.raw)
+    );
+    const procedure = caller[operation.procedure] as (
+      input: unknown
+    ) => Promise<unknown>;
+    try {
+      return c.json((await procedure(input)) ?? null);
+    } catch (error) {
+      if (error instanceof TRPCError) {
+        return errorResponse(c, error);
+      }
+      throw error;
+    }
+  });
+}
@@ -0,0 +1,134 @@
+import { z } from "zod";
+import { Clock, Effect, Option } from "effect";
+import {
+  protectedProcedure,
+  publicProcedure,
+  rateLimited,
+  router,
+  runEffect,
+} from "../trpc";
+import {
+  UsersRepository,
+  type StoredUser,
+} from "../repositories/users_repository";
+import {
+  LoginSchema,
+  SessionSchema,
+  SignupSchema,
+  UserSchema,
+} from "../schemas/users";
+import {
+  DUMMY_PASSWORD_HASH,
+  hashPassword,
+  verifyPassword,
+} from "../auth/password";
+import { generateSessionToken, hashSessionToken } from "../auth/session_token";
+import { toPublicUser } from "../auth/sessions";
+import { InvalidCredentials, UsernameTaken } from "../errors";
+
+// Sessions last 30 days
+const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Accounts and login sessions
+class AuthService {
+  // Effect to open a new session for a user
+  private createSession = (user: StoredUser) =>
+    Effect.gen(function* () {
+      const repo = yield* UsersRepository;
+      const token = generateSessionToken();
+      const now = yield* Clock.currentTimeMillis;
+      const expiresAt = now + SESSION_TTL_MS;
+      yield* repo.insertSession({
+        tokenHash: yield* hashSessionToken(token),
+        userId: user.id,
+        expiresAt,
+        createdAt: now,
+      });
+      return { token, expiresAt, user: toPublicUser(user) };
+    });
+
+  // Effect to create an account and log it in. The username check up
+  // front is only for a quick answer; the insert is what decides.
+  signup = (input: z.infer<typeof SignupSchema>) =>
+    Effect.gen(this, function* () {
+      const repo = yield* UsersRepository;
+      const existing = yield* repo.findUserByUsername(input.username);
+      if (Option.isSome(existing)) {
+        return yield* new UsernameTaken({ username: input.username });
+      }
+
+      const newUser: StoredUser = {
+        id: crypto.randomUUID(),
+        username: input.username,
+        userAvatar: input.userAvatar,
+        isPrivate: false,
+        passwordHash: yield* hashPassword(input.password),
+        role: "user",
+      };
+      if (!(yield* repo.insertUser(newUser, yield* Clock.currentTimeMillis))) {
+        return yield* new UsernameTaken({ username: input.username });
+      }
+
+      return yield* this.createSession(newUser);
+    });
+
+  // Effect to log in. A wrong username and a wrong password fail the same
+  // way, and take as long, so neither reveals which accounts exist.
+  login = (input: z.infer<typeof LoginSchema>) =>
+    Effect.gen(this, function* () {
+      const repo = yield* UsersRepository;
+      const user = yield* repo.findUserByUsername(input.username);
+      const valid = yield* verifyPassword(
+        input.password,
+        Option.match(user, {
+          onNone: () => DUMMY_PASSWORD_HASH,
+          onSome: (user) => user.passwordHash,
+        })
+      );
+      if (Option.isNone(user) || !valid) {
+        return yield* new InvalidCredentials();
+      }
+
+      return yield* this.createSession(user.value);
+    });
+
+  // Effect to end the session behind a token
+  logout = (token: string) =>
+    Effect.gen(function* () {
+      const repo = yield* UsersRepository;
+      yield* repo.deleteSession(yield* hashSessionToken(token));
+    });
+}
+
+// Create service instance
+const authService = new AuthService();
+
+export const authRouter = router({
+  // POST /signup - Create an account and return a session token
+  signup: publicProcedure
+    .use(rateLimited("login"))
+    .input(SignupSchema)
+    .output(SessionSchema)
+    .mutation(async ({ ctx, input }) => {
+      return await runEffect(ctx, authService.signup(input));
+    }),
+
+  // POST /login - Exchange username/password for a session token
+  login: publicProcedure
+    .use(rateLimited("login"))
+    .input(LoginSchema)
+    .output(SessionSchema)
+    .mutation(async ({ ctx, input }) => {
+      return await runEffect(ctx, authService.login(input));
+    }),
+
+  // POST /logout - Revoke the current session token
+  logout: protectedProcedure.mutation(async ({ ctx }) => {
+    await runEffect(ctx, authService.logout(ctx.sessionToken));
+  }),
+
+  // GET /me - The logged-in user, or null
+  me: publicProcedure
+    .output(UserSchema.nullable())
+    .query(({ ctx }) => ctx.user),
+});
@@ -0,0 +1,150 @@
+import { z } from "zod";
+import { Clock, Effect, Option } from "effect";
+import {
+  protectedProcedure,
+  publicProcedure,
+  rateLimited,
+  router,
+  runEffect,
+} from "../trpc";
+import { UsersRepository, type Follow } from "../repositories/users_repository";
+import {
+  FollowSchema,
+  FollowStatsSchema,
+  GetFollowsSchema,
+} from "../schemas/follows";
+import { PageSchema, toPage } from "../schemas/pagination";
+import { UserSchema, type User } from "../schemas/users";
+import { toPublicUser } from "../auth/sessions";
+import { UserNotFound, ValidationFailed } from "../errors";
+
+// Effect that fails with UserNotFound unless the account exists
+const requireUser = (userId: string) =>
+  Effect.gen(function* () {
+    const repo = yield* UsersRepository;
+    const user = yield* repo.findUserById(userId);
+    if (Option.isNone(user)) {
+      return yield* new UserNotFound({ userId });
+    }
+    return user.value;
+  });
+
+// The follow graph between accounts
+class FollowsService {
+  // Effect to load counts for a user
+  getFollowStats = (viewer: User | null, userId: string) =>
+    Effect.gen(function* () {
+      const repo = yield* UsersRepository;
+      yield* requireUser(userId);
+
+      const counts = yield* repo.countFollows(userId);
+      const followedByMe = viewer
+        ? yield* repo.isFollowing(viewer.id, userId)
+        : false;
+      return { userId, ...counts, followedByMe };
+    });
+
+  // Effect to start or stop following someone, returning their new counts.
+  // Repeating either is a no-op.
+  setFollowing = (user: User, userId: string, following: boolean) =>
+    Effect.gen(this, function* () {
+      const repo = yield* UsersRepository;
+      if (following && userId === user.id) {
+        return yield* new ValidationFailed({
+          field: "userId",
+          message: "You can't follow yourself",
+        });
+      }
+      yield* requireUser(userId);
+
+      yield* following
+        ? repo.insertFollow(user.id, userId, yield* Clock.currentTimeMillis)
+        : repo.deleteFollow(user.id, userId);
+      return yield* this.getFollowStats(user, userId);
+    });
+
+  // Effect to page through either side of a user's follows, most recent first
+  getFollows = (
+    input: z.infer<typeof GetFollowsSchema>,
+    side: "followers" | "following"
+  ) =>
+    Effect.gen(function* () {
+      const repo = yield* UsersRepository;
+      yield* requireUser(input.userId);
+
+      const follows: Array<Follow> = yield* side === "followers"
+        ? repo.listFollowers(input.userId, input.cursor, input.limit + 1)
+        : repo.listFollowing(input.userId, input.cursor, input.limit + 1);
+      const page = toPage(follows, input.limit, (follow) => ({
+        key: follow.createdAt,
+        id: follow.userId,
+      }));
+      const users = yield* repo.findUsersByIds(
+        page.items.map((follow) => follow.userId)
+      );
+
+      return { items: users.map(toPublicUser), nextCursor: page.nextCursor };
+    });
+}
+
+// Create service instance
+const followsService = new FollowsService();
+
+export const followsRouter = router({
+  // POST /users/:id/follow - Follow someone as the logged-in user
+  follow: protectedProcedure
+    .use(rateLimited("follow"))
+    .input(FollowSchema)
+    .output(FollowStatsSchema)
+    .mutation(async ({ ctx, input }) => {
+      return await runEffect(
+        ctx,
+        followsService.setFollowing(ctx.user, input.userId, true)
+      );
+    }),
+
+  // DELETE /users/:id/follow - Stop following someone
+  unfollow: protectedProcedure
+    .use(rateLimited("follow"))
+    .input(FollowSchema)
+    .output(FollowStatsSchema)
+    .mutation(async ({ ctx, input }) => {
+      return await runEffect(
+        ctx,
+        followsService.setFollowing(ctx.user, input.userId, false)
+      );
+    }),
+
+  // GET /users/:id/follow-stats - Follower/following counts
+  getFollowStats: publicProcedure
+    .input(FollowSchema)
+    .output(FollowStatsSchema)
+    .query(async ({ ctx, input }) => {
+      return await runEffect(
+        ctx,
+        followsService.getFollowStats(ctx.user, input.userId)
+      );
+    }),
+
+  // GET /users/:id/followers - Page through who follows someone
+  getFollowers: publicProcedure
+    .input(GetFollowsSchema)
+    .output(PageSchema(UserSchema))
+    .query(async ({ ctx, input }) => {
+      return await runEffect(
+        ctx,
+        followsService.getFollows(input, "followers")
+      );
+    }),
+
+  // GET /users/:id/following - Page through who someone follows
+  getFollowing: publicProcedure
+    .input(GetFollowsSchema)
+    .output(PageSchema(UserSchema))
+    .query(async ({ ctx, input }) => {
+      return await runEffect(
+        ctx,
+        followsService.getFollows(input, "following")
+      );
+    }),
+});
@@ -0,0 +1,28 @@
+import { mergeRouters } from "../trpc";
+import { authRouter } from "./auth";
+import { postsRouter } from "./insta_posts";
+import { followsRouter } from "./follows";
+import { notificationsRouter } from "./notifications";
+import { searchRouter } from "./search";
+import { moderationRouter } from "./moderation";
+import { savedPostsRouter } from "./saved_posts";
+import { profilesRouter } from "./profiles";
+import { storiesRouter } from "./stories";
+import { messagesRouter } from "./messages";
+
+// All procedures live at the top level (/trpc/getPosts, /trpc/login, ...)
+export const appRouter = mergeRouters(
+  postsRouter,
+  authRouter,
+  followsRouter,
+  notificationsRouter,
+  searchRouter,
+  moderationRouter,
+  savedPostsRouter,
+  profilesRouter,
+  storiesRouter,
+  messagesRouter
+);
+
+// Export the type of our router for frontend use
+export type AppRouter = typeof appRouter;
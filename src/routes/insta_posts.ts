@@ -1,750 +1,1570 @@
-import { initTRPC } from "@trpc/server";
 import { z } from "zod";
-import { Effect, Array, Option } from "effect";
-
-// Initialize tRPC - this is like setting up the foundation for our API
-const t = initTRPC.create();
-
-// Create our router and procedure helpers
-export const router = t.router;
-export const publicProcedure = t.procedure;
-
-// Define our data schemas using Zod for validation
-// This ensures type safety and data validation
-
-// Comment schema - matches your CommentData interface
-// Define the type first for recursive reference
-type CommentType = {
-  id: string;
-  username: string;
-  userAvatar: string;
-  text: string;
-  likes: number;
-  timeAgo: string;
-  replies?: CommentType[];
+import { Effect, Array, Clock, Option, Stream } from "effect";
+import {
+  protectedProcedure,
+  publicProcedure,
+  rateLimited,
+  router,
+  runEffect,
+  runStream,
+} from "../trpc";
+import {
+  CommentSchema,
+  CreateCommentSchema,
+  CreatePostSchema,
+  CreateReplySchema,
+  DeleteCommentSchema,
+  DeletePostSchema,
+  DeleteReplySchema,
+  EditCommentSchema,
+  EditReplySchema,
+  GetCommentsSchema,
+  GetHomeFeedSchema,
+  GetLikersSchema,
+  GetMentionsSchema,
+  GetPostByIdSchema,
+  GetPostsByHashtagSchema,
+  GetPostsSchema,
+  GetRepliesSchema,
+  LikeCommentSchema,
+  LikeReplySchema,
+  LikeTargetSchema,
+  MAX_REPLY_DEPTH,
+  MentionSchema,
+  PostSchema,
+  UpdatePostSchema,
+  type CommentType,
+  type LikeTarget,
+  type MediaInput,
+  type MediaItem,
+  type Post,
+  type TextEntity,
+} from "../schemas/insta_posts";
+import { PageSchema, toPage } from "../schemas/pagination";
+import type { GetUserPostsSchema } from "../schemas/profiles";
+import { IdSchema } from "../schemas/ids";
+import { formatTimeAgo, type TimeAgoFormat } from "../schemas/time_ago";
+import { UserSchema, type User } from "../schemas/users";
+import {
+  OnNewCommentSchema,
+  OnNewPostSchema,
+  OnPostUpdatedSchema,
+  type PostUpdate,
+} from "../schemas/events";
+import {
+  PostsRepository,
+  mentionKey,
+  type PostsQuery,
+} from "../repositories/posts_repository";
+import { UsersRepository } from "../repositories/users_repository";
+import { MediaStorage } from "../repositories/media_storage";
+import { NotificationsRepository } from "../repositories/notifications_repository";
+import { ModerationRepository } from "../repositories/moderation_repository";
+import { SavedPostsRepository } from "../repositories/saved_posts_repository";
+import { FEED_CHANNEL, PostEvents, postChannel } from "../realtime/post_events";
+import { mediaUrl } from "./media";
+import { notifyAuthor } from "./notifications";
+import { toPublicUser } from "../auth/sessions";
+import { parseEntities } from "../text/entities";
+import { rejectDuplicateText } from "../rate_limit/rate_limiter";
+import { TextFilter } from "../moderation/text_filter";
+import { audienceOf, canSee, canSeePost } from "../moderation/visibility";
+import { IdGenerator } from "../ids/id_generator";
+import {
+  CommentNotFound,
+  EditConflict,
+  Forbidden,
+  PostNotFound,
+  ReplyNotFound,
+  ValidationFailed,
+} from "../errors";
+
+// Effect to find a comment inside an already loaded post
+const findComment = (post: Post, commentId: string) =>
+  Option.match(
+    Array.findFirst(post.comments, (comment) => comment.id === commentId),
+    {
+      onNone: () =>
+        Effect.fail(new CommentNotFound({ postId: post.id, commentId })),
+      onSome: (comment) => Effect.succeed(comment),
+    }
+  );
+
+// The replies from a comment or reply down to one of its replies at any
+// depth, that reply last; empty when it isn't under this one
+const pathTo = (node: CommentType, replyId: string): Array<CommentType> => {
+  for (const reply of node.replies ?? []) {
+    if (reply.id === replyId) {
+      return [reply];
+    }
+    const path = pathTo(reply, replyId);
+    if (path.length > 0) {
+      return [reply, ...path];
+    }
+  }
+  return [];
 };
 
-const CommentSchema: z.ZodType<CommentType> = z.object({
-  id: z.string(),
-  username: z.string(),
-  userAvatar: z.string(),
-  text: z.string(),
-  likes: z.number(),
-  timeAgo: z.string(),
-  replies: z
-    .array(z.lazy((): z.ZodType<CommentType> => CommentSchema))
-    .optional(), // Recursive for nested comments
-});
+// A reply at any depth inside a post, with the top-level comment it hangs
+// under and the replies in between (the reply itself last). Only looks
+// under commentId when that's given.
+const locateReply = (post: Post, replyId: string, commentId?: string) =>
+  Array.findFirst(post.comments, (comment) => {
+    const path =
+      !commentId || comment.id === commentId ? pathTo(comment, replyId) : [];
+    return Array.isNonEmptyArray(path)
+      ? Option.some({ comment, path, reply: Array.lastNonEmpty(path) })
+      : Option.none();
+  });
+
+// Effect to find a reply at any depth inside an already loaded post
+const findReply = (post: Post, replyId: string, commentId?: string) =>
+  Option.match(locateReply(post, replyId, commentId), {
+    onNone: () =>
+      Effect.fail(new ReplyNotFound({ postId: post.id, commentId, replyId })),
+    onSome: (found) => Effect.succeed(found),
+  });
+
+// Effect to find what a new reply answers - a comment, or a reply at any
+// depth - with the comment it hangs under and the replies in between
+const findParent = (post: Post, id: string) =>
+  Option.match(
+    Array.findFirst(post.comments, (comment) => comment.id === id),
+    {
+      onNone: () =>
+        Option.match(locateReply(post, id), {
+          onNone: () =>
+            Effect.fail(
+              new CommentNotFound({ postId: post.id, commentId: id })
+            ),
+          onSome: ({ comment, path }) =>
+            Effect.succeed({ comment, path: path as Array<CommentType> }),
+        }),
+      onSome: (comment) =>
+        Effect.succeed({ comment, path: [] as Array<CommentType> }),
+    }
+  );
+
+// Effect to find the post, comment or reply a target points at inside an
+// already loaded post, with the full target - a reply's commentId filled in
+const locateTarget = (post: Post, target: LikeTarget) =>
+  Effect.gen(function* () {
+    if (target.replyId) {
+      const { comment, reply } = yield* findReply(
+        post,
+        target.replyId,
+        target.commentId
+      );
+      return {
+        target: { postId: post.id, commentId: comment.id, replyId: reply.id },
+        entity: reply,
+      };
+    }
+    if (target.commentId) {
+      return {
+        target: { postId: post.id, commentId: target.commentId },
+        entity: yield* findComment(post, target.commentId),
+      };
+    }
+    return { target: { postId: post.id }, entity: post };
+  });
+
+// Effect to read the request clock as an ISO timestamp
+const nowIsoString = Clock.currentTimeMillis.pipe(
+  Effect.map((now) => new Date(now).toISOString())
+);
+
+// Effect to turn uploaded images into media items, in order. Every asset
+// has to be one the author uploaded.
+export const resolveMedia = (
+  author: User,
+  items: ReadonlyArray<MediaInput>,
+  origin: string
+) =>
+  Effect.gen(function* () {
+    const storage = yield* MediaStorage;
+    const media: Array<MediaItem> = [];
+    for (const item of items) {
+      const asset = yield* storage.findAsset(item.assetId);
+      if (Option.isNone(asset) || asset.value.ownerId !== author.id) {
+        return yield* new ValidationFailed({
+          field: "media",
+          message: `Unknown image asset ${item.assetId}; upload every image via POST /media first`,
+        });
+      }
+      media.push({
+        ...item,
+        url: mediaUrl(origin, item.assetId),
+        width: asset.value.width,
+        height: asset.value.height,
+      });
+    }
+    return media;
+  });
+
+// Effect to get an id for a new post, comment or reply
+const nextId = Effect.flatMap(IdGenerator, (ids) => ids.nextId);
+
+// Effect that fails with Forbidden unless the user wrote the post,
+// comment or reply - only authors may edit or delete
+const requireAuthor = (
+  user: User,
+  entity: { userId?: string },
+  message: string
+) =>
+  entity.userId === user.id
+    ? Effect.void
+    : Effect.fail(new Forbidden({ message }));
+
+// Effect to pick the version an edit applies to: the one the client sent,
+// failing with EditConflict if that's no longer the current one, or else
+// the one just read
+const versionToEdit = (
+  target: LikeTarget,
+  entity: { version: number },
+  expectedVersion: number | undefined
+) =>
+  expectedVersion === undefined || expectedVersion === entity.version
+    ? Effect.succeed(entity.version)
+    : Effect.fail(new EditConflict({ ...target, expectedVersion }));
+
+// Most distinct usernames looked up per caption or comment
+const MAX_MENTIONS = 20;
+
+// Effect to parse a caption or comment into entities. "@name" without an
+// account behind it stays plain text.
+const resolveEntities = (text: string) =>
+  Effect.gen(function* () {
+    const usersRepo = yield* UsersRepository;
+    const parsed = parseEntities(text);
+    const usernames = [
+      ...new Set(
+        parsed.flatMap((entity) =>
+          entity.type === "mention" ? [entity.username] : []
+        )
+      ),
+    ].slice(0, MAX_MENTIONS);
+    const found = yield* Effect.forEach(usernames, (username) =>
+      usersRepo
+        .findUserByUsername(username)
+        .pipe(Effect.map(Option.map((user) => [username, user] as const)))
+    );
+    const accounts = new Map(Array.getSomes(found));
 
-// Post schema - matches your PostData interface
-const PostSchema = z.object({
-  id: z.string(),
-  username: z.string(),
-  userAvatar: z.string(),
-  image: z.string(),
-  caption: z.string(),
-  likes: z.number(),
-  timeAgo: z.string(),
-  comments: z.array(CommentSchema),
-  totalCommentsCount: z.number().optional(),
+    return parsed.flatMap((entity): Array<TextEntity> => {
+      if (entity.type === "hashtag") {
+        return [entity];
+      }
+      const account = accounts.get(entity.username);
+      return account
+        ? [{ ...entity, username: account.username, userId: account.id }]
+        : [];
+    });
+  });
+
+// Effect to run new text through the text filter. Rejected text fails;
+// returns why text that should wait for a moderator is held back.
+const screenText = (field: string, text: string) =>
+  Effect.gen(function* () {
+    const filter = yield* TextFilter;
+    const verdict = yield* filter.check(text);
+    if (verdict.action === "reject") {
+      return yield* new ValidationFailed({ field, message: verdict.reason });
+    }
+    return verdict.action === "hold" ? verdict.reason : undefined;
+  });
+
+// Effect to put held text in the moderation queue. The content itself is
+// written with hiddenAt already set, so it never shows before this. New
+// content hasn't been announced at all; an edit only missed its update.
+const holdForReview = (
+  target: LikeTarget,
+  reason: string,
+  hiddenAt: string,
+  held: "new" | "edit"
+) =>
+  Effect.flatMap(ModerationRepository, (moderation) =>
+    moderation.holdForReview(
+      target,
+      reason,
+      Date.parse(hiddenAt),
+      held === "new"
+    )
+  );
+
+// Comments shown under each post in the feed
+const COMMENT_PREVIEW_SIZE = 2;
+
+// Key for a like target - matches the viewer's liked targets to entities
+const likeKey = ({ postId, commentId, replyId }: LikeTarget) =>
+  [postId, commentId ?? "", replyId ?? ""].join("/");
+
+// Stamp timeAgo on a comment and its replies, relative to `now`
+const commentWithTimeAgo = (
+  comment: CommentType,
+  now: number,
+  format?: TimeAgoFormat
+): CommentType => ({
+  ...comment,
+  timeAgo: formatTimeAgo(Date.parse(comment.createdAt), now, format),
+  replies: comment.replies?.map((reply) =>
+    commentWithTimeAgo(reply, now, format)
+  ),
 });
 
-// Input schema for creating new posts
-const CreatePostSchema = z.object({
-  username: z.string().min(1, "Username is required"),
-  userAvatar: z.string().url("Must be a valid URL"),
-  image: z.string().url("Must be a valid image URL"),
-  caption: z.string().max(500, "Caption too long"),
+const withTimeAgo = (
+  post: Post,
+  now: number,
+  format?: TimeAgoFormat
+): Post => ({
+  ...post,
+  timeAgo: formatTimeAgo(Date.parse(post.createdAt), now, format),
+  comments: post.comments.map((comment) =>
+    commentWithTimeAgo(comment, now, format)
+  ),
 });
 
-// Input schema for creating new comments
-const CreateCommentSchema = z.object({
-  postId: z.string().min(1, "Post ID is required"),
-  username: z.string().min(1, "Username is required"),
-  userAvatar: z.string().url("Must be a valid URL"),
-  text: z
-    .string()
-    .min(1, "Comment text is required")
-    .max(300, "Comment too long"),
+// Leave out the comments and replies the viewer can't see
+const visibleReplies = (
+  replies: Array<CommentType> | undefined,
+  viewer: User | null
+): Array<CommentType> | undefined =>
+  replies
+    ?.filter((reply) => canSee(viewer, reply))
+    .map((reply) => ({
+      ...reply,
+      replies: visibleReplies(reply.replies, viewer),
+    }));
+
+const visibleTo = (post: Post, viewer: User | null): Post => ({
+  ...post,
+  comments: visibleReplies(post.comments, viewer) ?? [],
 });
 
-// Input schema for creating replies to comments
-const CreateReplySchema = z.object({
-  postId: z.string().min(1, "Post ID is required"),
-  commentId: z.string().min(1, "Comment ID is required"),
-  username: z.string().min(1, "Username is required"),
-  userAvatar: z.string().url("Must be a valid URL"),
-  text: z.string().min(1, "Reply text is required").max(300, "Reply too long"),
+// Everyone who wrote the posts, comments and replies
+const authorIdsIn = (
+  entities: ReadonlyArray<Post | CommentType>
+): Array<string> =>
+  entities.flatMap((entity) => [
+    ...(entity.userId ? [entity.userId] : []),
+    ...authorIdsIn(
+      "comments" in entity ? entity.comments : (entity.replies ?? [])
+    ),
+  ]);
+
+// Effect to look up the current username and avatar of some authors
+export const findAuthors = (userIds: ReadonlyArray<string>) =>
+  Effect.gen(function* () {
+    const ids = [...new Set(userIds)];
+    if (ids.length === 0) {
+      return new Map<string, User>();
+    }
+    const repo = yield* UsersRepository;
+    const users = yield* repo.findUsersByIds(ids);
+    return new Map(users.map((user) => [user.id, toPublicUser(user)]));
+  });
+
+// Show the author's current username and avatar instead of the copies
+// stored with the content. Content without an account keeps its copies.
+export const withAuthor = <
+  A extends { userId?: string; username: string; userAvatar: string },
+>(
+  entity: A,
+  authors: ReadonlyMap<string, User>
+): A => {
+  const author = entity.userId ? authors.get(entity.userId) : undefined;
+  return author
+    ? { ...entity, username: author.username, userAvatar: author.userAvatar }
+    : entity;
+};
+
+const commentsWithAuthors = (
+  comments: Array<CommentType>,
+  authors: ReadonlyMap<string, User>
+): Array<CommentType> =>
+  comments.map((comment) => ({
+    ...withAuthor(comment, authors),
+    replies: comment.replies && commentsWithAuthors(comment.replies, authors),
+  }));
+
+const postWithAuthors = (
+  post: Post,
+  authors: ReadonlyMap<string, User>
+): Post => ({
+  ...withAuthor(post, authors),
+  comments: commentsWithAuthors(post.comments, authors),
 });
 
-// Input schema for liking/unliking comments and replies
-const LikeCommentSchema = z.object({
-  postId: z.string(),
-  commentId: z.string(),
+// Effect to show comments and replies with their authors' current username
+// and avatar
+const withCurrentAuthors = (comments: Array<CommentType>) =>
+  Effect.map(findAuthors(authorIdsIn(comments)), (authors) =>
+    commentsWithAuthors(comments, authors)
+  );
+
+// Mark everything the viewer has liked within a post
+const repliesLikedByMe = (
+  replies: Array<CommentType> | undefined,
+  target: { postId: string; commentId: string },
+  liked: ReadonlySet<string>
+): Array<CommentType> | undefined =>
+  replies?.map((reply) => ({
+    ...reply,
+    likedByMe: liked.has(likeKey({ ...target, replyId: reply.id })),
+    replies: repliesLikedByMe(reply.replies, target, liked),
+  }));
+
+const withLikedByMe = (post: Post, liked: ReadonlySet<string>): Post => ({
+  ...post,
+  likedByMe: liked.has(likeKey({ postId: post.id })),
+  comments: post.comments.map((comment) => ({
+    ...comment,
+    likedByMe: liked.has(likeKey({ postId: post.id, commentId: comment.id })),
+    replies: repliesLikedByMe(
+      comment.replies,
+      { postId: post.id, commentId: comment.id },
+      liked
+    ),
+  })),
 });
 
-const LikeReplySchema = z.object({
-  postId: z.string(),
-  commentId: z.string(),
-  replyId: z.string(),
+// The parts of a post that subscribers patch into their copy
+const toPostUpdate = (post: Post): PostUpdate => ({
+  id: post.id,
+  caption: post.caption,
+  likes: post.likes,
+  totalCommentsCount: post.totalCommentsCount,
+  updatedAt: post.updatedAt,
+  editedAt: post.editedAt,
+  version: post.version,
 });
 
-// Simulated database using Effect
-// In a real app, this would be connected to a database
+// Business logic on top of PostsRepository.
+// Every effect requires the repository, which is provided per request.
 class PostsService {
-  private posts: Array<z.infer<typeof PostSchema>> = [
-    {
-      id: "1",
-      username: "david_tiw",
-      userAvatar:
-        "https://scontent.fkul3-4.fna.fbcdn.net/v/t1.6435-9/45609712_2187758491235852_6900831938550956032_n.jpg?_nc_cat=104&ccb=1-7&_nc_sid=a5f93a&_nc_ohc=NOORgK5j-S8Q7kNvwEYOll2&_nc_oc=AdleRVF2ey5BpbZOhYHqJavrM3S6S2apCnTLvMJ8RR3m_3dz_qUW9DVlpFY_uXHAIbSmTDjiOV5-hVlAZZWbI6dl&_nc_zt=23&_nc_ht=scontent.fkul3-4.fna&_nc_gid=1I7htGLHrX5-6LFgLZyI3A&oh=00_AfVLolz1iXJfv_N0y0gz4p5GedJveuESjqVkTHaIf0eJdg&oe=68B7C24A",
-      image:
-        "https://scontent.fkul3-4.fna.fbcdn.net/v/t39.30808-6/473620869_10170431578270424_6768865139126819584_n.jpg?_nc_cat=107&ccb=1-7&_nc_sid=aa7094&_nc_ohc=4bBjHnbfEd8Q7kNvwF1JEdH&_nc_oc=AdlJDzKs5xROd5YMrV8rq32rHfTkVj4qSYzmWG84s89rBr8moFX1lHPga6XOwW8GgNFR_ixKj3IOhZWCaMLTEwsz&_nc_zt=23&_nc_ht=scontent.fkul3-4.fna&_nc_gid=Vvb02BiLxodiVspMvUTkhw&oh=00_AfVXI929rBTlE9umHL7vBzGoFePT07CXBQQ0rX8i7pl8Rw&oe=689633BF",
-      caption: "This is David.",
-      likes: 42,
-      timeAgo: "2h",
-      comments: [
-        {
-          id: "c1",
-          username: "david_tiw",
-          userAvatar:
-            "https://scontent.fkul3-4.fna.fbcdn.net/v/t1.6435-9/45609712_2187758491235852_6900831938550956032_n.jpg?_nc_cat=104&ccb=1-7&_nc_sid=a5f93a&_nc_ohc=NOORgK5j-S8Q7kNvwEYOll2&_nc_oc=AdleRVF2ey5BpbZOhYHqJavrM3S6S2apCnTLvMJ8RR3m_3dz_qUW9DVlpFY_uXHAIbSmTDjiOV5-hVlAZZWbI6dl&_nc_zt=23&_nc_ht=scontent.fkul3-4.fna&_nc_gid=1I7htGLHrX5-6LFgLZyI3A&oh=00_AfVLolz1iXJfv_N0y0gz4p5GedJveuESjqVkTHaIf0eJdg&oe=68B7C24A",
-          text: "Amazing shot! David self comments because this is his own photo",
-          likes: 9,
-          timeAgo: "1h",
-          replies: [
-            {
-              id: "r1",
-              username: "isaactanlishung",
-              userAvatar:
-                "https://scontent.fkul3-3.fna.fbcdn.net/v/t39.30808-6/338412396_170251385889424_655098475624149023_n.jpg?_nc_cat=109&ccb=1-7&_nc_sid=6ee11a&_nc_ohc=6lz4jHLZW7gQ7kNvwFleYFq&_nc_oc=Adl8tm0GU7mUREsXhJ6nkmkFSwM8T2zwuxFWuHQ4-RAazFMIUBA1x0lsGqsuRddsIi7qK4hzitWavv5hmsSAHEd5&_nc_zt=23&_nc_ht=scontent.fkul3-3.fna&_nc_gid=h_KRfW7IzLScALguNDs2ww&oh=00_AfVZAkxvpDhH2f4a5DnCXeh6MrNZQlT56EiCzKiD-YV7UA&oe=68964130",
-              text: "Thanks! I used a FUJI mirrorless camera with a 24-70mm lens, like fr.",
-              likes: 3,
-              timeAgo: "45m",
-            },
-            {
-              id: "r2",
-              username: "david_tiw",
-              userAvatar:
-                "https://scontent.fkul3-4.fna.fbcdn.net/v/t1.6435-9/45609712_2187758491235852_6900831938550956032_n.jpg?_nc_cat=104&ccb=1-7&_nc_sid=a5f93a&_nc_ohc=NOORgK5j-S8Q7kNvwEYOll2&_nc_oc=AdleRVF2ey5BpbZOhYHqJavrM3S6S2apCnTLvMJ8RR3m_3dz_qUW9DVlpFY_uXHAIbSmTDjiOV5-hVlAZZWbI6dl&_nc_zt=23&_nc_ht=scontent.fkul3-4.fna&_nc_gid=1I7htGLHrX5-6LFgLZyI3A&oh=00_AfVLolz1iXJfv_N0y0gz4p5GedJveuESjqVkTHaIf0eJdg&oe=68B7C24A",
-              text: "Really do checkout his work. He's a good friend of mine who does UIUX design and photoshoots.",
-              likes: 2,
-              timeAgo: "30m",
-            },
-          ],
-        },
-        {
-          id: "c2",
-          username: "david_tiw",
-          userAvatar:
-            "https://scontent.fkul3-4.fna.fbcdn.net/v/t1.6435-9/45609712_2187758491235852_6900831938550956032_n.jpg?_nc_cat=104&ccb=1-7&_nc_sid=a5f93a&_nc_ohc=NOORgK5j-S8Q7kNvwEYOll2&_nc_oc=AdleRVF2ey5BpbZOhYHqJavrM3S6S2apCnTLvMJ8RR3m_3dz_qUW9DVlpFY_uXHAIbSmTDjiOV5-hVlAZZWbI6dl&_nc_zt=23&_nc_ht=scontent.fkul3-4.fna&_nc_gid=1I7htGLHrX5-6LFgLZyI3A&oh=00_AfVLolz1iXJfv_N0y0gz4p5GedJveuESjqVkTHaIf0eJdg&oe=68B7C24A",
-          text: "README.md. Jokes. Clearly impossible in 2 days. This is with the help of Cursor. And this takes at least 3 days.",
-          likes: 3,
-          timeAgo: "1h",
-          replies: [
-            {
-              id: "r1",
-              username: "david_tiw",
-              userAvatar:
-                "https://scontent.fkul3-4.fna.fbcdn.net/v/t1.6435-9/45609712_2187758491235852_6900831938550956032_n.jpg?_nc_cat=104&ccb=1-7&_nc_sid=a5f93a&_nc_ohc=NOORgK5j-S8Q7kNvwEYOll2&_nc_oc=AdleRVF2ey5BpbZOhYHqJavrM3S6S2apCnTLvMJ8RR3m_3dz_qUW9DVlpFY_uXHAIbSmTDjiOV5-hVlAZZWbI6dl&_nc_zt=23&_nc_ht=scontent.fkul3-4.fna&_nc_gid=1I7htGLHrX5-6LFgLZyI3A&oh=00_AfVLolz1iXJfv_N0y0gz4p5GedJveuESjqVkTHaIf0eJdg&oe=68B7C24A",
-              text: "Project setup: React, Hono, and Cloudflare.",
-              likes: 0,
-              timeAgo: "45m",
-            },
-            {
-              id: "r2",
-              username: "david_tiw",
-              userAvatar:
-                "https://scontent.fkul3-4.fna.fbcdn.net/v/t1.6435-9/45609712_2187758491235852_6900831938550956032_n.jpg?_nc_cat=104&ccb=1-7&_nc_sid=a5f93a&_nc_ohc=NOORgK5j-S8Q7kNvwEYOll2&_nc_oc=AdleRVF2ey5BpbZOhYHqJavrM3S6S2apCnTLvMJ8RR3m_3dz_qUW9DVlpFY_uXHAIbSmTDjiOV5-hVlAZZWbI6dl&_nc_zt=23&_nc_ht=scontent.fkul3-4.fna&_nc_gid=1I7htGLHrX5-6LFgLZyI3A&oh=00_AfVLolz1iXJfv_N0y0gz4p5GedJveuESjqVkTHaIf0eJdg&oe=68B7C24A",
-              text: "React: TS-Router, TS-Query, Zod, Zustand, shadcn/ui, twcss",
-              likes: 2,
-              timeAgo: "30m",
-            },
-            {
-              id: "r3",
-              username: "david_tiw",
-              userAvatar:
-                "https://scontent.fkul3-4.fna.fbcdn.net/v/t1.6435-9/45609712_2187758491235852_6900831938550956032_n.jpg?_nc_cat=104&ccb=1-7&_nc_sid=a5f93a&_nc_ohc=NOORgK5j-S8Q7kNvwEYOll2&_nc_oc=AdleRVF2ey5BpbZOhYHqJavrM3S6S2apCnTLvMJ8RR3m_3dz_qUW9DVlpFY_uXHAIbSmTDjiOV5-hVlAZZWbI6dl&_nc_zt=23&_nc_ht=scontent.fkul3-4.fna&_nc_gid=1I7htGLHrX5-6LFgLZyI3A&oh=00_AfVLolz1iXJfv_N0y0gz4p5GedJveuESjqVkTHaIf0eJdg&oe=68B7C24A",
-              text: "Hono: Effect, Zod, Hono, hono/trpc",
-              likes: 2,
-              timeAgo: "30m",
-            },
-            {
-              id: "r3",
-              username: "david_tiw",
-              userAvatar:
-                "https://scontent.fkul3-4.fna.fbcdn.net/v/t1.6435-9/45609712_2187758491235852_6900831938550956032_n.jpg?_nc_cat=104&ccb=1-7&_nc_sid=a5f93a&_nc_ohc=NOORgK5j-S8Q7kNvwEYOll2&_nc_oc=AdleRVF2ey5BpbZOhYHqJavrM3S6S2apCnTLvMJ8RR3m_3dz_qUW9DVlpFY_uXHAIbSmTDjiOV5-hVlAZZWbI6dl&_nc_zt=23&_nc_ht=scontent.fkul3-4.fna&_nc_gid=1I7htGLHrX5-6LFgLZyI3A&oh=00_AfVLolz1iXJfv_N0y0gz4p5GedJveuESjqVkTHaIf0eJdg&oe=68B7C24A",
-              text: "I've been wanting to learn on TS-Query, TS-Router, Effect and trpc for some time and I make use of this oppurtunity to learn the usage and how it scales applications and developments.",
-              likes: 2,
-              timeAgo: "30m",
-            },
-          ],
-        },
-        {
-          id: "c3",
-          username: "david_tiw",
-          userAvatar:
-            "https://scontent.fkul3-4.fna.fbcdn.net/v/t1.6435-9/45609712_2187758491235852_6900831938550956032_n.jpg?_nc_cat=104&ccb=1-7&_nc_sid=a5f93a&_nc_ohc=NOORgK5j-S8Q7kNvwEYOll2&_nc_oc=AdleRVF2ey5BpbZOhYHqJavrM3S6S2apCnTLvMJ8RR3m_3dz_qUW9DVlpFY_uXHAIbSmTDjiOV5-hVlAZZWbI6dl&_nc_zt=23&_nc_ht=scontent.fkul3-4.fna&_nc_gid=1I7htGLHrX5-6LFgLZyI3A&oh=00_AfVLolz1iXJfv_N0y0gz4p5GedJveuESjqVkTHaIf0eJdg&oe=68B7C24A",
-          text: "HOW2USE.md",
-          likes: 5,
-          timeAgo: "1h",
-          replies: [
-            {
-              id: "r1",
-              username: "david_tiw",
-              userAvatar:
-                "https://scontent.fkul3-4.fna.fbcdn.net/v/t1.6435-9/45609712_2187758491235852_6900831938550956032_n.jpg?_nc_cat=104&ccb=1-7&_nc_sid=a5f93a&_nc_ohc=NOORgK5j-S8Q7kNvwEYOll2&_nc_oc=AdleRVF2ey5BpbZOhYHqJavrM3S6S2apCnTLvMJ8RR3m_3dz_qUW9DVlpFY_uXHAIbSmTDjiOV5-hVlAZZWbI6dl&_nc_zt=23&_nc_ht=scontent.fkul3-4.fna&_nc_gid=1I7htGLHrX5-6LFgLZyI3A&oh=00_AfVLolz1iXJfv_N0y0gz4p5GedJveuESjqVkTHaIf0eJdg&oe=68B7C24A",
-              text: `Top Right, "+" for URL upload and Caption`,
-              likes: 3,
-              timeAgo: "45m",
-            },
-            {
-              id: "r2",
-              username: "david_tiw",
-              userAvatar:
-                "https://scontent.fkul3-4.fna.fbcdn.net/v/t1.6435-9/45609712_2187758491235852_6900831938550956032_n.jpg?_nc_cat=104&ccb=1-7&_nc_sid=a5f93a&_nc_ohc=NOORgK5j-S8Q7kNvwEYOll2&_nc_oc=AdleRVF2ey5BpbZOhYHqJavrM3S6S2apCnTLvMJ8RR3m_3dz_qUW9DVlpFY_uXHAIbSmTDjiOV5-hVlAZZWbI6dl&_nc_zt=23&_nc_ht=scontent.fkul3-4.fna&_nc_gid=1I7htGLHrX5-6LFgLZyI3A&oh=00_AfVLolz1iXJfv_N0y0gz4p5GedJveuESjqVkTHaIf0eJdg&oe=68B7C24A",
-              text: "Double Tap for like on posts. Single Tap on hearts for comments/reply.",
-              likes: 2,
-              timeAgo: "30m",
-            },
-            {
-              id: "r3",
-              username: "david_tiw",
-              userAvatar:
-                "https://scontent.fkul3-4.fna.fbcdn.net/v/t1.6435-9/45609712_2187758491235852_6900831938550956032_n.jpg?_nc_cat=104&ccb=1-7&_nc_sid=a5f93a&_nc_ohc=NOORgK5j-S8Q7kNvwEYOll2&_nc_oc=AdleRVF2ey5BpbZOhYHqJavrM3S6S2apCnTLvMJ8RR3m_3dz_qUW9DVlpFY_uXHAIbSmTDjiOV5-hVlAZZWbI6dl&_nc_zt=23&_nc_ht=scontent.fkul3-4.fna&_nc_gid=1I7htGLHrX5-6LFgLZyI3A&oh=00_AfVLolz1iXJfv_N0y0gz4p5GedJveuESjqVkTHaIf0eJdg&oe=68B7C24A",
-              text: "Click reply on comments/reply to @ the person and be added on top the you wanna reply.",
-              likes: 2,
-              timeAgo: "30m",
-            },
-            {
-              id: "r4",
-              username: "david_tiw",
-              userAvatar:
-                "https://scontent.fkul3-4.fna.fbcdn.net/v/t1.6435-9/45609712_2187758491235852_6900831938550956032_n.jpg?_nc_cat=104&ccb=1-7&_nc_sid=a5f93a&_nc_ohc=NOORgK5j-S8Q7kNvwEYOll2&_nc_oc=AdleRVF2ey5BpbZOhYHqJavrM3S6S2apCnTLvMJ8RR3m_3dz_qUW9DVlpFY_uXHAIbSmTDjiOV5-hVlAZZWbI6dl&_nc_zt=23&_nc_ht=scontent.fkul3-4.fna&_nc_gid=1I7htGLHrX5-6LFgLZyI3A&oh=00_AfVLolz1iXJfv_N0y0gz4p5GedJveuESjqVkTHaIf0eJdg&oe=68B7C24A",
-              text: "That's it.",
-              likes: 2,
-              timeAgo: "30m",
-            },
-          ],
-        },
-        {
-          id: "c4",
-          username: "david_tiw",
-          userAvatar:
-            "https://scontent.fkul3-4.fna.fbcdn.net/v/t1.6435-9/45609712_2187758491235852_6900831938550956032_n.jpg?_nc_cat=104&ccb=1-7&_nc_sid=a5f93a&_nc_ohc=NOORgK5j-S8Q7kNvwEYOll2&_nc_oc=AdleRVF2ey5BpbZOhYHqJavrM3S6S2apCnTLvMJ8RR3m_3dz_qUW9DVlpFY_uXHAIbSmTDjiOV5-hVlAZZWbI6dl&_nc_zt=23&_nc_ht=scontent.fkul3-4.fna&_nc_gid=1I7htGLHrX5-6LFgLZyI3A&oh=00_AfVLolz1iXJfv_N0y0gz4p5GedJveuESjqVkTHaIf0eJdg&oe=68B7C24A",
-          text: "WHY & HOW.md",
-          likes: 8,
-          timeAgo: "1h",
-          replies: [
-            {
-              id: "r1",
-              username: "david_tiw",
-              userAvatar:
-                "https://scontent.fkul3-4.fna.fbcdn.net/v/t1.6435-9/45609712_2187758491235852_6900831938550956032_n.jpg?_nc_cat=104&ccb=1-7&_nc_sid=a5f93a&_nc_ohc=NOORgK5j-S8Q7kNvwEYOll2&_nc_oc=AdleRVF2ey5BpbZOhYHqJavrM3S6S2apCnTLvMJ8RR3m_3dz_qUW9DVlpFY_uXHAIbSmTDjiOV5-hVlAZZWbI6dl&_nc_zt=23&_nc_ht=scontent.fkul3-4.fna&_nc_gid=1I7htGLHrX5-6LFgLZyI3A&oh=00_AfVLolz1iXJfv_N0y0gz4p5GedJveuESjqVkTHaIf0eJdg&oe=68B7C24A",
-              text: `FE Architecture : TS-Query, TS-Router because of caching, error handling and file-based routing like Next.js. 
-              But not NextJS, WHY? because there is no granular control like in React than in NextJS. 
-              Zod for type safety. TRPC because I want to attempt to use trpc.post.like/comment but was unable to do so and simplify the DevEx on the FE, but end up API calling instead. I wanted to connect to server and use whatever functions that were able to be done through trpc.`,
-              likes: 3,
-              timeAgo: "45m",
-            },
-            {
-              id: "r2",
-              username: "david_tiw",
-              userAvatar:
-                "https://scontent.fkul3-4.fna.fbcdn.net/v/t1.6435-9/45609712_2187758491235852_6900831938550956032_n.jpg?_nc_cat=104&ccb=1-7&_nc_sid=a5f93a&_nc_ohc=NOORgK5j-S8Q7kNvwEYOll2&_nc_oc=AdleRVF2ey5BpbZOhYHqJavrM3S6S2apCnTLvMJ8RR3m_3dz_qUW9DVlpFY_uXHAIbSmTDjiOV5-hVlAZZWbI6dl&_nc_zt=23&_nc_ht=scontent.fkul3-4.fna&_nc_gid=1I7htGLHrX5-6LFgLZyI3A&oh=00_AfVLolz1iXJfv_N0y0gz4p5GedJveuESjqVkTHaIf0eJdg&oe=68B7C24A",
-              text: `FE Component Control: Routes, Components and Zustand (Store). 
-            It should only be as complicated as this could be. 
-
-            On the Route, the fetching of data should be done in the route-based components, and the components should be able to handle the data.
-            Instead of creating another folder for api_call, it creates complication and referencing which will get confusing dev/debugging/maintenance.
-            
-            The <Comment />  are nested in <CommentDrawer/> because there are multiple comments. 
-            Zustand is used to manage the state for @reply and comment incase of user interactivity. 
-
-            The same goes for <Post /> and <Feed /> as <Feed/> is the main feature on the page, and there will be multiple posts.
-            To manage it on a person's feed, there might have different arrange of the <Post />, and the <Feed /> should be able to handle it; 
-            because JS dev fav fx is .map() and ?.
-
-            To structure it better, within compoonents should have a route-based components, and emphasize on the route-based components.`,
-              likes: 2,
-              timeAgo: "30m",
-            },
-            {
-              id: "r3",
-              username: "david_tiw",
-              userAvatar:
-                "https://scontent.fkul3-4.fna.fbcdn.net/v/t1.6435-9/45609712_2187758491235852_6900831938550956032_n.jpg?_nc_cat=104&ccb=1-7&_nc_sid=a5f93a&_nc_ohc=NOORgK5j-S8Q7kNvwEYOll2&_nc_oc=AdleRVF2ey5BpbZOhYHqJavrM3S6S2apCnTLvMJ8RR3m_3dz_qUW9DVlpFY_uXHAIbSmTDjiOV5-hVlAZZWbI6dl&_nc_zt=23&_nc_ht=scontent.fkul3-4.fna&_nc_gid=1I7htGLHrX5-6LFgLZyI3A&oh=00_AfVLolz1iXJfv_N0y0gz4p5GedJveuESjqVkTHaIf0eJdg&oe=68B7C24A",
-              text: `BE Architecture: Effect, trpc, zod, HonoJS.
-              I chose Effect because its FP, and I wanted to try it out due to its granular control over failure cases, testability, maintainability. 
-              When code is written in Effect, the immutability is enforced. There won't be any weird bugs that are hard to debug during production and testing,
-              where I myself struggle to write OOP based code, I understand the concept of OOP, but when it gets too nested it simply becomes too hard to debug.
-              where as in FP the code is straight forward, with correct naming, the logging, debugging, and testing is clearer.
-              
-              I went with trpc instead of API due to its simplicity on the frontend to connect to the db. 
-              Something like supabase was able to deliver, but apparent the cases of trpc usage if better on mono-repo where this FE-BE relationship doesn't work for Type-Safe dev.
-              
-              HonoJS because it's a lightweight/clean framework writing style that is easy to understand, use and deploy on CF 
-              without the maintenance of containers, etc to scale the application thus the preference to CF. 
-              `,
-              likes: 2,
-              timeAgo: "30m",
-            },
-            {
-              id: "r4",
-              username: "david_tiw",
-              userAvatar:
-                "https://scontent.fkul3-4.fna.fbcdn.net/v/t1.6435-9/45609712_2187758491235852_6900831938550956032_n.jpg?_nc_cat=104&ccb=1-7&_nc_sid=a5f93a&_nc_ohc=NOORgK5j-S8Q7kNvwEYOll2&_nc_oc=AdleRVF2ey5BpbZOhYHqJavrM3S6S2apCnTLvMJ8RR3m_3dz_qUW9DVlpFY_uXHAIbSmTDjiOV5-hVlAZZWbI6dl&_nc_zt=23&_nc_ht=scontent.fkul3-4.fna&_nc_gid=1I7htGLHrX5-6LFgLZyI3A&oh=00_AfVLolz1iXJfv_N0y0gz4p5GedJveuESjqVkTHaIf0eJdg&oe=68B7C24A",
-              text: "That's it.",
-              likes: 2,
-              timeAgo: "30m",
-            },
-          ],
-        },
-      ],
-      totalCommentsCount: 2,
-    },
-    {
-      id: "2",
-      username: "dtiw.xyz",
-      userAvatar:
-        "https://scontent.fkul3-5.fna.fbcdn.net/v/t1.6435-9/41673054_2112990445379324_408678009504006144_n.jpg?_nc_cat=100&ccb=1-7&_nc_sid=a5f93a&_nc_ohc=YiWQVm7ffDkQ7kNvwE4nD4e&_nc_oc=AdkiukJkUdJJccnEzAjhHEbMJVkC-SP-xiucwENsrb8FGNcj80ybYDqQaCQWtYi7L3QHs1-HnCaFlzpfY8ikP7hZ&_nc_zt=23&_nc_ht=scontent.fkul3-5.fna&_nc_gid=qD5sW5hXOlrm-B3Bnnh0KQ&oh=00_AfXKNCIVOqg8cO5PcD7Tkse106rlilyuwEBtwNlPKLhl5A&oe=68B7EF5F",
-      image:
-        "https://scontent.fkul3-5.fna.fbcdn.net/v/t1.6435-9/41673054_2112990445379324_408678009504006144_n.jpg?_nc_cat=100&ccb=1-7&_nc_sid=a5f93a&_nc_ohc=YiWQVm7ffDkQ7kNvwE4nD4e&_nc_oc=AdkiukJkUdJJccnEzAjhHEbMJVkC-SP-xiucwENsrb8FGNcj80ybYDqQaCQWtYi7L3QHs1-HnCaFlzpfY8ikP7hZ&_nc_zt=23&_nc_ht=scontent.fkul3-5.fna&_nc_gid=qD5sW5hXOlrm-B3Bnnh0KQ&oh=00_AfXKNCIVOqg8cO5PcD7Tkse106rlilyuwEBtwNlPKLhl5A&oe=68B7EF5F",
-      caption:
-        "A cooler David. Software Engineer - for outdated portfolio go to dtiw.xyz",
-      likes: 28,
-      timeAgo: "4h",
-      comments: [
-        {
-          id: "c1",
-          username: "david_tiw",
-          userAvatar:
-            "https://scontent.fkul3-4.fna.fbcdn.net/v/t1.6435-9/45609712_2187758491235852_6900831938550956032_n.jpg?_nc_cat=104&ccb=1-7&_nc_sid=a5f93a&_nc_ohc=NOORgK5j-S8Q7kNvwEYOll2&_nc_oc=AdleRVF2ey5BpbZOhYHqJavrM3S6S2apCnTLvMJ8RR3m_3dz_qUW9DVlpFY_uXHAIbSmTDjiOV5-hVlAZZWbI6dl&_nc_zt=23&_nc_ht=scontent.fkul3-4.fna&_nc_gid=1I7htGLHrX5-6LFgLZyI3A&oh=00_AfVLolz1iXJfv_N0y0gz4p5GedJveuESjqVkTHaIf0eJdg&oe=68B7C24A",
-          text: "PERSONALITY.md",
-          likes: 5,
-          timeAgo: "1h",
-          replies: [
-            {
-              id: "r1",
-              username: "dtiw.xyz",
-              userAvatar:
-                "https://scontent.fkul3-4.fna.fbcdn.net/v/t1.6435-9/45609712_2187758491235852_6900831938550956032_n.jpg?_nc_cat=104&ccb=1-7&_nc_sid=a5f93a&_nc_ohc=NOORgK5j-S8Q7kNvwEYOll2&_nc_oc=AdleRVF2ey5BpbZOhYHqJavrM3S6S2apCnTLvMJ8RR3m_3dz_qUW9DVlpFY_uXHAIbSmTDjiOV5-hVlAZZWbI6dl&_nc_zt=23&_nc_ht=scontent.fkul3-4.fna&_nc_gid=1I7htGLHrX5-6LFgLZyI3A&oh=00_AfVLolz1iXJfv_N0y0gz4p5GedJveuESjqVkTHaIf0eJdg&oe=68B7C24A",
-              text: `
-              INTJ. Type 1w2.
-              A bit try-hard. So I seriously taking my seriousness more lightly. 
-              I'm straight forward, because I prefer truth and understanding. 
-              It is not an OR statement, because w/o truth and understanding, 
-              there will be a picture/impression I paint without going through the struggles of knowing someone.
-              `,
-              likes: 3,
-              timeAgo: "45m",
-            },
-            {
-              id: "r2",
-              username: "david_tiw",
-              userAvatar:
-                "https://scontent.fkul3-4.fna.fbcdn.net/v/t1.6435-9/45609712_2187758491235852_6900831938550956032_n.jpg?_nc_cat=104&ccb=1-7&_nc_sid=a5f93a&_nc_ohc=NOORgK5j-S8Q7kNvwEYOll2&_nc_oc=AdleRVF2ey5BpbZOhYHqJavrM3S6S2apCnTLvMJ8RR3m_3dz_qUW9DVlpFY_uXHAIbSmTDjiOV5-hVlAZZWbI6dl&_nc_zt=23&_nc_ht=scontent.fkul3-4.fna&_nc_gid=1I7htGLHrX5-6LFgLZyI3A&oh=00_AfVLolz1iXJfv_N0y0gz4p5GedJveuESjqVkTHaIf0eJdg&oe=68B7C24A",
-              text: `At WORK I have a routine/ritual in the AM.
-              I will start the work by writing out the tasks for the day, and focus on it. 
-              Then I will work on the heaviest tasks for the day. Followed by the lighter tasks.
-
-              In the morning, I will have a clearer mind, and I will be more focused on the tasks.
-              I will also be more productive, disciplined, creative, and I will be more efficient, innovative, and consistent.
-
-              If disrupted sometimes, I will be pretty moody for the rest of the day.
-              `,
-              likes: 2,
-              timeAgo: "30m",
-            },
-            {
-              id: "r3",
-              username: "david_tiw",
-              userAvatar:
-                "https://scontent.fkul3-4.fna.fbcdn.net/v/t1.6435-9/45609712_2187758491235852_6900831938550956032_n.jpg?_nc_cat=104&ccb=1-7&_nc_sid=a5f93a&_nc_ohc=NOORgK5j-S8Q7kNvwEYOll2&_nc_oc=AdleRVF2ey5BpbZOhYHqJavrM3S6S2apCnTLvMJ8RR3m_3dz_qUW9DVlpFY_uXHAIbSmTDjiOV5-hVlAZZWbI6dl&_nc_zt=23&_nc_ht=scontent.fkul3-4.fna&_nc_gid=1I7htGLHrX5-6LFgLZyI3A&oh=00_AfVLolz1iXJfv_N0y0gz4p5GedJveuESjqVkTHaIf0eJdg&oe=68B7C24A",
-              text: `MAX Social hr / day : 2 hours.
-              pushing it = burnout + social mode for days.
-              `,
-              likes: 2,
-              timeAgo: "30m",
-            },
-          ],
-        },
+  // Effect to collect what the viewer liked within some posts (nobody = nothing)
+  private likedKeysFor = (
+    viewer: User | null,
+    postIds: ReadonlyArray<string>
+  ) =>
+    Effect.gen(function* () {
+      if (!viewer) {
+        return new Set<string>();
+      }
+      const repo = yield* PostsRepository;
+      const liked = yield* repo.findLikedTargets(viewer.id, postIds);
+      return new Set(liked.map(likeKey));
+    });
+
+  // Effect to collect which of some posts the viewer saved
+  private savedIdsFor = (viewer: User | null, postIds: ReadonlyArray<string>) =>
+    Effect.gen(function* () {
+      if (!viewer) {
+        return new Set<string>();
+      }
+      const repo = yield* SavedPostsRepository;
+      return new Set(yield* repo.findSavedPostIds(viewer.id, postIds));
+    });
+
+  // Effect to fill in likedByMe, savedByMe and timeAgo for whoever is
+  // looking, leaving out hidden comments and replies. Authors show with
+  // their current username and avatar.
+  private forViewer = (
+    posts: Array<Post>,
+    viewer: User | null,
+    format?: TimeAgoFormat
+  ) =>
+    Effect.gen(this, function* () {
+      const postIds = posts.map((post) => post.id);
+      const likedKeys = yield* this.likedKeysFor(viewer, postIds);
+      const savedIds = yield* this.savedIdsFor(viewer, postIds);
+      const authors = yield* findAuthors(authorIdsIn(posts));
+      const now = yield* Clock.currentTimeMillis;
+      return posts.map((post) =>
+        withTimeAgo(
+          {
+            ...postWithAuthors(
+              withLikedByMe(visibleTo(post, viewer), likedKeys),
+              authors
+            ),
+            savedByMe: savedIds.has(post.id),
+          },
+          now,
+          format
+        )
+      );
+    });
+
+  // Effect to tell a post's subscribers about its new counts or caption.
+  // Nothing goes out while the post is hidden - it may have subscribers
+  // from before that can't see it now.
+  private publishPostUpdate = (post: Post) =>
+    post.hiddenAt
+      ? Effect.void
+      : Effect.flatMap(PostEvents, (events) =>
+          events.publish(postChannel(post.id), {
+            type: "postUpdated",
+            post: toPostUpdate(post),
+          })
+        );
+
+  // Effect to tell a post's subscribers about a comment or reply that's
+  // just become visible, and the post's new counts. Like publishPostUpdate,
+  // nothing goes out while the post is hidden.
+  private announceComment = (
+    post: Post,
+    comment: CommentType,
+    parentCommentId?: string
+  ) =>
+    Effect.gen(this, function* () {
+      if (!post.hiddenAt) {
+        const events = yield* PostEvents;
+        yield* events.publish(postChannel(post.id), {
+          type: "newComment",
+          postId: post.id,
+          parentCommentId,
+          comment,
+        });
+      }
+      yield* this.publishPostUpdate(post);
+    });
+
+  // Effect to send out what held content skipped, once a moderator has
+  // approved it. Content held as it was first posted (`unannounced`) gets
+  // everything that's sent for new content: the feed event for a post, the
+  // notification and newComment event for a comment or reply. Otherwise
+  // only a post's held caption edit is left to go out.
+  announceApproved = (target: LikeTarget, unannounced: boolean) =>
+    Effect.gen(this, function* () {
+      const post = visibleTo(yield* this.loadPost(target.postId), null);
+      if (!target.commentId) {
+        if (unannounced) {
+          const events = yield* PostEvents;
+          yield* events.publish(FEED_CHANNEL, { type: "newPost", post });
+        } else {
+          yield* this.publishPostUpdate(post);
+        }
+      } else if (!unannounced) {
+        return;
+      } else if (target.replyId) {
+        const { comment, reply } = yield* findReply(
+          post,
+          target.replyId,
+          target.commentId
+        );
+        const answered =
+          !reply.parentId || reply.parentId === comment.id
+            ? comment
+            : (yield* findReply(post, reply.parentId, comment.id)).reply;
+        if (reply.userId) {
+          yield* notifyAuthor(
+            { id: reply.userId },
+            answered.userId,
+            "reply",
+            answered === comment
+              ? { postId: post.id, commentId: comment.id }
+              : { postId: post.id, commentId: comment.id, replyId: answered.id }
+          );
+        }
+        yield* this.announceComment(post, reply, reply.parentId ?? comment.id);
+      } else if (target.commentId) {
+        const comment = yield* findComment(post, target.commentId);
+        if (comment.userId) {
+          yield* notifyAuthor({ id: comment.userId }, post.userId, "comment", {
+            postId: post.id,
+          });
+        }
+        yield* this.announceComment(post, comment);
+      }
+    });
+
+  // Effect to load one page of posts, newest first, for whoever is looking
+  private pageOfPosts = (
+    viewer: User | null,
+    query: Omit<PostsQuery, "commentPreview">,
+    format: TimeAgoFormat
+  ) =>
+    Effect.gen(this, function* () {
+      const repo = yield* PostsRepository;
+      const posts = yield* repo.listPosts({
+        ...query,
+        audience: audienceOf(viewer),
+        limit: query.limit + 1,
+        commentPreview: COMMENT_PREVIEW_SIZE,
+      });
+      const page = toPage(posts, query.limit, (post) => ({
+        key: Date.parse(post.createdAt),
+        id: post.id,
+      }));
+      return {
+        ...page,
+        items: yield* this.forViewer(page.items, viewer, format),
+      };
+    });
+
+  // Effect to get one page of the feed, newest first
+  getPosts = (viewer: User | null, input: z.infer<typeof GetPostsSchema>) =>
+    this.pageOfPosts(
+      viewer,
+      {
+        author: input.author,
+        since: input.since ? Date.parse(input.since) : undefined,
+        cursor: input.cursor,
+        limit: input.limit,
+      },
+      input
+    );
+
+  // Effect to get one page of the viewer's home feed: their own posts and
+  // those of everyone they follow, newest first
+  getHomeFeed = (viewer: User, input: z.infer<typeof GetHomeFeedSchema>) =>
+    Effect.gen(this, function* () {
+      const usersRepo = yield* UsersRepository;
+      const following = yield* usersRepo.findFollowingIds(viewer.id);
+      return yield* this.pageOfPosts(
+        viewer,
         {
-          id: "c1",
-          username: "david_tiw",
-          userAvatar:
-            "https://scontent.fkul3-4.fna.fbcdn.net/v/t1.6435-9/45609712_2187758491235852_6900831938550956032_n.jpg?_nc_cat=104&ccb=1-7&_nc_sid=a5f93a&_nc_ohc=NOORgK5j-S8Q7kNvwEYOll2&_nc_oc=AdleRVF2ey5BpbZOhYHqJavrM3S6S2apCnTLvMJ8RR3m_3dz_qUW9DVlpFY_uXHAIbSmTDjiOV5-hVlAZZWbI6dl&_nc_zt=23&_nc_ht=scontent.fkul3-4.fna&_nc_gid=1I7htGLHrX5-6LFgLZyI3A&oh=00_AfVLolz1iXJfv_N0y0gz4p5GedJveuESjqVkTHaIf0eJdg&oe=68B7C24A",
-          text: "HOBBY.md",
-          likes: 5,
-          timeAgo: "1h",
-          replies: [
-            {
-              id: "r1",
-              username: "dtiw.xyz",
-              userAvatar:
-                "https://scontent.fkul3-4.fna.fbcdn.net/v/t1.6435-9/45609712_2187758491235852_6900831938550956032_n.jpg?_nc_cat=104&ccb=1-7&_nc_sid=a5f93a&_nc_ohc=NOORgK5j-S8Q7kNvwEYOll2&_nc_oc=AdleRVF2ey5BpbZOhYHqJavrM3S6S2apCnTLvMJ8RR3m_3dz_qUW9DVlpFY_uXHAIbSmTDjiOV5-hVlAZZWbI6dl&_nc_zt=23&_nc_ht=scontent.fkul3-4.fna&_nc_gid=1I7htGLHrX5-6LFgLZyI3A&oh=00_AfVLolz1iXJfv_N0y0gz4p5GedJveuESjqVkTHaIf0eJdg&oe=68B7C24A",
-              text: `
-              F1.
-              Go-kart 
-              Sleep. 
-              Read. (but I stopped).
-              ChatGPT. 
-              Claude.
-              `,
-              likes: 3,
-              timeAgo: "45m",
-            },
-          ],
+          authorIds: [viewer.id, ...following],
+          cursor: input.cursor,
+          limit: input.limit,
         },
-      ],
-      totalCommentsCount: 0,
-    },
-  ];
-
-  // Effect to get all posts
-  getAllPosts = Effect.succeed(this.posts);
-
-  // Effect to create a new post
-  createPost = (input: z.infer<typeof CreatePostSchema>) =>
-    Effect.sync(() => {
-      const newPost: z.infer<typeof PostSchema> = {
-        id: Date.now().toString(), // Simple ID generation
-        ...input,
+        input
+      );
+    });
+
+  // Effect to load posts by ID, in that order, for whoever is looking.
+  // Posts that no longer exist (or are hidden from the viewer) are skipped.
+  findPostsByIds = (
+    ids: ReadonlyArray<string>,
+    viewer: User | null,
+    format: TimeAgoFormat
+  ) =>
+    Effect.gen(this, function* () {
+      const repo = yield* PostsRepository;
+      const posts = ids.length
+        ? yield* repo.listPosts({
+            ids,
+            audience: audienceOf(viewer),
+            limit: ids.length,
+            commentPreview: COMMENT_PREVIEW_SIZE,
+          })
+        : [];
+      const byId = new Map(posts.map((post) => [post.id, post]));
+      return yield* this.forViewer(
+        ids.flatMap((id) => byId.get(id) ?? []),
+        viewer,
+        format
+      );
+    });
+
+  // Effect to get one page of the posts tagged with a hashtag, newest first
+  getPostsByHashtag = (
+    viewer: User | null,
+    input: z.infer<typeof GetPostsByHashtagSchema>
+  ) =>
+    this.pageOfPosts(
+      viewer,
+      { hashtag: input.tag, cursor: input.cursor, limit: input.limit },
+      input
+    );
+
+  // Effect to get one page of someone's posts, newest first - the grid on
+  // their profile
+  getPostsByAuthor = (
+    viewer: User | null,
+    authorId: string,
+    input: z.infer<typeof GetUserPostsSchema>
+  ) =>
+    this.pageOfPosts(
+      viewer,
+      { authorIds: [authorId], cursor: input.cursor, limit: input.limit },
+      input
+    );
+
+  // Effect to create a new post from uploaded images, in carousel order
+  createPost = (
+    author: User,
+    input: z.infer<typeof CreatePostSchema>,
+    origin: string
+  ) =>
+    Effect.gen(function* () {
+      const repo = yield* PostsRepository;
+      const events = yield* PostEvents;
+      const heldFor = yield* screenText("caption", input.caption);
+      const media = yield* resolveMedia(author, input.media, origin);
+
+      const now = yield* Clock.currentTimeMillis;
+      const newPost: Post = {
+        id: yield* nextId,
+        userId: author.id,
+        username: author.username,
+        userAvatar: author.userAvatar,
+        image: media[0].url,
+        media,
+        caption: input.caption,
+        entities: yield* resolveEntities(input.caption),
         likes: 0,
-        timeAgo: "now",
+        createdAt: new Date(now).toISOString(),
+        updatedAt: new Date(now).toISOString(),
+        version: 1,
+        hiddenAt: heldFor ? new Date(now).toISOString() : undefined,
         comments: [],
         totalCommentsCount: 0,
       };
-      this.posts.unshift(newPost); // Add to beginning of array
-      return newPost;
+      yield* repo.insertPost(newPost);
+      if (heldFor) {
+        yield* holdForReview(
+          { postId: newPost.id },
+          heldFor,
+          newPost.createdAt,
+          "new"
+        );
+      } else {
+        yield* events.publish(FEED_CHANNEL, { type: "newPost", post: newPost });
+      }
+      return {
+        ...withTimeAgo(newPost, now),
+        likedByMe: false,
+        savedByMe: false,
+      };
     });
 
-  // Effect to find a post by ID
-  findPostById = (id: string) =>
-    Effect.sync(() =>
-      Array.findFirst(this.posts, (post) => post.id === id)
-    ).pipe(
+  // Effect to load a post as stored, without viewer data
+  private loadPost = (id: string) =>
+    Effect.flatMap(PostsRepository, (repo) => repo.findPost(id)).pipe(
       Effect.flatMap((option) =>
         Option.isSome(option)
           ? Effect.succeed(option.value)
-          : Effect.fail(new Error(`Post with id ${id} not found`))
+          : Effect.fail(new PostNotFound({ postId: id }))
       )
     );
 
-  // Effect to increment likes for a post
-  incrementLikes = (id: string) =>
-    Effect.sync(() => {
-      const postIndex = this.posts.findIndex((post) => post.id === id);
-      if (postIndex === -1) {
-        throw new Error(`Post with id ${id} not found`);
-      }
-
-      // Increment likes count
-      this.posts[postIndex].likes += 1;
-      return this.posts[postIndex];
-    });
-
-  // Effect to decrement likes for a post
-  decrementLikes = (id: string) =>
-    Effect.sync(() => {
-      const postIndex = this.posts.findIndex((post) => post.id === id);
-      if (postIndex === -1) {
-        throw new Error(`Post with id ${id} not found`);
-      }
+  // Effect to load a post as stored, unless it's hidden from the viewer
+  // or its author's account is private to them
+  loadVisiblePost = (id: string, viewer: User | null) =>
+    this.loadPost(id).pipe(
+      Effect.filterEffectOrFail({
+        predicate: (post) => canSeePost(viewer, post),
+        orFailWith: () => new PostNotFound({ postId: id }),
+      })
+    );
 
-      // Decrement likes count
-      this.posts[postIndex].likes -= 1;
-      return this.posts[postIndex];
-    });
+  // Effect to find a post by ID
+  findPostById = (id: string, viewer: User | null, format?: TimeAgoFormat) =>
+    this.loadVisiblePost(id, viewer).pipe(
+      Effect.flatMap((post) => this.forViewer([post], viewer, format)),
+      Effect.map(([post]) => post)
+    );
 
   // Effect to add a comment to a post
-  addComment = (input: z.infer<typeof CreateCommentSchema>) =>
-    Effect.sync(() => {
-      const postIndex = this.posts.findIndex(
-        (post) => post.id === input.postId
-      );
-      if (postIndex === -1) {
-        throw new Error(`Post with id ${input.postId} not found`);
-      }
+  addComment = (author: User, input: z.infer<typeof CreateCommentSchema>) =>
+    Effect.gen(this, function* () {
+      const repo = yield* PostsRepository;
+      const post = yield* this.loadVisiblePost(input.postId, author);
+      const heldFor = yield* screenText("text", input.text);
 
+      const now = yield* Clock.currentTimeMillis;
       const newComment: CommentType = {
-        id: `c_${Date.now()}`, // Generate unique comment ID
-        username: input.username,
-        userAvatar: input.userAvatar,
+        id: yield* nextId,
+        userId: author.id,
+        username: author.username,
+        userAvatar: author.userAvatar,
         text: input.text,
+        entities: yield* resolveEntities(input.text),
         likes: 0,
-        timeAgo: "now",
+        createdAt: new Date(now).toISOString(),
+        updatedAt: new Date(now).toISOString(),
+        version: 1,
+        hiddenAt: heldFor ? new Date(now).toISOString() : undefined,
+        replyCount: 0,
         replies: [],
       };
 
       // Add comment to post
-      this.posts[postIndex].comments.push(newComment);
-      this.posts[postIndex].totalCommentsCount =
-        (this.posts[postIndex].totalCommentsCount || 0) + 1;
-
+      yield* rejectDuplicateText(
+        author.id,
+        input.text,
+        repo.insertComment(input.postId, newComment)
+      );
+      const updatedPost = yield* this.findPostById(input.postId, author);
+      if (heldFor) {
+        yield* holdForReview(
+          { postId: input.postId, commentId: newComment.id },
+          heldFor,
+          newComment.createdAt,
+          "new"
+        );
+      } else {
+        yield* notifyAuthor(author, post.userId, "comment", {
+          postId: input.postId,
+        });
+        yield* this.announceComment(updatedPost, newComment);
+      }
       return {
-        post: this.posts[postIndex],
-        comment: newComment,
+        post: updatedPost,
+        comment: { ...commentWithTimeAgo(newComment, now), likedByMe: false },
       };
     });
 
-  // Effect to add a reply to a comment
-  addReply = (input: z.infer<typeof CreateReplySchema>) =>
-    Effect.sync(() => {
-      const postIndex = this.posts.findIndex(
-        (post) => post.id === input.postId
-      );
-      if (postIndex === -1) {
-        throw new Error(`Post with id ${input.postId} not found`);
-      }
-
-      const commentIndex = this.posts[postIndex].comments.findIndex(
-        (comment) => comment.id === input.commentId
+  // Effect to add a reply to a comment or to another reply. Past
+  // MAX_REPLY_DEPTH the reply goes next to the one it answers instead,
+  // starting with "@username" so it's clear who it's for.
+  addReply = (author: User, input: z.infer<typeof CreateReplySchema>) =>
+    Effect.gen(this, function* () {
+      const repo = yield* PostsRepository;
+      const post = yield* this.loadVisiblePost(input.postId, author);
+      const { comment, path } = yield* findParent(
+        visibleTo(post, author),
+        input.commentId
       );
-      if (commentIndex === -1) {
-        throw new Error(`Comment with id ${input.commentId} not found`);
-      }
-
+      const answered = path[path.length - 1] ?? comment;
+      const flatten = path.length >= MAX_REPLY_DEPTH;
+      const parent = flatten ? (path[path.length - 2] ?? comment) : answered;
+      const handle = `@${answered.username}`;
+      const text =
+        flatten && !answered.deletedAt && !input.text.startsWith(handle)
+          ? `${handle} ${input.text}`
+          : input.text;
+      const heldFor = yield* screenText("text", text);
+
+      const now = yield* Clock.currentTimeMillis;
       const newReply: CommentType = {
-        id: `r_${Date.now()}`, // Generate unique reply ID
-        username: input.username,
-        userAvatar: input.userAvatar,
-        text: input.text,
+        id: yield* nextId,
+        userId: author.id,
+        username: author.username,
+        userAvatar: author.userAvatar,
+        text,
+        entities: yield* resolveEntities(text),
         likes: 0,
-        timeAgo: "now",
+        createdAt: new Date(now).toISOString(),
+        updatedAt: new Date(now).toISOString(),
+        version: 1,
+        hiddenAt: heldFor ? new Date(now).toISOString() : undefined,
+        parentId: parent.id,
       };
 
-      // Initialize replies array if it doesn't exist
-      if (!this.posts[postIndex].comments[commentIndex].replies) {
-        this.posts[postIndex].comments[commentIndex].replies = [];
+      // Add reply under its top-level comment
+      yield* rejectDuplicateText(
+        author.id,
+        text,
+        repo.insertReply(input.postId, comment.id, newReply)
+      );
+      const updatedPost = yield* this.findPostById(input.postId, author);
+      if (heldFor) {
+        yield* holdForReview(
+          { postId: input.postId, commentId: comment.id, replyId: newReply.id },
+          heldFor,
+          newReply.createdAt,
+          "new"
+        );
+      } else {
+        yield* notifyAuthor(
+          author,
+          answered.userId,
+          "reply",
+          answered === comment
+            ? { postId: input.postId, commentId: comment.id }
+            : {
+                postId: input.postId,
+                commentId: comment.id,
+                replyId: answered.id,
+              }
+        );
+        yield* this.announceComment(updatedPost, newReply, parent.id);
       }
-
-      // Add reply to comment
-      this.posts[postIndex].comments[commentIndex].replies!.push(newReply);
-      this.posts[postIndex].totalCommentsCount =
-        (this.posts[postIndex].totalCommentsCount || 0) + 1;
-
       return {
-        post: this.posts[postIndex],
-        comment: this.posts[postIndex].comments[commentIndex],
-        reply: newReply,
+        post: updatedPost,
+        comment: yield* findComment(updatedPost, comment.id),
+        reply: { ...commentWithTimeAgo(newReply, now), likedByMe: false },
       };
     });
 
-  // Effect to like a comment
-  likeComment = (input: z.infer<typeof LikeCommentSchema>) =>
-    Effect.sync(() => {
-      const postIndex = this.posts.findIndex(
-        (post) => post.id === input.postId
-      );
-      if (postIndex === -1) {
-        throw new Error(`Post with id ${input.postId} not found`);
+  // Effect to change a post's caption. Held edits hide the post until a
+  // moderator has looked at it, and subscribers don't hear about them. Like
+  // every edit, fails with EditConflict if someone else changed it first.
+  updatePost = (user: User, input: z.infer<typeof UpdatePostSchema>) =>
+    Effect.gen(this, function* () {
+      const repo = yield* PostsRepository;
+      const post = yield* this.loadPost(input.id);
+      yield* requireAuthor(user, post, "You can only edit your own posts");
+      const target = { postId: input.id };
+      const version = yield* versionToEdit(target, post, input.expectedVersion);
+      const heldFor = yield* screenText("caption", input.caption);
+
+      const editedAt = yield* nowIsoString;
+      const updated = yield* repo.updatePost(input.id, {
+        caption: input.caption,
+        entities: yield* resolveEntities(input.caption),
+        editedAt,
+        expectedVersion: version,
+        hiddenAt: heldFor ? editedAt : undefined,
+      });
+      if (!updated) {
+        return yield* new EditConflict({ ...target, expectedVersion: version });
       }
-
-      const commentIndex = this.posts[postIndex].comments.findIndex(
-        (comment) => comment.id === input.commentId
+      if (heldFor) {
+        yield* holdForReview(target, heldFor, editedAt, "edit");
+        return yield* this.findPostById(input.id, user);
+      }
+      return yield* this.findPostById(input.id, user).pipe(
+        Effect.tap((post) => this.publishPostUpdate(post))
       );
-      if (commentIndex === -1) {
-        throw new Error(`Comment with id ${input.commentId} not found`);
+    });
+
+  // Effect to delete a post, comment or reply with everything under it,
+  // along with their notifications, reports and saves. A comment or reply
+  // that still has replies is only blanked to "[deleted]" so the thread
+  // stays readable, and "[deleted]" ones go away with their last reply.
+  removeTarget = (target: LikeTarget) =>
+    Effect.gen(this, function* () {
+      const repo = yield* PostsRepository;
+      const notifications = yield* NotificationsRepository;
+      const moderation = yield* ModerationRepository;
+      const saves = yield* SavedPostsRepository;
+      const forget = (target: LikeTarget) =>
+        Effect.zipRight(
+          notifications.deleteForTarget(target),
+          moderation.deleteForTarget(target)
+        );
+
+      const post = yield* this.loadPost(target.postId);
+      if (!target.commentId) {
+        yield* repo.deletePost(post.id);
+        yield* forget({ postId: post.id });
+        yield* saves.deleteForPost(post.id);
+        return;
       }
+      const comment = yield* findComment(post, target.commentId);
+      if (!target.replyId) {
+        if (comment.replies?.length) {
+          yield* repo.softDeleteComment(
+            post.id,
+            comment.id,
+            yield* nowIsoString
+          );
+        } else {
+          yield* repo.deleteComment(post.id, comment.id);
+          yield* forget({ postId: post.id, commentId: comment.id });
+        }
+      } else {
+        const { path, reply } = yield* findReply(
+          post,
+          target.replyId,
+          comment.id
+        );
+        const replyTarget = (replyId: string) => ({
+          postId: post.id,
+          commentId: comment.id,
+          replyId,
+        });
+        if (reply.replies?.length) {
+          yield* repo.softDeleteReply(
+            post.id,
+            comment.id,
+            reply.id,
+            yield* nowIsoString
+          );
+        } else {
+          yield* repo.deleteReply(post.id, comment.id, reply.id);
+          yield* forget(replyTarget(reply.id));
+          // Walk up while the parent is "[deleted]" and just lost its last reply
+          for (const parent of [comment, ...path.slice(0, -1)].reverse()) {
+            if (!parent.deletedAt || parent.replies?.length !== 1) {
+              break;
+            }
+            if (parent === comment) {
+              yield* repo.deleteComment(post.id, comment.id);
+              yield* forget({ postId: post.id, commentId: comment.id });
+            } else {
+              yield* repo.deleteReply(post.id, comment.id, parent.id);
+              yield* forget(replyTarget(parent.id));
+            }
+          }
+        }
+      }
+      yield* this.publishPostUpdate(yield* this.loadPost(post.id));
+    });
+
+  // Effect to delete a post with everything on it
+  deletePost = (user: User, input: z.infer<typeof DeletePostSchema>) =>
+    Effect.gen(this, function* () {
+      const post = yield* this.loadPost(input.id);
+      yield* requireAuthor(user, post, "You can only delete your own posts");
 
-      // Increment comment likes
-      this.posts[postIndex].comments[commentIndex].likes += 1;
+      yield* this.removeTarget({ postId: input.id });
+      return { id: input.id };
+    });
+
+  // Effect to change a comment's text
+  editComment = (user: User, input: z.infer<typeof EditCommentSchema>) =>
+    Effect.gen(this, function* () {
+      const repo = yield* PostsRepository;
+      const post = yield* this.loadPost(input.postId);
+      const comment = yield* findComment(post, input.commentId);
+      yield* requireAuthor(
+        user,
+        comment,
+        "You can only edit your own comments"
+      );
+      const target = { postId: input.postId, commentId: input.commentId };
+      const version = yield* versionToEdit(
+        target,
+        comment,
+        input.expectedVersion
+      );
+      const heldFor = yield* screenText("text", input.text);
 
+      const editedAt = yield* nowIsoString;
+      const updated = yield* repo.updateComment(input.postId, input.commentId, {
+        text: input.text,
+        entities: yield* resolveEntities(input.text),
+        editedAt,
+        expectedVersion: version,
+        hiddenAt: heldFor ? editedAt : undefined,
+      });
+      if (!updated) {
+        return yield* new EditConflict({ ...target, expectedVersion: version });
+      }
+      if (heldFor) {
+        yield* holdForReview(target, heldFor, editedAt, "edit");
+      }
+      const updatedPost = yield* this.findPostById(input.postId, user);
       return {
-        post: this.posts[postIndex],
-        comment: this.posts[postIndex].comments[commentIndex],
+        post: updatedPost,
+        comment: yield* findComment(updatedPost, input.commentId),
       };
     });
 
-  // Effect to unlike a comment
-  unlikeComment = (input: z.infer<typeof LikeCommentSchema>) =>
-    Effect.sync(() => {
-      const postIndex = this.posts.findIndex(
-        (post) => post.id === input.postId
+  // Effect to delete a comment. One that still has replies is only blanked
+  // to "[deleted]" so the thread stays readable.
+  deleteComment = (user: User, input: z.infer<typeof DeleteCommentSchema>) =>
+    Effect.gen(this, function* () {
+      const post = yield* this.loadPost(input.postId);
+      const comment = yield* findComment(post, input.commentId);
+      yield* requireAuthor(
+        user,
+        comment,
+        "You can only delete your own comments"
       );
-      if (postIndex === -1) {
-        throw new Error(`Post with id ${input.postId} not found`);
-      }
 
-      const commentIndex = this.posts[postIndex].comments.findIndex(
-        (comment) => comment.id === input.commentId
+      yield* this.removeTarget({
+        postId: input.postId,
+        commentId: input.commentId,
+      });
+      return { post: yield* this.findPostById(input.postId, user) };
+    });
+
+  // Effect to change a reply's text, at any depth
+  editReply = (user: User, input: z.infer<typeof EditReplySchema>) =>
+    Effect.gen(this, function* () {
+      const repo = yield* PostsRepository;
+      const post = yield* this.loadPost(input.postId);
+      const { comment, reply } = yield* findReply(
+        post,
+        input.replyId,
+        input.commentId
       );
-      if (commentIndex === -1) {
-        throw new Error(`Comment with id ${input.commentId} not found`);
+      yield* requireAuthor(user, reply, "You can only edit your own replies");
+      const target = {
+        postId: input.postId,
+        commentId: comment.id,
+        replyId: reply.id,
+      };
+      const version = yield* versionToEdit(
+        target,
+        reply,
+        input.expectedVersion
+      );
+      const heldFor = yield* screenText("text", input.text);
+
+      const editedAt = yield* nowIsoString;
+      const updated = yield* repo.updateReply(
+        input.postId,
+        comment.id,
+        reply.id,
+        {
+          text: input.text,
+          entities: yield* resolveEntities(input.text),
+          editedAt,
+          expectedVersion: version,
+          hiddenAt: heldFor ? editedAt : undefined,
+        }
+      );
+      if (!updated) {
+        return yield* new EditConflict({ ...target, expectedVersion: version });
       }
+      if (heldFor) {
+        yield* holdForReview(target, heldFor, editedAt, "edit");
+      }
+      return yield* this.findPostWithReply(user, input.postId, reply.id);
+    });
 
-      // Decrement comment likes (don't go below 0)
-      this.posts[postIndex].comments[commentIndex].likes = Math.max(
-        0,
-        this.posts[postIndex].comments[commentIndex].likes - 1
+  // Effect to delete a reply, at any depth. One that still has replies is
+  // only blanked to "[deleted]", like a comment.
+  deleteReply = (user: User, input: z.infer<typeof DeleteReplySchema>) =>
+    Effect.gen(this, function* () {
+      const post = yield* this.loadPost(input.postId);
+      const { comment, reply } = yield* findReply(
+        post,
+        input.replyId,
+        input.commentId
       );
+      yield* requireAuthor(user, reply, "You can only delete your own replies");
+
+      yield* this.removeTarget({
+        postId: input.postId,
+        commentId: comment.id,
+        replyId: reply.id,
+      });
+      return { post: yield* this.findPostById(input.postId, user) };
+    });
 
+  // Effect to load a post for the viewer along with one of its replies and
+  // the top-level comment it hangs under
+  private findPostWithReply = (user: User, postId: string, replyId: string) =>
+    Effect.gen(this, function* () {
+      const post = yield* this.findPostById(postId, user);
+      const { comment, reply } = yield* findReply(post, replyId);
+      return { post, comment, reply };
+    });
+
+  // Effect to page through a post's comments, "top" or "newest" first
+  getComments = (
+    viewer: User | null,
+    input: z.infer<typeof GetCommentsSchema>
+  ) =>
+    Effect.gen(this, function* () {
+      const repo = yield* PostsRepository;
+      yield* this.loadVisiblePost(input.postId, viewer);
+
+      const comments = yield* repo.listComments(
+        input.postId,
+        input.sort,
+        audienceOf(viewer),
+        input.cursor,
+        input.limit + 1
+      );
+      const page = toPage(comments, input.limit, (comment) => ({
+        key:
+          input.sort === "top" ? comment.likes : Date.parse(comment.createdAt),
+        id: comment.id,
+      }));
+
+      const likedKeys = yield* this.likedKeysFor(viewer, [input.postId]);
+      const now = yield* Clock.currentTimeMillis;
       return {
-        post: this.posts[postIndex],
-        comment: this.posts[postIndex].comments[commentIndex],
+        ...page,
+        items: yield* withCurrentAuthors(
+          page.items.map((comment) => ({
+            ...commentWithTimeAgo(comment, now, input),
+            likedByMe: likedKeys.has(
+              likeKey({ postId: input.postId, commentId: comment.id })
+            ),
+          }))
+        ),
       };
     });
 
-  // Effect to like a reply
-  likeReply = (input: z.infer<typeof LikeReplySchema>) =>
-    Effect.sync(() => {
-      const postIndex = this.posts.findIndex(
-        (post) => post.id === input.postId
+  // Effect to page through the replies to a comment or reply, oldest first
+  getReplies = (viewer: User | null, input: z.infer<typeof GetRepliesSchema>) =>
+    Effect.gen(this, function* () {
+      const repo = yield* PostsRepository;
+      const post = yield* this.loadVisiblePost(input.postId, viewer);
+      const { comment } = yield* findParent(
+        visibleTo(post, viewer),
+        input.commentId
       );
-      if (postIndex === -1) {
-        throw new Error(`Post with id ${input.postId} not found`);
-      }
 
-      const commentIndex = this.posts[postIndex].comments.findIndex(
-        (comment) => comment.id === input.commentId
+      const replies = yield* repo.listReplies(
+        input.postId,
+        input.commentId,
+        audienceOf(viewer),
+        input.cursor,
+        input.limit + 1
       );
-      if (commentIndex === -1) {
-        throw new Error(`Comment with id ${input.commentId} not found`);
-      }
+      const page = toPage(replies, input.limit, (reply) => ({
+        key: Date.parse(reply.createdAt),
+        id: reply.id,
+      }));
+
+      const likedKeys = yield* this.likedKeysFor(viewer, [input.postId]);
+      const now = yield* Clock.currentTimeMillis;
+      return {
+        ...page,
+        items: yield* withCurrentAuthors(
+          page.items.map((reply) => ({
+            ...commentWithTimeAgo(reply, now, input),
+            likedByMe: likedKeys.has(
+              likeKey({
+                postId: input.postId,
+                commentId: comment.id,
+                replyId: reply.id,
+              })
+            ),
+          }))
+        ),
+      };
+    });
+
+  // Effect to find the post, comment or reply a like or report points at,
+  // with the full target - a reply's commentId filled in. Anything hidden
+  // from the viewer, or under something that is, isn't found.
+  findTarget = (target: LikeTarget, viewer: User | null) =>
+    this.loadVisiblePost(target.postId, viewer).pipe(
+      Effect.flatMap((post) => locateTarget(visibleTo(post, viewer), target))
+    );
 
-      const replyIndex =
-        this.posts[postIndex].comments[commentIndex].replies?.findIndex(
-          (reply) => reply.id === input.replyId
-        ) ?? -1;
-      if (replyIndex === -1) {
-        throw new Error(`Reply with id ${input.replyId} not found`);
+  // Effect to find a target whether or not it's hidden - for moderators
+  findStoredTarget = (target: LikeTarget) =>
+    this.loadPost(target.postId).pipe(
+      Effect.flatMap((post) => locateTarget(post, target))
+    );
+
+  // Effect to set or clear a user's like. Repeating either is a no-op,
+  // so the counters only ever move by one per user.
+  private setLike = (user: User, likeTarget: LikeTarget, liked: boolean) =>
+    Effect.gen(this, function* () {
+      const repo = yield* PostsRepository;
+      const { target, entity } = yield* this.findTarget(likeTarget, user);
+      const changed = yield* liked
+        ? repo.addLike(user.id, target, yield* Clock.currentTimeMillis)
+        : repo.removeLike(user.id, target);
+      if (changed && liked) {
+        yield* notifyAuthor(user, entity.userId, "like", target);
       }
+      if (changed && !target.commentId) {
+        yield* this.publishPostUpdate(yield* this.loadPost(target.postId));
+      }
+    });
 
-      // Increment reply likes
-      this.posts[postIndex].comments[commentIndex].replies![
-        replyIndex
-      ].likes += 1;
+  // Effect to like a post
+  incrementLikes = (user: User, id: string) =>
+    this.setLike(user, { postId: id }, true).pipe(
+      Effect.zipRight(this.findPostById(id, user))
+    );
 
-      return {
-        post: this.posts[postIndex],
-        comment: this.posts[postIndex].comments[commentIndex],
-        reply:
-          this.posts[postIndex].comments[commentIndex].replies![replyIndex],
-      };
+  // Effect to unlike a post
+  decrementLikes = (user: User, id: string) =>
+    this.setLike(user, { postId: id }, false).pipe(
+      Effect.zipRight(this.findPostById(id, user))
+    );
+
+  // Effect to like or unlike a comment, returning the updated comment
+  private setCommentLike = (
+    user: User,
+    input: z.infer<typeof LikeCommentSchema>,
+    liked: boolean
+  ) =>
+    Effect.gen(this, function* () {
+      yield* this.setLike(user, input, liked);
+      const post = yield* this.findPostById(input.postId, user);
+      return { post, comment: yield* findComment(post, input.commentId) };
     });
 
+  // Effect to like a comment
+  likeComment = (user: User, input: z.infer<typeof LikeCommentSchema>) =>
+    this.setCommentLike(user, input, true);
+
+  // Effect to unlike a comment
+  unlikeComment = (user: User, input: z.infer<typeof LikeCommentSchema>) =>
+    this.setCommentLike(user, input, false);
+
+  // Effect to like or unlike a reply at any depth, returning the updated
+  // reply
+  private setReplyLike = (
+    user: User,
+    input: z.infer<typeof LikeReplySchema>,
+    liked: boolean
+  ) =>
+    this.setLike(user, input, liked).pipe(
+      Effect.zipRight(this.findPostWithReply(user, input.postId, input.replyId))
+    );
+
+  // Effect to like a reply
+  likeReply = (user: User, input: z.infer<typeof LikeReplySchema>) =>
+    this.setReplyLike(user, input, true);
+
   // Effect to unlike a reply
-  unlikeReply = (input: z.infer<typeof LikeReplySchema>) =>
-    Effect.sync(() => {
-      const postIndex = this.posts.findIndex(
-        (post) => post.id === input.postId
-      );
-      if (postIndex === -1) {
-        throw new Error(`Post with id ${input.postId} not found`);
-      }
+  unlikeReply = (user: User, input: z.infer<typeof LikeReplySchema>) =>
+    this.setReplyLike(user, input, false);
 
-      const commentIndex = this.posts[postIndex].comments.findIndex(
-        (comment) => comment.id === input.commentId
-      );
-      if (commentIndex === -1) {
-        throw new Error(`Comment with id ${input.commentId} not found`);
-      }
+  // Effect to flip the user's like on any target
+  toggleLike = (user: User, likeTarget: LikeTarget) =>
+    Effect.gen(this, function* () {
+      const repo = yield* PostsRepository;
+      const { target } = yield* this.findTarget(likeTarget, user);
+      const liked = yield* repo.findLikedTargets(user.id, [target.postId]);
+      const likedByMe = liked.some((like) => likeKey(like) === likeKey(target));
 
-      const replyIndex =
-        this.posts[postIndex].comments[commentIndex].replies?.findIndex(
-          (reply) => reply.id === input.replyId
-        ) ?? -1;
-      if (replyIndex === -1) {
-        throw new Error(`Reply with id ${input.replyId} not found`);
-      }
+      yield* this.setLike(user, target, !likedByMe);
 
-      // Decrement reply likes (don't go below 0)
-      this.posts[postIndex].comments[commentIndex].replies![replyIndex].likes =
-        Math.max(
-          0,
-          this.posts[postIndex].comments[commentIndex].replies![replyIndex]
-            .likes - 1
-        );
+      const { entity } = yield* this.findTarget(target, user);
+      return { liked: !likedByMe, likes: entity.likes };
+    });
+
+  // Effect to page through who liked a target, most recent first
+  getLikers = (viewer: User | null, input: z.infer<typeof GetLikersSchema>) =>
+    Effect.gen(this, function* () {
+      const repo = yield* PostsRepository;
+      const { target } = yield* this.findTarget(input.target, viewer);
+
+      const likes = yield* repo.listLikes(
+        target,
+        input.cursor,
+        input.limit + 1
+      );
+      const page = toPage(likes, input.limit, (like) => ({
+        key: like.createdAt,
+        id: like.userId,
+      }));
+      const likers = yield* findAuthors(page.items.map((like) => like.userId));
+
+      // In like order. A like whose account is gone has nobody to show.
+      return {
+        items: page.items.flatMap((like) => likers.get(like.userId) ?? []),
+        nextCursor: page.nextCursor,
+      };
+    });
 
+  // Effect to page through the captions, comments and replies that
+  // mention the user, newest first
+  getMentions = (user: User, input: z.infer<typeof GetMentionsSchema>) =>
+    Effect.gen(function* () {
+      const repo = yield* PostsRepository;
+      const mentions = yield* repo.listMentions(
+        user.id,
+        input.cursor,
+        input.limit + 1
+      );
+      const page = toPage(mentions, input.limit, (mention) => ({
+        key: mention.createdAt,
+        id: mentionKey(mention.target),
+      }));
+      const authors = yield* findAuthors(
+        page.items.map((mention) => mention.author.id)
+      );
+      const now = yield* Clock.currentTimeMillis;
       return {
-        post: this.posts[postIndex],
-        comment: this.posts[postIndex].comments[commentIndex],
-        reply:
-          this.posts[postIndex].comments[commentIndex].replies![replyIndex],
+        ...page,
+        items: page.items.map((mention) => ({
+          ...mention,
+          author: authors.get(mention.author.id) ?? mention.author,
+          createdAt: new Date(mention.createdAt).toISOString(),
+          timeAgo: formatTimeAgo(mention.createdAt, now, input),
+        })),
       };
     });
+
+  // Stream of everything published about a post the viewer can see
+  private eventsOn = (postId: string, viewer: User | null) =>
+    Stream.unwrap(
+      Effect.gen(this, function* () {
+        yield* this.loadVisiblePost(postId, viewer);
+        const events = yield* PostEvents;
+        return events.subscribe(postChannel(postId));
+      })
+    );
+
+  // Stream of a post's likes, comment count and caption as they change
+  postUpdates = (
+    viewer: User | null,
+    input: z.infer<typeof OnPostUpdatedSchema>
+  ) =>
+    this.eventsOn(input.postId, viewer).pipe(
+      Stream.filterMap((event) =>
+        event.type === "postUpdated" ? Option.some(event.post) : Option.none()
+      )
+    );
+
+  // Stream of new comments and replies on a post
+  newComments = (
+    viewer: User | null,
+    input: z.infer<typeof OnNewCommentSchema>
+  ) =>
+    this.eventsOn(input.postId, viewer).pipe(
+      Stream.filterMap((event) =>
+        event.type === "newComment" ? Option.some(event) : Option.none()
+      ),
+      Stream.mapEffect(({ postId, parentCommentId, comment }) =>
+        Effect.map(Clock.currentTimeMillis, (now) => ({
+          postId,
+          parentCommentId,
+          comment: {
+            ...commentWithTimeAgo(comment, now, input),
+            likedByMe: false,
+          },
+        }))
+      )
+    );
+
+  // Stream of posts as they're created, by anyone
+  newPosts = (viewer: User | null, input: z.infer<typeof OnNewPostSchema>) =>
+    Stream.unwrap(
+      Effect.map(PostEvents, (events) => events.subscribe(FEED_CHANNEL))
+    ).pipe(
+      Stream.filterMap((event) =>
+        event.type === "newPost" ? Option.some(event.post) : Option.none()
+      ),
+      Stream.filterEffect((post) => canSeePost(viewer, post)),
+      Stream.mapEffect((post) =>
+        Effect.map(Clock.currentTimeMillis, (now) => ({
+          ...withTimeAgo(post, now, input),
+          likedByMe: false,
+          savedByMe: false,
+        }))
+      )
+    );
 }
 
-// Create service instance
-const postsService = new PostsService();
+// Create service instance - search reuses it to show matching posts
+export const postsService = new PostsService();
 
 // Define our tRPC router with all the endpoints
 export const postsRouter = router({
-  // GET /posts - Fetch all posts
+  // GET /posts - Fetch a page of posts for infinite scroll
   getPosts: publicProcedure
-    .output(z.array(PostSchema)) // Define expected output type
-    .query(async () => {
+    .input(GetPostsSchema)
+    .output(PageSchema(PostSchema)) // Define expected output type
+    .query(async ({ ctx, input }) => {
       // Use Effect to get posts and handle any potential errors
-      return await Effect.runPromise(
-        postsService.getAllPosts.pipe(
-          Effect.tapError((error) => Effect.logError(error)) // Log errors using Effect
-        )
+      return await runEffect(ctx, postsService.getPosts(ctx.user, input));
+    }),
+
+  // GET /feed - A page of posts from the accounts the user follows
+  getHomeFeed: protectedProcedure
+    .input(GetHomeFeedSchema)
+    .output(PageSchema(PostSchema)) // Same shape as getPosts
+    .query(async ({ ctx, input }) => {
+      return await runEffect(ctx, postsService.getHomeFeed(ctx.user, input));
+    }),
+
+  // GET /tags/:tag - A page of posts with a hashtag in their caption
+  getPostsByHashtag: publicProcedure
+    .input(GetPostsByHashtagSchema)
+    .output(PageSchema(PostSchema))
+    .query(async ({ ctx, input }) => {
+      return await runEffect(
+        ctx,
+        postsService.getPostsByHashtag(ctx.user, input)
       );
     }),
 
-  // POST /posts - Create a new post
-  createPost: publicProcedure
+  // GET /mentions - Where the logged-in user was @mentioned
+  getMentions: protectedProcedure
+    .input(GetMentionsSchema)
+    .output(PageSchema(MentionSchema))
+    .query(async ({ ctx, input }) => {
+      return await runEffect(ctx, postsService.getMentions(ctx.user, input));
+    }),
+
+  // POST /posts - Create a new post as the logged-in user
+  createPost: protectedProcedure
+    .use(rateLimited("createPost"))
     .input(CreatePostSchema) // Validate input using our schema
     .output(PostSchema) // Define expected output type
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       // Use Effect to create post and handle any potential errors
-      return await Effect.runPromise(
-        postsService.createPost(input).pipe(
-          Effect.tapError((error) => Effect.logError(error)),
-          Effect.tap((post) => Effect.log(`Created post with ID: ${post.id}`))
-        )
+      return await runEffect(
+        ctx,
+        postsService
+          .createPost(ctx.user, input, ctx.origin)
+          .pipe(
+            Effect.tap((post) => Effect.log(`Created post with ID: ${post.id}`))
+          )
       );
     }),
 
   // PATCH /posts/:id/like - Increment likes for a specific post
-  likePost: publicProcedure
-    .input(z.object({ id: z.string() })) // Validate that we get a valid ID
+  likePost: protectedProcedure
+    .use(rateLimited("like"))
+    .input(z.object({ id: IdSchema("Post ID") })) // Validate that we get a valid ID
     .output(PostSchema) // Return the updated post
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       // Use Effect to increment likes and handle any potential errors
-      return await Effect.runPromise(
-        postsService.incrementLikes(input.id).pipe(
-          Effect.tapError((error) => Effect.logError(error)),
-          Effect.tap((post) =>
-            Effect.log(
-              `Incremented likes for post ${post.id}: ${post.likes} likes`
+      return await runEffect(
+        ctx,
+        postsService
+          .incrementLikes(ctx.user, input.id)
+          .pipe(
+            Effect.tap((post) =>
+              Effect.log(
+                `Incremented likes for post ${post.id}: ${post.likes} likes`
+              )
             )
           )
-        )
       );
     }),
 
-  unlikePost: publicProcedure
-    .input(z.object({ id: z.string() }))
+  unlikePost: protectedProcedure
+    .use(rateLimited("like"))
+    .input(z.object({ id: IdSchema("Post ID") }))
     .output(PostSchema)
-    .mutation(async ({ input }) => {
-      return await Effect.runPromise(
-        postsService.decrementLikes(input.id).pipe(
-          Effect.tapError((error) => Effect.logError(error)),
-          Effect.tap((post) =>
-            Effect.log(
-              `Decremented likes for post ${post.id}: ${post.likes} likes`
+    .mutation(async ({ ctx, input }) => {
+      return await runEffect(
+        ctx,
+        postsService
+          .decrementLikes(ctx.user, input.id)
+          .pipe(
+            Effect.tap((post) =>
+              Effect.log(
+                `Decremented likes for post ${post.id}: ${post.likes} likes`
+              )
             )
           )
-        )
+      );
+    }),
+
+  // PATCH /posts/:id - Edit the caption of your own post
+  updatePost: protectedProcedure
+    .input(UpdatePostSchema)
+    .output(PostSchema)
+    .mutation(async ({ ctx, input }) => {
+      return await runEffect(ctx, postsService.updatePost(ctx.user, input));
+    }),
+
+  // DELETE /posts/:id - Delete your own post with its comments and likes
+  deletePost: protectedProcedure
+    .input(DeletePostSchema)
+    .output(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      return await runEffect(
+        ctx,
+        postsService
+          .deletePost(ctx.user, input)
+          .pipe(Effect.tap(() => Effect.log(`Deleted post ${input.id}`)))
       );
     }),
 
   // GET /posts/:id - Get a single post by ID (bonus endpoint)
   getPostById: publicProcedure
-    .input(z.object({ id: z.string() }))
+    .input(GetPostByIdSchema)
     .output(PostSchema)
-    .query(async ({ input }) => {
-      return await Effect.runPromise(
-        postsService
-          .findPostById(input.id)
-          .pipe(Effect.tapError((error) => Effect.logError(error)))
+    .query(async ({ ctx, input }) => {
+      return await runEffect(
+        ctx,
+        postsService.findPostById(input.id, ctx.user, input)
       );
     }),
 
+  // GET /posts/:id/comments - Lazy-load a post's comments
+  getComments: publicProcedure
+    .input(GetCommentsSchema)
+    .output(PageSchema(CommentSchema))
+    .query(async ({ ctx, input }) => {
+      return await runEffect(ctx, postsService.getComments(ctx.user, input));
+    }),
+
+  // GET /comments/:id/replies - Lazy-load a comment's replies
+  getReplies: publicProcedure
+    .input(GetRepliesSchema)
+    .output(PageSchema(CommentSchema))
+    .query(async ({ ctx, input }) => {
+      return await runEffect(ctx, postsService.getReplies(ctx.user, input));
+    }),
+
   // POST /comments - Add a comment to a post
-  addComment: publicProcedure
+  addComment: protectedProcedure
+    .use(rateLimited("comment"))
     .input(CreateCommentSchema)
     .output(
       z.object({
@@ -752,19 +1572,22 @@ export const postsRouter = router({
         comment: CommentSchema,
       })
     )
-    .mutation(async ({ input }) => {
-      return await Effect.runPromise(
-        postsService.addComment(input).pipe(
-          Effect.tapError((error) => Effect.logError(error)),
-          Effect.tap((result) =>
-            Effect.log(`Added comment to post ${result.post.id}`)
+    .mutation(async ({ ctx, input }) => {
+      return await runEffect(
+        ctx,
+        postsService
+          .addComment(ctx.user, input)
+          .pipe(
+            Effect.tap((result) =>
+              Effect.log(`Added comment to post ${result.post.id}`)
+            )
           )
-        )
       );
     }),
 
   // POST /replies - Add a reply to a comment
-  addReply: publicProcedure
+  addReply: protectedProcedure
+    .use(rateLimited("comment"))
     .input(CreateReplySchema)
     .output(
       z.object({
@@ -773,19 +1596,65 @@ export const postsRouter = router({
         reply: CommentSchema,
       })
     )
-    .mutation(async ({ input }) => {
-      return await Effect.runPromise(
-        postsService.addReply(input).pipe(
-          Effect.tapError((error) => Effect.logError(error)),
-          Effect.tap((result) =>
-            Effect.log(`Added reply to comment ${result.comment.id}`)
+    .mutation(async ({ ctx, input }) => {
+      return await runEffect(
+        ctx,
+        postsService
+          .addReply(ctx.user, input)
+          .pipe(
+            Effect.tap((result) =>
+              Effect.log(`Added reply to comment ${result.comment.id}`)
+            )
           )
-        )
       );
     }),
 
+  // PATCH /comments/:id - Edit your own comment
+  editComment: protectedProcedure
+    .input(EditCommentSchema)
+    .output(
+      z.object({
+        post: PostSchema,
+        comment: CommentSchema,
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      return await runEffect(ctx, postsService.editComment(ctx.user, input));
+    }),
+
+  // DELETE /comments/:id - Delete your own comment
+  deleteComment: protectedProcedure
+    .input(DeleteCommentSchema)
+    .output(z.object({ post: PostSchema }))
+    .mutation(async ({ ctx, input }) => {
+      return await runEffect(ctx, postsService.deleteComment(ctx.user, input));
+    }),
+
+  // PATCH /replies/:id - Edit your own reply
+  editReply: protectedProcedure
+    .input(EditReplySchema)
+    .output(
+      z.object({
+        post: PostSchema,
+        comment: CommentSchema,
+        reply: CommentSchema,
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      return await runEffect(ctx, postsService.editReply(ctx.user, input));
+    }),
+
+  // DELETE /replies/:id - Delete your own reply
+  deleteReply: protectedProcedure
+    .input(DeleteReplySchema)
+    .output(z.object({ post: PostSchema }))
+    .mutation(async ({ ctx, input }) => {
+      return await runEffect(ctx, postsService.deleteReply(ctx.user, input));
+    }),
+
   // PATCH /comments/:id/like - Like a comment
-  likeComment: publicProcedure
+  likeComment: protectedProcedure
+    .use(rateLimited("like"))
     .input(LikeCommentSchema)
     .output(
       z.object({
@@ -793,21 +1662,24 @@ export const postsRouter = router({
         comment: CommentSchema,
       })
     )
-    .mutation(async ({ input }) => {
-      return await Effect.runPromise(
-        postsService.likeComment(input).pipe(
-          Effect.tapError((error) => Effect.logError(error)),
-          Effect.tap((result) =>
-            Effect.log(
-              `Liked comment ${result.comment.id}: ${result.comment.likes} likes`
+    .mutation(async ({ ctx, input }) => {
+      return await runEffect(
+        ctx,
+        postsService
+          .likeComment(ctx.user, input)
+          .pipe(
+            Effect.tap((result) =>
+              Effect.log(
+                `Liked comment ${result.comment.id}: ${result.comment.likes} likes`
+              )
             )
           )
-        )
       );
     }),
 
   // PATCH /comments/:id/unlike - Unlike a comment
-  unlikeComment: publicProcedure
+  unlikeComment: protectedProcedure
+    .use(rateLimited("like"))
     .input(LikeCommentSchema)
     .output(
       z.object({
@@ -815,21 +1687,24 @@ export const postsRouter = router({
         comment: CommentSchema,
       })
     )
-    .mutation(async ({ input }) => {
-      return await Effect.runPromise(
-        postsService.unlikeComment(input).pipe(
-          Effect.tapError((error) => Effect.logError(error)),
-          Effect.tap((result) =>
-            Effect.log(
-              `Unliked comment ${result.comment.id}: ${result.comment.likes} likes`
+    .mutation(async ({ ctx, input }) => {
+      return await runEffect(
+        ctx,
+        postsService
+          .unlikeComment(ctx.user, input)
+          .pipe(
+            Effect.tap((result) =>
+              Effect.log(
+                `Unliked comment ${result.comment.id}: ${result.comment.likes} likes`
+              )
             )
           )
-        )
       );
     }),
 
   // PATCH /replies/:id/like - Like a reply
-  likeReply: publicProcedure
+  likeReply: protectedProcedure
+    .use(rateLimited("like"))
     .input(LikeReplySchema)
     .output(
       z.object({
@@ -838,21 +1713,24 @@ export const postsRouter = router({
         reply: CommentSchema,
       })
     )
-    .mutation(async ({ input }) => {
-      return await Effect.runPromise(
-        postsService.likeReply(input).pipe(
-          Effect.tapError((error) => Effect.logError(error)),
-          Effect.tap((result) =>
-            Effect.log(
-              `Liked reply ${result.reply.id}: ${result.reply.likes} likes`
+    .mutation(async ({ ctx, input }) => {
+      return await runEffect(
+        ctx,
+        postsService
+          .likeReply(ctx.user, input)
+          .pipe(
+            Effect.tap((result) =>
+              Effect.log(
+                `Liked reply ${result.reply.id}: ${result.reply.likes} likes`
+              )
             )
           )
-        )
       );
     }),
 
   // PATCH /replies/:id/unlike - Unlike a reply
-  unlikeReply: publicProcedure
+  unlikeReply: protectedProcedure
+    .use(rateLimited("like"))
     .input(LikeReplySchema)
     .output(
       z.object({
@@ -861,18 +1739,69 @@ export const postsRouter = router({
         reply: CommentSchema,
       })
     )
-    .mutation(async ({ input }) => {
-      return await Effect.runPromise(
-        postsService.unlikeReply(input).pipe(
-          Effect.tapError((error) => Effect.logError(error)),
-          Effect.tap((result) =>
-            Effect.log(
-              `Unliked reply ${result.reply.id}: ${result.reply.likes} likes`
+    .mutation(async ({ ctx, input }) => {
+      return await runEffect(
+        ctx,
+        postsService
+          .unlikeReply(ctx.user, input)
+          .pipe(
+            Effect.tap((result) =>
+              Effect.log(
+                `Unliked reply ${result.reply.id}: ${result.reply.likes} likes`
+              )
             )
           )
-        )
       );
     }),
+
+  // POST /likes/toggle - Like or unlike a post, comment or reply
+  toggleLike: protectedProcedure
+    .use(rateLimited("like"))
+    .input(LikeTargetSchema)
+    .output(z.object({ liked: z.boolean(), likes: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      return await runEffect(
+        ctx,
+        postsService
+          .toggleLike(ctx.user, input)
+          .pipe(
+            Effect.tap((result) =>
+              Effect.log(
+                `${result.liked ? "Liked" : "Unliked"} ${likeKey(input)}: ${result.likes} likes`
+              )
+            )
+          )
+      );
+    }),
+
+  // GET /likes - Page through who liked a post, comment or reply
+  getLikers: publicProcedure
+    .input(GetLikersSchema)
+    .output(PageSchema(UserSchema))
+    .query(async ({ ctx, input }) => {
+      return await runEffect(ctx, postsService.getLikers(ctx.user, input));
+    }),
+
+  // SSE /trpc/onPostUpdated - Live likes, comment count and caption edits
+  onPostUpdated: publicProcedure
+    .input(OnPostUpdatedSchema)
+    .subscription(({ ctx, input, signal }) =>
+      runStream(ctx, postsService.postUpdates(ctx.user, input), signal)
+    ),
+
+  // SSE /trpc/onNewComment - Comments and replies as they're added to a post
+  onNewComment: publicProcedure
+    .input(OnNewCommentSchema)
+    .subscription(({ ctx, input, signal }) =>
+      runStream(ctx, postsService.newComments(ctx.user, input), signal)
+    ),
+
+  // SSE /trpc/onNewPost - Posts as they're created
+  onNewPost: publicProcedure
+    .input(OnNewPostSchema)
+    .subscription(({ ctx, input, signal }) =>
+      runStream(ctx, postsService.newPosts(ctx.user, input), signal)
+    ),
 });
 
 // Export the type of our router for frontend use
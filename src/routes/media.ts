@@ -0,0 +1,135 @@
+import { Hono } from "hono";
+import { z } from "zod";
+import { Effect, Option } from "effect";
+import type { AppEnv } from "../app_env";
+import { MediaStorage, type MediaAsset } from "../repositories/media_storage";
+import { findSessionUser, readBearerToken } from "../auth/sessions";
+import { rateLimitRequests } from "../rate_limit/middleware";
+import {
+  isSupportedImageType,
+  readImageSize,
+  SUPPORTED_IMAGE_TYPES,
+} from "../media/images";
+
+// Uploads are capped at 10 MB
+const MAX_UPLOAD_BYTES = 10 * 1024 * 1024;
+
+// Asset ids never change content, so caches may keep them forever
+const CACHE_CONTROL = "public, max-age=31536000, immutable";
+
+// Public URL an asset is served from, on whichever host took the request
+export const mediaUrl = (origin: string, assetId: string) =>
+  new URL(`/media/${assetId}`, origin).href;
+
+// Direct uploads and reads for post images
+export const mediaRoutes = new Hono<AppEnv>();
+
+// POST /media - Upload one image as the raw request body.
+// Send the image's Content-Type and a Bearer token; the returned assetId
+// is what createPost takes.
+mediaRoutes.post("/media", rateLimitRequests("upload"), async (c) => {
+  const repositories = c.get("repositories");
+  const token = readBearerToken(c.req.header("Authorization") ?? null);
+  const user = token
+    ? await Effect.runPromise(
+        findSessionUser(token).pipe(
+          Effect.tapError((error) => Effect.logError(error)),
+          Effect.provide(repositories)
+        )
+      )
+    : Option.none();
+  if (Option.isNone(user)) {
+    return c.json({ error: "You must be logged in" }, 401);
+  }
+
+  const contentType = (c.req.header("Content-Type") ?? "")
+    .split(";")[0]
+    .trim()
+    .toLowerCase();
+  if (!isSupportedImageType(contentType)) {
+    return c.json(
+      {
+        error: `Unsupported media type. Use one of: ${SUPPORTED_IMAGE_TYPES.join(", ")}`,
+      },
+      415
+    );
+  }
+
+  // Reject oversized uploads before reading them when the client says so
+  if (Number(c.req.header("Content-Length") ?? 0) > MAX_UPLOAD_BYTES) {
+    return c.json({ error: "File too large (max 10 MB)" }, 413);
+  }
+  const bytes = await c.req.arrayBuffer();
+  if (bytes.byteLength === 0) {
+    return c.json({ error: "Empty upload" }, 400);
+  }
+  if (bytes.byteLength > MAX_UPLOAD_BYTES) {
+    return c.json({ error: "File too large (max 10 MB)" }, 413);
+  }
+  const imageSize = readImageSize(contentType, new Uint8Array(bytes));
+  if (!imageSize) {
+    return c.json({ error: `File is not a valid ${contentType}` }, 415);
+  }
+
+  const asset: MediaAsset = {
+    id: crypto.randomUUID(),
+    ownerId: user.value.id,
+    contentType,
+    size: bytes.byteLength,
+    ...imageSize,
+  };
+  await Effect.runPromise(
+    Effect.flatMap(MediaStorage, (storage) =>
+      storage.putAsset(asset, bytes)
+    ).pipe(
+      Effect.tapError((error) => Effect.logError(error)),
+      Effect.tap(() => Effect.log(`Stored asset ${asset.id}`)),
+      Effect.provide(repositories)
+    )
+  );
+
+  return c.json(
+    {
+      assetId: asset.id,
+      url: mediaUrl(c.req.url, asset.id),
+      contentType: asset.contentType,
+      size: asset.size,
+      width: asset.width,
+      height: asset.height,
+    },
+    201
+  );
+});
+
+// GET /media/:assetId - Serve an uploaded image
+mediaRoutes.get("/media/:assetId", async (c) => {
+  const assetId = c.req.param("assetId");
+  if (!z.uuid().safeParse(assetId).success) {
+    return c.json({ error: "Asset not found" }, 404);
+  }
+
+  // The id is a strong validator since an asset's bytes never change
+  const etag = `"${assetId}"`;
+  if (c.req.header("If-None-Match") === etag) {
+    return c.body(null, 304, { ETag: etag, "Cache-Control": CACHE_CONTROL });
+  }
+
+  const found = await Effect.runPromise(
+    Effect.flatMap(MediaStorage, (storage) => storage.readAsset(assetId)).pipe(
+      Effect.tapError((error) => Effect.logError(error)),
+      Effect.provide(c.get("repositories"))
+    )
+  );
+  if (Option.isNone(found)) {
+    return c.json({ error: "Asset not found" }, 404);
+  }
+
+  const { asset, body } = found.value;
+  return c.body(body, 200, {
+    "Content-Type": asset.contentType,
+    "Content-Length": String(asset.size),
+    "Cache-Control": CACHE_CONTROL,
+    ETag: etag,
+    "X-Content-Type-Options": "nosniff",
+  });
+});
@@ -0,0 +1,391 @@
+import { z } from "zod";
+import { Clock, Effect, Option } from "effect";
+import { protectedProcedure, rateLimited, router, runEffect } from "../trpc";
+import {
+  ConversationsRepository,
+  directKeyOf,
+  type StoredConversation,
+} from "../repositories/conversations_repository";
+import { UsersRepository } from "../repositories/users_repository";
+import { MessageLog, type StoredMessage } from "../messaging/message_log";
+import {
+  ConversationSchema,
+  CreateConversationSchema,
+  GetConversationSchema,
+  GetConversationsSchema,
+  GetMessagesSchema,
+  MarkConversationReadSchema,
+  MessageSchema,
+  SendMessageSchema,
+  type Conversation,
+  type Message,
+} from "../schemas/messages";
+import { PageSchema, toPage } from "../schemas/pagination";
+import { formatTimeAgo, type TimeAgoFormat } from "../schemas/time_ago";
+import type { User } from "../schemas/users";
+import type { Post } from "../schemas/insta_posts";
+import { IdGenerator } from "../ids/id_generator";
+import {
+  ConversationNotFound,
+  UserNotFound,
+  ValidationFailed,
+} from "../errors";
+import { findAuthors, postsService } from "./insta_posts";
+
+// Effect that fails with ConversationNotFound unless the user is in it
+const requireMembership = (user: User, conversationId: string) =>
+  Effect.gen(function* () {
+    const repo = yield* ConversationsRepository;
+    const conversation = yield* repo.findConversation(conversationId);
+    if (
+      Option.isNone(conversation) ||
+      !conversation.value.members.some((member) => member.userId === user.id)
+    ) {
+      return yield* new ConversationNotFound({ conversationId });
+    }
+    return conversation.value;
+  });
+
+// Everything after the user's read position. Their own messages move it,
+// so they never count.
+const unreadCountOf = (conversation: StoredConversation, user: User) => {
+  const member = conversation.members.find((m) => m.userId === user.id);
+  return Math.max(0, conversation.lastSeq - (member?.lastReadSeq ?? 0));
+};
+
+// Effect to shape conversations for the user, with their members' current
+// usernames and avatars
+const toConversations = (
+  conversations: ReadonlyArray<StoredConversation>,
+  user: User
+) =>
+  Effect.gen(function* () {
+    const users = yield* findAuthors(
+      conversations.flatMap((conversation) =>
+        conversation.members.map((member) => member.userId)
+      )
+    );
+    return conversations.map((conversation): Conversation => ({
+      id: conversation.id,
+      title: conversation.title,
+      isGroup: conversation.directKey === undefined,
+      members: conversation.members.flatMap((member) => {
+        const memberUser = users.get(member.userId);
+        return memberUser
+          ? [
+              {
+                user: memberUser,
+                lastReadSeq: member.lastReadSeq,
+                lastReadAt:
+                  member.lastReadAt !== undefined
+                    ? new Date(member.lastReadAt).toISOString()
+                    : undefined,
+              },
+            ]
+          : [];
+      }),
+      lastMessage: conversation.lastMessage && {
+        id: conversation.lastMessage.id,
+        senderId: conversation.lastMessage.senderId,
+        text: conversation.lastMessage.text,
+        sharesPost: conversation.lastMessage.postId !== undefined,
+        createdAt: new Date(conversation.lastMessage.createdAt).toISOString(),
+      },
+      unreadCount: unreadCountOf(conversation, user),
+      createdAt: new Date(conversation.createdAt).toISOString(),
+      updatedAt: new Date(conversation.updatedAt).toISOString(),
+    }));
+  });
+
+// Effect to shape messages for the user: senders, read receipts and shared
+// posts as they see them right now
+const toMessages = (
+  conversation: StoredConversation,
+  messages: ReadonlyArray<StoredMessage>,
+  user: User,
+  format?: TimeAgoFormat
+) =>
+  Effect.gen(function* () {
+    const now = yield* Clock.currentTimeMillis;
+    const senders = yield* findAuthors(
+      messages.map((message) => message.senderId)
+    );
+    const postIds = messages.flatMap((message) =>
+      message.postId ? [message.postId] : []
+    );
+    const posts = new Map<string, Post>(
+      (yield* postsService.findPostsByIds(
+        [...new Set(postIds)],
+        user,
+        format ?? { timeAgoStyle: "short" }
+      )).map((post) => [post.id, post])
+    );
+
+    const result: Array<Message> = [];
+    for (const message of messages) {
+      const sender = senders.get(message.senderId);
+      if (!sender) {
+        return yield* new UserNotFound({ userId: message.senderId });
+      }
+      result.push({
+        id: message.id,
+        conversationId: message.conversationId,
+        seq: message.seq,
+        sender,
+        text: message.text,
+        sharedPost: message.postId
+          ? (posts.get(message.postId) ?? null)
+          : undefined,
+        readBy: conversation.members
+          .filter(
+            (member) =>
+              member.userId !== message.senderId &&
+              member.lastReadSeq >= message.seq
+          )
+          .map((member) => member.userId),
+        createdAt: new Date(message.createdAt).toISOString(),
+        timeAgo: formatTimeAgo(message.createdAt, now, format),
+      });
+    }
+    return result;
+  });
+
+// Direct messages: 1:1s and small groups. The MessageLog keeps each
+// conversation's messages in order; ConversationsRepository knows who is
+// in which and how far they've read.
+class MessagesService {
+  // Effect to start a conversation with other users, or get back the
+  // existing 1:1 with one of them
+  createConversation = (
+    user: User,
+    input: z.infer<typeof CreateConversationSchema>
+  ) =>
+    Effect.gen(function* () {
+      const repo = yield* ConversationsRepository;
+      const usersRepo = yield* UsersRepository;
+      const ids = yield* IdGenerator;
+
+      const otherIds = [...new Set(input.userIds)].filter(
+        (id) => id !== user.id
+      );
+      if (otherIds.length === 0) {
+        return yield* new ValidationFailed({
+          field: "userIds",
+          message: "Pick someone other than yourself",
+        });
+      }
+      const found = new Set(
+        (yield* usersRepo.findUsersByIds(otherIds)).map((other) => other.id)
+      );
+      const missing = otherIds.find((id) => !found.has(id));
+      if (missing) {
+        return yield* new UserNotFound({ userId: missing });
+      }
+
+      const directKey =
+        otherIds.length === 1 && !input.title
+          ? directKeyOf(user.id, otherIds[0])
+          : undefined;
+      if (directKey) {
+        const existing = yield* repo.findDirectConversation(directKey);
+        if (Option.isSome(existing)) {
+          return (yield* toConversations([existing.value], user))[0];
+        }
+      }
+
+      const now = yield* Clock.currentTimeMillis;
+      const conversation: StoredConversation = {
+        id: yield* ids.nextId,
+        title: input.title,
+        directKey,
+        createdBy: user.id,
+        createdAt: now,
+        updatedAt: now,
+        lastSeq: 0,
+        members: [user.id, ...otherIds].map((userId) => ({
+          userId,
+          joinedAt: now,
+          lastReadSeq: 0,
+        })),
+      };
+      const inserted = yield* repo.insertConversation(conversation);
+      if (!inserted && directKey) {
+        // The other user started the same 1:1 just now - use theirs
+        const theirs = yield* repo.findDirectConversation(directKey);
+        if (Option.isSome(theirs)) {
+          return (yield* toConversations([theirs.value], user))[0];
+        }
+      }
+      return (yield* toConversations([conversation], user))[0];
+    });
+
+  // Effect to get one page of the user's conversations, most recently
+  // active first, with the last message and how many they haven't read
+  getConversations = (
+    user: User,
+    input: z.infer<typeof GetConversationsSchema>
+  ) =>
+    Effect.gen(function* () {
+      const repo = yield* ConversationsRepository;
+      const conversations = yield* repo.listConversations(
+        user.id,
+        input.cursor,
+        input.limit + 1
+      );
+      const page = toPage(conversations, input.limit, (conversation) => ({
+        key: conversation.updatedAt,
+        id: conversation.id,
+      }));
+      return { ...page, items: yield* toConversations(page.items, user) };
+    });
+
+  // Effect to load one of the user's conversations
+  getConversation = (
+    user: User,
+    input: z.infer<typeof GetConversationSchema>
+  ) =>
+    requireMembership(user, input.conversationId).pipe(
+      Effect.flatMap((conversation) => toConversations([conversation], user)),
+      Effect.map(([conversation]) => conversation)
+    );
+
+  // Effect to get one page of a conversation's messages, newest first
+  getMessages = (user: User, input: z.infer<typeof GetMessagesSchema>) =>
+    Effect.gen(function* () {
+      const log = yield* MessageLog;
+      const conversation = yield* requireMembership(user, input.conversationId);
+      const messages = yield* log.list(
+        conversation.id,
+        input.cursor?.key,
+        input.limit + 1
+      );
+      const page = toPage(messages, input.limit, (message) => ({
+        key: message.seq,
+        id: message.id,
+      }));
+      return {
+        ...page,
+        items: yield* toMessages(conversation, page.items, user, input),
+      };
+    });
+
+  // Effect to send a message - text, a post the sender can see, or both.
+  // Sending marks the conversation read up to it for the sender.
+  sendMessage = (user: User, input: z.infer<typeof SendMessageSchema>) =>
+    Effect.gen(function* () {
+      const repo = yield* ConversationsRepository;
+      const log = yield* MessageLog;
+      const ids = yield* IdGenerator;
+      const conversation = yield* requireMembership(user, input.conversationId);
+      if (input.postId) {
+        yield* postsService.loadVisiblePost(input.postId, user);
+      }
+
+      const now = yield* Clock.currentTimeMillis;
+      const message = yield* log.append(conversation.id, {
+        id: yield* ids.nextId,
+        senderId: user.id,
+        text: input.text,
+        postId: input.postId,
+        createdAt: now,
+      });
+      yield* repo.recordMessage(message);
+      yield* repo.markRead(conversation.id, user.id, message.seq, now);
+
+      const [sent] = yield* toMessages(
+        yield* requireMembership(user, conversation.id),
+        [message],
+        user
+      );
+      return sent;
+    });
+
+  // Effect to move the user's read receipt forward, to the latest message
+  // unless a seq is given. It never moves back.
+  markConversationRead = (
+    user: User,
+    input: z.infer<typeof MarkConversationReadSchema>
+  ) =>
+    Effect.gen(function* () {
+      const repo = yield* ConversationsRepository;
+      const conversation = yield* requireMembership(user, input.conversationId);
+      const seq = Math.min(
+        input.seq ?? conversation.lastSeq,
+        conversation.lastSeq
+      );
+      if (seq > 0) {
+        const now = yield* Clock.currentTimeMillis;
+        yield* repo.markRead(conversation.id, user.id, seq, now);
+      }
+      return (yield* toConversations(
+        [yield* requireMembership(user, conversation.id)],
+        user
+      ))[0];
+    });
+}
+
+// Create service instance
+const messagesService = new MessagesService();
+
+export const messagesRouter = router({
+  // POST /conversations - Start a 1:1 or a group (returns an existing 1:1)
+  createConversation: protectedProcedure
+    .input(CreateConversationSchema)
+    .output(ConversationSchema)
+    .mutation(async ({ ctx, input }) => {
+      return await runEffect(
+        ctx,
+        messagesService.createConversation(ctx.user, input)
+      );
+    }),
+
+  // GET /conversations - The inbox, most recently active first
+  getConversations: protectedProcedure
+    .input(GetConversationsSchema)
+    .output(PageSchema(ConversationSchema))
+    .query(async ({ ctx, input }) => {
+      return await runEffect(
+        ctx,
+        messagesService.getConversations(ctx.user, input)
+      );
+    }),
+
+  // GET /conversations/:id - One conversation with its members' receipts
+  getConversation: protectedProcedure
+    .input(GetConversationSchema)
+    .output(ConversationSchema)
+    .query(async ({ ctx, input }) => {
+      return await runEffect(
+        ctx,
+        messagesService.getConversation(ctx.user, input)
+      );
+    }),
+
+  // GET /conversations/:id/messages - Page through messages, newest first
+  getMessages: protectedProcedure
+    .input(GetMessagesSchema)
+    .output(PageSchema(MessageSchema))
+    .query(async ({ ctx, input }) => {
+      return await runEffect(ctx, messagesService.getMessages(ctx.user, input));
+    }),
+
+  // POST /conversations/:id/messages - Send text or share a post
+  sendMessage: protectedProcedure
+    .use(rateLimited("message"))
+    .input(SendMessageSchema)
+    .output(MessageSchema)
+    .mutation(async ({ ctx, input }) => {
+      return await runEffect(ctx, messagesService.sendMessage(ctx.user, input));
+    }),
+
+  // PUT /conversations/:id/read - Read receipt
+  markConversationRead: protectedProcedure
+    .input(MarkConversationReadSchema)
+    .output(ConversationSchema)
+    .mutation(async ({ ctx, input }) => {
+      return await runEffect(
+        ctx,
+        messagesService.markConversationRead(ctx.user, input)
+      );
+    }),
+});
@@ -0,0 +1,193 @@
+import { z } from "zod";
+import { Clock, Effect, Either } from "effect";
+import {
+  moderatorProcedure,
+  protectedProcedure,
+  rateLimited,
+  router,
+  runEffect,
+} from "../trpc";
+import {
+  ModerationRepository,
+  caseKey,
+  type ModerationCase,
+} from "../repositories/moderation_repository";
+import { PostsRepository } from "../repositories/posts_repository";
+import { UsersRepository } from "../repositories/users_repository";
+import {
+  GetModerationQueueSchema,
+  ModerateContentSchema,
+  ModerationCaseSchema,
+  ReportContentSchema,
+  ReportResultSchema,
+  type ModerationCaseView,
+} from "../schemas/moderation";
+import type { CommentType, Post } from "../schemas/insta_posts";
+import { PageSchema, toPage } from "../schemas/pagination";
+import type { User } from "../schemas/users";
+import { toPublicUser } from "../auth/sessions";
+import { ValidationFailed } from "../errors";
+import { postsService } from "./insta_posts";
+
+// The caption, comment or reply text that's being judged
+const textOf = (entity: Post | CommentType) =>
+  "caption" in entity ? entity.caption : entity.text;
+
+// Reports from users and the moderators' queue
+class ModerationService {
+  // Effect to report a post, comment or reply. Reporting the same thing
+  // twice is a no-op.
+  reportContent = (
+    reporter: User,
+    input: z.infer<typeof ReportContentSchema>
+  ) =>
+    Effect.gen(function* () {
+      const repo = yield* ModerationRepository;
+      const { target, entity } = yield* postsService.findTarget(
+        input.target,
+        reporter
+      );
+      if (entity.userId === reporter.id) {
+        return yield* new ValidationFailed({
+          field: "target",
+          message: "You can't report your own content",
+        });
+      }
+      const reported = yield* repo.addReport({
+        reporterId: reporter.id,
+        target,
+        reason: input.reason,
+        note: input.note || undefined,
+        at: yield* Clock.currentTimeMillis,
+      });
+      return { reported };
+    });
+
+  // Effect to show a case with what's being judged, if it's still there
+  private toCaseView = (entry: ModerationCase) =>
+    Effect.gen(function* () {
+      const usersRepo = yield* UsersRepository;
+      const entity = yield* Effect.either(
+        postsService
+          .findStoredTarget(entry.target)
+          .pipe(Effect.map(({ entity }) => entity))
+      );
+      const [author] =
+        Either.isRight(entity) && entity.right.userId
+          ? yield* usersRepo.findUsersByIds([entity.right.userId])
+          : [];
+      return {
+        target: entry.target,
+        reportCount: entry.reportCount,
+        reasons: entry.reasons,
+        heldFor: entry.heldFor,
+        content: Either.isRight(entity)
+          ? {
+              text: textOf(entity.right),
+              author: author ? toPublicUser(author) : null,
+              hidden: entity.right.hiddenAt !== undefined,
+            }
+          : null,
+        createdAt: new Date(entry.createdAt).toISOString(),
+        updatedAt: new Date(entry.updatedAt).toISOString(),
+      } satisfies ModerationCaseView;
+    });
+
+  // Effect to get one page of open cases, latest activity first
+  getModerationQueue = (input: z.infer<typeof GetModerationQueueSchema>) =>
+    Effect.gen(this, function* () {
+      const repo = yield* ModerationRepository;
+      const cases = yield* repo.listOpenCases(input.cursor, input.limit + 1);
+      const page = toPage(cases, input.limit, (entry) => ({
+        key: entry.updatedAt,
+        id: caseKey(entry.target),
+      }));
+      return {
+        ...page,
+        items: yield* Effect.forEach(page.items, this.toCaseView),
+      };
+    });
+
+  // Effect to apply a moderator's decision and close the case. Approving
+  // held content sends out what it skipped while it was held - once, so a
+  // later hide and approve doesn't announce it again.
+  moderateContent = (
+    moderator: User,
+    input: z.infer<typeof ModerateContentSchema>
+  ) =>
+    Effect.gen(function* () {
+      const repo = yield* ModerationRepository;
+      const postsRepo = yield* PostsRepository;
+      const { target, entity } = yield* postsService.findStoredTarget(
+        input.target
+      );
+
+      const now = yield* Clock.currentTimeMillis;
+      switch (input.action) {
+        case "approve": {
+          yield* postsRepo.setHidden(target, undefined);
+          const unannounced = yield* repo.resolveCase(
+            target,
+            "approved",
+            moderator.id,
+            now
+          );
+          if (entity.hiddenAt) {
+            yield* postsService.announceApproved(target, unannounced);
+          }
+          break;
+        }
+        case "hide":
+          yield* postsRepo.setHidden(target, new Date(now).toISOString());
+          yield* repo.resolveCase(target, "hidden", moderator.id, now);
+          break;
+        case "delete":
+          // Drops the case along with the content
+          yield* postsService.removeTarget(target);
+          break;
+      }
+      return { target, action: input.action };
+    });
+}
+
+// Create service instance
+const moderationService = new ModerationService();
+
+export const moderationRouter = router({
+  // POST /reports - Flag a post, comment or reply for the moderators
+  reportContent: protectedProcedure
+    .use(rateLimited("report"))
+    .input(ReportContentSchema)
+    .output(ReportResultSchema)
+    .mutation(async ({ ctx, input }) => {
+      return await runEffect(
+        ctx,
+        moderationService.reportContent(ctx.user, input)
+      );
+    }),
+
+  // GET /moderation/queue - Reported and held content waiting for a decision
+  getModerationQueue: moderatorProcedure
+    .input(GetModerationQueueSchema)
+    .output(PageSchema(ModerationCaseSchema))
+    .query(async ({ ctx, input }) => {
+      return await runEffect(ctx, moderationService.getModerationQueue(input));
+    }),
+
+  // POST /moderation/decisions - Approve, hide or delete reported content
+  moderateContent: moderatorProcedure
+    .input(ModerateContentSchema)
+    .output(ModerateContentSchema) // The decision that was applied
+    .mutation(async ({ ctx, input }) => {
+      return await runEffect(
+        ctx,
+        moderationService
+          .moderateContent(ctx.user, input)
+          .pipe(
+            Effect.tap(() =>
+              Effect.log(`Moderator ${ctx.user.id} chose ${input.action}`)
+            )
+          )
+      );
+    }),
+});
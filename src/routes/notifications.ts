@@ -0,0 +1,179 @@
+import { z } from "zod";
+import { Clock, Effect } from "effect";
+import { protectedProcedure, router, runEffect } from "../trpc";
+import {
+  NotificationsRepository,
+  type NotificationKind,
+  type StoredNotification,
+} from "../repositories/notifications_repository";
+import { UsersRepository } from "../repositories/users_repository";
+import {
+  GetNotificationsSchema,
+  MarkNotificationsReadSchema,
+  NotificationSchema,
+  UnreadCountSchema,
+  type Notification,
+} from "../schemas/notifications";
+import type { LikeTarget } from "../schemas/insta_posts";
+import { PageSchema, toPage } from "../schemas/pagination";
+import { formatTimeAgo, type TimeAgoFormat } from "../schemas/time_ago";
+import type { User } from "../schemas/users";
+import { toPublicUser } from "../auth/sessions";
+
+// "alice", "alice and bob", "alice and 12 others"
+const describeActors = (actors: ReadonlyArray<User>, count: number) => {
+  const [first, second] = actors.map((actor) => actor.username);
+  const lead = first ?? "Someone";
+  if (count <= 1) {
+    return lead;
+  }
+  if (count === 2 && second) {
+    return `${lead} and ${second}`;
+  }
+  return `${lead} and ${count - 1} ${count === 2 ? "other" : "others"}`;
+};
+
+const describeAction = (kind: NotificationKind, target: LikeTarget) => {
+  switch (kind) {
+    case "comment":
+      return "commented on your post";
+    case "reply":
+      return `replied to your ${target.replyId ? "reply" : "comment"}`;
+    case "like":
+      return `liked your ${target.replyId ? "reply" : target.commentId ? "comment" : "post"}`;
+  }
+};
+
+const toNotification = (
+  notification: StoredNotification,
+  usersById: ReadonlyMap<string, User>,
+  now: number,
+  format: TimeAgoFormat
+): Notification => {
+  const actors = notification.recentActorIds.flatMap(
+    (id) => usersById.get(id) ?? []
+  );
+  return {
+    id: notification.id,
+    kind: notification.kind,
+    target: notification.target,
+    actors,
+    actorCount: notification.actorCount,
+    message: `${describeActors(actors, notification.actorCount)} ${describeAction(notification.kind, notification.target)}`,
+    read: notification.readAt !== undefined,
+    createdAt: new Date(notification.createdAt).toISOString(),
+    updatedAt: new Date(notification.updatedAt).toISOString(),
+    timeAgo: formatTimeAgo(notification.updatedAt, now, format),
+  };
+};
+
+// Effect to let an author know someone liked, commented on or replied to
+// their content. Nothing is recorded for your own content, or for seed
+// content that has no account behind it.
+export const notifyAuthor = (
+  actor: Pick<User, "id">,
+  authorId: string | undefined,
+  kind: NotificationKind,
+  target: LikeTarget
+) =>
+  Effect.gen(function* () {
+    if (!authorId || authorId === actor.id) {
+      return;
+    }
+    const repo = yield* NotificationsRepository;
+    yield* repo.recordActivity({
+      recipientId: authorId,
+      actorId: actor.id,
+      kind,
+      target,
+      at: yield* Clock.currentTimeMillis,
+    });
+  });
+
+// The logged-in user's inbox
+class NotificationsService {
+  // Effect to get one page of the inbox, most recently active first
+  getNotifications = (
+    user: User,
+    input: z.infer<typeof GetNotificationsSchema>
+  ) =>
+    Effect.gen(function* () {
+      const repo = yield* NotificationsRepository;
+      const usersRepo = yield* UsersRepository;
+      const notifications = yield* repo.listNotifications(
+        user.id,
+        input.cursor,
+        input.limit + 1
+      );
+      const page = toPage(notifications, input.limit, (notification) => ({
+        key: notification.updatedAt,
+        id: notification.id,
+      }));
+
+      const actors = yield* usersRepo.findUsersByIds([
+        ...new Set(page.items.flatMap((item) => item.recentActorIds)),
+      ]);
+      const usersById = new Map(
+        actors.map((actor) => [actor.id, toPublicUser(actor)])
+      );
+      const now = yield* Clock.currentTimeMillis;
+      return {
+        ...page,
+        items: page.items.map((item) =>
+          toNotification(item, usersById, now, input)
+        ),
+      };
+    });
+
+  // Effect to count notifications the user hasn't read yet
+  getUnreadCount = (user: User) =>
+    Effect.flatMap(NotificationsRepository, (repo) =>
+      repo.countUnread(user.id)
+    ).pipe(Effect.map((unreadCount) => ({ unreadCount })));
+
+  // Effect to mark some or all notifications read. New activity after this
+  // starts fresh notifications instead of joining the read ones.
+  markRead = (user: User, input: z.infer<typeof MarkNotificationsReadSchema>) =>
+    Effect.gen(this, function* () {
+      const repo = yield* NotificationsRepository;
+      yield* repo.markRead(user.id, input.ids, yield* Clock.currentTimeMillis);
+      return yield* this.getUnreadCount(user);
+    });
+}
+
+// Create service instance
+const notificationsService = new NotificationsService();
+
+export const notificationsRouter = router({
+  // GET /notifications - Page through the inbox
+  getNotifications: protectedProcedure
+    .input(GetNotificationsSchema)
+    .output(PageSchema(NotificationSchema))
+    .query(async ({ ctx, input }) => {
+      return await runEffect(
+        ctx,
+        notificationsService.getNotifications(ctx.user, input)
+      );
+    }),
+
+  // GET /notifications/unread-count - Badge count
+  getUnreadNotificationCount: protectedProcedure
+    .output(UnreadCountSchema)
+    .query(async ({ ctx }) => {
+      return await runEffect(
+        ctx,
+        notificationsService.getUnreadCount(ctx.user)
+      );
+    }),
+
+  // POST /notifications/read - Mark some (or all) notifications read
+  markNotificationsRead: protectedProcedure
+    .input(MarkNotificationsReadSchema)
+    .output(UnreadCountSchema)
+    .mutation(async ({ ctx, input }) => {
+      return await runEffect(
+        ctx,
+        notificationsService.markRead(ctx.user, input)
+      );
+    }),
+});
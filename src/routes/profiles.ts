@@ -0,0 +1,138 @@
+import { z } from "zod";
+import { Effect, Option } from "effect";
+import {
+  protectedProcedure,
+  publicProcedure,
+  router,
+  runEffect,
+} from "../trpc";
+import { UsersRepository } from "../repositories/users_repository";
+import { PostsRepository } from "../repositories/posts_repository";
+import {
+  GetProfileSchema,
+  GetUserPostsSchema,
+  ProfileSchema,
+  UpdateProfileSchema,
+  type Profile,
+} from "../schemas/profiles";
+import { PostSchema } from "../schemas/insta_posts";
+import { PageSchema } from "../schemas/pagination";
+import type { User } from "../schemas/users";
+import { canSeePostsOf } from "../moderation/visibility";
+import { Forbidden, UserNotFound } from "../errors";
+import { postsService } from "./insta_posts";
+
+// Effect that fails with UserNotFound unless the username has an account
+const requireUsername = (username: string) =>
+  Effect.gen(function* () {
+    const repo = yield* UsersRepository;
+    const user = yield* repo.findUserByUsername(username);
+    if (Option.isNone(user)) {
+      return yield* new UserNotFound({ username });
+    }
+    return user.value;
+  });
+
+// "" (or nothing at all) means the field isn't set
+const optionalText = (value: string | undefined) => value || undefined;
+
+// Profile pages: who someone is and the grid of their posts
+class ProfilesService {
+  // Effect to load someone's profile with their counts
+  getProfile = (viewer: User | null, input: z.infer<typeof GetProfileSchema>) =>
+    Effect.gen(function* () {
+      const repo = yield* UsersRepository;
+      const postsRepo = yield* PostsRepository;
+      const user = yield* requireUsername(input.username);
+
+      const counts = yield* repo.countFollows(user.id);
+      return {
+        id: user.id,
+        username: user.username,
+        userAvatar: user.userAvatar,
+        displayName: user.displayName,
+        bio: user.bio,
+        website: user.website,
+        isPrivate: user.isPrivate,
+        postCount: yield* postsRepo.countPosts(user.id),
+        ...counts,
+        followedByMe:
+          viewer && viewer.id !== user.id
+            ? yield* repo.isFollowing(viewer.id, user.id)
+            : false,
+        canSeePosts: yield* canSeePostsOf(viewer, user),
+      } satisfies Profile;
+    });
+
+  // Effect to change the logged-in user's profile. Their posts, comments
+  // and replies show the new avatar from then on.
+  updateProfile = (user: User, input: z.infer<typeof UpdateProfileSchema>) =>
+    Effect.gen(this, function* () {
+      const repo = yield* UsersRepository;
+      const stored = yield* repo.findUserById(user.id);
+      if (Option.isNone(stored)) {
+        return yield* new UserNotFound({ userId: user.id });
+      }
+
+      const current = stored.value;
+      yield* repo.updateProfile(user.id, {
+        userAvatar: input.userAvatar ?? current.userAvatar,
+        displayName: optionalText(input.displayName ?? current.displayName),
+        bio: optionalText(input.bio ?? current.bio),
+        website: optionalText(input.website ?? current.website),
+        isPrivate: input.isPrivate ?? current.isPrivate,
+      });
+      return yield* this.getProfile(user, { username: current.username });
+    });
+
+  // Effect to get one page of someone's posts, newest first. Fails with
+  // Forbidden for a private account the viewer doesn't follow.
+  getUserPosts = (
+    viewer: User | null,
+    input: z.infer<typeof GetUserPostsSchema>
+  ) =>
+    Effect.gen(function* () {
+      const user = yield* requireUsername(input.username);
+      if (!(yield* canSeePostsOf(viewer, user))) {
+        return yield* new Forbidden({
+          message: "This account is private - follow it to see its posts",
+        });
+      }
+      return yield* postsService.getPostsByAuthor(viewer, user.id, input);
+    });
+}
+
+// Create service instance
+const profilesService = new ProfilesService();
+
+export const profilesRouter = router({
+  // GET /users/:username - Profile header: bio, avatar and counts
+  getProfile: publicProcedure
+    .input(GetProfileSchema)
+    .output(ProfileSchema)
+    .query(async ({ ctx, input }) => {
+      return await runEffect(ctx, profilesService.getProfile(ctx.user, input));
+    }),
+
+  // PATCH /me/profile - Edit your own profile
+  updateProfile: protectedProcedure
+    .input(UpdateProfileSchema)
+    .output(ProfileSchema)
+    .mutation(async ({ ctx, input }) => {
+      return await runEffect(
+        ctx,
+        profilesService.updateProfile(ctx.user, input)
+      );
+    }),
+
+  // GET /users/:username/posts - Page through someone's posts
+  getUserPosts: publicProcedure
+    .input(GetUserPostsSchema)
+    .output(PageSchema(PostSchema))
+    .query(async ({ ctx, input }) => {
+      return await runEffect(
+        ctx,
+        profilesService.getUserPosts(ctx.user, input)
+      );
+    }),
+});
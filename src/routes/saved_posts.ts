@@ -0,0 +1,315 @@
+import { z } from "zod";
+import { Clock, Effect, Option } from "effect";
+import { protectedProcedure, router, runEffect } from "../trpc";
+import {
+  SavedPostsRepository,
+  type Collection,
+} from "../repositories/saved_posts_repository";
+import {
+  CollectionPostSchema,
+  CollectionSchema,
+  CreateCollectionSchema,
+  DeleteCollectionSchema,
+  GetSavedPostsSchema,
+  MAX_COLLECTIONS,
+  RenameCollectionSchema,
+  SavePostSchema,
+  SaveStateSchema,
+  UnsavePostSchema,
+  type CollectionView,
+} from "../schemas/saved_posts";
+import { PostSchema } from "../schemas/insta_posts";
+import { PageSchema, toPage } from "../schemas/pagination";
+import type { User } from "../schemas/users";
+import { IdGenerator } from "../ids/id_generator";
+import { CollectionNotFound, ValidationFailed } from "../errors";
+import { postsService } from "./insta_posts";
+
+const toCollectionView = (collection: Collection): CollectionView => ({
+  id: collection.id,
+  name: collection.name,
+  postCount: collection.postCount,
+  createdAt: new Date(collection.createdAt).toISOString(),
+  updatedAt: new Date(collection.updatedAt).toISOString(),
+});
+
+// Effect that fails with CollectionNotFound unless the user owns it -
+// other people's collections don't exist as far as they're concerned
+const requireCollection = (user: User, collectionId: string) =>
+  Effect.gen(function* () {
+    const repo = yield* SavedPostsRepository;
+    const collection = yield* repo.findCollection(user.id, collectionId);
+    if (Option.isNone(collection)) {
+      return yield* new CollectionNotFound({ collectionId });
+    }
+    return collection.value;
+  });
+
+// Effect that fails with ValidationFailed if another of the user's
+// collections already has the name, whatever its case
+const requireUniqueName = (user: User, name: string, collectionId?: string) =>
+  Effect.gen(function* () {
+    const repo = yield* SavedPostsRepository;
+    const collections = yield* repo.listCollections(user.id);
+    const taken = collections.some(
+      (collection) =>
+        collection.id !== collectionId &&
+        collection.name.toLowerCase() === name.toLowerCase()
+    );
+    if (taken) {
+      return yield* new ValidationFailed({
+        field: "name",
+        message: `You already have a collection called "${name}"`,
+      });
+    }
+    return collections;
+  });
+
+// Bookmarks and the collections they're sorted into - private to each user
+class SavedPostsService {
+  // Effect to save a post the user can see, optionally into one of their
+  // collections. Saving again is a no-op.
+  savePost = (user: User, input: z.infer<typeof SavePostSchema>) =>
+    Effect.gen(function* () {
+      const repo = yield* SavedPostsRepository;
+      yield* postsService.loadVisiblePost(input.postId, user);
+      if (input.collectionId) {
+        yield* requireCollection(user, input.collectionId);
+      }
+
+      const now = yield* Clock.currentTimeMillis;
+      yield* repo.savePost(user.id, input.postId, now);
+      if (input.collectionId) {
+        yield* repo.addToCollection(input.collectionId, input.postId, now);
+      }
+      return { postId: input.postId, saved: true };
+    });
+
+  // Effect to unsave a post, taking it out of every collection
+  unsavePost = (user: User, input: z.infer<typeof UnsavePostSchema>) =>
+    Effect.gen(function* () {
+      const repo = yield* SavedPostsRepository;
+      yield* repo.unsavePost(user.id, input.postId);
+      return { postId: input.postId, saved: false };
+    });
+
+  // Effect to get one page of saved posts, or of one collection's posts,
+  // most recently added first. Posts that were hidden since are left out.
+  getSavedPosts = (user: User, input: z.infer<typeof GetSavedPostsSchema>) =>
+    Effect.gen(function* () {
+      const repo = yield* SavedPostsRepository;
+      if (input.collectionId) {
+        yield* requireCollection(user, input.collectionId);
+      }
+      const saved = yield* repo.listSavedPosts(
+        user.id,
+        input.collectionId,
+        input.cursor,
+        input.limit + 1
+      );
+      const page = toPage(saved, input.limit, (save) => ({
+        key: save.savedAt,
+        id: save.postId,
+      }));
+      return {
+        ...page,
+        items: yield* postsService.findPostsByIds(
+          page.items.map((save) => save.postId),
+          user,
+          input
+        ),
+      };
+    });
+
+  // Effect to list the user's collections, most recently updated first
+  getCollections = (user: User) =>
+    Effect.flatMap(SavedPostsRepository, (repo) =>
+      repo.listCollections(user.id)
+    ).pipe(Effect.map((collections) => collections.map(toCollectionView)));
+
+  // Effect to start an empty collection
+  createCollection = (
+    user: User,
+    input: z.infer<typeof CreateCollectionSchema>
+  ) =>
+    Effect.gen(function* () {
+      const repo = yield* SavedPostsRepository;
+      const ids = yield* IdGenerator;
+      const collections = yield* requireUniqueName(user, input.name);
+      if (collections.length >= MAX_COLLECTIONS) {
+        return yield* new ValidationFailed({
+          message: `You can have at most ${MAX_COLLECTIONS} collections`,
+        });
+      }
+
+      const now = yield* Clock.currentTimeMillis;
+      const collection = {
+        id: yield* ids.nextId,
+        userId: user.id,
+        name: input.name,
+        createdAt: now,
+        updatedAt: now,
+      };
+      yield* repo.insertCollection(collection);
+      return toCollectionView({ ...collection, postCount: 0 });
+    });
+
+  // Effect to rename one of the user's collections
+  renameCollection = (
+    user: User,
+    input: z.infer<typeof RenameCollectionSchema>
+  ) =>
+    Effect.gen(function* () {
+      const repo = yield* SavedPostsRepository;
+      const collection = yield* requireCollection(user, input.collectionId);
+      yield* requireUniqueName(user, input.name, collection.id);
+
+      const now = yield* Clock.currentTimeMillis;
+      yield* repo.renameCollection(collection.id, input.name, now);
+      return toCollectionView({
+        ...collection,
+        name: input.name,
+        updatedAt: now,
+      });
+    });
+
+  // Effect to delete one of the user's collections. Its posts stay saved.
+  deleteCollection = (
+    user: User,
+    input: z.infer<typeof DeleteCollectionSchema>
+  ) =>
+    Effect.gen(function* () {
+      const repo = yield* SavedPostsRepository;
+      const collection = yield* requireCollection(user, input.collectionId);
+      yield* repo.deleteCollection(collection.id);
+      return { id: collection.id };
+    });
+
+  // Effect to add a post the user can see to one of their collections,
+  // saving it if it wasn't already. Adding it again is a no-op.
+  addToCollection = (user: User, input: z.infer<typeof CollectionPostSchema>) =>
+    Effect.gen(function* () {
+      const repo = yield* SavedPostsRepository;
+      const collection = yield* requireCollection(user, input.collectionId);
+      yield* postsService.loadVisiblePost(input.postId, user);
+
+      const now = yield* Clock.currentTimeMillis;
+      yield* repo.savePost(user.id, input.postId, now);
+      yield* repo.addToCollection(collection.id, input.postId, now);
+      return toCollectionView(
+        yield* requireCollection(user, input.collectionId)
+      );
+    });
+
+  // Effect to take a post out of one of the user's collections. It stays
+  // saved.
+  removeFromCollection = (
+    user: User,
+    input: z.infer<typeof CollectionPostSchema>
+  ) =>
+    Effect.gen(function* () {
+      const repo = yield* SavedPostsRepository;
+      const collection = yield* requireCollection(user, input.collectionId);
+      yield* repo.removeFromCollection(collection.id, input.postId);
+      return toCollectionView(
+        yield* requireCollection(user, input.collectionId)
+      );
+    });
+}
+
+// Create service instance
+const savedPostsService = new SavedPostsService();
+
+export const savedPostsRouter = router({
+  // PUT /saved/:postId - Bookmark a post, optionally into a collection
+  savePost: protectedProcedure
+    .input(SavePostSchema)
+    .output(SaveStateSchema)
+    .mutation(async ({ ctx, input }) => {
+      return await runEffect(ctx, savedPostsService.savePost(ctx.user, input));
+    }),
+
+  // DELETE /saved/:postId - Remove a bookmark (and the post from collections)
+  unsavePost: protectedProcedure
+    .input(UnsavePostSchema)
+    .output(SaveStateSchema)
+    .mutation(async ({ ctx, input }) => {
+      return await runEffect(
+        ctx,
+        savedPostsService.unsavePost(ctx.user, input)
+      );
+    }),
+
+  // GET /saved - Page through saved posts, or one collection's
+  getSavedPosts: protectedProcedure
+    .input(GetSavedPostsSchema)
+    .output(PageSchema(PostSchema))
+    .query(async ({ ctx, input }) => {
+      return await runEffect(
+        ctx,
+        savedPostsService.getSavedPosts(ctx.user, input)
+      );
+    }),
+
+  // GET /collections - The logged-in user's collections
+  getCollections: protectedProcedure
+    .output(z.array(CollectionSchema))
+    .query(async ({ ctx }) => {
+      return await runEffect(ctx, savedPostsService.getCollections(ctx.user));
+    }),
+
+  // POST /collections - Start a new collection
+  createCollection: protectedProcedure
+    .input(CreateCollectionSchema)
+    .output(CollectionSchema)
+    .mutation(async ({ ctx, input }) => {
+      return await runEffect(
+        ctx,
+        savedPostsService.createCollection(ctx.user, input)
+      );
+    }),
+
+  // PATCH /collections/:id - Rename a collection
+  renameCollection: protectedProcedure
+    .input(RenameCollectionSchema)
+    .output(CollectionSchema)
+    .mutation(async ({ ctx, input }) => {
+      return await runEffect(
+        ctx,
+        savedPostsService.renameCollection(ctx.user, input)
+      );
+    }),
+
+  // DELETE /collections/:id - Delete a collection, keeping its posts saved
+  deleteCollection: protectedProcedure
+    .input(DeleteCollectionSchema)
+    .output(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      return await runEffect(
+        ctx,
+        savedPostsService.deleteCollection(ctx.user, input)
+      );
+    }),
+
+  // PUT /collections/:id/posts/:postId - Add a post to a collection
+  addToCollection: protectedProcedure
+    .input(CollectionPostSchema)
+    .output(CollectionSchema)
+    .mutation(async ({ ctx, input }) => {
+      return await runEffect(
+        ctx,
+        savedPostsService.addToCollection(ctx.user, input)
+      );
+    }),
+
+  // DELETE /collections/:id/posts/:postId - Take a post out of a collection
+  removeFromCollection: protectedProcedure
+    .input(CollectionPostSchema)
+    .output(CollectionSchema)
+    .mutation(async ({ ctx, input }) => {
+      return await runEffect(
+        ctx,
+        savedPostsService.removeFromCollection(ctx.user, input)
+      );
+    }),
+});
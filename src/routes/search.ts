@@ -0,0 +1,140 @@
+import { z } from "zod";
+import { Clock, Effect } from "effect";
+import { publicProcedure, router, runEffect } from "../trpc";
+import {
+  PostsRepository,
+  commentMatchKey,
+} from "../repositories/posts_repository";
+import { UsersRepository } from "../repositories/users_repository";
+import { SearchResultsSchema, SearchSchema } from "../schemas/search";
+import { toPage } from "../schemas/pagination";
+import { formatTimeAgo } from "../schemas/time_ago";
+import type { User } from "../schemas/users";
+import { parseSearchQuery, type SearchQuery } from "../text/search";
+import { toPublicUser } from "../auth/sessions";
+import { audienceOf } from "../moderation/visibility";
+import { findAuthors, postsService, withAuthor } from "./insta_posts";
+
+type SearchInput = z.infer<typeof SearchSchema>;
+
+const emptyPage = { items: [], nextCursor: null };
+
+// Ranked full-text search, one page per kind of result
+class SearchService {
+  // Effect to find posts by caption
+  private searchPosts = (
+    viewer: User | null,
+    query: SearchQuery,
+    input: SearchInput
+  ) =>
+    Effect.gen(function* () {
+      const repo = yield* PostsRepository;
+      const matches = yield* repo.searchPosts(
+        query,
+        audienceOf(viewer),
+        input.cursors.posts,
+        input.limit + 1
+      );
+      const page = toPage(matches, input.limit, (match) => ({
+        key: match.score,
+        id: match.postId,
+      }));
+      return {
+        ...page,
+        items: yield* postsService.findPostsByIds(
+          page.items.map((match) => match.postId),
+          viewer,
+          input
+        ),
+      };
+    });
+
+  // Effect to find comments and replies by text. Hidden ones only show to
+  // their author and moderators, and nothing shows from posts the viewer
+  // can't see; authors show as they are now.
+  private searchComments = (
+    viewer: User | null,
+    query: SearchQuery,
+    input: SearchInput
+  ) =>
+    Effect.gen(function* () {
+      const repo = yield* PostsRepository;
+      const matches = yield* repo.searchComments(
+        query,
+        audienceOf(viewer),
+        input.cursors.comments,
+        input.limit + 1
+      );
+      const page = toPage(matches, input.limit, (match) => ({
+        key: match.score,
+        id: commentMatchKey(match),
+      }));
+      const authors = yield* findAuthors(
+        page.items.flatMap((match) => match.comment.userId ?? [])
+      );
+      const now = yield* Clock.currentTimeMillis;
+      return {
+        ...page,
+        items: page.items.map(({ score: _score, comment, ...match }) => ({
+          ...match,
+          comment: {
+            ...withAuthor(comment, authors),
+            timeAgo: formatTimeAgo(Date.parse(comment.createdAt), now, input),
+          },
+        })),
+      };
+    });
+
+  // Effect to find accounts by username
+  private searchUsers = (query: SearchQuery, input: SearchInput) =>
+    Effect.gen(function* () {
+      const repo = yield* UsersRepository;
+      const matches = yield* repo.searchUsers(
+        query,
+        input.cursors.users,
+        input.limit + 1
+      );
+      const page = toPage(matches, input.limit, (match) => ({
+        key: match.score,
+        id: match.user.id,
+      }));
+      return {
+        ...page,
+        items: page.items.map((match) => toPublicUser(match.user)),
+      };
+    });
+
+  // Effect to search every kind that was asked for. A query without any
+  // letters or digits matches nothing.
+  search = (viewer: User | null, input: SearchInput) =>
+    Effect.gen(this, function* () {
+      const query = parseSearchQuery(input.query, input.prefix);
+      const wants = (kind: SearchInput["kinds"][number]) =>
+        query.terms.length > 0 && input.kinds.includes(kind);
+
+      return {
+        posts: wants("posts")
+          ? yield* this.searchPosts(viewer, query, input)
+          : emptyPage,
+        comments: wants("comments")
+          ? yield* this.searchComments(viewer, query, input)
+          : emptyPage,
+        users: wants("users")
+          ? yield* this.searchUsers(query, input)
+          : emptyPage,
+      };
+    });
+}
+
+// Create service instance
+const searchService = new SearchService();
+
+export const searchRouter = router({
+  // GET /search - Captions, comments and usernames, best matches first
+  search: publicProcedure
+    .input(SearchSchema)
+    .output(SearchResultsSchema)
+    .query(async ({ ctx, input }) => {
+      return await runEffect(ctx, searchService.search(ctx.user, input));
+    }),
+});
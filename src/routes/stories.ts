@@ -0,0 +1,274 @@
+import { z } from "zod";
+import { Clock, Effect, Option } from "effect";
+import { protectedProcedure, rateLimited, router, runEffect } from "../trpc";
+import {
+  StoriesRepository,
+  type StoredStory,
+} from "../repositories/stories_repository";
+import { UsersRepository } from "../repositories/users_repository";
+import {
+  CreateStorySchema,
+  GetStoriesTraySchema,
+  GetStoryViewersSchema,
+  MarkStoryViewedSchema,
+  STORY_TTL_MS,
+  StoryGroupSchema,
+  StorySchema,
+  StoryViewerSchema,
+  type Story,
+  type StoryGroup,
+} from "../schemas/stories";
+import { PageSchema, toPage } from "../schemas/pagination";
+import { formatTimeAgo, type TimeAgoFormat } from "../schemas/time_ago";
+import type { User } from "../schemas/users";
+import { IdGenerator } from "../ids/id_generator";
+import { Forbidden, StoryNotFound } from "../errors";
+import { findAuthors, resolveMedia } from "./insta_posts";
+import { canSeePostsOf } from "../moderation/visibility";
+
+// The view count is only for the author's eyes
+const toStory = (
+  story: StoredStory,
+  viewer: User,
+  viewedByMe: boolean,
+  now: number,
+  format?: TimeAgoFormat
+): Story => ({
+  id: story.id,
+  userId: story.userId,
+  media: story.media,
+  createdAt: new Date(story.createdAt).toISOString(),
+  expiresAt: new Date(story.expiresAt).toISOString(),
+  timeAgo: formatTimeAgo(story.createdAt, now, format),
+  viewedByMe,
+  viewCount: story.userId === viewer.id ? story.viewCount : undefined,
+});
+
+// Effect that fails with StoryNotFound unless the story is still up and
+// the viewer may see its author's posts
+const requireActiveStory = (viewer: User, storyId: string, now: number) =>
+  Effect.gen(function* () {
+    const repo = yield* StoriesRepository;
+    const users = yield* UsersRepository;
+    const story = yield* repo.findStory(storyId);
+    if (Option.isNone(story) || story.value.expiresAt <= now) {
+      return yield* new StoryNotFound({ storyId });
+    }
+    const author = yield* users.findUserById(story.value.userId);
+    if (
+      Option.isNone(author) ||
+      !(yield* canSeePostsOf(viewer, author.value))
+    ) {
+      return yield* new StoryNotFound({ storyId });
+    }
+    return story.value;
+  });
+
+// Effect to purge every story that has expired, with its views. Run by the
+// scheduled handler in src/index.ts; expired stories are already hidden
+// from reads, so it only has to keep up roughly.
+export const expireStories = Effect.gen(function* () {
+  const repo = yield* StoriesRepository;
+  const now = yield* Clock.currentTimeMillis;
+  const deleted = yield* repo.deleteExpiredStories(now);
+  yield* Effect.log(`Deleted ${deleted} expired stories`);
+  return deleted;
+});
+
+// Stories: single images that disappear a day after they're posted
+class StoriesService {
+  // Effect to post a story from an uploaded image
+  createStory = (
+    author: User,
+    input: z.infer<typeof CreateStorySchema>,
+    origin: string
+  ) =>
+    Effect.gen(function* () {
+      const repo = yield* StoriesRepository;
+      const ids = yield* IdGenerator;
+      const [media] = yield* resolveMedia(author, [input.media], origin);
+
+      const now = yield* Clock.currentTimeMillis;
+      const story: StoredStory = {
+        id: yield* ids.nextId,
+        userId: author.id,
+        media,
+        createdAt: now,
+        expiresAt: now + STORY_TTL_MS,
+        viewCount: 0,
+      };
+      yield* repo.insertStory(story);
+      return toStory(story, author, false, now);
+    });
+
+  // Effect to load the stories tray: the user's own stories first, then
+  // the people they follow with stories they haven't seen, then the rest -
+  // each most recently posted first
+  getStoriesTray = (user: User, input: z.infer<typeof GetStoriesTraySchema>) =>
+    Effect.gen(function* () {
+      const repo = yield* StoriesRepository;
+      const users = yield* UsersRepository;
+      const now = yield* Clock.currentTimeMillis;
+
+      const following = yield* users.findFollowingIds(user.id);
+      const stories = yield* repo.listActiveStories(
+        [user.id, ...following],
+        now
+      );
+      const viewed = new Set(
+        yield* repo.findViewedStoryIds(
+          user.id,
+          stories.map((story) => story.id)
+        )
+      );
+      const authors = yield* findAuthors(stories.map((story) => story.userId));
+
+      // Oldest first within each group, as listed
+      const byAuthor = new Map<string, Array<StoredStory>>();
+      for (const story of stories) {
+        byAuthor.set(story.userId, [
+          ...(byAuthor.get(story.userId) ?? []),
+          story,
+        ]);
+      }
+
+      const groups: Array<StoryGroup & { isMine: boolean }> = [];
+      for (const [authorId, authored] of byAuthor) {
+        const author = authors.get(authorId);
+        if (!author) {
+          continue;
+        }
+        // Your own stories count as seen
+        const isMine = authorId === user.id;
+        const items = authored.map((story) =>
+          toStory(story, user, isMine || viewed.has(story.id), now, input)
+        );
+        groups.push({
+          author,
+          stories: items,
+          hasUnseen: items.some((story) => !story.viewedByMe),
+          latestAt: items[items.length - 1].createdAt,
+          isMine,
+        });
+      }
+
+      return groups
+        .sort(
+          (a, b) =>
+            Number(b.isMine) - Number(a.isMine) ||
+            Number(b.hasUnseen) - Number(a.hasUnseen) ||
+            Date.parse(b.latestAt) - Date.parse(a.latestAt)
+        )
+        .map(({ isMine: _isMine, ...group }) => group);
+    });
+
+  // Effect to record that the user saw a story. Seeing it again, or your
+  // own story, doesn't count.
+  markStoryViewed = (
+    user: User,
+    input: z.infer<typeof MarkStoryViewedSchema>
+  ) =>
+    Effect.gen(function* () {
+      const repo = yield* StoriesRepository;
+      const now = yield* Clock.currentTimeMillis;
+      const story = yield* requireActiveStory(user, input.storyId, now);
+      if (story.userId !== user.id) {
+        yield* repo.addView(story.id, user.id, now);
+      }
+      return toStory(story, user, true, now);
+    });
+
+  // Effect to get one page of who saw one of the user's stories, most
+  // recent first
+  getStoryViewers = (
+    user: User,
+    input: z.infer<typeof GetStoryViewersSchema>
+  ) =>
+    Effect.gen(function* () {
+      const repo = yield* StoriesRepository;
+      const now = yield* Clock.currentTimeMillis;
+      const story = yield* requireActiveStory(user, input.storyId, now);
+      if (story.userId !== user.id) {
+        return yield* new Forbidden({
+          message: "Only the author can see who viewed a story",
+        });
+      }
+
+      const views = yield* repo.listViews(
+        story.id,
+        input.cursor,
+        input.limit + 1
+      );
+      const page = toPage(views, input.limit, (view) => ({
+        key: view.viewedAt,
+        id: view.userId,
+      }));
+      const viewers = yield* findAuthors(page.items.map((view) => view.userId));
+
+      // A view whose account is gone has nobody to show
+      return {
+        ...page,
+        items: page.items.flatMap((view) => {
+          const viewer = viewers.get(view.userId);
+          return viewer
+            ? [
+                {
+                  user: viewer,
+                  viewedAt: new Date(view.viewedAt).toISOString(),
+                },
+              ]
+            : [];
+        }),
+      };
+    });
+}
+
+// Create service instance
+export const storiesService = new StoriesService();
+
+export const storiesRouter = router({
+  // POST /stories - Post a story that disappears after 24 hours
+  createStory: protectedProcedure
+    .use(rateLimited("createStory"))
+    .input(CreateStorySchema)
+    .output(StorySchema)
+    .mutation(async ({ ctx, input }) => {
+      return await runEffect(
+        ctx,
+        storiesService.createStory(ctx.user, input, ctx.origin)
+      );
+    }),
+
+  // GET /stories - The tray of active stories from you and who you follow
+  getStoriesTray: protectedProcedure
+    .input(GetStoriesTraySchema)
+    .output(z.array(StoryGroupSchema))
+    .query(async ({ ctx, input }) => {
+      return await runEffect(
+        ctx,
+        storiesService.getStoriesTray(ctx.user, input)
+      );
+    }),
+
+  // PUT /stories/:id/views - Mark a story as seen
+  markStoryViewed: protectedProcedure
+    .input(MarkStoryViewedSchema)
+    .output(StorySchema)
+    .mutation(async ({ ctx, input }) => {
+      return await runEffect(
+        ctx,
+        storiesService.markStoryViewed(ctx.user, input)
+      );
+    }),
+
+  // GET /stories/:id/views - Who saw your story
+  getStoryViewers: protectedProcedure
+    .input(GetStoryViewersSchema)
+    .output(PageSchema(StoryViewerSchema))
+    .query(async ({ ctx, input }) => {
+      return await runEffect(
+        ctx,
+        storiesService.getStoryViewers(ctx.user, input)
+      );
+    }),
+});
@@ -0,0 +1,40 @@
+import { z } from "zod";
+import { IdSchema } from "./ids";
+import { CommentSchema, PostSchema } from "./insta_posts";
+import { TimeAgoInputSchema } from "./time_ago";
+
+// What changes on a post after it's created - clients patch their cached
+// copy with it. likedByMe and savedByMe stay per viewer, so they aren't
+// included.
+export const PostUpdateSchema = PostSchema.pick({
+  id: true,
+  caption: true,
+  likes: true,
+  totalCommentsCount: true,
+  updatedAt: true,
+  editedAt: true,
+  version: true,
+});
+
+export type PostUpdate = z.infer<typeof PostUpdateSchema>;
+
+// A comment, or a reply when parentCommentId is set
+export const NewCommentEventSchema = z.object({
+  postId: z.string(),
+  parentCommentId: z.string().optional(), // The comment or reply it answers
+  comment: CommentSchema,
+});
+
+export type NewCommentEvent = z.infer<typeof NewCommentEventSchema>;
+
+// Input schemas for the subscriptions
+export const OnPostUpdatedSchema = z.object({
+  postId: IdSchema("Post ID"),
+});
+
+export const OnNewCommentSchema = z.object({
+  postId: IdSchema("Post ID"),
+  ...TimeAgoInputSchema.shape,
+});
+
+export const OnNewPostSchema = TimeAgoInputSchema.prefault({});
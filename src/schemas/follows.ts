@@ -0,0 +1,22 @@
+import { z } from "zod";
+import { IdSchema } from "./ids";
+import { PageInputSchema } from "./pagination";
+
+// Input schema for following/unfollowing someone
+export const FollowSchema = z.object({
+  userId: IdSchema("User ID"),
+});
+
+// Input schema for paging through someone's followers or who they follow
+export const GetFollowsSchema = z.object({
+  userId: IdSchema("User ID"),
+  ...PageInputSchema.shape,
+});
+
+// Follower/following counts for a user, as seen by the viewer
+export const FollowStatsSchema = z.object({
+  userId: z.string(),
+  followers: z.number(),
+  following: z.number(),
+  followedByMe: z.boolean(), // Always false when logged out
+});
@@ -0,0 +1,12 @@
+import { z } from "zod";
+
+// ULIDs for new posts, comments and replies, UUIDs for accounts, uploads
+// and notifications, and the short ids of older posts ("1", "c_1712...")
+const ID_FORMAT = /^[A-Za-z0-9_-]{1,64}$/;
+
+// Input schema for an id, named in the error messages ("Post ID")
+export const IdSchema = (name: string) =>
+  z
+    .string()
+    .min(1, `${name} is required`)
+    .regex(ID_FORMAT, `${name} is not a valid ID`);
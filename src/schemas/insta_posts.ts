@@ -0,0 +1,312 @@
+import { z } from "zod";
+import { IdSchema } from "./ids";
+import { PageInputSchema } from "./pagination";
+import { TimeAgoInputSchema } from "./time_ago";
+import { UserSchema } from "./users";
+import { normalizeHashtag } from "../text/entities";
+
+// Define our data schemas using Zod for validation
+// This ensures type safety and data validation
+
+// An @mention or #hashtag in a caption or comment. start/end are UTF-16
+// offsets (end exclusive), so text.slice(start, end) is "@bob" or "#tag".
+// Mentions only count when the username belongs to an account.
+export const TextEntitySchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("mention"),
+    start: z.number(),
+    end: z.number(),
+    username: z.string(),
+    userId: z.string(),
+  }),
+  z.object({
+    type: z.literal("hashtag"),
+    start: z.number(),
+    end: z.number(),
+    tag: z.string(), // Lowercase - what getPostsByHashtag takes
+  }),
+]);
+
+export type TextEntity = z.infer<typeof TextEntitySchema>;
+
+// Comment schema - matches your CommentData interface
+// Define the type first for recursive reference
+export type CommentType = {
+  id: string;
+  userId?: string; // Author account; missing on seed data
+  username: string;
+  userAvatar: string;
+  text: string;
+  entities?: TextEntity[]; // Parsed from text; missing on seed data
+  likes: number;
+  likedByMe?: boolean; // Set per request for the logged-in viewer
+  timeAgo?: string; // Set per request from createdAt
+  createdAt: string; // ISO timestamp
+  updatedAt: string; // ISO timestamp of the last edit or delete
+  version: number; // Bumped by every edit or delete; likes leave it alone
+  editedAt?: string; // ISO timestamp of the last edit
+  deletedAt?: string; // Soft-deleted comment or reply kept as "[deleted]" for its replies
+  hiddenAt?: string; // Hidden by moderation - only its author and moderators see it
+  parentId?: string; // Replies only: the comment or reply this answers
+  replyCount?: number; // Direct replies
+  replies?: CommentType[];
+};
+
+export const CommentSchema: z.ZodType<CommentType> = z.object({
+  id: z.string(),
+  userId: z.string().optional(),
+  username: z.string(),
+  userAvatar: z.string(),
+  text: z.string(),
+  entities: z.array(TextEntitySchema).optional(),
+  likes: z.number(),
+  likedByMe: z.boolean().optional(),
+  timeAgo: z.string().optional(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  version: z.number(),
+  editedAt: z.string().optional(),
+  deletedAt: z.string().optional(),
+  hiddenAt: z.string().optional(),
+  parentId: z.string().optional(),
+  replyCount: z.number().optional(),
+  replies: z
+    .array(z.lazy((): z.ZodType<CommentType> => CommentSchema))
+    .optional(), // Recursive for nested comments
+});
+
+// Aspect-ratio crops the app offers; no crop keeps the image's own ratio
+export const MediaCropSchema = z.enum(["1:1", "4:5", "1.91:1"]);
+
+// Carousels hold up to 10 images
+export const MAX_MEDIA_ITEMS = 10;
+
+// One image in a post's carousel
+export const MediaItemSchema = z.object({
+  assetId: z.string().optional(), // Missing on posts from before uploads
+  url: z.string(),
+  width: z.number().nullable(), // Pixels; null when unknown (older posts)
+  height: z.number().nullable(),
+  altText: z.string().optional(),
+  crop: MediaCropSchema.optional(),
+});
+
+export type MediaItem = z.infer<typeof MediaItemSchema>;
+
+// Post schema - matches your PostData interface
+export const PostSchema = z.object({
+  id: z.string(),
+  userId: z.string().optional(), // Author account; missing on seed data
+  username: z.string(),
+  userAvatar: z.string(),
+  image: z.string(), // Cover image (the first media item) for older clients
+  media: z.array(MediaItemSchema).min(1).max(MAX_MEDIA_ITEMS),
+  caption: z.string(),
+  entities: z.array(TextEntitySchema).optional(), // Parsed from the caption
+  likes: z.number(),
+  likedByMe: z.boolean().optional(), // Set per request for the logged-in viewer
+  savedByMe: z.boolean().optional(), // Set per request for the logged-in viewer
+  timeAgo: z.string().optional(), // Set per request from createdAt
+  createdAt: z.string(), // ISO timestamp
+  updatedAt: z.string(), // ISO timestamp of the last edit
+  version: z.number(), // Bumped by caption edits, not by likes or comments
+  editedAt: z.string().optional(), // ISO timestamp of the last caption edit
+  hiddenAt: z.string().optional(), // Hidden by moderation - only its author and moderators see it
+  // Full tree from getPostById; only the latest few (no replies) in feeds
+  comments: z.array(CommentSchema),
+  totalCommentsCount: z.number(), // Comments + replies, maintained on write
+});
+
+export type Post = z.infer<typeof PostSchema>;
+
+// Input schema for the feed - every field is optional
+export const GetPostsSchema = z
+  .object({
+    ...PageInputSchema.shape,
+    author: z.string().min(1).optional(), // Username
+    since: z.iso.datetime().optional(), // Only posts created at or after
+    ...TimeAgoInputSchema.shape,
+  })
+  .prefault({});
+
+// Input schema for the logged-in user's home feed
+export const GetHomeFeedSchema = z
+  .object({
+    ...PageInputSchema.shape,
+    ...TimeAgoInputSchema.shape,
+  })
+  .prefault({});
+
+export const GetPostByIdSchema = z.object({
+  id: IdSchema("Post ID"),
+  ...TimeAgoInputSchema.shape,
+});
+
+// Input schema for lazy-loading a post's comments (without their replies)
+export const GetCommentsSchema = z.object({
+  postId: IdSchema("Post ID"),
+  sort: z.enum(["top", "newest"]).default("top"),
+  ...PageInputSchema.shape,
+  ...TimeAgoInputSchema.shape,
+});
+
+// Input schema for lazy-loading a comment's replies, oldest first
+export const GetRepliesSchema = z.object({
+  postId: IdSchema("Post ID"),
+  // A comment, or a reply to page through replies to replies
+  commentId: IdSchema("Comment ID"),
+  ...PageInputSchema.shape,
+  ...TimeAgoInputSchema.shape,
+});
+
+// One image of a new post or story. Images are uploaded first via
+// POST /media, which returns their assetIds.
+export const MediaInputSchema = z.object({
+  assetId: z.uuid("Must be an uploaded asset id"),
+  altText: z.string().max(300, "Alt text too long").optional(),
+  crop: MediaCropSchema.optional(),
+});
+
+export type MediaInput = z.infer<typeof MediaInputSchema>;
+
+// Input schema for creating new posts
+// The author comes from the session, never from the request body.
+export const CreatePostSchema = z.object({
+  media: z
+    .array(MediaInputSchema)
+    .min(1, "At least one image is required")
+    .max(MAX_MEDIA_ITEMS, `At most ${MAX_MEDIA_ITEMS} images per post`)
+    .refine(
+      (items) =>
+        new Set(items.map((item) => item.assetId)).size === items.length,
+      "Each image can only appear once"
+    ),
+  caption: z.string().max(500, "Caption too long"),
+});
+
+// Input schema for editing a post - only the caption can change
+// The version the client last saw, if it sent one. Edits fail with
+// CONFLICT when the post, comment or reply changed since.
+const ExpectedVersionSchema = z.number().int().min(1).optional();
+
+export const UpdatePostSchema = z.object({
+  id: IdSchema("Post ID"),
+  caption: z.string().max(500, "Caption too long"),
+  expectedVersion: ExpectedVersionSchema,
+});
+
+export const DeletePostSchema = z.object({
+  id: IdSchema("Post ID"),
+});
+
+// Input schema for creating new comments
+export const CreateCommentSchema = z.object({
+  postId: IdSchema("Post ID"),
+  text: z
+    .string()
+    .min(1, "Comment text is required")
+    .max(300, "Comment too long"),
+});
+
+// Replies nest this many levels under a comment. Answering a reply at the
+// deepest level adds a sibling that starts with "@username" instead.
+export const MAX_REPLY_DEPTH = 3;
+
+// Input schema for creating replies to comments and to other replies
+export const CreateReplySchema = z.object({
+  postId: IdSchema("Post ID"),
+  // The comment or reply being answered, at any depth
+  commentId: IdSchema("Comment ID"),
+  text: z.string().min(1, "Reply text is required").max(300, "Reply too long"),
+});
+
+// Input schemas for editing and deleting your own comments and replies
+export const EditCommentSchema = z.object({
+  postId: IdSchema("Post ID"),
+  commentId: IdSchema("Comment ID"),
+  text: z
+    .string()
+    .min(1, "Comment text is required")
+    .max(300, "Comment too long"),
+  expectedVersion: ExpectedVersionSchema,
+});
+
+export const DeleteCommentSchema = z.object({
+  postId: IdSchema("Post ID"),
+  commentId: IdSchema("Comment ID"),
+});
+
+// Replies are found by replyId alone at any depth; commentId (the
+// top-level comment) is optional
+export const EditReplySchema = z.object({
+  postId: IdSchema("Post ID"),
+  commentId: IdSchema("Comment ID").optional(),
+  replyId: IdSchema("Reply ID"),
+  text: z.string().min(1, "Reply text is required").max(300, "Reply too long"),
+  expectedVersion: ExpectedVersionSchema,
+});
+
+export const DeleteReplySchema = z.object({
+  postId: IdSchema("Post ID"),
+  commentId: IdSchema("Comment ID").optional(),
+  replyId: IdSchema("Reply ID"),
+});
+
+// Input schema for liking/unliking comments and replies
+export const LikeCommentSchema = z.object({
+  postId: IdSchema("Post ID"),
+  commentId: IdSchema("Comment ID"),
+});
+
+export const LikeReplySchema = z.object({
+  postId: IdSchema("Post ID"),
+  commentId: IdSchema("Comment ID").optional(),
+  replyId: IdSchema("Reply ID"),
+});
+
+// Anything that can be liked: a post, a comment (commentId) or a reply at
+// any depth (replyId). Responses always fill in a reply's commentId - the
+// top-level comment it hangs under.
+export const LikeTargetSchema = z.object({
+  postId: IdSchema("Post ID"),
+  commentId: IdSchema("Comment ID").optional(),
+  replyId: IdSchema("Reply ID").optional(),
+});
+
+export type LikeTarget = z.infer<typeof LikeTargetSchema>;
+
+// Input schema for paging through who liked something
+export const GetLikersSchema = z.object({
+  target: LikeTargetSchema,
+  ...PageInputSchema.shape,
+});
+
+// Input schema for the posts whose caption has a hashtag, newest first.
+// Accepts "sunset", "#sunset" or "#Sunset".
+export const GetPostsByHashtagSchema = z.object({
+  tag: z
+    .string()
+    .min(1, "Tag is required")
+    .max(101, "Tag too long")
+    .transform(normalizeHashtag),
+  ...PageInputSchema.shape,
+  ...TimeAgoInputSchema.shape,
+});
+
+// Input schema for paging through where the logged-in user was mentioned
+export const GetMentionsSchema = z
+  .object({
+    ...PageInputSchema.shape,
+    ...TimeAgoInputSchema.shape,
+  })
+  .prefault({});
+
+// A caption, comment or reply that mentions the user, with its author
+export const MentionSchema = z.object({
+  target: LikeTargetSchema, // Where the mention is
+  author: UserSchema,
+  text: z.string(),
+  entities: z.array(TextEntitySchema),
+  createdAt: z.string(), // ISO timestamp the mention was made
+  timeAgo: z.string().optional(), // Set per request from createdAt
+});
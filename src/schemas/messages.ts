@@ -0,0 +1,103 @@
+import { z } from "zod";
+import { IdSchema } from "./ids";
+import { PostSchema } from "./insta_posts";
+import { PageInputSchema } from "./pagination";
+import { TimeAgoInputSchema } from "./time_ago";
+import { UserSchema } from "./users";
+
+// Groups are for a handful of friends, not broadcasts - creator included
+export const MAX_CONVERSATION_MEMBERS = 32;
+
+export const MAX_MESSAGE_LENGTH = 1000;
+
+// A message in a conversation. Shared posts come back the way getPostById
+// shows them to you, or null once you can't see them anymore.
+export const MessageSchema = z.object({
+  id: z.string(),
+  conversationId: z.string(),
+  seq: z.number(), // Position in the conversation, from 1
+  sender: UserSchema,
+  text: z.string(), // "" when only sharing a post
+  sharedPost: PostSchema.nullable().optional(), // Only on shares
+  readBy: z.array(z.string()), // Other members who have read it
+  createdAt: z.string(), // ISO timestamp
+  timeAgo: z.string().optional(), // Set per request from createdAt
+});
+
+export type Message = z.infer<typeof MessageSchema>;
+
+// The inbox line for the last message - no need to load a shared post
+export const MessagePreviewSchema = z.object({
+  id: z.string(),
+  senderId: z.string(),
+  text: z.string(),
+  sharesPost: z.boolean(),
+  createdAt: z.string(), // ISO timestamp
+});
+
+export const ConversationMemberSchema = z.object({
+  user: UserSchema,
+  lastReadSeq: z.number(), // 0 before they've read anything
+  lastReadAt: z.string().optional(), // ISO timestamp
+});
+
+export const ConversationSchema = z.object({
+  id: z.string(),
+  title: z.string().optional(), // Groups only
+  isGroup: z.boolean(),
+  members: z.array(ConversationMemberSchema), // You included
+  lastMessage: MessagePreviewSchema.optional(),
+  unreadCount: z.number(),
+  createdAt: z.string(), // ISO timestamp
+  updatedAt: z.string(), // ISO timestamp of the last message
+});
+
+export type Conversation = z.infer<typeof ConversationSchema>;
+
+// Input schema for starting a conversation. One other user and no title
+// gives you your 1:1 with them - the same one every time.
+export const CreateConversationSchema = z.object({
+  userIds: z
+    .array(IdSchema("User ID"))
+    .min(1, "Pick at least one person")
+    .max(
+      MAX_CONVERSATION_MEMBERS - 1,
+      `At most ${MAX_CONVERSATION_MEMBERS} people per conversation`
+    ),
+  title: z.string().trim().min(1).max(50, "Title too long").optional(),
+});
+
+export const GetConversationsSchema = PageInputSchema;
+
+export const GetConversationSchema = z.object({
+  conversationId: IdSchema("Conversation ID"),
+});
+
+// Input schema for a page of messages, newest first
+export const GetMessagesSchema = z.object({
+  conversationId: IdSchema("Conversation ID"),
+  ...PageInputSchema.shape,
+  ...TimeAgoInputSchema.shape,
+});
+
+// Input schema for sending text, sharing a post, or both
+export const SendMessageSchema = z
+  .object({
+    conversationId: IdSchema("Conversation ID"),
+    text: z
+      .string()
+      .trim()
+      .max(MAX_MESSAGE_LENGTH, "Message too long")
+      .default(""),
+    postId: IdSchema("Post ID").optional(),
+  })
+  .refine((input) => input.text !== "" || input.postId, {
+    message: "Write something or share a post",
+    path: ["text"],
+  });
+
+// Input schema for a read receipt - up to the latest message by default
+export const MarkConversationReadSchema = z.object({
+  conversationId: IdSchema("Conversation ID"),
+  seq: z.number().int().min(1).optional(),
+});
@@ -0,0 +1,62 @@
+import { z } from "zod";
+import { LikeTargetSchema } from "./insta_posts";
+import { PageInputSchema } from "./pagination";
+import { UserSchema } from "./users";
+
+export const ReportReasonSchema = z.enum([
+  "spam",
+  "harassment",
+  "hate",
+  "nudity",
+  "violence",
+  "other",
+]);
+
+export type ReportReason = z.infer<typeof ReportReasonSchema>;
+
+// Input schema for reporting a post, comment or reply
+export const ReportContentSchema = z.object({
+  target: LikeTargetSchema,
+  reason: ReportReasonSchema,
+  note: z.string().trim().max(500, "Note too long").optional(),
+});
+
+export const ReportResultSchema = z.object({
+  reported: z.boolean(), // False when you had already reported it
+});
+
+// Input schema for paging through the open cases, latest activity first
+export const GetModerationQueueSchema = z
+  .object({ ...PageInputSchema.shape })
+  .prefault({});
+
+// approve: visible again, and the reports are dealt with
+// hide: only the author (and moderators) can see it
+// delete: gone, like when its author deletes it
+export const ModerationActionSchema = z.enum(["approve", "hide", "delete"]);
+
+// Input schema for a moderator's decision on a post, comment or reply
+export const ModerateContentSchema = z.object({
+  target: LikeTargetSchema,
+  action: ModerationActionSchema,
+});
+
+// A reported or held post, comment or reply waiting for a decision
+export const ModerationCaseSchema = z.object({
+  target: LikeTargetSchema,
+  reportCount: z.number(),
+  reasons: z.partialRecord(ReportReasonSchema, z.number()), // Reports per reason
+  heldFor: z.string().optional(), // Why the text filter held it back
+  // What's being judged; null once it's gone
+  content: z
+    .object({
+      text: z.string(), // Caption, comment or reply text
+      author: UserSchema.nullable(), // Null for seed content
+      hidden: z.boolean(),
+    })
+    .nullable(),
+  createdAt: z.string(), // ISO timestamp of the first report or hold
+  updatedAt: z.string(), // ISO timestamp of the latest
+});
+
+export type ModerationCaseView = z.infer<typeof ModerationCaseSchema>;
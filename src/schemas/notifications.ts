@@ -0,0 +1,42 @@
+import { z } from "zod";
+import { IdSchema } from "./ids";
+import { LikeTargetSchema } from "./insta_posts";
+import { PageInputSchema } from "./pagination";
+import { TimeAgoInputSchema } from "./time_ago";
+import { UserSchema } from "./users";
+
+// One inbox entry - everyone who did the same thing to the same target
+// since the last time it was read
+export const NotificationSchema = z.object({
+  id: z.string(),
+  kind: z.enum(["like", "comment", "reply"]),
+  // The liked post/comment/reply, the commented post or the
+  // comment or reply that was answered
+  target: LikeTargetSchema,
+  actors: z.array(UserSchema), // The most recent few, newest first
+  actorCount: z.number(),
+  message: z.string(), // "alice and 12 others liked your post"
+  read: z.boolean(),
+  createdAt: z.string(), // ISO timestamp
+  updatedAt: z.string(), // ISO timestamp of the latest activity
+  timeAgo: z.string().optional(), // Set per request from updatedAt
+});
+
+export type Notification = z.infer<typeof NotificationSchema>;
+
+// Input schema for paging through the inbox, most recently active first
+export const GetNotificationsSchema = z
+  .object({
+    ...PageInputSchema.shape,
+    ...TimeAgoInputSchema.shape,
+  })
+  .prefault({});
+
+// Input schema for marking notifications read - all of them without ids
+export const MarkNotificationsReadSchema = z
+  .object({
+    ids: z.array(IdSchema("Notification ID")).min(1).max(100).optional(),
+  })
+  .prefault({});
+
+export const UnreadCountSchema = z.object({ unreadCount: z.number() });
@@ -0,0 +1,62 @@
+import { z } from "zod";
+
+// Position in a sorted list: the sort key of the last item plus its id
+// as a tie-breaker. Clients only ever see it as an opaque string.
+export type Cursor = { key: number; id: string };
+
+export const encodeCursor = (cursor: Cursor) =>
+  btoa(JSON.stringify([cursor.key, cursor.id]));
+
+const decodeCursor = (value: string): Cursor | null => {
+  try {
+    const decoded: unknown = JSON.parse(atob(value));
+    if (
+      Array.isArray(decoded) &&
+      typeof decoded[0] === "number" &&
+      typeof decoded[1] === "string"
+    ) {
+      return { key: decoded[0], id: decoded[1] };
+    }
+    return null;
+  } catch {
+    return null;
+  }
+};
+
+// Opaque cursor input - decoded during validation so bad cursors are a 400
+export const CursorSchema = z.string().transform((value, ctx) => {
+  const cursor = decodeCursor(value);
+  if (!cursor) {
+    ctx.addIssue({ code: "custom", message: "Invalid cursor" });
+    return z.NEVER;
+  }
+  return cursor;
+});
+
+// Shared paging input - spread into each list procedure's input schema
+export const PageInputSchema = z.object({
+  cursor: CursorSchema.optional(),
+  limit: z.number().int().min(1).max(50).default(20),
+});
+
+// Shared paging output
+export const PageSchema = <T extends z.ZodType>(item: T) =>
+  z.object({
+    items: z.array(item),
+    nextCursor: z.string().nullable(),
+  });
+
+// Split a "limit + 1" fetch into a page and the cursor for the next one
+export const toPage = <A>(
+  rows: ReadonlyArray<A>,
+  limit: number,
+  cursorOf: (row: A) => Cursor
+) => {
+  const items = rows.slice(0, limit);
+  const last = items[items.length - 1];
+  return {
+    items,
+    nextCursor:
+      rows.length > limit && last ? encodeCursor(cursorOf(last)) : null,
+  };
+};
@@ -0,0 +1,45 @@
+import { z } from "zod";
+import { PageInputSchema } from "./pagination";
+import { TimeAgoInputSchema } from "./time_ago";
+import { UserSchema } from "./users";
+
+// Someone's profile page header
+export const ProfileSchema = UserSchema.omit({ role: true }).extend({
+  displayName: z.string().optional(),
+  bio: z.string().optional(),
+  website: z.string().optional(),
+  isPrivate: z.boolean(), // Only followers see their posts
+  postCount: z.number(),
+  followers: z.number(),
+  following: z.number(),
+  followedByMe: z.boolean(), // Always false when logged out
+  canSeePosts: z.boolean(), // Whether getUserPosts will show them to you
+});
+
+export type Profile = z.infer<typeof ProfileSchema>;
+
+export const GetProfileSchema = z.object({
+  username: z.string().min(1, "Username is required"),
+});
+
+// Input schema for editing your own profile - fields left out stay as
+// they are, "" clears display name, bio and website
+export const UpdateProfileSchema = z.object({
+  displayName: z.string().trim().max(30, "Display name too long").optional(),
+  bio: z.string().trim().max(150, "Bio too long").optional(),
+  userAvatar: z.url({ error: "Must be a valid URL" }).optional(),
+  website: z
+    .union([
+      z.literal(""),
+      z.url({ protocol: /^https?$/, error: "Must be an http(s) URL" }),
+    ])
+    .optional(),
+  isPrivate: z.boolean().optional(),
+});
+
+// Input schema for the grid on someone's profile, newest first
+export const GetUserPostsSchema = z.object({
+  username: z.string().min(1, "Username is required"),
+  ...PageInputSchema.shape,
+  ...TimeAgoInputSchema.shape,
+});
@@ -0,0 +1,70 @@
+import { z } from "zod";
+import { IdSchema } from "./ids";
+import { PageInputSchema } from "./pagination";
+import { TimeAgoInputSchema } from "./time_ago";
+
+// Nobody needs more than this many collections
+export const MAX_COLLECTIONS = 100;
+
+const CollectionNameSchema = z
+  .string()
+  .trim()
+  .min(1, "Collection name is required")
+  .max(50, "Collection name too long");
+
+// A named group of saved posts; only its owner sees it
+export const CollectionSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  postCount: z.number(),
+  createdAt: z.string(), // ISO timestamp
+  updatedAt: z.string(), // ISO timestamp of the last rename or added post
+});
+
+export type CollectionView = z.infer<typeof CollectionSchema>;
+
+// Input schema for bookmarking a post, optionally straight into a collection
+export const SavePostSchema = z.object({
+  postId: IdSchema("Post ID"),
+  collectionId: IdSchema("Collection ID").optional(),
+});
+
+// Input schema for removing a bookmark - also from every collection
+export const UnsavePostSchema = z.object({
+  postId: IdSchema("Post ID"),
+});
+
+export const SaveStateSchema = z.object({
+  postId: z.string(),
+  saved: z.boolean(),
+});
+
+export const CreateCollectionSchema = z.object({
+  name: CollectionNameSchema,
+});
+
+export const RenameCollectionSchema = z.object({
+  collectionId: IdSchema("Collection ID"),
+  name: CollectionNameSchema,
+});
+
+export const DeleteCollectionSchema = z.object({
+  collectionId: IdSchema("Collection ID"),
+});
+
+// Input schema for adding a post to a collection (saving it too) or
+// taking it out again (the post stays saved)
+export const CollectionPostSchema = z.object({
+  collectionId: IdSchema("Collection ID"),
+  postId: IdSchema("Post ID"),
+});
+
+// Input schema for paging through saved posts - all of them, or one
+// collection's - most recently saved first
+export const GetSavedPostsSchema = z
+  .object({
+    collectionId: IdSchema("Collection ID").optional(),
+    ...PageInputSchema.shape,
+    ...TimeAgoInputSchema.shape,
+  })
+  .prefault({});
@@ -0,0 +1,47 @@
+import { z } from "zod";
+import { CommentSchema, PostSchema } from "./insta_posts";
+import { CursorSchema, PageSchema } from "./pagination";
+import { TimeAgoInputSchema } from "./time_ago";
+import { UserSchema } from "./users";
+
+export const SEARCH_KINDS = ["posts", "comments", "users"] as const;
+
+// Input schema for searching captions, comments and usernames. Each kind
+// is its own page: to load more of one, ask for just that kind with the
+// nextCursor it came back with.
+export const SearchSchema = z.object({
+  query: z
+    .string()
+    .trim()
+    .min(1, "Search query is required")
+    .max(100, "Search query too long"),
+  kinds: z
+    .array(z.enum(SEARCH_KINDS))
+    .min(1)
+    .default([...SEARCH_KINDS]),
+  // Match the last word as typed so far - "sun" finds "sunset"
+  prefix: z.boolean().default(true),
+  cursors: z
+    .object({
+      posts: CursorSchema.optional(),
+      comments: CursorSchema.optional(),
+      users: CursorSchema.optional(),
+    })
+    .default({}),
+  limit: z.number().int().min(1).max(50).default(10), // Per kind
+  ...TimeAgoInputSchema.shape,
+});
+
+// A comment or reply that matched, with where it sits
+export const CommentMatchSchema = z.object({
+  postId: z.string(),
+  parentCommentId: z.string().optional(), // Set for replies
+  comment: CommentSchema,
+});
+
+// Best matches first within each kind; kinds that weren't asked for are empty
+export const SearchResultsSchema = z.object({
+  posts: PageSchema(PostSchema),
+  comments: PageSchema(CommentMatchSchema),
+  users: PageSchema(UserSchema),
+});
@@ -0,0 +1,57 @@
+import { z } from "zod";
+import { IdSchema } from "./ids";
+import { MediaInputSchema, MediaItemSchema } from "./insta_posts";
+import { PageInputSchema } from "./pagination";
+import { TimeAgoInputSchema } from "./time_ago";
+import { UserSchema } from "./users";
+
+// How long a story stays up
+export const STORY_TTL_MS = 24 * 60 * 60 * 1000;
+
+// A single image that disappears STORY_TTL_MS after it was posted
+export const StorySchema = z.object({
+  id: z.string(),
+  userId: z.string(),
+  media: MediaItemSchema,
+  createdAt: z.string(), // ISO timestamp
+  expiresAt: z.string(), // ISO timestamp
+  timeAgo: z.string().optional(), // Set per request from createdAt
+  viewedByMe: z.boolean(),
+  viewCount: z.number().optional(), // Only shown to the author
+});
+
+export type Story = z.infer<typeof StorySchema>;
+
+// One circle in the stories tray: an author and their active stories,
+// oldest first so they play in order
+export const StoryGroupSchema = z.object({
+  author: UserSchema,
+  stories: z.array(StorySchema).min(1),
+  hasUnseen: z.boolean(),
+  latestAt: z.string(), // ISO timestamp of their newest story
+});
+
+export type StoryGroup = z.infer<typeof StoryGroupSchema>;
+
+// Input schema for posting a story - same rules as a post's media
+export const CreateStorySchema = z.object({
+  media: MediaInputSchema,
+});
+
+// Input schema for the stories tray - only how to show the times
+export const GetStoriesTraySchema = TimeAgoInputSchema.prefault({});
+
+export const MarkStoryViewedSchema = z.object({
+  storyId: IdSchema("Story ID"),
+});
+
+// Input schema for the author's list of who saw a story, most recent first
+export const GetStoryViewersSchema = z.object({
+  storyId: IdSchema("Story ID"),
+  ...PageInputSchema.shape,
+});
+
+export const StoryViewerSchema = z.object({
+  user: UserSchema,
+  viewedAt: z.string(), // ISO timestamp
+});
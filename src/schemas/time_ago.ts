@@ -0,0 +1,50 @@
+import { z } from "zod";
+
+const isSupportedLocale = (locale: string) => {
+  try {
+    return Intl.RelativeTimeFormat.supportedLocalesOf(locale).length > 0;
+  } catch {
+    return false; // Malformed language tag
+  }
+};
+
+// Shared input for how timeAgo is rendered - spread into each read
+// procedure's input schema. "short" gives "2h", "long" gives "2 hours ago".
+export const TimeAgoInputSchema = z.object({
+  // BCP 47 tag; only used by the "long" style
+  locale: z.string().refine(isSupportedLocale, "Unsupported locale").optional(),
+  timeAgoStyle: z.enum(["short", "long"]).default("short"),
+});
+
+export type TimeAgoFormat = z.infer<typeof TimeAgoInputSchema>;
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+// Largest unit first; anything under a minute is "now"
+const UNITS = [
+  { unit: "year", ms: 365 * DAY, short: "y" },
+  { unit: "week", ms: 7 * DAY, short: "w" },
+  { unit: "day", ms: DAY, short: "d" },
+  { unit: "hour", ms: HOUR, short: "h" },
+  { unit: "minute", ms: MINUTE, short: "m" },
+] as const;
+
+// Render how long before `now` something happened (both epoch ms)
+export const formatTimeAgo = (
+  then: number,
+  now: number,
+  { locale, timeAgoStyle }: TimeAgoFormat = { timeAgoStyle: "short" }
+) => {
+  const elapsed = Math.max(0, now - then);
+  const match = UNITS.find(({ ms }) => elapsed >= ms);
+  const value = match ? Math.floor(elapsed / match.ms) : 0;
+
+  if (timeAgoStyle === "short") {
+    return match ? `${value}${match.short}` : "now";
+  }
+  return new Intl.RelativeTimeFormat(locale ?? "en", {
+    numeric: "auto",
+  }).format(-value, match?.unit ?? "second");
+};
@@ -0,0 +1,46 @@
+import { z } from "zod";
+
+// Moderators work the moderation queue and see hidden content
+export const UserRoleSchema = z.enum(["user", "moderator"]);
+
+export type UserRole = z.infer<typeof UserRoleSchema>;
+
+// Public user profile - never includes credentials
+export const UserSchema = z.object({
+  id: z.string(),
+  username: z.string(),
+  userAvatar: z.string(),
+  role: UserRoleSchema.optional(), // Only on the logged-in user
+});
+
+export type User = z.infer<typeof UserSchema>;
+
+// Usernames follow Instagram's rules: letters, numbers, "." and "_"
+const UsernameSchema = z
+  .string()
+  .min(1, "Username is required")
+  .max(30, "Username too long")
+  .regex(/^[a-zA-Z0-9._]+$/, "Only letters, numbers, . and _ are allowed");
+
+// Input schema for creating an account
+export const SignupSchema = z.object({
+  username: UsernameSchema,
+  password: z
+    .string()
+    .min(8, "Password must be at least 8 characters")
+    .max(128, "Password too long"),
+  userAvatar: z.string().url("Must be a valid URL"),
+});
+
+// Input schema for logging in
+export const LoginSchema = z.object({
+  username: z.string().min(1, "Username is required"),
+  password: z.string().min(1, "Password is required"),
+});
+
+// Returned by signup/login - the token goes in `Authorization: Bearer <token>`
+export const SessionSchema = z.object({
+  token: z.string(),
+  expiresAt: z.number(),
+  user: UserSchema,
+});
@@ -0,0 +1,44 @@
+// Finding @mentions and #hashtags in captions and comments. Offsets are
+// UTF-16 indices into the text, so text.slice(start, end) is the entity.
+
+export type ParsedEntity =
+  | { type: "mention"; start: number; end: number; username: string }
+  | { type: "hashtag"; start: number; end: number; tag: string };
+
+// Same characters as usernames; not preceded by a word character so
+// emails like bob@example.com don't count
+const MENTION = /(?<![\w.@])@([A-Za-z0-9._]{1,30})/g;
+
+// Letters, numbers and "_" in any script, not all digits ("#1" isn't a tag)
+const HASHTAG = /(?<![\p{L}\p{N}_&#])#([\p{L}\p{M}\p{N}_]{1,100})/gu;
+
+// Hashtags match case-insensitively: #Sunset and #sunset are one tag
+export const normalizeHashtag = (tag: string) =>
+  tag.replace(/^#/, "").normalize("NFC").toLowerCase();
+
+// Every mention and hashtag in the text, in order
+export const parseEntities = (text: string): Array<ParsedEntity> => {
+  const mentions = [...text.matchAll(MENTION)].flatMap((match) => {
+    // A trailing "." ends the sentence, not the username
+    const username = match[1].replace(/\.+$/, "");
+    return username
+      ? [
+          {
+            type: "mention" as const,
+            start: match.index,
+            end: match.index + 1 + username.length,
+            username,
+          },
+        ]
+      : [];
+  });
+  const hashtags = [...text.matchAll(HASHTAG)]
+    .filter((match) => !/^[\p{N}_]+$/u.test(match[1]))
+    .map((match) => ({
+      type: "hashtag" as const,
+      start: match.index,
+      end: match.index + match[0].length,
+      tag: normalizeHashtag(match[1]),
+    }));
+  return [...mentions, ...hashtags].sort((a, b) => a.start - b.start);
+};
@@ -0,0 +1,44 @@
+// Turning what someone typed into search terms, plus the scoring the
+// in-memory repositories use where D1 would rank with FTS5's bm25
+
+// Words to match, all of them. With prefix set the last one also matches
+// longer words ("sun" finds "sunset") - for search-as-you-type.
+export type SearchQuery = { terms: Array<string>; prefix: boolean };
+
+// Longer queries are cut down to their first few words
+const MAX_TERMS = 8;
+
+// Lowercase words with accents dropped - what FTS5's unicode61 tokenizer
+// (remove_diacritics 2) indexes
+export const searchWords = (text: string) =>
+  text
+    .normalize("NFD")
+    .replace(/\p{M}/gu, "")
+    .toLowerCase()
+    .match(/[\p{L}\p{N}]+/gu) ?? [];
+
+export const parseSearchQuery = (
+  text: string,
+  prefix: boolean
+): SearchQuery => ({
+  terms: searchWords(text).slice(0, MAX_TERMS),
+  prefix,
+});
+
+// How well the text matches, higher is better; 0 when some term is missing.
+// Shorter texts with more hits rank first, roughly like bm25.
+export const scoreText = (query: SearchQuery, text: string) => {
+  const words = searchWords(text);
+  const last = query.terms.length - 1;
+  let hits = 0;
+  for (const [index, term] of query.terms.entries()) {
+    const matches = words.filter((word) =>
+      query.prefix && index === last ? word.startsWith(term) : word === term
+    ).length;
+    if (matches === 0) {
+      return 0;
+    }
+    hits += matches;
+  }
+  return hits / words.length;
+};
@@ -0,0 +1,184 @@
+import { initTRPC, TRPCError } from "@trpc/server";
+import { Cause, Effect, Exit, Layer, Option, Stream } from "effect";
+import type { PostsRepository } from "./repositories/posts_repository";
+import type { UsersRepository } from "./repositories/users_repository";
+import type { MediaStorage } from "./repositories/media_storage";
+import type { NotificationsRepository } from "./repositories/notifications_repository";
+import type { ModerationRepository } from "./repositories/moderation_repository";
+import type { SavedPostsRepository } from "./repositories/saved_posts_repository";
+import type { StoriesRepository } from "./repositories/stories_repository";
+import type { ConversationsRepository } from "./repositories/conversations_repository";
+import type { PostEvents } from "./realtime/post_events";
+import type { MessageLog } from "./messaging/message_log";
+import type { TextFilter } from "./moderation/text_filter";
+import type { IdGenerator } from "./ids/id_generator";
+import { isModerator } from "./moderation/visibility";
+import {
+  enforceRateLimit,
+  type RateLimitedAction,
+  type RateLimiter,
+} from "./rate_limit/rate_limiter";
+import { clientIp } from "./rate_limit/middleware";
+import type { User } from "./schemas/users";
+import { findSessionUser, readBearerToken } from "./auth/sessions";
+import { domainErrorData, toTRPCError, type AppError } from "./errors";
+
+// Every storage tag a procedure may depend on, plus the live event fan-out,
+// the message logs, the rate limiter's buckets, the text filter and the id
+// generator
+export type Repositories =
+  | PostsRepository
+  | UsersRepository
+  | NotificationsRepository
+  | ModerationRepository
+  | SavedPostsRepository
+  | StoriesRepository
+  | ConversationsRepository
+  | MediaStorage
+  | PostEvents
+  | MessageLog
+  | RateLimiter
+  | TextFilter
+  | IdGenerator;
+
+// Per-request context - the storage layer picked in src/index.ts
+// plus whoever the bearer token belongs to
+export type Context = {
+  repositories: Layer.Layer<Repositories>;
+  user: User | null;
+  sessionToken: string | null;
+  origin: string; // Public origin of this API, for building media URLs
+  ip: string | null; // Client address, for per-IP rate limits
+};
+
+// Build the context for one request from its Authorization header
+export const createContext = async (
+  repositories: Layer.Layer<Repositories>,
+  request: Request
+): Promise<Context> => {
+  const sessionToken = readBearerToken(request.headers.get("Authorization"));
+  const origin = new URL(request.url).origin;
+  const ip = clientIp(request);
+  if (!sessionToken) {
+    return { repositories, user: null, sessionToken: null, origin, ip };
+  }
+
+  const user = await Effect.runPromise(
+    findSessionUser(sessionToken).pipe(
+      Effect.tapError((error) => Effect.logError(error)),
+      Effect.provide(repositories)
+    )
+  );
+  return {
+    repositories,
+    user: Option.getOrNull(user),
+    sessionToken,
+    origin,
+    ip,
+  };
+};
+
+// Initialize tRPC - this is like setting up the foundation for our API.
+// Domain errors are exposed as `error.data.domainError` ({ _tag, ...fields })
+// so the frontend can switch on the tag.
+const t = initTRPC.context<Context>().create({
+  errorFormatter: ({ shape, error }) => ({
+    ...shape,
+    data: { ...shape.data, domainError: domainErrorData(error.cause) },
+  }),
+});
+
+// Create our router and procedure helpers
+export const router = t.router;
+export const mergeRouters = t.mergeRouters;
+export const createCallerFactory = t.createCallerFactory;
+export const publicProcedure = t.procedure;
+
+// Procedures that need a logged-in user - ctx.user is guaranteed non-null
+export const protectedProcedure = t.procedure.use(({ ctx, next }) => {
+  if (!ctx.user || !ctx.sessionToken) {
+    throw new TRPCError({
+      code: "UNAUTHORIZED",
+      message: "You must be logged in",
+    });
+  }
+  return next({
+    ctx: { ...ctx, user: ctx.user, sessionToken: ctx.sessionToken },
+  });
+});
+
+// Procedures for moderators only
+export const moderatorProcedure = protectedProcedure.use(({ ctx, next }) => {
+  if (!isModerator(ctx.user)) {
+    throw new TRPCError({
+      code: "FORBIDDEN",
+      message: "Only moderators can do that",
+    });
+  }
+  return next();
+});
+
+// Middleware for write procedures: spends a token from the caller's user
+// and IP buckets for the action, failing with TOO_MANY_REQUESTS (and a
+// Retry-After header) once either is empty
+export const rateLimited = (action: RateLimitedAction) =>
+  t.middleware(async ({ ctx, next }) => {
+    await runEffect(
+      ctx,
+      enforceRateLimit(action, { userId: ctx.user?.id, ip: ctx.ip })
+    );
+    return next();
+  });
+
+// Run a procedure's Effect against the request's storage. Failures are
+// logged and rethrown as tRPC errors (NOT_FOUND, FORBIDDEN, ...); defects
+// become a 500.
+export const runEffect = async <A>(
+  ctx: Context,
+  effect: Effect.Effect<A, AppError, Repositories>
+): Promise<A> => {
+  const exit = await Effect.runPromiseExit(
+    effect.pipe(
+      Effect.tapErrorCause((cause) => Effect.logError(cause)),
+      Effect.provide(ctx.repositories)
+    )
+  );
+  if (Exit.isSuccess(exit)) {
+    return exit.value;
+  }
+  const failure = Cause.failureOption(exit.cause);
+  if (Option.isSome(failure)) {
+    throw toTRPCError(failure.value);
+  }
+  throw new TRPCError({
+    code: "INTERNAL_SERVER_ERROR",
+    message: "Something went wrong",
+    cause: Cause.squash(exit.cause),
+  });
+};
+
+// Run a subscription's Stream against the request's storage as the async
+// iterable tRPC sends to the client. Failures map to tRPC errors like in
+// runEffect; the stream stops when the client goes away.
+export const runStream = <A>(
+  ctx: Context,
+  stream: Stream.Stream<A, AppError, Repositories>,
+  signal: AbortSignal | undefined
+): AsyncIterable<A> =>
+  Stream.toAsyncIterable(
+    stream.pipe(
+      Stream.tapErrorCause((cause) => Effect.logError(cause)),
+      Stream.mapError(toTRPCError),
+      Stream.interruptWhen(
+        Effect.async<void>((resume) => {
+          if (signal?.aborted) {
+            resume(Effect.void);
+          }
+          signal?.addEventListener("abort", () => resume(Effect.void), {
+            once: true,
+          });
+        })
+      ),
+      Stream.provideLayer(ctx.repositories)
+    )
+  );
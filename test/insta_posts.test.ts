@@ -0,0 +1,104 @@
+import { describe, expect, it } from "@effect/vitest";
+import { Effect } from "effect";
+import { postsService } from "../src/routes/insta_posts";
+import { PostsRepository } from "../src/repositories/posts_repository";
+import { TestRepositories, testPost, testUser } from "./layers";
+
+const author = testUser("author");
+
+// Effect to store a fresh post by the test author and return its id
+const insertPost = (id: string) =>
+  Effect.flatMap(PostsRepository, (repo) =>
+    repo.insertPost(testPost(author, id))
+  ).pipe(Effect.as(id));
+
+describe("likes", () => {
+  it.effect("counts 100 concurrent likes exactly once each", () =>
+    Effect.gen(function* () {
+      const id = yield* insertPost("p1");
+      const likers = Array.from({ length: 100 }, (_, i) => testUser(`u${i}`));
+
+      yield* Effect.forEach(
+        likers,
+        (user) => postsService.incrementLikes(user, id),
+        { concurrency: "unbounded", discard: true }
+      );
+
+      const post = yield* postsService.findPostById(id, null);
+      expect(post.likes).toBe(100);
+    }).pipe(Effect.provide(TestRepositories))
+  );
+
+  it.effect("liking twice counts once", () =>
+    Effect.gen(function* () {
+      const id = yield* insertPost("p1");
+      const user = testUser("u1");
+
+      yield* postsService.incrementLikes(user, id);
+      const post = yield* postsService.incrementLikes(user, id);
+      expect(post.likes).toBe(1);
+    }).pipe(Effect.provide(TestRepositories))
+  );
+
+  it.effect("unliking twice takes one like off", () =>
+    Effect.gen(function* () {
+      const id = yield* insertPost("p1");
+      const [first, second] = [testUser("u1"), testUser("u2")];
+      yield* postsService.incrementLikes(first, id);
+      yield* postsService.incrementLikes(second, id);
+
+      yield* postsService.decrementLikes(first, id);
+      const post = yield* postsService.decrementLikes(first, id);
+      expect(post.likes).toBe(1);
+    }).pipe(Effect.provide(TestRepositories))
+  );
+
+  it.effect("unliking a post never liked changes nothing", () =>
+    Effect.gen(function* () {
+      const id = yield* insertPost("p1");
+      yield* postsService.incrementLikes(testUser("u1"), id);
+
+      const post = yield* postsService.decrementLikes(testUser("u2"), id);
+      expect(post.likes).toBe(1);
+    }).pipe(Effect.provide(TestRepositories))
+  );
+});
+
+describe("edits", () => {
+  it.effect("bumps the version on each edit", () =>
+    Effect.gen(function* () {
+      const id = yield* insertPost("p1");
+
+      const post = yield* postsService.updatePost(author, {
+        id,
+        caption: "Second caption",
+        expectedVersion: 1,
+      });
+      expect(post.caption).toBe("Second caption");
+      expect(post.version).toBe(2);
+    }).pipe(Effect.provide(TestRepositories))
+  );
+
+  it.effect("fails with EditConflict on a stale version", () =>
+    Effect.gen(function* () {
+      const id = yield* insertPost("p1");
+      yield* postsService.updatePost(author, {
+        id,
+        caption: "Second caption",
+        expectedVersion: 1,
+      });
+
+      const error = yield* Effect.flip(
+        postsService.updatePost(author, {
+          id,
+          caption: "Lost update",
+          expectedVersion: 1,
+        })
+      );
+      expect(error._tag).toBe("EditConflict");
+
+      const post = yield* postsService.findPostById(id, null);
+      expect(post.caption).toBe("Second caption");
+    }).pipe(Effect.provide(TestRepositories))
+  );
+});
@@ -0,0 +1,88 @@
+import { Clock, Effect, Layer } from "effect";
+import { PostsRepositoryInMemory } from "../src/repositories/posts_repository_memory";
+import { UsersRepositoryInMemory } from "../src/repositories/users_repository_memory";
+import { UsersRepository } from "../src/repositories/users_repository";
+import { NotificationsRepositoryInMemory } from "../src/repositories/notifications_repository_memory";
+import { ModerationRepositoryInMemory } from "../src/repositories/moderation_repository_memory";
+import { SavedPostsRepositoryInMemory } from "../src/repositories/saved_posts_repository_memory";
+import { StoriesRepositoryInMemory } from "../src/repositories/stories_repository_memory";
+import { ConversationsRepositoryInMemory } from "../src/repositories/conversations_repository_memory";
+import { MediaStorageInMemory } from "../src/repositories/media_storage_memory";
+import { MediaStorage } from "../src/repositories/media_storage";
+import { PostEventsInMemory } from "../src/realtime/post_events_memory";
+import { MessageLogInMemory } from "../src/messaging/message_log_memory";
+import { RateLimiterInMemory } from "../src/rate_limit/rate_limiter_memory";
+import {
+  TextFilterFromRules,
+  defaultTextRules,
+} from "../src/moderation/text_filter";
+import { IdGenerator, makeUlidGenerator } from "../src/ids/id_generator";
+import type { User } from "../src/schemas/users";
+import type { Post } from "../src/schemas/insta_posts";
+
+// Everything the services need, in memory and fresh for every test
+export const TestRepositories = Layer.mergeAll(
+  PostsRepositoryInMemory,
+  NotificationsRepositoryInMemory,
+  ModerationRepositoryInMemory,
+  SavedPostsRepositoryInMemory,
+  StoriesRepositoryInMemory,
+  ConversationsRepositoryInMemory,
+  MediaStorageInMemory,
+  PostEventsInMemory,
+  MessageLogInMemory,
+  RateLimiterInMemory,
+  TextFilterFromRules(defaultTextRules(["badword"])),
+  Layer.sync(IdGenerator, makeUlidGenerator)
+).pipe(Layer.provideMerge(UsersRepositoryInMemory));
+
+export const testUser = (id: string): User => ({
+  id,
+  username: `user_${id}`,
+  userAvatar: `https://example.com/${id}.jpg`,
+});
+
+// Effect to sign the user up, so their name and avatar can be looked up
+export const insertUser = (user: User) =>
+  Effect.gen(function* () {
+    const users = yield* UsersRepository;
+    yield* users.insertUser(
+      { ...user, isPrivate: false, passwordHash: "", role: "user" },
+      yield* Clock.currentTimeMillis
+    );
+  });
+
+// Effect to store an image uploaded by the user and return its asset id
+export const uploadImage = (owner: User) =>
+  Effect.gen(function* () {
+    const storage = yield* MediaStorage;
+    const id = crypto.randomUUID();
+    yield* storage.putAsset(
+      {
+        id,
+        ownerId: owner.id,
+        contentType: "image/jpeg",
+        size: 4,
+        width: 1080,
+        height: 1920,
+      },
+      new ArrayBuffer(4)
+    );
+    return id;
+  });
+
+export const testPost = (author: User, id: string): Post => ({
+  id,
+  userId: author.id,
+  username: author.username,
+  userAvatar: author.userAvatar,
+  image: "https://example.com/photo.jpg",
+  media: [{ url: "https://example.com/photo.jpg", width: 1080, height: 1080 }],
+  caption: "First caption",
+  likes: 0,
+  createdAt: "2025-08-01T12:00:00.000Z",
+  updatedAt: "2025-08-01T12:00:00.000Z",
+  version: 1,
+  comments: [],
+  totalCommentsCount: 0,
+});
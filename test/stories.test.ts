@@ -0,0 +1,53 @@
+import { describe, expect, it } from "@effect/vitest";
+import { Effect, TestClock } from "effect";
+import { expireStories, storiesService } from "../src/routes/stories";
+import { UsersRepository } from "../src/repositories/users_repository";
+import { TestRepositories, insertUser, testUser, uploadImage } from "./layers";
+
+const author = testUser("author");
+const follower = testUser("follower");
+
+describe("story expiry", () => {
+  it.effect("drops a story from the tray and its viewers after a day", () =>
+    Effect.gen(function* () {
+      const users = yield* UsersRepository;
+      yield* insertUser(author);
+      yield* insertUser(follower);
+      yield* users.insertFollow(follower.id, author.id, 0);
+
+      const assetId = yield* uploadImage(author);
+      const story = yield* storiesService.createStory(
+        author,
+        { media: { assetId } },
+        "https://example.com"
+      );
+      yield* storiesService.markStoryViewed(follower, { storyId: story.id });
+
+      const tray = yield* storiesService.getStoriesTray(follower, {
+        timeAgoStyle: "short",
+      });
+      expect(tray.map((group) => group.author.id)).toEqual([author.id]);
+      const viewers = yield* storiesService.getStoryViewers(author, {
+        storyId: story.id,
+        limit: 10,
+      });
+      expect(viewers.items.map((view) => view.user.id)).toEqual([follower.id]);
+
+      yield* TestClock.adjust("25 hours");
+      expect(yield* expireStories).toBe(1);
+
+      expect(
+        yield* storiesService.getStoriesTray(follower, {
+          timeAgoStyle: "short",
+        })
+      ).toEqual([]);
+      const error = yield* Effect.flip(
+        storiesService.getStoryViewers(author, {
+          storyId: story.id,
+          limit: 10,
+        })
+      );
+      expect(error._tag).toBe("StoryNotFound");
+    }).pipe(Effect.provide(TestRepositories))
+  );
+});